@@ -0,0 +1,101 @@
+import { readFileSync } from 'fs';
+import { argv, env, exit } from 'process';
+import { createClient } from '@supabase/supabase-js';
+import { SONGS } from '@/types';
+import { loadBundledSongs } from '@/game/chart';
+import { verifySubmission, VerificationResult } from '@/game/verify';
+
+// ─── Score Verifier ───────────────────────────────────────────────────────────
+// Re-simulates submitted replays with the game's own judge and scoring code.
+//
+//   npm run verify-scores                    mark pending Supabase scores
+//   npm run verify-scores -- a.replay.json   check replay files (offline)
+//
+// Supabase mode needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; the service
+// role is the only one allowed to change a score's verification status.
+
+const BATCH_SIZE = 100;
+
+const songs = [...SONGS, ...loadBundledSongs()];
+
+function describe(result: VerificationResult): string {
+  const sim = result.simulated ? ` (simulated ${result.simulated.score})` : '';
+  return `${result.status.toUpperCase()}: ${result.reason}${sim}`;
+}
+
+function verifyFiles(paths: string[]): number {
+  let flagged = 0;
+  for (const path of paths) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (err) {
+      console.error(`${path}: couldn't read replay:`, err);
+      flagged++;
+      continue;
+    }
+    const claimed = (raw as { score?: unknown }).score;
+    const result = verifySubmission(songs, raw, { score: typeof claimed === 'number' ? claimed : -1 });
+    if (result.status === 'flagged') flagged++;
+    console.log(`${path}: ${describe(result)}`);
+  }
+  return flagged;
+}
+
+async function verifyPending(): Promise<number> {
+  const url = env.SUPABASE_URL;
+  const key = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or pass replay files to check.');
+    return 1;
+  }
+
+  const supabase = createClient(url, key, { auth: { persistSession: false } });
+  let checked = 0;
+  let flagged = 0;
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from('scores')
+      .select('id, score, mode, song_id, difficulty, created_at, replay_json')
+      .eq('verification', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    for (const row of data) {
+      const result = verifySubmission(songs, row.replay_json, {
+        score: row.score,
+        mode: row.mode,
+        songId: row.song_id,
+        difficulty: row.difficulty,
+        submittedAt: row.created_at,
+      });
+      const { error: updateError } = await supabase
+        .from('scores')
+        .update({ verification: result.status, verification_note: result.reason })
+        .eq('id', row.id);
+      if (updateError) throw updateError;
+
+      checked++;
+      if (result.status === 'flagged') {
+        flagged++;
+        console.log(`${row.id}: ${describe(result)}`);
+      }
+    }
+  }
+
+  console.log(`Checked ${checked} scores, flagged ${flagged}.`);
+  return 0;
+}
+
+const files = argv.slice(2);
+if (files.length > 0) {
+  exit(verifyFiles(files) > 0 ? 1 : 0);
+} else {
+  verifyPending().then(exit, err => {
+    console.error('Verification failed:', err);
+    exit(1);
+  });
+}
@@ -0,0 +1,121 @@
+import { AchievementId, AchievementTally, AchievementUnlock, GameEventType } from '@/types';
+
+// ─── Achievements ─────────────────────────────────────────────────────────────
+// Each achievement is a declarative rule over one gameplay event: which event
+// it listens to, which payload fields must match, and either how many matching
+// events it takes or (with `measure`) the payload value to reach. Progress is
+// kept as a tally per session and summed across sessions (counts add up, the
+// best measured value wins), the same way weekly challenges add up.
+
+export type AchievementEventType = Extract<
+  GameEventType,
+  'rhythm_hit' | 'rhythm_miss' | 'combo' | 'song_clear' | 'challenge_complete' | 'high_score'
+>;
+
+export const ACHIEVEMENT_EVENTS: AchievementEventType[] = [
+  'rhythm_hit', 'rhythm_miss', 'combo', 'song_clear', 'challenge_complete', 'high_score',
+];
+
+type FieldValue = string | number | boolean;
+
+export interface AchievementDef {
+  id: AchievementId;
+  name: string;
+  emoji: string;
+  description: string;
+  event: AchievementEventType;
+  where?: Record<string, FieldValue | FieldValue[]>;  // a list matches any of its values
+  measure?: string;  // numeric payload field to reach; otherwise matching events are counted
+  target: number;
+}
+
+export const ACHIEVEMENT_DEFS: AchievementDef[] = [
+  { id: 'first_song', name: 'First Steps', emoji: '👣', description: 'Dance a song to the end',
+    event: 'song_clear', target: 1 },
+  { id: 'songs_25', name: 'Marathon', emoji: '🏃', description: 'Dance 25 songs to the end',
+    event: 'song_clear', target: 25 },
+  { id: 'flawless', name: 'Flawless', emoji: '💎', description: 'Finish a song with grade S',
+    event: 'song_clear', where: { grade: 'S' }, target: 1 },
+  { id: 'straight_a', name: 'Straight A', emoji: '📝', description: 'Finish 10 songs with grade A or better',
+    event: 'song_clear', where: { grade: ['S', 'A'] }, target: 10 },
+  { id: 'hard_clear', name: 'Hardcore', emoji: '🔥', description: 'Finish a hard song',
+    event: 'song_clear', where: { difficulty: 'hard' }, target: 1 },
+  { id: 'combo_50', name: 'On a Roll', emoji: '🎳', description: 'Build a combo of 50',
+    event: 'combo', measure: 'combo', target: 50 },
+  { id: 'combo_100', name: 'Unstoppable', emoji: '🚂', description: 'Build a combo of 100',
+    event: 'combo', measure: 'combo', target: 100 },
+  { id: 'perfects_1000', name: 'Perfectionist', emoji: '🎯', description: 'Land 1000 perfect hits',
+    event: 'rhythm_hit', where: { rating: 'perfect' }, target: 1000 },
+  { id: 'clumsy', name: 'Two Left Feet', emoji: '🦶', description: 'Miss 100 notes',
+    event: 'rhythm_miss', target: 100 },
+  { id: 'personal_best', name: 'Personal Best', emoji: '🏅', description: 'Beat your best score',
+    event: 'high_score', target: 1 },
+  { id: 'daily_regular', name: 'Regular', emoji: '📅', description: 'Complete 7 daily challenges',
+    event: 'challenge_complete', where: { tier: 'daily' }, target: 7 },
+  { id: 'weekly_winner', name: 'Weekly Winner', emoji: '📆', description: 'Complete a weekly challenge',
+    event: 'challenge_complete', where: { tier: 'weekly' }, target: 1 },
+  { id: 'season_star', name: 'Season Star', emoji: '🌟', description: 'Complete a seasonal event',
+    event: 'challenge_complete', where: { tier: 'seasonal' }, target: 1 },
+];
+
+export const ACHIEVEMENTS = Object.fromEntries(ACHIEVEMENT_DEFS.map(d => [d.id, d])) as Record<AchievementId, AchievementDef>;
+
+// ─── Evaluation ───────────────────────────────────────────────────────────────
+
+export function matchesEvent(def: AchievementDef, type: GameEventType, data: unknown): boolean {
+  if (def.event !== type) return false;
+  const fields = (data ?? {}) as Record<string, unknown>;
+  return Object.entries(def.where ?? {}).every(([field, expected]) =>
+    Array.isArray(expected) ? expected.includes(fields[field] as FieldValue) : fields[field] === expected);
+}
+
+/** `tally` advanced by one event */
+export function applyAchievementEvent(tally: AchievementTally, type: GameEventType, data: unknown): AchievementTally {
+  let next = tally;
+  for (const def of ACHIEVEMENT_DEFS) {
+    if (!matchesEvent(def, type, data)) continue;
+    const value = def.measure ? Number((data as Record<string, unknown>)[def.measure]) || 0 : 1;
+    next = { ...next, [def.id]: combine(def, next[def.id], value) };
+  }
+  return next;
+}
+
+function combine(def: AchievementDef, a = 0, b = 0): number {
+  return def.measure ? Math.max(a, b) : a + b;
+}
+
+/** Two tallies (sessions, devices) as one: counts add up, measured bests take the higher */
+export function addAchievementTallies(a: AchievementTally, b: AchievementTally): AchievementTally {
+  const sum: AchievementTally = { ...a };
+  for (const def of ACHIEVEMENT_DEFS) {
+    if (b[def.id] !== undefined) sum[def.id] = combine(def, a[def.id], b[def.id]);
+  }
+  return sum;
+}
+
+/** Achievements `tally` has reached that aren't in `unlocked` yet */
+export function newlyUnlocked(tally: AchievementTally, unlocked: Iterable<AchievementId>): AchievementId[] {
+  const have = new Set(unlocked);
+  return ACHIEVEMENT_DEFS.filter(d => !have.has(d.id) && (tally[d.id] ?? 0) >= d.target).map(d => d.id);
+}
+
+export interface AchievementStatus {
+  def: AchievementDef;
+  current: number;  // capped at the target
+  unlockedAt: string | null;
+}
+
+/** Every achievement with its progress, in definition order */
+export function achievementStatuses(
+  tally: AchievementTally,
+  unlocks: AchievementUnlock[]
+): AchievementStatus[] {
+  return ACHIEVEMENT_DEFS.map(def => {
+    const unlockedAt = unlocks.find(u => u.id === def.id)?.unlockedAt ?? null;
+    return {
+      def,
+      current: unlockedAt ? def.target : Math.min(tally[def.id] ?? 0, def.target),
+      unlockedAt,
+    };
+  });
+}
@@ -0,0 +1,324 @@
+import { DanceAnimation, DanceMoveId, Easing, JointKey, JointPose, JOINT_KEYS } from '@/types';
+
+// ─── Animation Clips ──────────────────────────────────────────────────────────
+// Dance moves are data: keyframes of joint angles placed in beats, so a clip
+// speeds up and slows down with the song. Each joint is interpolated between
+// the frames that key it, with the easing of the earlier frame; a looping
+// clip wraps from its last key back round to its first. The Animator plays
+// one clip at a time, crossfading from the pose it was in when the next one
+// starts, and adds short one-shot layers (hit reactions) on top.
+
+/** Tempo clips play at until the Animator is told the song's */
+export const REFERENCE_BPM = 120;
+const DEFAULT_FADE_BEATS = 0.5;
+
+/** Joint angles the character stands in when nothing is keyed */
+export const REST_POSE: Record<JointKey, number> = {
+  leftShoulder: -0.3,
+  leftElbow: 0.4,
+  rightShoulder: 0.3,
+  rightElbow: -0.4,
+  leftHip: -0.15,
+  leftKnee: 0.2,
+  rightHip: 0.15,
+  rightKnee: -0.2,
+  torsoTilt: 0,
+  headBob: 0,
+};
+
+// ─── Easing ───────────────────────────────────────────────────────────────────
+
+/** Progress `t` (0–1) along an easing curve */
+export function ease(easing: Easing, t: number): number {
+  const x = Math.max(0, Math.min(1, t));
+  switch (easing) {
+    case 'linear': return x;
+    case 'step': return x < 1 ? 0 : 1;
+    case 'easeIn': return x * x;
+    case 'easeOut': return 1 - (1 - x) * (1 - x);
+    case 'easeInOut': return x < 0.5 ? 2 * x * x : 1 - 2 * (1 - x) * (1 - x);
+  }
+}
+
+// ─── Sampling ─────────────────────────────────────────────────────────────────
+
+interface Key {
+  beat: number;
+  value: number;
+  ease: Easing;
+}
+
+function jointKeys(clip: DanceAnimation, joint: JointKey): Key[] {
+  const keys: Key[] = [];
+  for (const f of clip.frames) {
+    const value = f.joints[joint];
+    if (value !== undefined) keys.push({ beat: f.beat, value, ease: f.ease ?? 'easeInOut' });
+  }
+  return keys;
+}
+
+function sampleJoint(clip: DanceAnimation, joint: JointKey, beat: number): number | undefined {
+  const keys = jointKeys(clip, joint);
+  if (keys.length === 0) return undefined;
+
+  let i = keys.length - 1;
+  while (i >= 0 && keys[i].beat > beat) i--;
+  const first = keys[0];
+  const last = keys[keys.length - 1];
+
+  // Before the first key a loop comes round from the last; a one-shot waits on it
+  const prev = i >= 0 ? keys[i] : clip.loop ? { ...last, beat: last.beat - clip.beats } : null;
+  const next = i + 1 < keys.length ? keys[i + 1] : clip.loop ? { ...first, beat: first.beat + clip.beats } : null;
+  if (!prev) return first.value;
+  if (!next) return prev.value;
+
+  const span = next.beat - prev.beat;
+  const t = span > 0 ? (beat - prev.beat) / span : 1;
+  return prev.value + (next.value - prev.value) * ease(prev.ease, t);
+}
+
+/** Joint angles `beat` beats into `clip`; only joints the clip keys are set */
+export function sampleClip(clip: DanceAnimation, beat: number): JointPose {
+  const local = clip.loop
+    ? ((beat % clip.beats) + clip.beats) % clip.beats
+    : Math.max(0, Math.min(clip.beats, beat));
+  const pose: JointPose = {};
+  for (const joint of JOINT_KEYS) {
+    const value = sampleJoint(clip, joint, local);
+    if (value !== undefined) pose[joint] = value;
+  }
+  return pose;
+}
+
+/** `from` blended `weight` (0–1) of the way to `to` */
+export function blendPoses(
+  from: Record<JointKey, number>,
+  to: Record<JointKey, number>,
+  weight: number
+): Record<JointKey, number> {
+  const pose = { ...from };
+  for (const joint of JOINT_KEYS) pose[joint] = from[joint] + (to[joint] - from[joint]) * weight;
+  return pose;
+}
+
+// ─── Clips ────────────────────────────────────────────────────────────────────
+
+const ARMS_OUT = Math.PI / 2;
+const ROBOT_ELBOW = Math.PI / 3;
+
+export const DANCE_ANIMATIONS: Record<DanceMoveId, DanceAnimation> = {
+  // Gentle sway
+  idle: {
+    beats: 4,
+    loop: true,
+    frames: [
+      { beat: 0, joints: { torsoTilt: 0.04, leftShoulder: -0.25, rightShoulder: 0.35, headBob: 0.04 } },
+      { beat: 2, joints: { torsoTilt: -0.04, leftShoulder: -0.35, rightShoulder: 0.25, headBob: -0.04 } },
+    ],
+  },
+  // Hips and shoulders rocking against each other
+  wiggle: {
+    beats: 2,
+    loop: true,
+    frames: [
+      {
+        beat: 0.5,
+        joints: { torsoTilt: 0.25, leftShoulder: 0.1, rightShoulder: -0.1, leftHip: 0.05, rightHip: -0.05, headBob: 0.1 },
+      },
+      {
+        beat: 1.5,
+        joints: { torsoTilt: -0.25, leftShoulder: -0.7, rightShoulder: 0.7, leftHip: -0.35, rightHip: 0.35, headBob: -0.1 },
+      },
+    ],
+  },
+  // Stiff poses snapping on every beat
+  robot: {
+    beats: 2,
+    loop: true,
+    frames: [
+      {
+        beat: 0,
+        ease: 'step',
+        joints: {
+          torsoTilt: 0, headBob: 0, leftElbow: ROBOT_ELBOW, rightElbow: -ROBOT_ELBOW,
+          leftShoulder: -0.5, rightShoulder: 0.5, leftHip: -0.4, rightHip: 0.4,
+        },
+      },
+      { beat: 1, ease: 'step', joints: { leftShoulder: 0.5, rightShoulder: -0.5, leftHip: 0.4, rightHip: -0.4 } },
+    ],
+  },
+  // A wave rolling through the whole body, knees bent
+  worm: {
+    beats: 2,
+    loop: true,
+    frames: [
+      {
+        beat: 0.5,
+        joints: {
+          leftElbow: 0.6, rightElbow: -0.6, leftKnee: 0.8, rightKnee: -0.8,
+          torsoTilt: 0.5, leftShoulder: -0.4, rightShoulder: 0.4, leftHip: -0.3, rightHip: 0.3, headBob: 0.3,
+        },
+      },
+      {
+        beat: 1.5,
+        joints: { torsoTilt: -0.5, leftShoulder: -1.2, rightShoulder: 1.2, leftHip: -0.9, rightHip: 0.9, headBob: -0.3 },
+      },
+    ],
+  },
+  // Everything everywhere, every half beat
+  flail: {
+    beats: 2,
+    loop: true,
+    frames: [
+      {
+        beat: 0,
+        ease: 'easeOut',
+        joints: {
+          torsoTilt: 0.3, headBob: 0.2, leftShoulder: 1.2, leftElbow: 0.8, rightShoulder: -0.6, rightElbow: -0.4,
+          leftHip: 0.4, rightHip: -0.2,
+        },
+      },
+      {
+        beat: 0.5,
+        ease: 'easeOut',
+        joints: {
+          torsoTilt: -0.1, headBob: -0.2, leftShoulder: -0.4, leftElbow: -0.6, rightShoulder: 1.2, rightElbow: 0.8,
+          leftHip: -0.3, rightHip: 0.4,
+        },
+      },
+      {
+        beat: 1,
+        ease: 'easeOut',
+        joints: {
+          torsoTilt: -0.3, headBob: 0.15, leftShoulder: -1.2, leftElbow: 0.2, rightShoulder: 0.3, rightElbow: -0.8,
+          leftHip: 0.1, rightHip: -0.4,
+        },
+      },
+      {
+        beat: 1.5,
+        ease: 'easeOut',
+        joints: {
+          torsoTilt: 0.2, headBob: -0.1, leftShoulder: 0.6, leftElbow: -0.8, rightShoulder: -1.2, rightElbow: 0.5,
+          leftHip: -0.4, rightHip: 0.2,
+        },
+      },
+    ],
+  },
+  // Arms out for the turn (the body's rotation is the character's own)
+  spin: {
+    beats: 1,
+    loop: true,
+    frames: [
+      {
+        beat: 0,
+        joints: {
+          leftShoulder: -ARMS_OUT, rightShoulder: ARMS_OUT, leftElbow: 0, rightElbow: 0, leftHip: -0.4, rightHip: 0.4,
+          torsoTilt: 0.15, headBob: 0.05,
+        },
+      },
+      { beat: 0.5, joints: { torsoTilt: -0.15, headBob: -0.05 } },
+    ],
+  },
+  // Stand-in for a player's recorded move — the character plays the saved clip itself
+  custom: {
+    beats: 2,
+    loop: true,
+    frames: [
+      { beat: 0, joints: { torsoTilt: 0.1, headBob: 0.1 } },
+      { beat: 1, joints: { torsoTilt: -0.1, headBob: -0.1 } },
+    ],
+  },
+};
+
+/** A one-shot additive kick: `joints` swing by `amount` and settle back within half a beat */
+export function reactionClip(joints: JointKey[], amount: number): DanceAnimation {
+  const pose = (value: number): JointPose => Object.fromEntries(joints.map(j => [j, value]));
+  return {
+    beats: 0.5,
+    loop: false,
+    frames: [
+      { beat: 0, ease: 'easeOut', joints: pose(0) },
+      { beat: 0.125, joints: pose(amount) },
+      { beat: 0.5, joints: pose(0) },
+    ],
+  };
+}
+
+// ─── Animator ─────────────────────────────────────────────────────────────────
+
+interface Layer {
+  clip: DanceAnimation;
+  beat: number;
+}
+
+export class Animator {
+  private bpm = REFERENCE_BPM;
+  private clip: DanceAnimation;
+  private beat = 0;
+  private fromPose: Record<JointKey, number> | null = null;
+  private fadeBeats = 0;
+  private fadeBeat = 0;
+  private layers: Layer[] = [];
+
+  constructor(clip: DanceAnimation) {
+    this.clip = clip;
+  }
+
+  /** Play clips at the song's tempo */
+  setTempo(bpm: number): void {
+    this.bpm = bpm;
+  }
+
+  /** Beats that pass in `dt` seconds at the current tempo */
+  beats(dt: number): number {
+    return dt * (this.bpm / 60);
+  }
+
+  /** Switch to `clip` from its start, crossfading over `fadeBeats` */
+  play(clip: DanceAnimation, fadeBeats = DEFAULT_FADE_BEATS): void {
+    this.fromPose = fadeBeats > 0 ? this.basePose() : null;
+    this.fadeBeats = fadeBeats;
+    this.fadeBeat = 0;
+    this.clip = clip;
+    this.beat = 0;
+  }
+
+  /** Add `clip`, scaled by `weight`, on top of whatever plays; it's dropped once it ends */
+  addLayer(clip: DanceAnimation, weight = 1): void {
+    const scaled = weight === 1 ? clip : {
+      ...clip,
+      frames: clip.frames.map(f => ({
+        ...f,
+        joints: Object.fromEntries(Object.entries(f.joints).map(([j, v]) => [j, v * weight])),
+      })),
+    };
+    this.layers.push({ clip: scaled, beat: 0 });
+  }
+
+  update(dt: number): void {
+    const beats = this.beats(dt);
+    this.beat += beats;
+    if (this.fromPose) {
+      this.fadeBeat += beats;
+      if (this.fadeBeat >= this.fadeBeats) this.fromPose = null;
+    }
+    for (const layer of this.layers) layer.beat += beats;
+    this.layers = this.layers.filter(l => l.beat < l.clip.beats);
+  }
+
+  /** Target angle for every joint: the clip (or crossfade), plus the layers */
+  pose(): Record<JointKey, number> {
+    const pose = this.basePose();
+    for (const layer of this.layers) {
+      const offsets = sampleClip(layer.clip, layer.beat);
+      for (const joint of JOINT_KEYS) pose[joint] += offsets[joint] ?? 0;
+    }
+    return pose;
+  }
+
+  private basePose(): Record<JointKey, number> {
+    const pose = { ...REST_POSE, ...sampleClip(this.clip, this.beat) };
+    if (!this.fromPose) return pose;
+    return blendPoses(this.fromPose, pose, ease('easeInOut', this.fadeBeat / this.fadeBeats));
+  }
+}
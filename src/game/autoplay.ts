@@ -0,0 +1,102 @@
+import { ReplayData, ReplayInput, ReplayInputKind, SongDefinition, TapZone, TAP_ZONES } from '@/types';
+import { RhythmJudge, JudgeTarget, zoneAt, zoneColumn, zoneRow, columnCenter, slideHeadX, RAIL_Y } from '@/game/judge';
+import { getSongLengthBeats } from '@/game/chart';
+import { ReplayRecorder, createRng, INPUT_DOWN, INPUT_UP, INPUT_MOVE } from '@/game/replay';
+import { simulateReplay } from '@/game/verify';
+
+// ─── Auto-play ────────────────────────────────────────────────────────────────
+// A bot that plays a song by itself: it presses each target at its hitTime,
+// give or take some seeded jitter, keeps holds down to their end and follows
+// slides across. Its presses are replay inputs, so they go through the same
+// judging path as a player's taps or a recording's. Times are judge times:
+// a session the bot plays runs without latency offsets.
+
+const TAP_MS = 60;          // how long a tap stays down
+const RELEASE_MS = 40;      // holds and slides are let go this long after they end
+const SLIDE_STEP_MS = 50;   // how often the pointer follows a slide head
+const POINTER_BASE = 1000;  // one pointer per target, numbered from here
+
+export const AUTOPLAY_PLAYER = '🤖 Auto-play';
+
+/** Where the bot touches for `zone`, as per-mille of the canvas */
+function zonePoint(zone: TapZone): [number, number] {
+  const y = zoneRow(zone) === 'upper' ? RAIL_Y / 2 : (1 + RAIL_Y) / 2;
+  return [Math.round(columnCenter(zoneColumn(zone)) * 1000), Math.round(y * 1000)];
+}
+
+function botInput(ms: number, kind: ReplayInputKind, x: number, y: number, pointerId: number): ReplayInput {
+  return [ms, kind, x, y, pointerId, TAP_ZONES.indexOf(zoneAt(x / 1000, y / 1000))];
+}
+
+export class AutoPlayer {
+  private jitterMs: number;
+  private rng: () => number;
+  private seen = new Set<number>();
+  private queue: ReplayInput[] = [];
+
+  constructor(jitterMs = 0, seed = 1) {
+    this.jitterMs = jitterMs;
+    this.rng = createRng(seed);
+  }
+
+  /**
+   * Inputs due by `songTime`, in order, each returned once. Targets not seen
+   * before are aimed at first, so call this with what's on screen every frame.
+   */
+  due(targets: readonly JudgeTarget[], songTime: number): ReplayInput[] {
+    const fresh = targets.filter(t => t.state === 'active' && !this.seen.has(t.id));
+    for (const t of fresh) {
+      this.seen.add(t.id);
+      this.queue.push(...this.aim(t));
+    }
+    if (fresh.length > 0) this.queue.sort((a, b) => a[0] - b[0]);
+
+    const ms = songTime * 1000;
+    let count = 0;
+    while (count < this.queue.length && this.queue[count][0] <= ms) count++;
+    return this.queue.splice(0, count);
+  }
+
+  /** Press, follow and release one target */
+  private aim(t: JudgeTarget): ReplayInput[] {
+    const pointerId = POINTER_BASE + t.id;
+    const [x, y] = zonePoint(t.zone);
+    const down = Math.round(t.hitTime * 1000 + this.jitterMs * (this.rng() * 2 - 1));
+    const inputs = [botInput(down, INPUT_DOWN, x, y, pointerId)];
+
+    if (t.kind === 'tap') {
+      inputs.push(botInput(down + TAP_MS, INPUT_UP, x, y, pointerId));
+      return inputs;
+    }
+
+    const up = Math.round(t.endTime * 1000) + RELEASE_MS;
+    if (t.kind === 'slide') {
+      for (let ms = down + SLIDE_STEP_MS; ms < up; ms += SLIDE_STEP_MS) {
+        inputs.push(botInput(ms, INPUT_MOVE, Math.round(slideHeadX(t, ms / 1000) * 1000), y, pointerId));
+      }
+    }
+    inputs.push(botInput(up, INPUT_UP, zonePoint(t.endZone)[0], y, pointerId));
+    return inputs;
+  }
+}
+
+/**
+ * The bot's whole run of `song` as a replay, judged and scored. Deterministic
+ * for a given jitter and seed, so tests can drive scoring end-to-end with it.
+ */
+export function autoplayReplay(song: SongDefinition, jitterMs = 0, seed = 1): ReplayData {
+  const judge = new RhythmJudge(song);
+  judge.start();
+  const totalBeats = getSongLengthBeats(song);
+  for (let beat = 0; beat < totalBeats; beat++) judge.onBeatFired(beat);
+
+  const recorder = new ReplayRecorder(song.id, seed, [0, 0], AUTOPLAY_PLAYER);
+  for (const input of new AutoPlayer(jitterMs, seed).due(judge.getTargets(), Infinity)) {
+    const [ms, kind, x, y, pointerId, zone] = input;
+    recorder.recordInput(ms, kind, x, y, pointerId, TAP_ZONES[zone]);
+  }
+
+  const provisional = recorder.finish(0);
+  const sim = simulateReplay(song, provisional);
+  return { ...provisional, score: sim.score, hits: sim.hits };
+}
@@ -0,0 +1,60 @@
+import { LatencyCalibration } from '@/types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const CALIBRATION_BPM = 100;
+export const CALIBRATION_WARMUP_BEATS = 4;   // beats played before taps count
+export const CALIBRATION_TAPS = 12;          // taps collected per phase
+
+const MIN_VALID_TAPS = 6;
+const OUTLIER_SEC = 0.08;                     // taps further than this from the median are dropped
+const MAX_OFFSET_MS = 400;
+
+// ─── Offset Estimation ────────────────────────────────────────────────────────
+
+export interface OffsetEstimate {
+  offsetMs: number;  // mean tap error, positive = taps land after the beat
+  spreadMs: number;  // mean absolute deviation of the kept taps
+  used: number;      // taps kept after outlier rejection
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Estimate a latency offset from tap times and the beat times they were
+ * aiming for (both on the audio clock, in seconds). Each tap is matched to
+ * its nearest beat, outliers around the median are discarded and the rest
+ * averaged. Returns null when there are too few consistent taps.
+ */
+export function estimateOffset(tapTimes: number[], beatTimes: number[]): OffsetEstimate | null {
+  if (beatTimes.length === 0) return null;
+
+  const errors = tapTimes.map(tap => {
+    let best = Infinity;
+    for (const beat of beatTimes) {
+      if (Math.abs(tap - beat) < Math.abs(best)) best = tap - beat;
+    }
+    return best;
+  });
+  if (errors.length < MIN_VALID_TAPS) return null;
+
+  const mid = median(errors);
+  const kept = errors.filter(e => Math.abs(e - mid) <= OUTLIER_SEC);
+  if (kept.length < MIN_VALID_TAPS) return null;
+
+  const mean = kept.reduce((sum, e) => sum + e, 0) / kept.length;
+  const spread = kept.reduce((sum, e) => sum + Math.abs(e - mean), 0) / kept.length;
+
+  const offsetMs = Math.max(-MAX_OFFSET_MS, Math.min(MAX_OFFSET_MS, Math.round(mean * 1000)));
+  return { offsetMs, spreadMs: Math.round(spread * 1000), used: kept.length };
+}
+
+/** Offsets in seconds for RhythmEngine.setLatency; zero when uncalibrated */
+export function latencyOffsetsSec(calibration: LatencyCalibration | undefined): { audio: number; visual: number } {
+  if (!calibration) return { audio: 0, visual: 0 };
+  return { audio: calibration.audioOffsetMs / 1000, visual: calibration.visualOffsetMs / 1000 };
+}
@@ -1,14 +1,22 @@
 import * as PIXI from 'pixi.js';
+import Matter from 'matter-js';
 import {
   CustomizationData,
   DanceMoveId,
+  DanceAnimation,
   Joint,
   createJoint,
   updateJoint,
   SkinTone,
   TapZone,
   HitRating,
+  JointKey,
+  JOINT_KEYS,
+  FacePose,
 } from '@/types';
+import { Ragdoll, RagdollPart, RagdollPose } from '@/game/ragdoll';
+import { Animator, DANCE_ANIMATIONS, REST_POSE, reactionClip } from '@/game/animation';
+import { FaceController, FaceLayout, FACE_LAYOUTS } from '@/game/face';
 
 // ─── Skin tone palette ────────────────────────────────────────────────────────
 
@@ -26,42 +34,39 @@ function hexToNum(hex: string): number {
   return parseInt(hex.replace('#', ''), 16);
 }
 
-// ─── Joint Rig ────────────────────────────────────────────────────────────────
+/** Whether two face poses differ enough to be worth redrawing */
+function facesDiffer(a: FacePose, b: FacePose): boolean {
+  return (Object.keys(a) as Array<keyof FacePose>).some(k => Math.abs(a[k] - b[k]) > 0.002);
+}
 
-interface CharacterJoints {
-  // Arms
-  leftShoulder: Joint;
-  leftElbow: Joint;
-  rightShoulder: Joint;
-  rightElbow: Joint;
-  // Legs
-  leftHip: Joint;
-  leftKnee: Joint;
-  rightHip: Joint;
-  rightKnee: Joint;
-  // Body
-  torsoTilt: Joint;
-  headBob: Joint;
+/** Wrap to (-π, π] so blends take the short way round */
+function wrapAngle(a: number): number {
+  return Math.atan2(Math.sin(a), Math.cos(a));
 }
 
+// ─── Joint Rig ────────────────────────────────────────────────────────────────
+
+type CharacterJoints = Record<JointKey, Joint>;
+
 function defaultJoints(): CharacterJoints {
+  const r = REST_POSE;
   return {
-    leftShoulder: createJoint(-0.3, 0.12, 0.65),
-    leftElbow: createJoint(0.4, 0.1, 0.7),
-    rightShoulder: createJoint(0.3, 0.12, 0.65),
-    rightElbow: createJoint(-0.4, 0.1, 0.7),
-    leftHip: createJoint(-0.15, 0.1, 0.7),
-    leftKnee: createJoint(0.2, 0.08, 0.75),
-    rightHip: createJoint(0.15, 0.1, 0.7),
-    rightKnee: createJoint(-0.2, 0.08, 0.75),
-    torsoTilt: createJoint(0, 0.08, 0.7),
-    headBob: createJoint(0, 0.05, 0.8),
+    leftShoulder: createJoint(r.leftShoulder, 0.12, 0.65),
+    leftElbow: createJoint(r.leftElbow, 0.1, 0.7),
+    rightShoulder: createJoint(r.rightShoulder, 0.12, 0.65),
+    rightElbow: createJoint(r.rightElbow, 0.1, 0.7),
+    leftHip: createJoint(r.leftHip, 0.1, 0.7),
+    leftKnee: createJoint(r.leftKnee, 0.08, 0.75),
+    rightHip: createJoint(r.rightHip, 0.1, 0.7),
+    rightKnee: createJoint(r.rightKnee, 0.08, 0.75),
+    torsoTilt: createJoint(r.torsoTilt, 0.08, 0.7),
+    headBob: createJoint(r.headBob, 0.05, 0.8),
   };
 }
 
 // ─── Zone → Joint mapping ─────────────────────────────────────────────────────
 
-const ZONE_TO_JOINTS: Record<TapZone, Array<keyof CharacterJoints>> = {
+const ZONE_TO_JOINTS: Record<TapZone, JointKey[]> = {
   'upper-left':   ['leftShoulder', 'leftElbow'],
   'upper-center': ['torsoTilt', 'headBob'],
   'upper-right':  ['rightShoulder', 'rightElbow'],
@@ -70,90 +75,16 @@ const ZONE_TO_JOINTS: Record<TapZone, Array<keyof CharacterJoints>> = {
   'lower-right':  ['rightHip', 'rightKnee'],
 };
 
-// ─── Dance Animation Definitions ──────────────────────────────────────────────
-
-type JointKey = keyof CharacterJoints;
-
-interface DanceFrame {
-  joints: Partial<Record<JointKey, number>>;
-  duration: number;
-}
-
-type DanceAnimation = DanceFrame[];
-
-// IDLE_ANIM: handled inline via default switch branch
-const _IDLE_ANIM: DanceAnimation = [{ joints: {}, duration: 1000 }];
-void _IDLE_ANIM;
-
-function getWiggleAnim(t: number): Partial<Record<JointKey, number>> {
-  const s = Math.sin(t * 4);
-  const c = Math.cos(t * 3);
-  return {
-    torsoTilt: s * 0.25,
-    leftShoulder: -0.3 + s * 0.4,
-    rightShoulder: 0.3 - s * 0.4,
-    leftHip: -0.15 + c * 0.2,
-    rightHip: 0.15 - c * 0.2,
-    headBob: s * 0.1,
-  };
-}
-
-function getRobotAnim(t: number): Partial<Record<JointKey, number>> {
-  const step = Math.floor(t * 3) % 2 === 0 ? 1 : -1;
-  return {
-    torsoTilt: 0,
-    leftShoulder: step * -0.5,
-    rightShoulder: step * 0.5,
-    leftElbow: Math.PI / 3,
-    rightElbow: -Math.PI / 3,
-    leftHip: step * -0.4,
-    rightHip: step * 0.4,
-    headBob: 0,
-  };
-}
+// ─── Ragdoll constants ────────────────────────────────────────────────────────
 
-function getWormAnim(t: number): Partial<Record<JointKey, number>> {
-  const s = Math.sin(t * 5);
-  return {
-    torsoTilt: s * 0.5,
-    leftShoulder: -0.8 + s * 0.4,
-    rightShoulder: 0.8 - s * 0.4,
-    leftElbow: 0.6,
-    rightElbow: -0.6,
-    leftHip: -0.6 + s * 0.3,
-    rightHip: 0.6 - s * 0.3,
-    leftKnee: 0.8,
-    rightKnee: -0.8,
-    headBob: s * 0.3,
-  };
-}
+const COLLAPSE_SEC = 1.6;   // default time spent fully limp
+const FAINT_SEC    = 3.0;   // time spent limp after a faint
+const RECOVER_SEC  = 0.8;   // blend time back to the spring-driven pose
 
-function getFlailAnim(t: number): Partial<Record<JointKey, number>> {
-  return {
-    torsoTilt: Math.sin(t * 7 + 1) * 0.3,
-    leftShoulder: Math.sin(t * 6) * 1.2,
-    leftElbow: Math.cos(t * 5) * 0.8,
-    rightShoulder: Math.cos(t * 7) * 1.2,
-    rightElbow: Math.sin(t * 6) * 0.8,
-    leftHip: Math.sin(t * 5) * 0.4,
-    rightHip: Math.cos(t * 5) * 0.4,
-    headBob: Math.sin(t * 8) * 0.2,
-  };
-}
+// ─── Animation constants ──────────────────────────────────────────────────────
 
-function getSpinAnim(t: number): Partial<Record<JointKey, number>> {
-  const s = Math.sin(t * 8);
-  return {
-    torsoTilt: s * 0.15,
-    leftShoulder: -Math.PI / 2,
-    rightShoulder: Math.PI / 2,
-    leftElbow: 0,
-    rightElbow: 0,
-    leftHip: -0.4,
-    rightHip: 0.4,
-    headBob: s * 0.05,
-  };
-}
+const SPIN_PER_BEAT = Math.PI;  // a full turn every two beats
+const REACTION_KICK: Record<Exclude<HitRating, 'miss'>, number> = { perfect: 0.8, good: 0.45 };
 
 // ─── Character ────────────────────────────────────────────────────────────────
 
@@ -163,6 +94,7 @@ export class Character {
   private customization: CustomizationData;
   private graphics: {
     head: PIXI.Graphics;
+    face: PIXI.Graphics;
     hairBack: PIXI.Graphics;
     hair: PIXI.Graphics;
     hat: PIXI.Graphics;
@@ -193,12 +125,21 @@ export class Character {
   };
 
   private currentMove: DanceMoveId = 'idle';
-  private moveTime = 0;
+  private animator = new Animator(DANCE_ANIMATIONS.idle);
+  private face = new FaceController();
+  private mood = { combo: 0, crowdEnergy: 0 };
+  private drawnFace: FacePose | null = null;
   private reactionTimer = 0;
   private wobbleIntensity = 0;
   private isSpinning = false;
   private spinAngle = 0;
 
+  // Ragdoll (optional — only active once enableRagdoll() is called)
+  private ragdoll: Ragdoll | null = null;
+  private ragdollTimer = 0;              // seconds left fully limp
+  private ragdollBlend = 0;              // 0 = spring pose, 1 = physics pose
+  private restPosition = { x: 0, y: 0 }; // container position before collapse
+
   // Proportions (px, character is ~200px tall at design size)
   private readonly HEAD_R = 26;
   private readonly TORSO_H = 60;
@@ -239,6 +180,7 @@ export class Character {
 
     return {
       head: g(),
+      face: g(),
       hairBack: g(),
       hair: g(),
       hat: g(),
@@ -309,6 +251,7 @@ export class Character {
 
     // Head, hair, accessories
     c.addChild(this.graphics.head);
+    c.addChild(this.graphics.face);
     c.addChild(this.graphics.hair);
     c.addChild(this.graphics.hat);
     c.addChild(this.graphics.glasses);
@@ -352,29 +295,6 @@ export class Character {
     }
     h.endFill();
 
-    // Eyes
-    h.beginFill(0xffffff);
-    h.drawCircle(-9, -4, 7);
-    h.drawCircle(9, -4, 7);
-    h.endFill();
-    h.beginFill(0x222222);
-    h.drawCircle(-9, -4, 4);
-    h.drawCircle(9, -4, 4);
-    h.endFill();
-    // Eye shine
-    h.beginFill(0xffffff);
-    h.drawCircle(-7, -6, 2);
-    h.drawCircle(11, -6, 2);
-    h.endFill();
-
-    // Eyebrows (two short diagonal lines above eyes)
-    h.lineStyle(2.5, 0x333333, 0.6);
-    h.moveTo(-15, -13);
-    h.lineTo(-4, -15);
-    h.moveTo(4, -15);
-    h.lineTo(15, -13);
-    h.lineStyle(0);
-
     // Nose (small skin-toned ellipse at center of face)
     h.beginFill(skinColor, 0.75);
     h.drawEllipse(0, 3, 3, 5);
@@ -385,10 +305,9 @@ export class Character {
     h.drawCircle(2.5, 5, 1.8);
     h.endFill();
 
-    // Mouth (smile)
-    h.lineStyle(2.5, 0x333333);
-    h.arc(0, 8, 9, 0.3, Math.PI - 0.3);
-    h.lineStyle(0);
+    // Eyes, brows and mouth are redrawn as the expression changes
+    this.drawnFace = null;
+    this.drawFace();
 
     // ── Hair ──────────────────────────────────────────────────────────────────
     this.drawHair(hairColor, skinColor, R);
@@ -397,7 +316,7 @@ export class Character {
     this.drawHat(hatColor, c.hat, R);
 
     // ── Glasses ───────────────────────────────────────────────────────────────
-    this.drawGlasses(glassesColor, c.glasses, R);
+    this.drawGlasses(glassesColor, c.glasses, FACE_LAYOUTS[c.faceShape]);
 
     // ── Neck ──────────────────────────────────────────────────────────────────
     const neck = this.graphics.neck;
@@ -583,41 +502,47 @@ export class Character {
     g.endFill();
   }
 
-  private drawGlasses(color: number, style: string, _R: number): void {
+  /** Lenses sit over the eyes wherever the face shape puts them */
+  private drawGlasses(color: number, style: string, L: FaceLayout): void {
     const g = this.graphics.glasses;
     g.clear();
     if (style === 'none') return;
 
+    const { eyeX: x, eyeY: y, eyeR: r } = L;
     g.lineStyle(2.5, color);
 
     switch (style) {
       case 'round':
-        g.drawCircle(-9, -4, 7);
-        g.drawCircle(9, -4, 7);
-        g.moveTo(-2, -4);
-        g.lineTo(2, -4);
+        g.drawCircle(-x, y, r);
+        g.drawCircle(x, y, r);
+        g.moveTo(-(x - r), y);
+        g.lineTo(x - r, y);
         break;
       case 'square':
-        g.drawRect(-17, -11, 14, 14);
-        g.drawRect(3, -11, 14, 14);
-        g.moveTo(-3, -4);
-        g.lineTo(3, -4);
+        g.drawRect(-x - r - 1, y - r, r * 2, r * 2);
+        g.drawRect(x - r + 1, y - r, r * 2, r * 2);
+        g.moveTo(-(x - r + 1), y);
+        g.lineTo(x - r + 1, y);
         break;
       case 'heart':
         g.lineStyle(0);
         g.beginFill(color, 0.7);
-        // simple heart approximation
-        for (const sx of [-1, 1]) {
-          g.drawCircle(sx * 12 - 3.5, -5, 5);
+        // A heart over each eye: two lobes and a point
+        for (const sx of [-x, x]) {
+          g.drawCircle(sx - r * 0.5, y - r * 0.3, r * 0.6);
+          g.drawCircle(sx + r * 0.5, y - r * 0.3, r * 0.6);
+          g.drawPolygon([sx - r * 1.05, y - r * 0.1, sx, y + r * 1.1, sx + r * 1.05, y - r * 0.1]);
         }
-        g.drawPolygon([-17, -3, 0, 8, 17, -3]);
         g.endFill();
+        g.lineStyle(2, color, 0.7);
+        g.moveTo(-(x - r * 0.6), y - r * 0.3);
+        g.lineTo(x - r * 0.6, y - r * 0.3);
         break;
       case 'shades':
         g.lineStyle(0);
         g.beginFill(color, 0.8);
-        g.drawEllipse(-9, -4, 9, 6);
-        g.drawEllipse(9, -4, 9, 6);
+        g.drawEllipse(-x, y, r + 2, r - 1);
+        g.drawEllipse(x, y, r + 2, r - 1);
         g.endFill();
         break;
     }
@@ -625,12 +550,112 @@ export class Character {
     g.lineStyle(0);
   }
 
+  // ─── Face ──────────────────────────────────────────────────────────────────
+
+  /** Eyes, brows, mouth and blush for the current expression (see src/game/face.ts) */
+  private drawFace(): void {
+    const f = this.face.face();
+    // Only redraw when something moved; dizzy swirls always turn
+    if (this.drawnFace && f.spiral < 0.01 && !facesDiffer(this.drawnFace, f)) return;
+    this.drawnFace = f;
+
+    const L = FACE_LAYOUTS[this.customization.faceShape];
+    const g = this.graphics.face;
+    g.clear();
+
+    // Eyes: plain eyes fade out as happy ^ ^ or dizzy swirls fade in
+    const plain = 1 - Math.max(f.eyeSmile, f.spiral);
+    const open = Math.max(0.08, f.eyeOpen);
+    for (const side of [-1, 1]) {
+      const ex = side * L.eyeX;
+      const ey = L.eyeY;
+
+      const white = Math.max(plain, f.spiral);
+      if (white > 0.01) {
+        g.beginFill(0xffffff, white);
+        g.drawEllipse(ex, ey, L.eyeR, L.eyeR * open);
+        g.endFill();
+      }
+      if (plain > 0.01) {
+        const px = ex + f.lookX;
+        const py = ey + f.lookY * open;
+        const pr = L.eyeR * 0.57 * f.pupil;
+        g.beginFill(0x222222, plain);
+        g.drawEllipse(px, py, pr, Math.min(pr, L.eyeR * open));
+        g.endFill();
+        if (open > 0.5) {
+          g.beginFill(0xffffff, plain);
+          g.drawCircle(px + 2, py - 2, 2);
+          g.endFill();
+        }
+      }
+      if (f.eyeSmile > 0.01) {
+        const r = L.eyeR * 0.7;
+        g.lineStyle(2.5, 0x222222, f.eyeSmile);
+        g.moveTo(ex + Math.cos(Math.PI + 0.4) * r, ey + 3 + Math.sin(Math.PI + 0.4) * r);
+        g.arc(ex, ey + 3, r, Math.PI + 0.4, Math.PI * 2 - 0.4);
+        g.lineStyle(0);
+      }
+      if (f.spiral > 0.01) {
+        g.lineStyle(1.5, 0x222222, f.spiral);
+        for (let k = 0; k <= 20; k++) {
+          const a = side * (this.face.spiral + k * 0.55);
+          const r = (L.eyeR * 0.9 * k) / 20;
+          if (k === 0) g.moveTo(ex, ey);
+          else g.lineTo(ex + Math.cos(a) * r, ey + Math.sin(a) * r);
+        }
+        g.lineStyle(0);
+      }
+    }
+
+    // Brows: raised or lowered, inner ends tilting down when determined
+    g.lineStyle(2.5, 0x333333, 0.6);
+    for (const side of [-1, 1]) {
+      g.moveTo(side * (L.eyeX - 5), L.browY - f.browLift - 1 + f.browTilt * 5);
+      g.lineTo(side * (L.eyeX + 6), L.browY - f.browLift + 1 - f.browTilt * 2);
+    }
+    g.lineStyle(0);
+
+    // Blush
+    if (f.blush > 0.01) {
+      g.beginFill(0xff6b8a, 0.5 * f.blush);
+      g.drawEllipse(-L.cheekX, L.cheekY, 5, 3);
+      g.drawEllipse(L.cheekX, L.cheekY, 5, 3);
+      g.endFill();
+    }
+
+    // Mouth: a curve (smile or frown) that can wobble, opening downwards
+    const steps = 10;
+    const top: number[] = [];
+    const bottom: number[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const x = -L.mouthW + (2 * L.mouthW * i) / steps;
+      const bulge = 1 - (x / L.mouthW) ** 2;
+      const wave = f.mouthWobble * Math.sin((i / steps) * Math.PI * 4) * 1.5;
+      const y = L.mouthY + f.mouthCurve * 8 * bulge + wave;
+      top.push(x, y);
+      bottom.unshift(x, y + f.mouthOpen * 9 * bulge);
+    }
+    g.lineStyle(2.5, 0x333333);
+    if (f.mouthOpen > 0.02) {
+      g.beginFill(0x5a1a2a);
+      g.drawPolygon([...top, ...bottom]);
+      g.endFill();
+    } else {
+      g.moveTo(top[0], top[1]);
+      for (let i = 2; i < top.length; i += 2) g.lineTo(top[i], top[i + 1]);
+    }
+    g.lineStyle(0);
+  }
+
   // ─── Update ────────────────────────────────────────────────────────────────
 
   update(dt: number): void {
-    this.moveTime += dt;
+    this.animator.update(dt);
     this.reactionTimer = Math.max(0, this.reactionTimer - dt);
     this.wobbleIntensity = Math.max(0, this.wobbleIntensity - dt * 2);
+    this.face.update(dt, { ...this.mood, wobble: this.wobbleIntensity, collapsed: this.isCollapsed });
+    this.drawFace();
 
     // Apply dance animation targets
     this.applyMoveTargets();
@@ -644,13 +669,13 @@ export class Character {
     }
 
     // Spring physics on all joints
-    for (const key of Object.keys(this.joints) as Array<keyof CharacterJoints>) {
+    for (const key of JOINT_KEYS) {
       updateJoint(this.joints[key], dt);
     }
 
     // Spin state
     if (this.currentMove === 'spin') {
-      this.spinAngle += dt * 5;
+      this.spinAngle += this.animator.beats(dt) * SPIN_PER_BEAT;
     } else {
       this.spinAngle = 0;
     }
@@ -663,46 +688,29 @@ export class Character {
       bubble.alpha = Math.max(0, bubble.alpha - dt * 3);
     }
 
+    // Ragdoll timers (blend out once the limp period ends)
+    if (this.ragdoll?.active) {
+      if (this.ragdollTimer > 0) {
+        this.ragdollTimer = Math.max(0, this.ragdollTimer - dt);
+      } else {
+        this.ragdollBlend = Math.max(0, this.ragdollBlend - dt / RECOVER_SEC);
+        if (this.ragdollBlend === 0) this.endRagdoll();
+      }
+    }
+
+    // Pull joints toward the physics pose while collapsed
+    const ragdollPose = this.ragdollBlend > 0 ? this.ragdoll?.readPose() ?? null : null;
+    if (ragdollPose) this.blendRagdollJoints(ragdollPose);
+
     // Redraw skeleton positions
     this.updatePose();
+
+    if (ragdollPose) this.blendRagdollContainer(ragdollPose);
   }
 
   private applyMoveTargets(): void {
-    const t = this.moveTime;
-    let targets: Partial<Record<keyof CharacterJoints, number>>;
-
-    switch (this.currentMove) {
-      case 'wiggle':
-        targets = getWiggleAnim(t);
-        break;
-      case 'robot':
-        targets = getRobotAnim(t);
-        break;
-      case 'worm':
-        targets = getWormAnim(t);
-        break;
-      case 'flail':
-        targets = getFlailAnim(t);
-        break;
-      case 'spin':
-        targets = getSpinAnim(t);
-        break;
-      default:
-        // Gentle idle sway
-        targets = {
-          torsoTilt: Math.sin(t * 1.2) * 0.04,
-          leftShoulder: -0.3 + Math.sin(t * 1.1) * 0.05,
-          rightShoulder: 0.3 + Math.sin(t * 0.9) * 0.05,
-          headBob: Math.sin(t * 1.5) * 0.04,
-        };
-    }
-
-    for (const [key, val] of Object.entries(targets)) {
-      const joint = this.joints[key as keyof CharacterJoints];
-      if (joint) {
-        joint.target = val as number;
-      }
-    }
+    const pose = this.animator.pose();
+    for (const key of JOINT_KEYS) this.joints[key].target = pose[key];
   }
 
   private updatePose(): void {
@@ -736,7 +744,7 @@ export class Character {
     head.rotation = j.headBob.angle * 0.5;
 
     // Hair and accessories follow head
-    for (const g of [this.graphics.hair, this.graphics.hairBack, this.graphics.hat, this.graphics.glasses]) {
+    for (const g of [this.graphics.face, this.graphics.hair, this.graphics.hairBack, this.graphics.hat, this.graphics.glasses]) {
       g.position.copyFrom(head.position);
       g.rotation = head.rotation;
     }
@@ -860,37 +868,119 @@ export class Character {
     return { midX, midY };
   }
 
+  // ─── Ragdoll blending ──────────────────────────────────────────────────────
+
+  /** Current skeleton pose in the ragdoll's absolute-angle convention */
+  private snapshotPose(): RagdollPose {
+    const j = this.joints;
+    const tilt = j.torsoTilt.angle;
+    const rot = this.container.rotation;
+    const angles: Record<RagdollPart, number> = {
+      torso: rot + tilt,
+      head: rot + j.headBob.angle * 0.5,
+      leftUpperArm: rot + j.leftShoulder.angle + tilt,
+      leftLowerArm: rot + j.leftShoulder.angle + tilt + j.leftElbow.angle,
+      rightUpperArm: rot + j.rightShoulder.angle + tilt,
+      rightLowerArm: rot + j.rightShoulder.angle + tilt + j.rightElbow.angle,
+      leftUpperLeg: rot + j.leftHip.angle,
+      leftLowerLeg: rot + j.leftHip.angle + j.leftKnee.angle,
+      rightUpperLeg: rot + j.rightHip.angle,
+      rightLowerLeg: rot + j.rightHip.angle + j.rightKnee.angle,
+    };
+    return { x: this.container.x, y: this.container.y, rotation: rot, angles };
+  }
+
+  private blendRagdollJoints(pose: RagdollPose): void {
+    const a = pose.angles;
+    const torso = a.torso;
+    const physicsAngles: Record<JointKey, number> = {
+      torsoTilt: 0, // whole-body rotation is carried by the container instead
+      headBob: (a.head - torso) * 2,
+      leftShoulder: a.leftUpperArm - torso,
+      leftElbow: a.leftLowerArm - a.leftUpperArm,
+      rightShoulder: a.rightUpperArm - torso,
+      rightElbow: a.rightLowerArm - a.rightUpperArm,
+      leftHip: a.leftUpperLeg - torso,
+      leftKnee: a.leftLowerLeg - a.leftUpperLeg,
+      rightHip: a.rightUpperLeg - torso,
+      rightKnee: a.rightLowerLeg - a.rightUpperLeg,
+    };
+
+    const w = this.ragdollBlend;
+    for (const key of JOINT_KEYS) {
+      const joint = this.joints[key];
+      joint.angle += (wrapAngle(physicsAngles[key]) - joint.angle) * w;
+      joint.velocity *= 1 - w;
+    }
+  }
+
+  private blendRagdollContainer(pose: RagdollPose): void {
+    const w = this.ragdollBlend;
+    const rest = this.restPosition;
+    this.container.position.set(
+      rest.x + (pose.x - rest.x) * w,
+      rest.y + (pose.y - rest.y) * w
+    );
+    this.container.rotation = wrapAngle(pose.rotation) * w;
+  }
+
+  private endRagdoll(): void {
+    this.ragdoll?.remove();
+    this.ragdollBlend = 0;
+    this.ragdollTimer = 0;
+    this.container.position.set(this.restPosition.x, this.restPosition.y);
+  }
+
   // ─── Public API ───────────────────────────────────────────────────────────
 
+  /** Crossfade into `move`'s clip (a no-op if it's already playing) */
   setDanceMove(move: DanceMoveId): void {
     if (this.currentMove !== move) {
       this.currentMove = move;
-      this.moveTime = 0;
+      this.animator.play(DANCE_ANIMATIONS[move]);
     }
   }
 
-  /** Impulse specific joints based on which tap zone was hit */
+  /** Dance a move the player recorded; it restarts even if another custom move is playing */
+  playCustomMove(animation: DanceAnimation): void {
+    this.currentMove = 'custom';
+    this.animator.play(animation);
+  }
+
+  /** Play clips in step with the song (see BeatEngine) rather than at the reference tempo */
+  setTempo(bpm: number): void {
+    this.animator.setTempo(bpm);
+  }
+
+  /** Kick the joints of the tap zone that was hit (a miss stumbles instead) */
   reactToZone(zone: TapZone, rating: HitRating): void {
     if (rating === 'miss') {
       // Small torso stumble
       this.joints.torsoTilt.velocity += (Math.random() - 0.5) * 0.4;
       this.joints.headBob.velocity += 0.2;
+      this.face.miss();
       return;
     }
 
-    const jointKeys = ZONE_TO_JOINTS[zone];
-    const intensity = rating === 'perfect' ? 1.4 : 0.8;
-
-    for (const key of jointKeys) {
-      const sign = Math.random() > 0.5 ? 1 : -1;
-      this.joints[key].velocity += sign * intensity;
-    }
+    // A kick layered on top of the move, swinging the zone's joints one way or the other
+    const sign = Math.random() > 0.5 ? 1 : -1;
+    this.animator.addLayer(reactionClip(ZONE_TO_JOINTS[zone], sign * REACTION_KICK[rating]));
 
     if (rating === 'perfect') {
       this.showReaction('✨');
     }
   }
 
+  /** What the face reacts to besides the character's own wobble: the run's combo and the crowd */
+  setMood(combo: number, crowdEnergy: number): void {
+    this.mood = { combo, crowdEnergy };
+  }
+
+  /** Look embarrassed after a mistake that isn't a missed zone (an off-beat freestyle move) */
+  fluster(): void {
+    this.face.miss();
+  }
+
   /** Impulse from a collision - wobble the character */
   wobble(intensity: number, direction: 'left' | 'right' | 'up' = 'up'): void {
     this.wobbleIntensity = Math.min(3, this.wobbleIntensity + intensity);
@@ -910,6 +1000,63 @@ export class Character {
     }
   }
 
+  /**
+   * Opt in to ragdoll collapses. Limb bodies are created in `physics` on demand
+   * and land on a floor at `floorY` (world space).
+   */
+  enableRagdoll(physics: Matter.Engine, floorY: number): void {
+    if (this.ragdoll) {
+      this.ragdoll.setFloorY(floorY);
+      return;
+    }
+    this.ragdoll = new Ragdoll(physics, {
+      headR: this.HEAD_R,
+      torsoW: this.TORSO_W,
+      torsoH: this.TORSO_H,
+      armLen: this.ARM_LEN,
+      forearmLen: this.FOREARM_LEN,
+      legLen: this.LEG_LEN,
+      shinLen: this.SHIN_LEN,
+      limbW: this.LIMB_W,
+    }, floorY);
+  }
+
+  /**
+   * Move the dancer's standing spot (e.g. after a resize). While collapsed the
+   * body stays where it fell and gets back up at the new spot.
+   */
+  placeAt(x: number, y: number): void {
+    this.restPosition = { x, y };
+    if (!this.isCollapsed) this.container.position.set(x, y);
+  }
+
+  /** Go limp for `duration` seconds, then blend back into the dance. No-op without ragdoll. */
+  collapse(impulse: { x: number; y: number } = { x: 0, y: 0 }, duration = COLLAPSE_SEC): void {
+    if (!this.ragdoll) return;
+
+    if (this.ragdoll.active) {
+      this.ragdoll.applyImpulse(impulse);
+      this.ragdollTimer = Math.max(this.ragdollTimer, duration);
+      this.ragdollBlend = 1;
+      return;
+    }
+
+    this.restPosition = { x: this.container.x, y: this.container.y };
+    this.ragdoll.spawn(this.snapshotPose(), impulse);
+    this.ragdollTimer = duration;
+    this.ragdollBlend = 1;
+  }
+
+  /** Dramatic faint: a long collapse straight down */
+  faint(): void {
+    this.collapse({ x: (Math.random() - 0.5) * 2, y: 1 }, FAINT_SEC);
+    this.showReaction('😵‍💫');
+  }
+
+  get isCollapsed(): boolean {
+    return this.ragdollBlend > 0;
+  }
+
   showReaction(emoji: string): void {
     this.graphics.reactionText.text = emoji;
     this.reactionTimer = 1.5;
@@ -919,4 +1066,12 @@ export class Character {
   get currentMoveId(): DanceMoveId {
     return this.currentMove;
   }
+
+  /** Remove any ragdoll bodies from the physics world */
+  destroy(): void {
+    this.ragdoll?.remove();
+    this.ragdoll = null;
+    this.ragdollBlend = 0;
+    this.ragdollTimer = 0;
+  }
 }
@@ -0,0 +1,422 @@
+import {
+  SongDefinition,
+  SongNote,
+  SongMove,
+  TempoChange,
+  DanceMoveId,
+  TapZone,
+  ChartFile,
+  ChartNote,
+  ChartTimedNote,
+  ChartSubBeat,
+  CHART_FORMAT_VERSION,
+  TAP_ZONES,
+  MUSIC_STYLES,
+  DIFFICULTY_LEVELS,
+  LANE_MODES,
+  DEFAULT_LANE_MODE,
+  LaneMode,
+  DANCE_MOVES,
+} from '@/types';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MIN_BPM = 40;
+const MAX_BPM = 300;
+const MAX_BEATS_PER_BAR = 16;
+const DEFAULT_BEATS_PER_BAR = 4;
+
+const DEFAULT_SLIDE_BEATS = 1;
+
+/** Count-in beats the backing track plays before song beat 0 reaches the rail */
+export const LEAD_IN_BEATS = 4;
+
+// 8ths, triplets, 16ths, sextuplets, 32nds
+const SUB_BEAT_DIVISIONS = [1, 2, 3, 4, 6, 8];
+
+// A player's own moves ('custom') can't be called for by a chart
+const CHART_MOVES = (Object.keys(DANCE_MOVES) as DanceMoveId[]).filter(m => m !== 'custom');
+
+// ─── Tempo Map ────────────────────────────────────────────────────────────────
+
+function sortedChanges(changes: TempoChange[] | undefined): TempoChange[] {
+  return (changes ?? []).filter(c => c.beat > 0).sort((a, b) => a.beat - b.beat);
+}
+
+/** Tempo in effect at an absolute beat */
+export function bpmAtBeat(beat: number, baseBpm: number, changes?: TempoChange[]): number {
+  let bpm = baseBpm;
+  for (const c of sortedChanges(changes)) {
+    if (c.beat > beat) break;
+    bpm = c.bpm;
+  }
+  return bpm;
+}
+
+/** Seconds from beat 0 to an absolute (fractional) beat, honouring tempo changes */
+export function beatToSeconds(beat: number, baseBpm: number, changes?: TempoChange[]): number {
+  let seconds = 0;
+  let cursor = 0;
+  let bpm = baseBpm;
+
+  for (const c of sortedChanges(changes)) {
+    if (c.beat >= beat) break;
+    seconds += (c.beat - cursor) * (60 / bpm);
+    cursor = c.beat;
+    bpm = c.bpm;
+  }
+  return seconds + (beat - cursor) * (60 / bpm);
+}
+
+/** Inverse of beatToSeconds: the (fractional) beat `seconds` after beat 0 */
+export function secondsToBeat(seconds: number, baseBpm: number, changes?: TempoChange[]): number {
+  let elapsed = 0;
+  let cursor = 0;
+  let bpm = baseBpm;
+
+  for (const c of sortedChanges(changes)) {
+    const span = (c.beat - cursor) * (60 / bpm);
+    if (elapsed + span > seconds) break;
+    elapsed += span;
+    cursor = c.beat;
+    bpm = c.bpm;
+  }
+  return cursor + (seconds - elapsed) / (60 / bpm);
+}
+
+// ─── Song Helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Notes for a song in playback order. Chart songs carry explicit notes;
+ * built-in songs expand their looping one-bar `beatPattern`.
+ */
+export function getSongNotes(song: SongDefinition): SongNote[] {
+  if (song.notes) {
+    return [...song.notes].sort((a, b) => a.beat - b.beat);
+  }
+
+  const notes: SongNote[] = [];
+  const beatsPerBar = song.beatPattern.length;
+  for (let bar = 0; bar < song.barCount; bar++) {
+    song.beatPattern.forEach((zones, beat) => {
+      for (const zone of zones) notes.push({ beat: bar * beatsPerBar + beat, zone });
+    });
+  }
+  return notes;
+}
+
+/** A song's choreography in playback order */
+export function getSongMoves(song: SongDefinition): SongMove[] {
+  return [...(song.moves ?? [])].sort((a, b) => a.beat - b.beat);
+}
+
+/** Lane mode for a song: its own setting, else three-lane */
+export function getLaneMode(song: SongDefinition): LaneMode {
+  return song.laneMode ?? DEFAULT_LANE_MODE;
+}
+
+/** Tempo changes re-keyed to backing-track beats (i.e. shifted by the lead-in) */
+export function getAudioTempoChanges(song: SongDefinition): TempoChange[] | undefined {
+  return song.tempoChanges?.map(c => ({ beat: c.beat + LEAD_IN_BEATS, bpm: c.bpm }));
+}
+
+/** Total song length in beats */
+export function getSongLengthBeats(song: SongDefinition): number {
+  return song.barCount * song.beatPattern.length;
+}
+
+// ─── Chart Loader ─────────────────────────────────────────────────────────────
+
+export interface ChartParseResult {
+  song: SongDefinition | null;
+  errors: string[];
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isInt(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v);
+}
+
+function zoneColumn(zone: TapZone): string {
+  return zone.split('-')[1];
+}
+
+function subBeatOffset(sub: ChartSubBeat | undefined): number {
+  return sub ? sub[0] / sub[1] : 0;
+}
+
+/**
+ * Validate a parsed chart JSON object and convert it to a SongDefinition.
+ * Every problem is reported with its path; `song` is null if there were any.
+ */
+export function parseChart(raw: unknown): ChartParseResult {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return { song: null, errors: ['chart: expected an object'] };
+  }
+  if (raw.version !== CHART_FORMAT_VERSION) {
+    return {
+      song: null,
+      errors: [`version: unsupported chart version ${JSON.stringify(raw.version)} (expected ${CHART_FORMAT_VERSION})`],
+    };
+  }
+
+  // ── Meta ───────────────────────────────────────────────────────────────────
+  const meta = raw.meta;
+  if (!isObject(meta)) {
+    return { song: null, errors: ['meta: expected an object'] };
+  }
+
+  if (typeof meta.id !== 'string' || meta.id.trim() === '') errors.push('meta.id: expected a non-empty string');
+  if (typeof meta.name !== 'string' || meta.name.trim() === '') errors.push('meta.name: expected a non-empty string');
+  if (meta.emoji !== undefined && typeof meta.emoji !== 'string') errors.push('meta.emoji: expected a string');
+  if (!isValidBpm(meta.bpm)) errors.push(`meta.bpm: expected a number between ${MIN_BPM} and ${MAX_BPM}`);
+  if (!MUSIC_STYLES.includes(meta.style as never)) {
+    errors.push(`meta.style: expected one of ${MUSIC_STYLES.join(', ')}`);
+  }
+  if (!DIFFICULTY_LEVELS.includes(meta.difficulty as never)) {
+    errors.push(`meta.difficulty: expected one of ${DIFFICULTY_LEVELS.join(', ')}`);
+  }
+  if (meta.lanes !== undefined && !LANE_MODES.includes(meta.lanes as never)) {
+    errors.push(`meta.lanes: expected one of ${LANE_MODES.join(', ')}`);
+  }
+
+  const beatsPerBar = meta.beatsPerBar ?? DEFAULT_BEATS_PER_BAR;
+  if (!isInt(beatsPerBar) || beatsPerBar < 1 || beatsPerBar > MAX_BEATS_PER_BAR) {
+    errors.push(`meta.beatsPerBar: expected an integer between 1 and ${MAX_BEATS_PER_BAR}`);
+    return { song: null, errors };
+  }
+
+  // ── Notes (per-bar and per-note timing may be mixed) ───────────────────────
+  const notes: SongNote[] = [];
+
+  const readNote = (n: unknown, bar: number, path: string): void => {
+    if (!isObject(n)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    const note = n as unknown as ChartNote;
+    let ok = true;
+
+    if (typeof note.beat !== 'number' || note.beat < 0 || note.beat >= beatsPerBar) {
+      errors.push(`${path}.beat: expected a number in [0, ${beatsPerBar})`);
+      ok = false;
+    }
+    if (note.sub !== undefined && !isValidSubBeat(note.sub)) {
+      errors.push(`${path}.sub: expected [numerator, denominator] with denominator in ${SUB_BEAT_DIVISIONS.join('/')}`);
+      ok = false;
+    }
+    if (!TAP_ZONES.includes(note.zone as TapZone)) {
+      errors.push(`${path}.zone: unknown zone ${JSON.stringify(note.zone)}`);
+      ok = false;
+    }
+    if (note.hold !== undefined && (typeof note.hold !== 'number' || note.hold <= 0)) {
+      errors.push(`${path}.hold: expected a positive number of beats`);
+      ok = false;
+    }
+    if (note.slide !== undefined) {
+      if (!TAP_ZONES.includes(note.slide)) {
+        errors.push(`${path}.slide: unknown zone ${JSON.stringify(note.slide)}`);
+        ok = false;
+      } else if (ok && zoneColumn(note.slide) === zoneColumn(note.zone)) {
+        errors.push(`${path}.slide: must end in a different column than ${note.zone}`);
+        ok = false;
+      }
+    }
+    if (!ok) return;
+
+    const songNote: SongNote = {
+      beat: bar * beatsPerBar + note.beat + subBeatOffset(note.sub),
+      zone: note.zone,
+    };
+    if (note.slide !== undefined) {
+      songNote.slideTo = note.slide;
+      songNote.holdBeats = note.hold ?? DEFAULT_SLIDE_BEATS;
+    } else if (note.hold !== undefined) {
+      songNote.holdBeats = note.hold;
+    }
+    notes.push(songNote);
+  };
+
+  if (raw.bars !== undefined) {
+    if (!Array.isArray(raw.bars)) {
+      errors.push('bars: expected an array');
+    } else {
+      raw.bars.forEach((b, i) => {
+        const path = `bars[${i}]`;
+        if (!isObject(b) || !Array.isArray(b.notes)) {
+          errors.push(`${path}: expected an object with a notes array`);
+          return;
+        }
+        const bar = b.bar ?? i;
+        if (!isInt(bar) || bar < 0) {
+          errors.push(`${path}.bar: expected a non-negative integer`);
+          return;
+        }
+        b.notes.forEach((n, j) => readNote(n, bar, `${path}.notes[${j}]`));
+      });
+    }
+  }
+
+  if (raw.notes !== undefined) {
+    if (!Array.isArray(raw.notes)) {
+      errors.push('notes: expected an array');
+    } else {
+      raw.notes.forEach((n, i) => {
+        const path = `notes[${i}]`;
+        if (isObject(n) && (!isInt(n.bar) || n.bar < 0)) {
+          errors.push(`${path}.bar: expected a non-negative integer`);
+          return;
+        }
+        readNote(n, isObject(n) ? (n.bar as number) : 0, path);
+      });
+    }
+  }
+
+  if (raw.bars === undefined && raw.notes === undefined) {
+    errors.push('chart: expected "bars" and/or "notes"');
+  } else if (errors.length === 0 && notes.length === 0) {
+    errors.push('chart: contains no notes');
+  }
+
+  // ── Tempo changes ──────────────────────────────────────────────────────────
+  const tempoChanges: TempoChange[] = [];
+  if (raw.tempo !== undefined) {
+    if (!Array.isArray(raw.tempo)) {
+      errors.push('tempo: expected an array');
+    } else {
+      raw.tempo.forEach((t, i) => {
+        const path = `tempo[${i}]`;
+        if (!isObject(t)) {
+          errors.push(`${path}: expected an object`);
+          return;
+        }
+        const beat = t.beat ?? 0;
+        if (!isInt(t.bar) || t.bar < 0) errors.push(`${path}.bar: expected a non-negative integer`);
+        else if (!isInt(beat) || beat < 0 || beat >= beatsPerBar) {
+          // The backing track only picks up a new tempo on a whole beat
+          errors.push(`${path}.beat: expected a whole beat in [0, ${beatsPerBar})`);
+        } else if (!isValidBpm(t.bpm)) {
+          errors.push(`${path}.bpm: expected a number between ${MIN_BPM} and ${MAX_BPM}`);
+        } else if (t.bar === 0 && beat === 0) {
+          // The tempo map only applies changes after the first beat
+          errors.push(`${path}: use meta.bpm for the opening tempo`);
+        } else {
+          tempoChanges.push({ beat: t.bar * beatsPerBar + beat, bpm: t.bpm });
+        }
+      });
+    }
+  }
+
+  // ── Choreography ───────────────────────────────────────────────────────────
+  const moves: SongMove[] = [];
+  if (raw.moves !== undefined) {
+    if (!Array.isArray(raw.moves)) {
+      errors.push('moves: expected an array');
+    } else {
+      raw.moves.forEach((m, i) => {
+        const path = `moves[${i}]`;
+        if (!isObject(m)) {
+          errors.push(`${path}: expected an object`);
+          return;
+        }
+        const beat = m.beat ?? 0;
+        if (!isInt(m.bar) || m.bar < 0) errors.push(`${path}.bar: expected a non-negative integer`);
+        else if (typeof beat !== 'number' || beat < 0 || beat >= beatsPerBar) {
+          errors.push(`${path}.beat: expected a number in [0, ${beatsPerBar})`);
+        } else if (m.sub !== undefined && !isValidSubBeat(m.sub)) {
+          errors.push(`${path}.sub: expected [numerator, denominator] with denominator in ${SUB_BEAT_DIVISIONS.join('/')}`);
+        } else if (!isDanceMove(m.move)) {
+          errors.push(`${path}.move: expected one of ${CHART_MOVES.join(', ')}`);
+        } else {
+          moves.push({ beat: m.bar * beatsPerBar + beat + subBeatOffset(m.sub), move: m.move });
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) return { song: null, errors };
+
+  // ── Build the SongDefinition ───────────────────────────────────────────────
+  const chart = raw as unknown as ChartFile;
+  notes.sort((a, b) => a.beat - b.beat);
+  tempoChanges.sort((a, b) => a.beat - b.beat);
+  moves.sort((a, b) => a.beat - b.beat);
+
+  const lastBeat = notes.reduce((end, n) => Math.max(end, n.beat + (n.holdBeats ?? 0)), 0);
+  const barCount = Math.floor(lastBeat / beatsPerBar) + 1;
+
+  const song: SongDefinition = {
+    id: chart.meta.id,
+    name: chart.meta.name,
+    emoji: chart.meta.emoji ?? '🎵',
+    bpm: chart.meta.bpm,
+    style: chart.meta.style,
+    difficulty: chart.meta.difficulty,
+    barCount,
+    durationSec: Math.round(beatToSeconds(barCount * beatsPerBar, chart.meta.bpm, tempoChanges)),
+    // Empty pattern keeps beats-per-bar for bar counting; `notes` drives the targets
+    beatPattern: Array.from({ length: beatsPerBar }, () => []),
+    notes,
+  };
+  if (tempoChanges.length > 0) song.tempoChanges = tempoChanges;
+  if (chart.meta.lanes) song.laneMode = chart.meta.lanes;
+  if (moves.length > 0) song.moves = moves;
+
+  return { song, errors: [] };
+}
+
+function isValidBpm(v: unknown): v is number {
+  return typeof v === 'number' && v >= MIN_BPM && v <= MAX_BPM;
+}
+
+function isDanceMove(v: unknown): v is DanceMoveId {
+  return typeof v === 'string' && (CHART_MOVES as string[]).includes(v);
+}
+
+function isValidSubBeat(v: unknown): v is ChartSubBeat {
+  return (
+    Array.isArray(v) &&
+    v.length === 2 &&
+    isInt(v[0]) &&
+    isInt(v[1]) &&
+    SUB_BEAT_DIVISIONS.includes(v[1]) &&
+    v[0] >= 0 &&
+    v[0] < v[1]
+  );
+}
+
+/**
+ * Every note in a chart as per-note timing, regardless of whether it was
+ * authored with `bars` or `notes`. Assumes the chart already passed parseChart.
+ */
+export function flattenChartNotes(chart: ChartFile): ChartTimedNote[] {
+  const notes: ChartTimedNote[] = [];
+  chart.bars?.forEach((b, i) => {
+    for (const n of b.notes) notes.push({ ...n, bar: b.bar ?? i });
+  });
+  for (const n of chart.notes ?? []) notes.push({ ...n });
+  return notes;
+}
+
+// ─── Bundled Charts ───────────────────────────────────────────────────────────
+
+const chartModules = import.meta.glob<{ default: unknown }>('../charts/*.json', { eager: true });
+
+/** Songs authored as chart files under src/charts. Invalid charts are skipped with a warning. */
+export function loadBundledSongs(): SongDefinition[] {
+  const songs: SongDefinition[] = [];
+  for (const [path, mod] of Object.entries(chartModules)) {
+    const { song, errors } = parseChart(mod.default);
+    if (song) {
+      songs.push(song);
+    } else {
+      console.warn(`[Chart] Skipping ${path}:`, errors);
+    }
+  }
+  return songs;
+}
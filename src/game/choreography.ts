@@ -0,0 +1,44 @@
+import { DanceMoveId, SongDefinition } from '@/types';
+import { getSongMoves, beatToSeconds, LEAD_IN_BEATS } from '@/game/chart';
+
+// ─── Choreography ─────────────────────────────────────────────────────────────
+// The dance moves a song calls for, timed on the song clock exactly like its
+// notes: song beat 0 lands LEAD_IN_BEATS after the first audio beat. The dance
+// screen asks each frame which move is due and hands it to the character;
+// hit reactions stay layered on top as impulses.
+
+export interface ChoreographyCue {
+  time: number;        // song time (seconds since the first audio beat)
+  move: DanceMoveId;
+}
+
+/** A song's choreography on the song clock, in order */
+export function choreographyCues(song: SongDefinition): ChoreographyCue[] {
+  const leadIn = LEAD_IN_BEATS * (60 / song.bpm);
+  return getSongMoves(song).map(m => ({
+    time: leadIn + beatToSeconds(m.beat, song.bpm, song.tempoChanges),
+    move: m.move,
+  }));
+}
+
+export class Choreographer {
+  private cues: ChoreographyCue[];
+  private next = 0;
+
+  constructor(song: SongDefinition) {
+    this.cues = choreographyCues(song);
+  }
+
+  /**
+   * The move to switch to by `songTime`, or null if none has come due since
+   * the last call. Cues passed over in one go (e.g. after a stalled frame)
+   * collapse into the latest.
+   */
+  due(songTime: number): DanceMoveId | null {
+    let move: DanceMoveId | null = null;
+    while (this.next < this.cues.length && this.cues[this.next].time <= songTime) {
+      move = this.cues[this.next++].move;
+    }
+    return move;
+  }
+}
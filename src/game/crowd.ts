@@ -1,5 +1,6 @@
 import * as PIXI from 'pixi.js';
 import { HitRating, StageEffectType } from '@/types';
+import { eventBus } from '@/game/events';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -66,9 +67,11 @@ export class CrowdManager {
     }
   }
 
+  /** Start a stage effect (announced as 'stage_effect') unless it's already running */
   triggerEffect(type: StageEffectType): void {
     // Don't duplicate same effect if already active
     if (this.effects.some(e => e.type === type && e.active)) return;
+    eventBus.emit('stage_effect', { effect: type });
 
     switch (type) {
       case 'spotlight':   this.spawnSpotlight(); break;
@@ -1,30 +1,6 @@
 import * as PIXI from 'pixi.js';
 import Matter from 'matter-js';
-import { GameState, GameEventType, GameEvent } from '@/types';
-
-// ─── Event Bus ────────────────────────────────────────────────────────────────
-
-type EventListener<T = unknown> = (event: GameEvent<T>) => void;
-
-class EventBus {
-  private listeners = new Map<GameEventType, Set<EventListener>>();
-
-  on<T>(type: GameEventType, listener: EventListener<T>): () => void {
-    if (!this.listeners.has(type)) {
-      this.listeners.set(type, new Set());
-    }
-    const set = this.listeners.get(type);
-    if (set) set.add(listener as EventListener);
-    return () => this.listeners.get(type)?.delete(listener as EventListener);
-  }
-
-  emit<T>(type: GameEventType, data: T): void {
-    const event: GameEvent<T> = { type, data, timestamp: performance.now() };
-    this.listeners.get(type)?.forEach(fn => fn(event as GameEvent));
-  }
-}
-
-export const eventBus = new EventBus();
+import { GameState } from '@/types';
 
 // ─── Object Pool ──────────────────────────────────────────────────────────────
 
@@ -51,6 +27,12 @@ export class ObjectPool<T> {
     this.pool.push(obj);
   }
 
+  /** Empty the pool, handing each spare item to `dispose` */
+  drain(dispose: (obj: T) => void): void {
+    for (const item of this.pool) dispose(item);
+    this.pool = [];
+  }
+
   get size(): number {
     return this.pool.length;
   }
@@ -0,0 +1,29 @@
+import { GameEventType, GameEventMap, GameEvent } from '@/types';
+
+// ─── Event Bus ────────────────────────────────────────────────────────────────
+// Gameplay and UI announce what happens here (see GameEventMap for the payload
+// of each event), so features can follow along without being called directly.
+// Kept free of rendering so the scoring code the verifier shares can emit too.
+
+type EventListener<K extends GameEventType> = (event: GameEvent<K>) => void;
+
+export class EventBus {
+  private listeners = new Map<GameEventType, Set<EventListener<GameEventType>>>();
+
+  /** Listen for `type`; returns the unsubscribe function */
+  on<K extends GameEventType>(type: K, listener: EventListener<K>): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    const set = this.listeners.get(type);
+    if (set) set.add(listener as EventListener<GameEventType>);
+    return () => this.listeners.get(type)?.delete(listener as EventListener<GameEventType>);
+  }
+
+  emit<K extends GameEventType>(type: K, data: GameEventMap[K]): void {
+    const event = { type, data, timestamp: performance.now() } as GameEvent;
+    this.listeners.get(type)?.forEach(fn => fn(event));
+  }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,149 @@
+import { FaceExpression, FacePose, FaceShape } from '@/types';
+
+// ─── Facial Expressions ───────────────────────────────────────────────────────
+// The character's face shows how the round is going. Each expression is a
+// FacePose; the face eases from the one it's showing towards the one the mood
+// calls for, so changes never snap. Blinks close the lids every few seconds on
+// top of whatever the expression is. Which expression wins is decided here,
+// from the combo, recent misses, how hard the character is wobbling and the
+// crowd's energy; the character only draws the result.
+
+/** Wobble past this (see Character.wobble) makes the character dizzy */
+export const DIZZY_WOBBLE = 1.2;
+/** Seconds a miss keeps the character embarrassed */
+export const EMBARRASSED_SEC = 1.2;
+export const FOCUSED_COMBO = 3;
+export const ECSTATIC_COMBO = 15;
+export const ECSTATIC_ENERGY = 0.75;
+
+const BLEND_PER_SEC = 10;     // how quickly the face eases towards its expression
+const BLINK_SEC = 0.15;
+const BLINK_GAP_MIN = 2;      // seconds between blinks: MIN + up to SPREAD
+const BLINK_GAP_SPREAD = 3;
+const SPIRAL_TURNS_PER_SEC = 1;
+
+export interface FaceMood {
+  combo: number;
+  crowdEnergy: number;  // 0–1
+  wobble: number;       // the character's wobble intensity
+  collapsed: boolean;   // ragdolled
+}
+
+const NEUTRAL_FACE: FacePose = {
+  eyeOpen: 1, pupil: 1, lookX: 0, lookY: 0, eyeSmile: 0, spiral: 0,
+  browLift: 0, browTilt: 0, mouthCurve: 0.6, mouthOpen: 0, mouthWobble: 0, blush: 0,
+};
+
+export const EXPRESSION_FACES: Record<FaceExpression, FacePose> = {
+  neutral: NEUTRAL_FACE,
+  // Narrowed eyes, brows down, a set mouth
+  focused: { ...NEUTRAL_FACE, eyeOpen: 0.7, pupil: 1.1, browLift: -1.5, browTilt: 0.35, mouthCurve: 0.1 },
+  // Eyes squeezed happy, brows up, beaming open mouth
+  ecstatic: { ...NEUTRAL_FACE, eyeSmile: 1, browLift: 3, browTilt: -0.2, mouthCurve: 1, mouthOpen: 0.8, blush: 0.3 },
+  // Swirly eyes, worried brows, a queasy wavy mouth
+  dizzy: { ...NEUTRAL_FACE, spiral: 1, browLift: 1, browTilt: -0.4, mouthCurve: -0.2, mouthOpen: 0.3, mouthWobble: 1 },
+  // Looking away and down, blushing
+  embarrassed: {
+    ...NEUTRAL_FACE, eyeOpen: 0.85, pupil: 0.8, lookX: -1.5, lookY: 1.5,
+    browLift: 1.5, browTilt: -0.45, mouthCurve: -0.3, mouthWobble: 0.6, blush: 1,
+  },
+};
+
+/** The expression `mood` calls for, `missAgo` seconds after the last miss */
+export function chooseExpression(mood: FaceMood, missAgo = Infinity): FaceExpression {
+  if (mood.collapsed || mood.wobble >= DIZZY_WOBBLE) return 'dizzy';
+  if (missAgo < EMBARRASSED_SEC) return 'embarrassed';
+  if (mood.combo >= ECSTATIC_COMBO || mood.crowdEnergy >= ECSTATIC_ENERGY) return 'ecstatic';
+  if (mood.combo >= FOCUSED_COMBO) return 'focused';
+  return 'neutral';
+}
+
+/** `from` blended `weight` (0–1) of the way to `to` */
+export function blendFaces(from: FacePose, to: FacePose, weight: number): FacePose {
+  const face = { ...from };
+  for (const key of Object.keys(face) as Array<keyof FacePose>) {
+    face[key] = from[key] + (to[key] - from[key]) * weight;
+  }
+  return face;
+}
+
+// ─── Layout ───────────────────────────────────────────────────────────────────
+
+/** Where the features sit on each face shape (px from the head's centre) */
+export interface FaceLayout {
+  eyeX: number;     // each eye is this far either side of the middle
+  eyeY: number;
+  eyeR: number;
+  browY: number;
+  mouthY: number;
+  mouthW: number;   // half-width
+  cheekX: number;
+  cheekY: number;
+}
+
+export const FACE_LAYOUTS: Record<FaceShape, FaceLayout> = {
+  round:  { eyeX: 9, eyeY: -4, eyeR: 7, browY: -14, mouthY: 10, mouthW: 9, cheekX: 15, cheekY: 6 },
+  // Narrower and taller: features closer together, spread down the face
+  oval:   { eyeX: 8, eyeY: -6, eyeR: 6.5, browY: -16, mouthY: 11, mouthW: 7.5, cheekX: 12.5, cheekY: 5 },
+  square: { eyeX: 9.5, eyeY: -5, eyeR: 7, browY: -15, mouthY: 10, mouthW: 10, cheekX: 15, cheekY: 6 },
+};
+
+// ─── Face Controller ──────────────────────────────────────────────────────────
+
+export class FaceController {
+  private expression: FaceExpression = 'neutral';
+  private pose: FacePose = { ...NEUTRAL_FACE };
+  private missAgo = Infinity;
+  private blinkIn: number;
+  private blinkLeft = 0;
+  private spiralAngle = 0;
+  private rng: () => number;
+
+  constructor(rng: () => number = Math.random) {
+    this.rng = rng;
+    this.blinkIn = this.nextBlinkGap();
+  }
+
+  /** Something went wrong — look embarrassed for a moment */
+  miss(): void {
+    this.missAgo = 0;
+  }
+
+  update(dt: number, mood: FaceMood): void {
+    this.missAgo += dt;
+    this.expression = chooseExpression(mood, this.missAgo);
+    this.pose = blendFaces(this.pose, EXPRESSION_FACES[this.expression], 1 - Math.exp(-BLEND_PER_SEC * dt));
+    this.spiralAngle = (this.spiralAngle + dt * SPIRAL_TURNS_PER_SEC * Math.PI * 2) % (Math.PI * 2);
+
+    if (this.blinkLeft > 0) {
+      this.blinkLeft = Math.max(0, this.blinkLeft - dt);
+    } else {
+      this.blinkIn -= dt;
+      if (this.blinkIn <= 0) {
+        this.blinkLeft = BLINK_SEC;
+        this.blinkIn = this.nextBlinkGap();
+      }
+    }
+  }
+
+  get current(): FaceExpression {
+    return this.expression;
+  }
+
+  /** Rotation of the dizzy swirls (radians) */
+  get spiral(): number {
+    return this.spiralAngle;
+  }
+
+  /** The pose to draw: the eased expression with any blink closing the lids */
+  face(): FacePose {
+    if (this.blinkLeft <= 0) return this.pose;
+    // Lids close and reopen over the blink
+    const t = 1 - this.blinkLeft / BLINK_SEC;
+    return { ...this.pose, eyeOpen: this.pose.eyeOpen * Math.abs(1 - 2 * t) };
+  }
+
+  private nextBlinkGap(): number {
+    return BLINK_GAP_MIN + this.rng() * BLINK_GAP_SPREAD;
+  }
+}
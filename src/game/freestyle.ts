@@ -0,0 +1,125 @@
+import { DanceMoveId, HitRating, ScoreState, SongDefinition, TempoChange, DANCE_MOVES } from '@/types';
+import { beatToSeconds, secondsToBeat, getAudioTempoChanges, getSongLengthBeats, LEAD_IN_BEATS } from '@/game/chart';
+import { registerDanceMove, calculateSessionBonus } from '@/game/scoring';
+import { PERFECT_WINDOW, GOOD_WINDOW } from '@/game/judge';
+
+// ─── Freestyle ────────────────────────────────────────────────────────────────
+// No targets: the player dances moves from the palette to the backing track.
+// A move scores its basePoints, multiplied for landing on a beat, for
+// switching from the last move (the variety streak registerDanceMove keeps;
+// each of the player's saved moves counts as a different move, by its slot)
+// and by the combo of on-beat moves. Only one move can land on each beat: a
+// move off the beat, or on a beat already danced, scores nothing (so mashing
+// the palette can't outscore dancing in time). Letting a move play out
+// without following it up ends the variety streak.
+// Times are seconds on the song clock (0 = the backing track's first beat),
+// judged against the same tempo map the BeatEngine plays, so a freestyle
+// replay re-scores exactly.
+
+const TIMING_MULTIPLIER: Record<HitRating, number> = { perfect: 3, good: 2, miss: 0 };
+const VARIETY_STEP = 0.25;  // per different move in a row…
+const MAX_VARIETY = 2;      // …up to double points
+
+export interface FreestyleRun {
+  score: ScoreState;
+  bpm: number;
+  tempoChanges: TempoChange[] | undefined;  // keyed to backing-track beats
+  totalBeats: number;
+  audioOffset: number;   // seconds moves are judged late (calibrated latency)
+  lastBeat: number;      // beat the last on-beat move landed on
+  lastSlot: number | undefined;  // palette slot of the last move, if a saved one
+  moveEndsAt: number;    // when the current move finishes playing
+  peakCombo: number;
+}
+
+export interface FreestyleJudgement {
+  move: DanceMoveId;
+  rating: HitRating;  // 'miss' is off the beat (or a beat already danced): no points
+  beat: number;
+  variety: number;    // multiplier from the variety streak
+  points: number;
+}
+
+/** Backing-track beats in a freestyle round: the count-in and the whole song */
+export function freestyleBeats(song: SongDefinition): number {
+  return LEAD_IN_BEATS + getSongLengthBeats(song);
+}
+
+export function createFreestyleRun(score: ScoreState, song: SongDefinition, audioOffsetSec = 0): FreestyleRun {
+  return {
+    score,
+    bpm: song.bpm,
+    tempoChanges: getAudioTempoChanges(song),
+    totalBeats: freestyleBeats(song),
+    audioOffset: audioOffsetSec,
+    lastBeat: -1,
+    lastSlot: undefined,
+    moveEndsAt: -Infinity,
+    peakCombo: score.comboMultiplier,
+  };
+}
+
+/** The beat nearest song time `t`, and how far (in seconds) `t` is from it */
+export function nearestBeat(run: FreestyleRun, t: number): { beat: number; offset: number } {
+  const at = (beat: number): number => beatToSeconds(beat, run.bpm, run.tempoChanges);
+  const clamp = (beat: number): number => Math.max(0, Math.min(run.totalBeats - 1, beat));
+  const exact = secondsToBeat(t, run.bpm, run.tempoChanges);
+  const before = clamp(Math.floor(exact));
+  const after = clamp(Math.ceil(exact));
+  const beat = Math.abs(t - at(before)) <= Math.abs(t - at(after)) ? before : after;
+  return { beat, offset: t - at(beat) };
+}
+
+/** Score `move`, danced at `songTime`; `slot` is a saved move's place on the palette */
+export function judgeFreestyleMove(run: FreestyleRun, move: DanceMoveId, songTime: number, slot?: number): FreestyleJudgement {
+  const { score } = run;
+  const t = songTime - run.audioOffset;
+
+  if (t > run.moveEndsAt) registerDanceMove(score, 'idle');
+  const switched = move !== score.lastMoveId || slot !== run.lastSlot;
+  // registerDanceMove only sees 'custom': switching saved moves is still a switch
+  if (switched && move === score.lastMoveId) score.consecutiveDifferentMoves++;
+  registerDanceMove(score, move);
+  run.lastSlot = slot;
+  run.moveEndsAt = t + DANCE_MOVES[move].duration / 1000;
+  const variety = switched ? Math.min(MAX_VARIETY, 1 + VARIETY_STEP * (score.consecutiveDifferentMoves - 1)) : 1;
+
+  const { beat, offset } = nearestBeat(run, t);
+  const off = Math.abs(offset);
+  const rating: HitRating = beat === run.lastBeat || off > GOOD_WINDOW
+    ? 'miss'
+    : off <= PERFECT_WINDOW ? 'perfect' : 'good';
+
+  score.totalHitAttempts++;
+  if (rating === 'miss') {
+    score.combo = 0;
+    score.consecutivePerfects = 0;
+    score.comboMultiplier = Math.max(1.0, score.comboMultiplier - 0.5);
+  } else {
+    run.lastBeat = beat;
+    score.combo++;
+    score.comboMultiplier = Math.min(5.0, 1.0 + score.combo * 0.25);
+    if (rating === 'perfect') {
+      score.perfectHits++;
+      score.consecutivePerfects++;
+    } else {
+      score.goodHits++;
+      score.consecutivePerfects = 0;
+    }
+  }
+  if (score.comboMultiplier > run.peakCombo) run.peakCombo = score.comboMultiplier;
+
+  const points = Math.round(DANCE_MOVES[move].basePoints * TIMING_MULTIPLIER[rating] * variety * score.comboMultiplier);
+  score.crowdHype += points;
+  score.totalScore = Math.floor(score.crowdHype);
+
+  return { move, rating, beat, variety, points };
+}
+
+/** Apply the end-of-round accuracy bonus (as for a rhythm run); returns it */
+export function finishFreestyleRun(run: FreestyleRun): number {
+  const bonus = calculateSessionBonus(run.score);
+  run.score.crowdHype += bonus;
+  run.score.totalScore = Math.floor(run.score.crowdHype);
+  return bonus;
+}
@@ -0,0 +1,214 @@
+import {
+  ScoreState,
+  GoalMetric,
+  ChallengeGoal,
+  ChallengeTally,
+  LongChallenge,
+  GOAL_METRICS,
+} from '@/types';
+import { computeAccuracy, computeGrade, addDays, getTodayDateStr } from '@/game/scoring';
+import { createRng, seedFromString } from '@/game/replay';
+
+// ─── Weekly & Seasonal Challenges ─────────────────────────────────────────────
+// Unlike the daily challenge, these run over many sessions: each finished
+// session adds a tally of what it achieved, and a challenge is complete once
+// the summed tallies reach every goal. Their rewards aren't added to any
+// session's score — replay verification couldn't reproduce progress made in
+// other sessions.
+
+interface GoalRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+const GOAL_TEXT: Record<GoalMetric, { label: string; describe: (n: number) => string }> = {
+  perfects:          { label: 'Perfects', describe: n => `Land ${n} perfect hits` },
+  hits:              { label: 'Hits', describe: n => `Land ${n} hits` },
+  hype:              { label: 'Hype', describe: n => `Score ${n} Hype in total` },
+  songs:             { label: 'Songs', describe: n => `Finish ${n} songs` },
+  grade_a:           { label: 'A grades', describe: n => `Finish ${n} songs with grade A or better` },
+  daily_completions: { label: 'Dailies', describe: n => `Complete ${n} daily challenges` },
+};
+
+const WEEKLY_GOALS: Record<GoalMetric, GoalRange> = {
+  perfects:          { min: 150, max: 500, step: 50 },
+  hits:              { min: 300, max: 800, step: 100 },
+  hype:              { min: 20_000, max: 60_000, step: 5_000 },
+  songs:             { min: 5, max: 15, step: 1 },
+  grade_a:           { min: 3, max: 8, step: 1 },
+  daily_completions: { min: 3, max: 5, step: 1 },
+};
+
+const SEASONAL_GOALS: Record<GoalMetric, GoalRange> = {
+  perfects:          { min: 2_000, max: 5_000, step: 250 },
+  hits:              { min: 4_000, max: 9_000, step: 500 },
+  hype:              { min: 250_000, max: 600_000, step: 25_000 },
+  songs:             { min: 50, max: 120, step: 10 },
+  grade_a:           { min: 25, max: 60, step: 5 },
+  daily_completions: { min: 30, max: 60, step: 5 },
+};
+
+export const SEASONS = [
+  { id: 'spring', name: 'Spring Fling', emoji: '🌸', firstMonth: 3 },
+  { id: 'summer', name: 'Summer Jam', emoji: '☀️', firstMonth: 6 },
+  { id: 'autumn', name: 'Autumn Groove', emoji: '🍂', firstMonth: 9 },
+  { id: 'winter', name: 'Winter Wobble', emoji: '❄️', firstMonth: 12 },
+] as const;
+
+// ─── Calendar Keys ────────────────────────────────────────────────────────────
+
+function parseDate(dateStr: string): Date {
+  return new Date(`${dateStr}T00:00:00Z`);
+}
+
+/** Monday of the ISO week containing `dateStr` */
+function weekStart(dateStr: string): string {
+  return addDays(dateStr, -((parseDate(dateStr).getUTCDay() + 6) % 7));
+}
+
+/** ISO 8601 week, e.g. '2026-W42' (weeks start on Monday, like the leaderboards) */
+export function isoWeekKey(dateStr: string): string {
+  const thursday = parseDate(addDays(weekStart(dateStr), 3));
+  const year = thursday.getUTCFullYear();
+  const week = 1 + Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * 86_400_000));
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/** Meteorological season, e.g. '2026-autumn'; winter belongs to the year it starts in */
+export function seasonKey(dateStr: string): string {
+  const date = parseDate(dateStr);
+  const month = date.getUTCMonth() + 1;
+  const year = month < 3 ? date.getUTCFullYear() - 1 : date.getUTCFullYear();
+  const season = [...SEASONS].reverse().find(s => month >= s.firstMonth) ?? SEASONS[3];
+  return `${year}-${season.id}`;
+}
+
+// ─── Generators ───────────────────────────────────────────────────────────────
+
+/** Pick `count` different goals, each with a seeded target; returns them and the reward */
+function pickGoals(
+  key: string,
+  ranges: Record<GoalMetric, GoalRange>,
+  count: number,
+  rewardPerGoal: number
+): { goals: ChallengeGoal[]; rewardPoints: number } {
+  const rng = createRng(seedFromString(key));
+  const metrics = [...GOAL_METRICS];
+  const goals: ChallengeGoal[] = [];
+  let rewardPoints = 0;
+
+  for (let i = 0; i < count; i++) {
+    const metric = metrics.splice(Math.floor(rng() * metrics.length), 1)[0];
+    const { min, max, step } = ranges[metric];
+    const steps = Math.floor(rng() * (Math.floor((max - min) / step) + 1));
+    const target = min + steps * step;
+    goals.push({ metric, target });
+    // Harder targets pay up to double
+    rewardPoints += Math.round((rewardPerGoal * (1 + (target - min) / (max - min))) / 100) * 100;
+  }
+  return { goals, rewardPoints };
+}
+
+function describeGoals(goals: ChallengeGoal[]): string {
+  return goals.map(g => `${GOAL_TEXT[g.metric].describe(g.target)}!`).join(' ');
+}
+
+/** The weekly challenge for an ISO week key (see isoWeekKey) */
+export function generateWeeklyChallenge(weekKey: string): LongChallenge {
+  const [year, week] = weekKey.split('-W').map(Number);
+  // Week 1 is the one with January 4th in it
+  const jan4 = `${year}-01-04`;
+  const startsOn = addDays(weekStart(jan4), (week - 1) * 7);
+  const { goals, rewardPoints } = pickGoals(`weekly:${weekKey}`, WEEKLY_GOALS, 2, 1000);
+
+  return {
+    id: `weekly:${weekKey}`,
+    tier: 'weekly',
+    title: `📆 Week ${week} Challenge`,
+    description: describeGoals(goals),
+    goals,
+    rewardPoints,
+    startsOn,
+    endsOn: addDays(startsOn, 6),
+  };
+}
+
+/** The seasonal event for a season key (see seasonKey) */
+export function generateSeasonalChallenge(key: string): LongChallenge {
+  const [yearStr, id] = key.split('-');
+  const year = Number(yearStr);
+  const season = SEASONS.find(s => s.id === id) ?? SEASONS[0];
+  const startsOn = `${year}-${String(season.firstMonth).padStart(2, '0')}-01`;
+  // Three months on, less a day (winter runs into the next year)
+  const endMonth = new Date(Date.UTC(year, season.firstMonth - 1 + 3, 1)).toISOString().slice(0, 10);
+  const { goals, rewardPoints } = pickGoals(`seasonal:${key}`, SEASONAL_GOALS, 3, 4000);
+
+  return {
+    id: `seasonal:${key}`,
+    tier: 'seasonal',
+    title: `${season.emoji} ${season.name} ${year}`,
+    description: describeGoals(goals),
+    goals,
+    rewardPoints,
+    startsOn,
+    endsOn: addDays(endMonth, -1),
+  };
+}
+
+/** The weekly and seasonal challenges running on `dateStr` */
+export function getActiveLongChallenges(dateStr = getTodayDateStr()): LongChallenge[] {
+  return [generateWeeklyChallenge(isoWeekKey(dateStr)), generateSeasonalChallenge(seasonKey(dateStr))];
+}
+
+// ─── Progress ─────────────────────────────────────────────────────────────────
+
+export interface SessionSummary {
+  songEnded: boolean;       // played to the end rather than quit
+  dailyCompleted: boolean;  // completed the daily challenge this session
+}
+
+/** What one session adds to every running challenge; zero counts are left out */
+export function tallySession(score: ScoreState, session: SessionSummary): ChallengeTally {
+  const grade = computeGrade(computeAccuracy(score));
+  const counts: ChallengeTally = {
+    perfects: score.perfectHits,
+    hits: score.perfectHits + score.goodHits,
+    hype: score.totalScore,
+    songs: session.songEnded ? 1 : 0,
+    grade_a: session.songEnded && (grade === 'S' || grade === 'A') ? 1 : 0,
+    daily_completions: session.dailyCompleted ? 1 : 0,
+  };
+
+  const tally: ChallengeTally = {};
+  for (const metric of GOAL_METRICS) {
+    if (counts[metric]) tally[metric] = counts[metric];
+  }
+  return tally;
+}
+
+export function addTallies(a: ChallengeTally, b: ChallengeTally): ChallengeTally {
+  const sum: ChallengeTally = { ...a };
+  for (const metric of GOAL_METRICS) {
+    if (b[metric]) sum[metric] = (sum[metric] ?? 0) + (b[metric] ?? 0);
+  }
+  return sum;
+}
+
+export interface GoalStatus {
+  goal: ChallengeGoal;
+  label: string;
+  current: number;  // capped at the target
+}
+
+export function goalStatuses(challenge: LongChallenge, tally: ChallengeTally): GoalStatus[] {
+  return challenge.goals.map(goal => ({
+    goal,
+    label: GOAL_TEXT[goal.metric].label,
+    current: Math.min(tally[goal.metric] ?? 0, goal.target),
+  }));
+}
+
+export function isLongChallengeComplete(challenge: LongChallenge, tally: ChallengeTally): boolean {
+  return challenge.goals.every(g => (tally[g.metric] ?? 0) >= g.target);
+}
@@ -0,0 +1,320 @@
+import { TapZone, HitRating, SongDefinition, SongNote, TempoChange, LaneMode } from '@/types';
+import { RhythmHitResult } from '@/game/scoring';
+import { getSongNotes, getLaneMode, beatToSeconds, bpmAtBeat, LEAD_IN_BEATS } from '@/game/chart';
+
+// ─── Rhythm Judge ─────────────────────────────────────────────────────────────
+// Timing and judgement for a rhythm session, with no rendering. RhythmEngine
+// draws on top of this; replay verification runs it headless. All times are
+// seconds on the song clock (0 = the first audio beat), so a session judged
+// live and one re-simulated from its input log compute identical results.
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const PERFECT_WINDOW = 0.05;   // ±50 ms
+export const GOOD_WINDOW    = 0.15;   // ±150 ms
+const GRACE_SEC             = 0.25;   // auto-miss grace period after hitTime
+const SUSTAIN_PASS          = 0.5;    // releasing a hold/slide before this fraction breaks the combo
+
+export const TRAVEL_BEATS = 4; // beats for a target to travel from spawn to rail
+
+/** Row divider as a fraction of canvas height (taps above it are 'upper') */
+export const RAIL_Y = 0.62;
+
+// ─── Targets ──────────────────────────────────────────────────────────────────
+
+export type TargetKind = 'tap' | 'hold' | 'slide';
+export type Column = 'left' | 'center' | 'right';
+export type Row = 'upper' | 'lower';
+
+export interface JudgeTarget {
+  id: number;
+  kind: TargetKind;
+  zone: TapZone;
+  endZone: TapZone;     // slide destination; same as zone otherwise
+  hitTime: number;      // song time this target should be hit
+  endTime: number;      // release time for holds/slides; same as hitTime for taps
+  travelSec: number;    // time from spawn to the rail
+  state: 'active' | 'holding' | 'hit' | 'missed';
+  headRating: HitRating | null; // press judgement, once holding
+  pointerId: number | null;     // pointer keeping a hold/slide down
+}
+
+/** A judgement, at the song time it took effect */
+export interface JudgeEvent {
+  target: JudgeTarget;
+  result: RhythmHitResult;
+  time: number;
+}
+
+export function zoneColumn(zone: TapZone): Column {
+  if (zone.includes('left'))   return 'left';
+  if (zone.includes('right'))  return 'right';
+  return 'center';
+}
+
+export function zoneRow(zone: TapZone): Row {
+  return zone.startsWith('upper') ? 'upper' : 'lower';
+}
+
+/** Centre of a column as a fraction of canvas width */
+export function columnCenter(col: Column): number {
+  if (col === 'left')   return 0.5 / 3;
+  if (col === 'right')  return 2.5 / 3;
+  return 1.5 / 3;
+}
+
+/** Tap zone for a point given as fractions of the canvas size */
+export function zoneAt(x: number, y: number): TapZone {
+  const col: Column = x < 1 / 3 ? 'left' : x < 2 / 3 ? 'center' : 'right';
+  const row: Row = y < RAIL_Y ? 'upper' : 'lower';
+  return `${row}-${col}` as TapZone;
+}
+
+/** Slide head position (fraction of canvas width) at draw time `now` */
+export function slideHeadX(t: JudgeTarget, now: number): number {
+  const p = Math.max(0, Math.min(1, (now - t.hitTime) / (t.endTime - t.hitTime)));
+  const startX = columnCenter(zoneColumn(t.zone));
+  return startX + (columnCenter(zoneColumn(t.endZone)) - startX) * p;
+}
+
+function byTime(a: JudgeEvent, b: JudgeEvent): number {
+  return a.time - b.time;
+}
+
+// ─── RhythmJudge ──────────────────────────────────────────────────────────────
+
+export class RhythmJudge {
+  readonly laneMode: LaneMode;
+  private bpm: number;
+  private secPerBeat: number;
+  private notes: SongNote[];
+  private tempoChanges: TempoChange[] | undefined;
+  private nextNoteIdx = 0;
+
+  // Latency calibration (seconds, positive = the player is late)
+  private audioOffset = 0;
+  private visualOffset = 0;
+
+  private targets: JudgeTarget[] = [];
+  private idCounter = 0;
+  private running = false;
+
+  constructor(song: SongDefinition) {
+    this.bpm = song.bpm;
+    this.secPerBeat = 60 / song.bpm;
+    this.notes = getSongNotes(song);
+    this.tempoChanges = song.tempoChanges;
+    this.laneMode = getLaneMode(song);
+  }
+
+  start(): void {
+    this.running = true;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  stop(): void {
+    this.running = false;
+    this.targets = [];
+    this.nextNoteIdx = 0;
+  }
+
+  /**
+   * Apply measured latency. Taps are judged `audioOffset` late; targets are
+   * drawn so they cross the rail when a player tracking them visually taps.
+   */
+  setLatency(audioOffsetSec: number, visualOffsetSec: number): void {
+    this.audioOffset = audioOffsetSec;
+    this.visualOffset = visualOffsetSec;
+  }
+
+  getTargets(): readonly JudgeTarget[] {
+    return this.targets;
+  }
+
+  /** Song clock corrected for audio/input latency — compare with hitTime */
+  judgeTime(songTime: number): number {
+    return songTime - this.audioOffset;
+  }
+
+  /** Clock used to position targets on screen */
+  drawTime(songTime: number): number {
+    return songTime - this.audioOffset + this.visualOffset;
+  }
+
+  /**
+   * Audio beat `beatNum` is about to play. Song beat 0 lands LEAD_IN_BEATS
+   * after the first audio beat, so each note is spawned one full travel time
+   * before it reaches the rail. Returns the targets spawned.
+   */
+  onBeatFired(beatNum: number): JudgeTarget[] {
+    if (!this.running) return [];
+    const spawned: JudgeTarget[] = [];
+    const horizon = beatNum + 1 + TRAVEL_BEATS - LEAD_IN_BEATS;
+    while (this.nextNoteIdx < this.notes.length && this.notes[this.nextNoteIdx].beat < horizon) {
+      spawned.push(this.spawnTarget(this.notes[this.nextNoteIdx++]));
+    }
+    return spawned;
+  }
+
+  /** Misses and completed holds/slides due by `songTime`, in time order */
+  update(songTime: number): JudgeEvent[] {
+    const judgeNow = this.judgeTime(songTime);
+    const events: JudgeEvent[] = [];
+
+    for (const t of this.targets) {
+      if (t.state === 'holding' && judgeNow >= t.endTime) {
+        events.push(this.finishSustain(t, t.endTime));
+      } else if (t.state === 'active' && judgeNow > t.hitTime + GRACE_SEC) {
+        // A missed press misses the whole hold/slide
+        events.push(this.miss(t));
+      }
+    }
+
+    this.prune();
+    return events.sort(byTime);
+  }
+
+  /** Judge a press in `zone`. Returns null if no target is in range. */
+  tryHitZone(zone: TapZone, songTime: number, pointerId = -1): JudgeEvent | null {
+    const col = zoneColumn(zone);
+    const row = zoneRow(zone);
+    const judgeNow = this.judgeTime(songTime);
+    let best: JudgeTarget | null = null;
+    let bestDelta = Infinity;
+
+    for (const t of this.targets) {
+      if (t.state !== 'active') continue;
+      if (zoneColumn(t.zone) !== col) continue;
+      // Six-lane mode also requires the tap to land in the target's row
+      if (this.laneMode === 'six-lane' && zoneRow(t.zone) !== row) continue;
+      const delta = Math.abs(judgeNow - t.hitTime);
+      if (delta <= GOOD_WINDOW && delta < bestDelta) {
+        best = t;
+        bestDelta = delta;
+      }
+    }
+
+    if (!best) return null;
+
+    const rating: HitRating = bestDelta <= PERFECT_WINDOW ? 'perfect' : 'good';
+    if (best.kind === 'tap') {
+      best.state = 'hit';
+    } else {
+      // Holds and slides stay on the rail until released or completed
+      best.state = 'holding';
+      best.headRating = rating;
+      best.pointerId = pointerId;
+    }
+    this.prune();
+
+    return { target: best, result: { rating, zone: best.zone, targetId: best.id }, time: songTime };
+  }
+
+  /**
+   * Pointer moved to `x` (fraction of canvas width): a slide fails if its
+   * pointer strays more than a column from where the slide head currently is.
+   */
+  track(pointerId: number, x: number, songTime: number): JudgeEvent[] {
+    const events: JudgeEvent[] = [];
+    for (const t of this.targets) {
+      if (t.state !== 'holding' || t.kind !== 'slide' || t.pointerId !== pointerId) continue;
+      if (Math.abs(x - slideHeadX(t, this.drawTime(songTime))) > 1 / 3) {
+        events.push(this.finishSustain(t, this.judgeTime(songTime)));
+      }
+    }
+    this.prune();
+    return events;
+  }
+
+  /** Pointer lifted: ends any hold/slide it was keeping down */
+  release(pointerId: number, songTime: number): JudgeEvent[] {
+    const events: JudgeEvent[] = [];
+    for (const t of this.targets) {
+      if (t.state !== 'holding' || t.pointerId !== pointerId) continue;
+      events.push(this.finishSustain(t, this.judgeTime(songTime)));
+    }
+    this.prune();
+    return events;
+  }
+
+  /** Whether this pointer is keeping a slide down, so its movement matters */
+  isTracking(pointerId: number): boolean {
+    return this.targets.some(t => t.state === 'holding' && t.kind === 'slide' && t.pointerId === pointerId);
+  }
+
+  /**
+   * Round over: anything still on screen is judged as if the song ran on,
+   * so the final score doesn't depend on exactly when the round was closed.
+   */
+  finish(): JudgeEvent[] {
+    const events = this.targets.map(t =>
+      t.state === 'holding' ? this.finishSustain(t, t.endTime) : this.miss(t)
+    );
+    this.stop();
+    return events.sort(byTime);
+  }
+
+  // ─── Private helpers ────────────────────────────────────────────────────────
+
+  private noteHitTime(songBeat: number): number {
+    return LEAD_IN_BEATS * this.secPerBeat + beatToSeconds(songBeat, this.bpm, this.tempoChanges);
+  }
+
+  private spawnTarget(note: SongNote): JudgeTarget {
+    const kind: TargetKind = note.slideTo ? 'slide' : note.holdBeats ? 'hold' : 'tap';
+    const hitTime = this.noteHitTime(note.beat);
+    const target: JudgeTarget = {
+      id: this.idCounter++,
+      kind,
+      zone: note.zone,
+      endZone: note.slideTo ?? note.zone,
+      hitTime,
+      endTime: kind === 'tap' ? hitTime : this.noteHitTime(note.beat + (note.holdBeats ?? 0)),
+      travelSec: TRAVEL_BEATS * 60 / bpmAtBeat(note.beat, this.bpm, this.tempoChanges),
+      state: 'active',
+      headRating: null,
+      pointerId: null,
+    };
+    this.targets.push(target);
+    return target;
+  }
+
+  private miss(t: JudgeTarget): JudgeEvent {
+    t.state = 'missed';
+    return {
+      target: t,
+      result: { rating: 'miss', zone: t.zone, targetId: t.id },
+      // On the song clock, when the grace period ran out
+      time: t.hitTime + GRACE_SEC + this.audioOffset,
+    };
+  }
+
+  /**
+   * Judge a hold/slide release. Letting go within GOOD_WINDOW of the end
+   * counts as complete; earlier releases get partial credit.
+   */
+  private finishSustain(t: JudgeTarget, judgeNow: number): JudgeEvent {
+    const duration = t.endTime - t.hitTime;
+    const complete = judgeNow >= t.endTime - GOOD_WINDOW;
+    const sustain = complete ? 1 : Math.max(0, Math.min(1, (judgeNow - t.hitTime) / duration));
+
+    let rating: HitRating;
+    if (complete) rating = t.headRating === 'perfect' ? 'perfect' : 'good';
+    else rating = sustain >= SUSTAIN_PASS ? 'good' : 'miss';
+
+    t.state = rating === 'miss' ? 'missed' : 'hit';
+    return {
+      target: t,
+      result: { rating, zone: t.endZone, targetId: t.id, sustain },
+      time: judgeNow + this.audioOffset,
+    };
+  }
+
+  /** Drop targets that have been judged */
+  private prune(): void {
+    this.targets = this.targets.filter(t => t.state === 'active' || t.state === 'holding');
+  }
+}
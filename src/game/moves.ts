@@ -0,0 +1,69 @@
+import { DanceAnimation, DanceFrame, JointKey, JointPose, TapZone } from '@/types';
+import { REST_POSE } from '@/game/animation';
+
+// ─── Custom Moves ─────────────────────────────────────────────────────────────
+// The recorder screen turns puppeteer taps into a dance move of the player's
+// own. Each tap is snapped to the nearest half beat and becomes a keyframe
+// reaching the tapped zone's joints out; half a beat later they drop back to
+// rest unless the next tap keeps them busy. The result is an ordinary looping
+// clip, so it plays at any tempo like the built-in moves.
+
+/** Longest move the recorder captures, in beats */
+export const MAX_MOVE_BEATS = 8;
+/** Taps snap to 1/TAP_DIVISION of a beat */
+export const TAP_DIVISION = 2;
+const RELEASE_BEATS = 0.5;
+
+export interface MoveTap {
+  beat: number;   // beats since recording started (unquantized)
+  zone: TapZone;
+}
+
+/** Where each zone's joints reach to when it's tapped */
+export const ZONE_REACH: Record<TapZone, JointPose> = {
+  'upper-left':   { leftShoulder: -1.6, leftElbow: 0.9 },
+  'upper-center': { torsoTilt: 0.3, headBob: 0.35 },
+  'upper-right':  { rightShoulder: 1.6, rightElbow: -0.9 },
+  'lower-left':   { leftHip: -0.8, leftKnee: 1 },
+  'lower-center': { leftHip: -0.5, rightHip: 0.5 },
+  'lower-right':  { rightHip: 0.8, rightKnee: -1 },
+};
+
+/** `beat` snapped to the nearest 1/`division` of a beat */
+export function quantizeBeat(beat: number, division = TAP_DIVISION): number {
+  return Math.round(beat * division) / division;
+}
+
+/**
+ * Build a looping clip from recorded taps, or null if none landed inside the
+ * recording. Taps on the same (quantized) beat combine into one pose; the
+ * clip runs to the whole beat after the last release.
+ */
+export function buildCustomMove(taps: MoveTap[]): DanceAnimation | null {
+  const reaches = new Map<number, JointPose>();
+  for (const tap of taps) {
+    const beat = quantizeBeat(tap.beat);
+    if (beat < 0 || beat >= MAX_MOVE_BEATS) continue;
+    reaches.set(beat, { ...reaches.get(beat), ...ZONE_REACH[tap.zone] });
+  }
+  if (reaches.size === 0) return null;
+
+  const lastBeat = Math.max(...reaches.keys());
+  const beats = Math.max(1, Math.ceil(lastBeat + RELEASE_BEATS));
+
+  // Releases first, so a reach on the same beat wins; they wrap round the loop
+  const poses = new Map<number, JointPose>();
+  for (const [beat, reach] of reaches) {
+    const release = (beat + RELEASE_BEATS) % beats;
+    const rest = Object.fromEntries(Object.keys(reach).map(j => [j, REST_POSE[j as JointKey]]));
+    poses.set(release, { ...poses.get(release), ...rest });
+  }
+  for (const [beat, reach] of reaches) {
+    poses.set(beat, { ...poses.get(beat), ...reach });
+  }
+
+  const frames: DanceFrame[] = [...poses.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([beat, joints]) => ({ beat, joints, ease: reaches.has(beat) ? 'easeOut' : 'easeInOut' }));
+  return { beats, loop: true, frames };
+}
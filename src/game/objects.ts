@@ -0,0 +1,347 @@
+import * as PIXI from 'pixi.js';
+import Matter from 'matter-js';
+import { DroppableObjectId, DroppableObjectDef, DROPPABLE_OBJECTS } from '@/types';
+import { ObjectPool } from '@/game/engine';
+import { Character } from '@/game/character';
+import { soundSystem } from '@/game/sounds';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const MAX_OBJECTS     = 12;    // on screen at once
+export const DESPAWN_SEC     = 8;     // auto-despawn age
+export const HIT_COOLDOWN    = 0.35;  // seconds before the same object can wobble the dancer again
+const POOL_SIZE              = 2;     // pre-built objects per type
+export const KNOCKDOWN_MASS  = 6;     // objects this heavy can knock the dancer over
+export const KNOCKDOWN_FORCE = 1.5;   // ...if they land with at least this intensity
+
+// Dancer hitbox, relative to the character container origin (torso centre)
+const HITBOX_W        = 70;
+const HITBOX_H        = 200;
+const HITBOX_OFFSET_Y = 20;
+
+// ─── DroppableObject ──────────────────────────────────────────────────────────
+
+export interface DroppableObject {
+  def: DroppableObjectDef;
+  body: Matter.Body;
+  sprite: PIXI.Container;
+  age: number;
+  lastHitAge: number;   // age at last dancer collision (-Infinity if none)
+  active: boolean;
+}
+
+/** Factory: build the physics body and procedural sprite for one object type */
+export function createDroppableObject(def: DroppableObjectDef): DroppableObject {
+  const options: Matter.IChamferableBodyDefinition = {
+    label: `object:${def.id}`,
+    restitution: def.restitution,
+    friction: def.friction,
+    frictionAir: 0.01,
+  };
+  const body = def.shape === 'circle'
+    ? Matter.Bodies.circle(0, 0, def.width / 2, options)
+    : Matter.Bodies.rectangle(0, 0, def.width, def.height, { ...options, chamfer: { radius: 6 } });
+  Matter.Body.setMass(body, def.mass);
+
+  const sprite = new PIXI.Container();
+  const gfx = new PIXI.Graphics();
+  drawObject(gfx, def);
+  sprite.addChild(gfx);
+
+  return { def, body, sprite, age: 0, lastHitAge: -Infinity, active: false };
+}
+
+// ─── ObjectManager ────────────────────────────────────────────────────────────
+
+export class ObjectManager {
+  private layer: PIXI.Container;
+  private physics: Matter.Engine;
+  private character: Character;
+  private canvasW: number;
+  private canvasH: number;
+  private pools = new Map<DroppableObjectId, ObjectPool<DroppableObject>>();
+  private active: DroppableObject[] = [];
+  private hitbox: Matter.Body;
+  private boundCollision: (e: Matter.IEventCollision<Matter.Engine>) => void;
+
+  constructor(
+    layer: PIXI.Container,
+    physics: Matter.Engine,
+    character: Character,
+    canvasW: number,
+    canvasH: number
+  ) {
+    this.layer = layer;
+    this.physics = physics;
+    this.character = character;
+    this.canvasW = canvasW;
+    this.canvasH = canvasH;
+
+    for (const def of Object.values(DROPPABLE_OBJECTS)) {
+      this.pools.set(def.id, new ObjectPool<DroppableObject>(
+        () => createDroppableObject(def),
+        obj => this.resetObject(obj),
+        POOL_SIZE
+      ));
+    }
+
+    // Static body that follows the dancer so objects bounce off them
+    this.hitbox = Matter.Bodies.rectangle(0, 0, HITBOX_W, HITBOX_H, {
+      isStatic: true,
+      label: 'character',
+      restitution: 0.4,
+      friction: 0.3,
+    });
+    this.syncHitbox();
+    Matter.World.add(this.physics.world, this.hitbox);
+
+    this.boundCollision = this.handleCollision.bind(this);
+    Matter.Events.on(this.physics, 'collisionStart', this.boundCollision);
+  }
+
+  // ─── Public API ─────────────────────────────────────────────────────────────
+
+  /** Drop an object from above the stage. `x` defaults to a spot near the dancer. */
+  spawn(id: DroppableObjectId, x?: number): DroppableObject | null {
+    const pool = this.pools.get(id);
+    if (!pool) return null;
+
+    // Recycle the oldest object when the screen is full
+    if (this.active.length >= MAX_OBJECTS) {
+      const oldest = this.active.shift();
+      if (oldest) this.pools.get(oldest.def.id)?.release(oldest);
+    }
+
+    const obj = pool.acquire();
+    const charX = this.character.container.x;
+    const spawnX = x ?? charX + (Math.random() - 0.5) * HITBOX_W * 1.5;
+
+    Matter.Body.setPosition(obj.body, { x: spawnX, y: -obj.def.height });
+    Matter.Body.setVelocity(obj.body, { x: (Math.random() - 0.5) * 2, y: 0 });
+    Matter.Body.setAngle(obj.body, (Math.random() - 0.5) * 0.6);
+    Matter.Body.setAngularVelocity(obj.body, (Math.random() - 0.5) * 0.1);
+    Matter.World.add(this.physics.world, obj.body);
+
+    obj.age = 0;
+    obj.lastHitAge = -Infinity;
+    obj.active = true;
+    this.syncSprite(obj);
+    this.layer.addChild(obj.sprite);
+    this.active.push(obj);
+
+    soundSystem.playDrop();
+    return obj;
+  }
+
+  update(dt: number): void {
+    this.syncHitbox();
+
+    const toRelease: DroppableObject[] = [];
+    for (const obj of this.active) {
+      obj.age += dt;
+      this.syncSprite(obj);
+
+      const offScreen =
+        obj.body.position.y > this.canvasH + 100 ||
+        obj.body.position.x < -100 ||
+        obj.body.position.x > this.canvasW + 100;
+
+      if (obj.age >= DESPAWN_SEC || offScreen) {
+        toRelease.push(obj);
+      } else if (obj.age > DESPAWN_SEC - 0.5) {
+        obj.sprite.alpha = (DESPAWN_SEC - obj.age) / 0.5;
+      }
+    }
+
+    for (const obj of toRelease) {
+      this.active = this.active.filter(o => o !== obj);
+      this.pools.get(obj.def.id)?.release(obj);
+    }
+  }
+
+  resize(canvasW: number, canvasH: number): void {
+    this.canvasW = canvasW;
+    this.canvasH = canvasH;
+  }
+
+  get activeCount(): number {
+    return this.active.length;
+  }
+
+  destroy(): void {
+    Matter.Events.off(this.physics, 'collisionStart', this.boundCollision);
+    // Back into their pools, then free every sprite's geometry
+    for (const obj of this.active) this.pools.get(obj.def.id)?.release(obj);
+    this.active = [];
+    for (const pool of this.pools.values()) pool.drain(obj => obj.sprite.destroy({ children: true }));
+    this.pools.clear();
+    Matter.World.remove(this.physics.world, this.hitbox);
+  }
+
+  // ─── Private helpers ────────────────────────────────────────────────────────
+
+  private handleCollision(e: Matter.IEventCollision<Matter.Engine>): void {
+    for (const pair of e.pairs) {
+      let other: Matter.Body | null = null;
+      if (pair.bodyA === this.hitbox) other = pair.bodyB;
+      else if (pair.bodyB === this.hitbox) other = pair.bodyA;
+      if (!other) continue;
+
+      const obj = this.active.find(o => o.body === other);
+      if (!obj || obj.age - obj.lastHitAge < HIT_COOLDOWN) continue;
+      obj.lastHitAge = obj.age;
+
+      const { mass, reaction } = obj.def;
+      const intensity = Math.min(3, mass * 0.25 * (0.5 + obj.body.speed / 10));
+
+      const dx = obj.body.position.x - this.hitbox.position.x;
+      const fromAbove = obj.body.position.y < this.hitbox.position.y - HITBOX_H * 0.35;
+      const direction = fromAbove && Math.abs(dx) < HITBOX_W * 0.3
+        ? 'up'
+        : dx < 0 ? 'right' : 'left';
+
+      this.character.wobble(intensity, direction);
+      this.character.showReaction(reaction);
+      soundSystem.playCollision(mass);
+
+      if (mass >= KNOCKDOWN_MASS && intensity >= KNOCKDOWN_FORCE) {
+        const push = direction === 'up' ? 0 : direction === 'right' ? 1 : -1;
+        this.character.collapse({ x: push * intensity * 2, y: intensity });
+      }
+    }
+  }
+
+  private syncHitbox(): void {
+    // While the dancer is a limp ragdoll, objects fall through the standing hitbox
+    this.hitbox.isSensor = this.character.isCollapsed;
+    if (this.character.isCollapsed) return;
+
+    const { x, y } = this.character.container.position;
+    Matter.Body.setPosition(this.hitbox, { x, y: y + HITBOX_OFFSET_Y });
+  }
+
+  private syncSprite(obj: DroppableObject): void {
+    obj.sprite.position.set(obj.body.position.x, obj.body.position.y);
+    obj.sprite.rotation = obj.body.angle;
+  }
+
+  private resetObject(obj: DroppableObject): void {
+    obj.active = false;
+    obj.age = 0;
+    obj.sprite.alpha = 1;
+    Matter.World.remove(this.physics.world, obj.body);
+    Matter.Body.setVelocity(obj.body, { x: 0, y: 0 });
+    Matter.Body.setAngularVelocity(obj.body, 0);
+    if (obj.sprite.parent) obj.sprite.parent.removeChild(obj.sprite);
+  }
+}
+
+// ─── Procedural Sprites ───────────────────────────────────────────────────────
+
+function drawObject(g: PIXI.Graphics, def: DroppableObjectDef): void {
+  const r = def.width / 2;
+  const w = def.width;
+  const h = def.height;
+
+  switch (def.id) {
+    case 'beachBall': {
+      const stripes = [0xFF6B6B, 0xFFFFFF, 0x4D96FF, 0xFFFFFF, 0xFFE66D, 0xFFFFFF];
+      for (let i = 0; i < stripes.length; i++) {
+        const a0 = (i / stripes.length) * Math.PI * 2;
+        const a1 = ((i + 1) / stripes.length) * Math.PI * 2;
+        g.beginFill(stripes[i]);
+        g.moveTo(0, 0);
+        g.arc(0, 0, r, a0, a1);
+        g.lineTo(0, 0);
+        g.endFill();
+      }
+      g.beginFill(0xFFFFFF);
+      g.drawCircle(0, 0, r * 0.18);
+      g.endFill();
+      break;
+    }
+    case 'anvil':
+      g.beginFill(0x3A3A44);
+      g.drawPolygon([
+        -w / 2, -h / 2,
+         w / 2, -h / 2,
+         w * 0.3, -h * 0.1,
+         w * 0.22, h / 2,
+        -w * 0.22, h / 2,
+        -w * 0.3, -h * 0.1,
+      ]);
+      g.endFill();
+      g.beginFill(0x70707C, 0.6);
+      g.drawRect(-w / 2, -h / 2, w, 4);
+      g.endFill();
+      break;
+    case 'rubberDuck':
+      g.beginFill(0xFFD93D);
+      g.drawEllipse(0, r * 0.2, r, r * 0.75);
+      g.drawCircle(r * 0.35, -r * 0.45, r * 0.5);
+      g.endFill();
+      g.beginFill(0xFF8C1A);
+      g.drawPolygon([r * 0.8, -r * 0.5, r * 1.2, -r * 0.35, r * 0.8, -r * 0.25]);
+      g.endFill();
+      g.beginFill(0x222222);
+      g.drawCircle(r * 0.5, -r * 0.55, 2.5);
+      g.endFill();
+      break;
+    case 'giantTaco':
+      // Fillings peeking over the shell
+      g.beginFill(0x6BCB77);
+      g.drawEllipse(0, -h * 0.15, w * 0.45, h * 0.3);
+      g.endFill();
+      g.beginFill(0xFF6B6B);
+      g.drawCircle(-w * 0.15, -h * 0.3, 5);
+      g.drawCircle(w * 0.12, -h * 0.28, 5);
+      g.endFill();
+      g.beginFill(0xF4C430);
+      g.moveTo(-w / 2, -h * 0.1);
+      g.arc(0, -h * 0.1, w / 2, Math.PI, 0, true);
+      g.lineTo(-w / 2, -h * 0.1);
+      g.endFill();
+      break;
+    case 'bowlingBall':
+      g.beginFill(0x1B1B3A);
+      g.drawCircle(0, 0, r);
+      g.endFill();
+      g.beginFill(0x000000);
+      g.drawCircle(-r * 0.25, -r * 0.35, 3.5);
+      g.drawCircle(r * 0.1, -r * 0.45, 3.5);
+      g.drawCircle(-r * 0.05, -r * 0.1, 4);
+      g.endFill();
+      break;
+    case 'watermelon':
+      g.beginFill(0x2E8B57);
+      g.drawCircle(0, 0, r);
+      g.endFill();
+      g.lineStyle(3, 0x1E5E3A, 0.8);
+      for (let i = -2; i <= 2; i++) {
+        g.moveTo(i * r * 0.35, -r * 0.9);
+        g.lineTo(i * r * 0.35, r * 0.9);
+      }
+      g.lineStyle(0);
+      break;
+    case 'pillow':
+      g.beginFill(0xF5F0FF);
+      g.drawRoundedRect(-w / 2, -h / 2, w, h, h * 0.4);
+      g.endFill();
+      g.lineStyle(1.5, 0xC8B8F0, 0.8);
+      g.moveTo(-w * 0.3, 0);
+      g.lineTo(w * 0.3, 0);
+      g.lineStyle(0);
+      break;
+    case 'donut':
+      g.beginFill(0xD4935A);
+      g.drawCircle(0, 0, r);
+      g.endFill();
+      g.beginFill(0xFF9FF3);
+      g.drawCircle(0, 0, r * 0.85);
+      g.endFill();
+      g.beginFill(0x1a0533);
+      g.drawCircle(0, 0, r * 0.32);
+      g.endFill();
+      break;
+  }
+}
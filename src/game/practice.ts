@@ -0,0 +1,100 @@
+import { SongDefinition, SongNote, SongMove, TempoChange, PracticeSettings } from '@/types';
+import { getSongNotes, getSongMoves, bpmAtBeat, beatToSeconds, LEAD_IN_BEATS } from '@/game/chart';
+
+// ─── Practice ─────────────────────────────────────────────────────────────────
+// Rehearsing a section plays a song of its own: the chosen bars, repeated and
+// slowed down. Scaling the tempo map (rather than the clocks) slows the
+// backing track and the targets together, and judging stays in real seconds.
+
+export const PRACTICE_SPEEDS = [0.5, 0.6, 0.7, 0.8, 0.9, 1];
+export const PRACTICE_LOOPS = [2, 4, 8, 16];
+
+export function beatsPerBar(song: SongDefinition): number {
+  return song.beatPattern.length;
+}
+
+export function defaultPracticeSettings(song: SongDefinition): PracticeSettings {
+  return { fromBar: 0, toBar: Math.min(3, song.barCount - 1), speed: 0.75, loops: 4, showZones: true };
+}
+
+/** `settings` made valid for `song`: bars inside it and in order, speed and loops in range */
+export function clampPracticeSettings(song: SongDefinition, settings: PracticeSettings): PracticeSettings {
+  const lastBar = song.barCount - 1;
+  const fromBar = Math.max(0, Math.min(lastBar, Math.floor(settings.fromBar)));
+  return {
+    fromBar,
+    toBar: Math.max(fromBar, Math.min(lastBar, Math.floor(settings.toBar))),
+    speed: Math.max(PRACTICE_SPEEDS[0], Math.min(1, settings.speed)),
+    loops: Math.max(1, Math.floor(settings.loops)),
+    showZones: settings.showZones,
+  };
+}
+
+/** The song to play for a practice session */
+export function practiceSong(song: SongDefinition, settings: PracticeSettings): SongDefinition {
+  const { fromBar, toBar, speed, loops } = clampPracticeSettings(song, settings);
+  const bpb = beatsPerBar(song);
+  const start = fromBar * bpb;
+  const end = (toBar + 1) * bpb;
+  const length = end - start;
+
+  // Sustains are cut off where the section ends, so a loop never overlaps the next
+  const section = getSongNotes(song)
+    .filter(n => n.beat >= start && n.beat < end)
+    .map((n): SongNote => {
+      const shifted: SongNote = { ...n, beat: n.beat - start };
+      if (n.holdBeats) shifted.holdBeats = Math.min(n.holdBeats, end - n.beat);
+      return shifted;
+    });
+
+  // The dancer starts each loop on the move in effect where the section begins
+  const choreography = getSongMoves(song);
+  const opening = choreography.filter(m => m.beat <= start).pop();
+  const sectionMoves = choreography
+    .filter(m => m.beat > start && m.beat < end)
+    .map((m): SongMove => ({ ...m, beat: m.beat - start }));
+  if (opening) sectionMoves.unshift({ beat: 0, move: opening.move });
+
+  const startBpm = bpmAtBeat(start, song.bpm, song.tempoChanges);
+  const sectionChanges = (song.tempoChanges ?? []).filter(c => c.beat > start && c.beat < end);
+
+  const notes: SongNote[] = [];
+  const moves: SongMove[] = [];
+  const tempoChanges: TempoChange[] = [];
+  for (let loop = 0; loop < loops; loop++) {
+    const offset = loop * length;
+    for (const n of section) notes.push({ ...n, beat: n.beat + offset });
+    for (const m of sectionMoves) moves.push({ ...m, beat: m.beat + offset });
+    if (sectionChanges.length === 0) continue;
+    // Each loop starts back at the section's opening tempo
+    if (loop > 0) tempoChanges.push({ beat: offset, bpm: startBpm * speed });
+    for (const c of sectionChanges) tempoChanges.push({ beat: c.beat - start + offset, bpm: c.bpm * speed });
+  }
+
+  const bpm = startBpm * speed;
+  const changes = tempoChanges.length > 0 ? tempoChanges : undefined;
+  return {
+    ...song,
+    bpm,
+    barCount: (toBar - fromBar + 1) * loops,
+    durationSec: Math.round(beatToSeconds(length * loops, bpm, changes)),
+    notes,
+    tempoChanges: changes,
+    moves: moves.length > 0 ? moves : undefined,
+  };
+}
+
+/** Which loop (1-based) audio beat `beatNum` of a practice session falls in */
+export function practiceLoopAt(song: SongDefinition, settings: PracticeSettings, beatNum: number): number {
+  const loopBeats = (settings.toBar - settings.fromBar + 1) * beatsPerBar(song);
+  const loop = Math.floor((beatNum - LEAD_IN_BEATS) / loopBeats) + 1;
+  return Math.max(1, Math.min(settings.loops, loop));
+}
+
+/** Short description, e.g. 'Bars 3–6 · 75% · ×4' */
+export function describePractice(settings: PracticeSettings): string {
+  const bars = settings.fromBar === settings.toBar
+    ? `Bar ${settings.fromBar + 1}`
+    : `Bars ${settings.fromBar + 1}–${settings.toBar + 1}`;
+  return `${bars} · ${Math.round(settings.speed * 100)}% · ×${settings.loops}`;
+}
@@ -0,0 +1,142 @@
+import {
+  ScoreState,
+  Grade,
+  XpAward,
+  AchievementId,
+  ProgressionState,
+  CustomizationData,
+  HairStyle,
+  OutfitTop,
+  OutfitBottom,
+  OutfitShoes,
+  HatStyle,
+  GlassesStyle,
+} from '@/types';
+import { computeAccuracy, computeGrade } from '@/game/scoring';
+import { ACHIEVEMENTS } from '@/game/achievements';
+
+// ─── Progression ──────────────────────────────────────────────────────────────
+// Sessions and challenge rewards earn XP. Awards are append-only (migration
+// 007) and a player's XP is their sum; the level is derived from it rather
+// than stored, so the two can never disagree.
+
+export const MAX_LEVEL = 50;
+const FIRST_LEVEL_XP = 200;  // level 1 → 2
+const LEVEL_XP_STEP = 100;   // each later level costs this much more
+
+const HYPE_PER_XP = 500;
+const REWARD_POINTS_PER_XP = 10;
+const GRADE_XP: Record<Grade, number> = { S: 100, A: 60, B: 30, C: 15, D: 5 };
+
+/** XP needed to go from `level` to the next */
+export function xpToNextLevel(level: number): number {
+  return level >= MAX_LEVEL ? 0 : FIRST_LEVEL_XP + LEVEL_XP_STEP * (level - 1);
+}
+
+/** Total XP at which `level` is reached */
+export function xpForLevel(level: number): number {
+  const steps = Math.min(level, MAX_LEVEL) - 1;
+  return FIRST_LEVEL_XP * steps + (LEVEL_XP_STEP * steps * (steps - 1)) / 2;
+}
+
+export function levelForXp(xp: number): number {
+  let level = 1;
+  while (level < MAX_LEVEL && xp >= xpForLevel(level + 1)) level++;
+  return level;
+}
+
+// ─── Awards ───────────────────────────────────────────────────────────────────
+
+/** XP for a session: its Hype, plus a grade bonus if the song was played to the end */
+export function sessionXpAward(score: ScoreState, songEnded: boolean): XpAward | null {
+  const grade = songEnded ? computeGrade(computeAccuracy(score)) : undefined;
+  const xp = Math.floor(score.totalScore / HYPE_PER_XP) + (grade ? GRADE_XP[grade] : 0);
+  if (xp <= 0) return null;
+  return grade ? { source: 'session', xp, grade } : { source: 'session', xp };
+}
+
+/** XP for completing a challenge, from its reward points */
+export function challengeXpAward(challengeId: string, rewardPoints: number): XpAward {
+  const source = challengeId.startsWith('weekly:') ? 'weekly' : challengeId.startsWith('seasonal:') ? 'seasonal' : 'daily';
+  return { source, xp: Math.round(rewardPoints / REWARD_POINTS_PER_XP), challengeId };
+}
+
+/** Level and progress from a player's awards, with the achievements they've unlocked */
+export function summarizeProgression(awards: XpAward[], achievements: AchievementId[] = []): ProgressionState {
+  const xp = awards.reduce((sum, a) => sum + a.xp, 0);
+  const level = levelForXp(xp);
+  return {
+    xp,
+    level,
+    levelXp: xp - xpForLevel(level),
+    nextLevelXp: xpToNextLevel(level),
+    achievements,
+  };
+}
+
+// ─── Cosmetic Unlocks ─────────────────────────────────────────────────────────
+// Anything not listed here is available from the start, as is everything in
+// DEFAULT_CUSTOMIZATION. A look already worn is kept even if it is locked.
+
+export type UnlockRequirement = { level: number } | { achievement: AchievementId };
+
+export interface LockableOptions {
+  hairStyle: HairStyle;
+  outfitTop: OutfitTop;
+  outfitBottom: OutfitBottom;
+  shoes: OutfitShoes;
+  hat: HatStyle;
+  glasses: GlassesStyle;
+}
+
+export const COSMETIC_UNLOCKS: { [F in keyof LockableOptions]: Partial<Record<LockableOptions[F], UnlockRequirement>> } = {
+  hairStyle:    { bun: { level: 3 }, afro: { level: 6 }, spiky: { level: 10 } },
+  outfitTop:    { hoodie: { level: 2 }, sweater: { level: 5 }, suit: { level: 12 } },
+  outfitBottom: { joggers: { level: 4 } },
+  shoes:        { boots: { level: 3 }, heels: { level: 8 }, cleats: { achievement: 'flawless' } },
+  hat:          { cap: { level: 2 }, beanie: { level: 5 }, cowboy: { achievement: 'weekly_winner' }, tophat: { level: 15 } },
+  glasses:      { round: { level: 4 }, square: { level: 7 }, heart: { achievement: 'daily_regular' }, shades: { achievement: 'season_star' } },
+};
+
+export function unlockRequirement(field: keyof CustomizationData, value: string): UnlockRequirement | null {
+  const table = COSMETIC_UNLOCKS[field as keyof LockableOptions] as Record<string, UnlockRequirement> | undefined;
+  return table?.[value] ?? null;
+}
+
+export function meetsRequirement(requirement: UnlockRequirement | null, progression: ProgressionState): boolean {
+  if (!requirement) return true;
+  if ('level' in requirement) return progression.level >= requirement.level;
+  return progression.achievements.includes(requirement.achievement);
+}
+
+export function isOptionUnlocked(field: keyof CustomizationData, value: string, progression: ProgressionState): boolean {
+  return meetsRequirement(unlockRequirement(field, value), progression);
+}
+
+/** Short player-facing reason an option is locked, e.g. 'Level 6' or '📆 Weekly Winner' */
+export function describeRequirement(requirement: UnlockRequirement): string {
+  if ('level' in requirement) return `Level ${requirement.level}`;
+  const achievement = ACHIEVEMENTS[requirement.achievement];
+  return `${achievement.emoji} ${achievement.name}`;
+}
+
+/** Options in `look` that `progression` hasn't unlocked yet */
+export function lockedOptions(look: Partial<CustomizationData>, progression: ProgressionState): UnlockRequirement[] {
+  const locked: UnlockRequirement[] = [];
+  for (const [field, value] of Object.entries(look)) {
+    const requirement = unlockRequirement(field as keyof CustomizationData, String(value));
+    if (requirement && !meetsRequirement(requirement, progression)) locked.push(requirement);
+  }
+  return locked;
+}
+
+/** How many options became available going from `before` to `after` */
+export function countNewUnlocks(before: ProgressionState, after: ProgressionState): number {
+  let count = 0;
+  for (const table of Object.values(COSMETIC_UNLOCKS) as Array<Record<string, UnlockRequirement>>) {
+    for (const requirement of Object.values(table)) {
+      if (!meetsRequirement(requirement, before) && meetsRequirement(requirement, after)) count++;
+    }
+  }
+  return count;
+}
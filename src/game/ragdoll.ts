@@ -0,0 +1,214 @@
+import Matter from 'matter-js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type RagdollPart =
+  | 'torso'
+  | 'head'
+  | 'leftUpperArm'
+  | 'leftLowerArm'
+  | 'rightUpperArm'
+  | 'rightLowerArm'
+  | 'leftUpperLeg'
+  | 'leftLowerLeg'
+  | 'rightUpperLeg'
+  | 'rightLowerLeg';
+
+/** Skeleton measurements, in px, matching the Character's proportions */
+export interface RagdollDimensions {
+  headR: number;
+  torsoW: number;
+  torsoH: number;
+  armLen: number;
+  forearmLen: number;
+  legLen: number;
+  shinLen: number;
+  limbW: number;
+}
+
+/**
+ * A pose snapshot. Angles are absolute in the character container's frame
+ * (0 = hanging straight down, same convention as PIXI rotation).
+ */
+export interface RagdollPose {
+  x: number;          // torso centre, world space
+  y: number;
+  rotation: number;   // torso body angle
+  angles: Record<RagdollPart, number>;
+}
+
+// Collision categories: ragdoll parts only collide with the ragdoll floor,
+// so they never tangle with droppable objects or the dancer hitbox.
+const CATEGORY_PART  = 0x0002;
+const CATEGORY_FLOOR = 0x0004;
+
+const PART_AIR_FRICTION = 0.06;
+const JOINT_STIFFNESS   = 0.9;
+
+// ─── Ragdoll ──────────────────────────────────────────────────────────────────
+
+export class Ragdoll {
+  private physics: Matter.Engine;
+  private dims: RagdollDimensions;
+  private floorY: number;
+  private bodies: Partial<Record<RagdollPart, Matter.Body>> = {};
+  private constraints: Matter.Constraint[] = [];
+  private floor: Matter.Body | null = null;
+  private _active = false;
+
+  constructor(physics: Matter.Engine, dims: RagdollDimensions, floorY: number) {
+    this.physics = physics;
+    this.dims = dims;
+    this.floorY = floorY;
+  }
+
+  get active(): boolean {
+    return this._active;
+  }
+
+  setFloorY(y: number): void {
+    this.floorY = y;
+  }
+
+  /**
+   * Build the bodies from the current pose so the collapse starts exactly
+   * where the spring-driven skeleton is, then push it with `impulse` (px/step).
+   */
+  spawn(pose: RagdollPose, impulse: { x: number; y: number }): void {
+    if (this._active) this.remove();
+
+    const { headR: R, torsoW: TW, torsoH: TH, armLen, forearmLen, legLen, shinLen, limbW } = this.dims;
+    const a = pose.angles;
+    const origin = { x: pose.x, y: pose.y };
+
+    // Container-local → world
+    const toWorld = (lx: number, ly: number) => {
+      const c = Math.cos(pose.rotation);
+      const s = Math.sin(pose.rotation);
+      return { x: origin.x + lx * c - ly * s, y: origin.y + lx * s + ly * c };
+    };
+    // Unit vector of a limb hanging at `angle` (PIXI rotation convention)
+    const dir = (angle: number) => ({ x: -Math.sin(angle), y: Math.cos(angle) });
+
+    const group = Matter.Body.nextGroup(true);
+    const partOptions = (): Matter.IChamferableBodyDefinition => ({
+      frictionAir: PART_AIR_FRICTION,
+      friction: 0.6,
+      restitution: 0.1,
+      collisionFilter: { group, category: CATEGORY_PART, mask: CATEGORY_FLOOR },
+    });
+
+    // Torso + head
+    const torso = Matter.Bodies.rectangle(origin.x, origin.y, TW, TH, {
+      ...partOptions(),
+      angle: pose.rotation,
+      label: 'ragdoll:torso',
+    });
+    const headCentre = toWorld(0, -TH / 2 - R - 2);
+    const head = Matter.Bodies.circle(headCentre.x, headCentre.y, R, {
+      ...partOptions(),
+      label: 'ragdoll:head',
+    });
+    Matter.Body.setAngle(head, a.head);
+    this.bodies.torso = torso;
+    this.bodies.head = head;
+    this.link(torso, head, toWorld(0, -TH / 2));
+
+    // Limbs: [upper, lower, anchor (container-local), upper length, lower length]
+    const limbs: Array<[RagdollPart, RagdollPart, number, number, number, number]> = [
+      ['leftUpperArm', 'leftLowerArm', -TW / 2, -TH * 0.82, armLen, forearmLen],
+      ['rightUpperArm', 'rightLowerArm', TW / 2, -TH * 0.82, armLen, forearmLen],
+      ['leftUpperLeg', 'leftLowerLeg', -TW * 0.28, TH / 2, legLen, shinLen],
+      ['rightUpperLeg', 'rightLowerLeg', TW * 0.28, TH / 2, legLen, shinLen],
+    ];
+
+    let lowest = origin.y + TH / 2;
+    for (const [upperKey, lowerKey, ax, ay, upperLen, lowerLen] of limbs) {
+      const anchor = toWorld(ax, ay);
+      const ud = dir(a[upperKey]);
+      const upper = Matter.Bodies.rectangle(
+        anchor.x + ud.x * upperLen / 2,
+        anchor.y + ud.y * upperLen / 2,
+        limbW, upperLen,
+        { ...partOptions(), angle: a[upperKey], label: `ragdoll:${upperKey}` }
+      );
+      const mid = { x: anchor.x + ud.x * upperLen, y: anchor.y + ud.y * upperLen };
+      const ld = dir(a[lowerKey]);
+      const lower = Matter.Bodies.rectangle(
+        mid.x + ld.x * lowerLen / 2,
+        mid.y + ld.y * lowerLen / 2,
+        limbW, lowerLen,
+        { ...partOptions(), angle: a[lowerKey], label: `ragdoll:${lowerKey}` }
+      );
+      this.bodies[upperKey] = upper;
+      this.bodies[lowerKey] = lower;
+      this.link(torso, upper, anchor);
+      this.link(upper, lower, mid);
+      lowest = Math.max(lowest, mid.y + ld.y * lowerLen + limbW);
+    }
+
+    // Floor sits on the stage, but never above the feet or the parts would pop
+    const floorY = Math.max(this.floorY, lowest);
+    this.floor = Matter.Bodies.rectangle(origin.x, floorY + 20, 2000, 40, {
+      isStatic: true,
+      label: 'ragdoll:floor',
+      friction: 0.9,
+      collisionFilter: { category: CATEGORY_FLOOR, mask: CATEGORY_PART },
+    });
+
+    const bodies = Object.values(this.bodies) as Matter.Body[];
+    Matter.World.add(this.physics.world, [...bodies, ...this.constraints, this.floor]);
+
+    this.applyImpulse(impulse);
+    this._active = true;
+  }
+
+  /** Kick an already-collapsed ragdoll (e.g. a second object landing) */
+  applyImpulse(impulse: { x: number; y: number }): void {
+    for (const key of ['torso', 'head'] as const) {
+      const body = this.bodies[key];
+      if (!body) continue;
+      Matter.Body.setVelocity(body, {
+        x: body.velocity.x + impulse.x,
+        y: body.velocity.y + impulse.y,
+      });
+    }
+    const torso = this.bodies.torso;
+    if (torso) Matter.Body.setAngularVelocity(torso, torso.angularVelocity + impulse.x * 0.01);
+  }
+
+  readPose(): RagdollPose | null {
+    const torso = this.bodies.torso;
+    if (!this._active || !torso) return null;
+
+    const angles = {} as Record<RagdollPart, number>;
+    for (const [key, body] of Object.entries(this.bodies) as Array<[RagdollPart, Matter.Body]>) {
+      angles[key] = body.angle;
+    }
+    return { x: torso.position.x, y: torso.position.y, rotation: torso.angle, angles };
+  }
+
+  remove(): void {
+    const bodies = Object.values(this.bodies) as Matter.Body[];
+    Matter.World.remove(this.physics.world, [...bodies, ...this.constraints]);
+    if (this.floor) Matter.World.remove(this.physics.world, this.floor);
+    this.bodies = {};
+    this.constraints = [];
+    this.floor = null;
+    this._active = false;
+  }
+
+  // ─── Private helpers ────────────────────────────────────────────────────────
+
+  /** Pin two bodies together at a shared world-space point */
+  private link(bodyA: Matter.Body, bodyB: Matter.Body, at: { x: number; y: number }): void {
+    this.constraints.push(Matter.Constraint.create({
+      bodyA,
+      bodyB,
+      pointA: { x: at.x - bodyA.position.x, y: at.y - bodyA.position.y },
+      pointB: { x: at.x - bodyB.position.x, y: at.y - bodyB.position.y },
+      length: 0,
+      stiffness: JOINT_STIFFNESS,
+    }));
+  }
+}
@@ -0,0 +1,294 @@
+import {
+  ReplayData,
+  ReplayHit,
+  ReplayInput,
+  ReplayInputKind,
+  ReplayMove,
+  DanceMoveId,
+  TapZone,
+  TAP_ZONES,
+  FREESTYLE_MOVES,
+  MAX_PALETTE_MOVES,
+  HIT_RATINGS,
+  REPLAY_FORMAT_VERSION,
+} from '@/types';
+import type { RhythmHitResult } from '@/game/scoring';
+
+// ─── Replay Format ────────────────────────────────────────────────────────────
+// Times are whole milliseconds after the song's first audio beat, and the
+// live session judges taps at those rounded times too, so feeding the same
+// inputs back through RhythmEngine reproduces every rating exactly.
+
+export const INPUT_DOWN: ReplayInputKind = 0;
+export const INPUT_UP: ReplayInputKind = 1;
+export const INPUT_MOVE: ReplayInputKind = 2;
+
+const MAX_INPUTS = 20000;
+
+/** Milliseconds since `startSec` on the audio clock */
+export function replayMs(startSec: number, audioNow: number): number {
+  return Math.round((audioNow - startSec) * 1000);
+}
+
+/** Canvas coordinate as per-mille of the canvas size */
+export function toPermille(value: number, size: number): number {
+  return Math.max(0, Math.min(1000, Math.round((value / size) * 1000)));
+}
+
+export function encodeHit(ms: number, hit: RhythmHitResult): ReplayHit {
+  const sustain = hit.sustain === undefined ? -1 : Math.round(hit.sustain * 1000);
+  return [ms, HIT_RATINGS.indexOf(hit.rating), TAP_ZONES.indexOf(hit.zone), hit.targetId, sustain];
+}
+
+export function decodeHit(hit: ReplayHit): RhythmHitResult {
+  const result: RhythmHitResult = {
+    rating: HIT_RATINGS[hit[1]],
+    zone: TAP_ZONES[hit[2]],
+    targetId: hit[3],
+  };
+  if (hit[4] >= 0) result.sustain = hit[4] / 1000;
+  return result;
+}
+
+export function inputZone(input: ReplayInput): TapZone {
+  return TAP_ZONES[input[5]];
+}
+
+/**
+ * Index of the first hit that differs between two runs (ignoring when it
+ * was recorded), or -1 when they match.
+ */
+export function firstHitMismatch(expected: ReplayHit[], actual: ReplayHit[]): number {
+  const len = Math.max(expected.length, actual.length);
+  for (let i = 0; i < len; i++) {
+    const a = expected[i];
+    const b = actual[i];
+    if (!a || !b) return i;
+    for (let k = 1; k < a.length; k++) {
+      if (a[k] !== b[k]) return i;
+    }
+  }
+  return -1;
+}
+
+// ─── Seeded RNG ───────────────────────────────────────────────────────────────
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/** A seed derived from a string, e.g. a challenge's date or week */
+export function seedFromString(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) - hash + text.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 — small, fast and identical on every platform */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ─── Recorder ─────────────────────────────────────────────────────────────────
+
+export class ReplayRecorder {
+  private songId: string;
+  private seed: number;
+  private latencyMs: [number, number];
+  private player: string;
+  private inputs: ReplayInput[] = [];
+  private hits: ReplayHit[] = [];
+  private moves: ReplayMove[] = [];
+  private challenge: string | null = null;
+
+  constructor(songId: string, seed: number, latencyMs: [number, number], player: string) {
+    this.songId = songId;
+    this.seed = seed;
+    this.latencyMs = latencyMs;
+    this.player = player;
+  }
+
+  setChallenge(date: string | null): void {
+    this.challenge = date;
+  }
+
+  recordInput(ms: number, kind: ReplayInputKind, x: number, y: number, pointerId: number, zone: TapZone): void {
+    if (this.inputs.length >= MAX_INPUTS) return;
+    this.inputs.push([ms, kind, x, y, pointerId, TAP_ZONES.indexOf(zone)]);
+  }
+
+  /**
+   * A freestyle move danced at `ms`. `slot` is a saved move's place on the
+   * palette, so different saved moves score as different moves.
+   */
+  recordMove(ms: number, move: DanceMoveId, slot?: number): void {
+    if (this.moves.length >= MAX_INPUTS) return;
+    const index = FREESTYLE_MOVES.indexOf(move);
+    this.moves.push(move === 'custom' && slot !== undefined ? [ms, index, slot] : [ms, index]);
+  }
+
+  recordHit(ms: number, hit: RhythmHitResult): void {
+    this.hits.push(encodeHit(ms, hit));
+  }
+
+  /** Judged hits so far — a playback compares these against the original */
+  getHits(): ReplayHit[] {
+    return this.hits;
+  }
+
+  finish(score: number): ReplayData {
+    const replay: ReplayData = {
+      v: REPLAY_FORMAT_VERSION,
+      songId: this.songId,
+      seed: this.seed,
+      latency: this.latencyMs,
+      challenge: this.challenge,
+      player: this.player,
+      createdAt: new Date().toISOString(),
+      score,
+      inputs: this.inputs,
+      hits: this.hits,
+    };
+    if (this.moves.length > 0) replay.moves = this.moves;
+    return replay;
+  }
+}
+
+// ─── Player ───────────────────────────────────────────────────────────────────
+
+export class ReplayPlayer {
+  private replay: ReplayData;
+  private cursor = 0;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+  }
+
+  /** Inputs recorded at or before `ms`, each returned once in order */
+  due(ms: number): ReplayInput[] {
+    const out: ReplayInput[] = [];
+    const { inputs } = this.replay;
+    while (this.cursor < inputs.length && inputs[this.cursor][0] <= ms) {
+      out.push(inputs[this.cursor++]);
+    }
+    return out;
+  }
+
+  get finished(): boolean {
+    return this.cursor >= this.replay.inputs.length;
+  }
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+export interface ReplayParseResult {
+  replay: ReplayData | null;
+  errors: string[];
+}
+
+function isInt(v: unknown, min: number, max: number): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= min && v <= max;
+}
+
+/**
+ * Validate a replay loaded from JSON. Every problem is reported with its
+ * path (e.g. `inputs[3][5]: expected a zone index`).
+ */
+export function parseReplay(raw: unknown): ReplayParseResult {
+  const errors: string[] = [];
+  const fail = (): ReplayParseResult => ({ replay: null, errors });
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push('replay: expected an object');
+    return fail();
+  }
+  const r = raw as Record<string, unknown>;
+
+  if (r.v !== REPLAY_FORMAT_VERSION) {
+    errors.push(`v: unsupported version ${JSON.stringify(r.v)} (expected ${REPLAY_FORMAT_VERSION})`);
+    return fail();
+  }
+
+  if (typeof r.songId !== 'string' || !r.songId) errors.push('songId: expected a non-empty string');
+  if (!isInt(r.seed, 0, 0xFFFFFFFF)) errors.push('seed: expected a 32-bit unsigned integer');
+  if (!Array.isArray(r.latency) || r.latency.length !== 2 || !r.latency.every(n => isInt(n, -1000, 1000))) {
+    errors.push('latency: expected [audioMs, visualMs]');
+  }
+  if (r.challenge !== null && typeof r.challenge !== 'string') errors.push('challenge: expected a date or null');
+  if (typeof r.player !== 'string') errors.push('player: expected a string');
+  if (typeof r.createdAt !== 'string') errors.push('createdAt: expected a string');
+  if (!isInt(r.score, 0, Number.MAX_SAFE_INTEGER)) errors.push('score: expected a non-negative integer');
+
+  if (!Array.isArray(r.inputs)) {
+    errors.push('inputs: expected an array');
+  } else {
+    let prev = -Infinity;
+    r.inputs.forEach((input: unknown, i) => {
+      const path = `inputs[${i}]`;
+      if (!Array.isArray(input) || input.length !== 6) {
+        errors.push(`${path}: expected [ms, kind, x, y, pointerId, zone]`);
+        return;
+      }
+      const [ms, kind, x, y, pointerId, zone] = input as unknown[];
+      if (!isInt(ms, 0, Number.MAX_SAFE_INTEGER) || ms < prev) errors.push(`${path}[0]: expected a time in order`);
+      else prev = ms;
+      if (!isInt(kind, 0, 2)) errors.push(`${path}[1]: expected 0 (down), 1 (up) or 2 (move)`);
+      if (!isInt(x, 0, 1000)) errors.push(`${path}[2]: expected 0–1000`);
+      if (!isInt(y, 0, 1000)) errors.push(`${path}[3]: expected 0–1000`);
+      if (!Number.isInteger(pointerId)) errors.push(`${path}[4]: expected a pointer id`);
+      if (!isInt(zone, 0, TAP_ZONES.length - 1)) errors.push(`${path}[5]: expected a zone index`);
+    });
+  }
+
+  if (!Array.isArray(r.hits)) {
+    errors.push('hits: expected an array');
+  } else {
+    r.hits.forEach((hit: unknown, i) => {
+      const path = `hits[${i}]`;
+      if (!Array.isArray(hit) || hit.length !== 5) {
+        errors.push(`${path}: expected [ms, rating, zone, targetId, sustain]`);
+        return;
+      }
+      const [ms, rating, zone, targetId, sustain] = hit as unknown[];
+      if (!isInt(ms, 0, Number.MAX_SAFE_INTEGER)) errors.push(`${path}[0]: expected a time`);
+      if (!isInt(rating, 0, HIT_RATINGS.length - 1)) errors.push(`${path}[1]: expected a rating index`);
+      if (!isInt(zone, 0, TAP_ZONES.length - 1)) errors.push(`${path}[2]: expected a zone index`);
+      if (!isInt(targetId, -1, Number.MAX_SAFE_INTEGER)) errors.push(`${path}[3]: expected a target id`);
+      if (!isInt(sustain, -1, 1000)) errors.push(`${path}[4]: expected -1 or 0–1000`);
+    });
+  }
+
+  if (r.moves !== undefined) {
+    if (!Array.isArray(r.moves)) {
+      errors.push('moves: expected an array');
+    } else {
+      let prev = -Infinity;
+      r.moves.forEach((move: unknown, i) => {
+        const path = `moves[${i}]`;
+        if (!Array.isArray(move) || move.length < 2 || move.length > 3) {
+          errors.push(`${path}: expected [ms, move] or [ms, move, slot]`);
+          return;
+        }
+        const [ms, index, slot] = move as unknown[];
+        if (!isInt(ms, 0, Number.MAX_SAFE_INTEGER) || ms < prev) errors.push(`${path}[0]: expected a time in order`);
+        else prev = ms;
+        if (!isInt(index, 0, FREESTYLE_MOVES.length - 1)) errors.push(`${path}[1]: expected a move index`);
+        else if (slot !== undefined && (FREESTYLE_MOVES[index] !== 'custom' || !isInt(slot, 0, MAX_PALETTE_MOVES - 1))) {
+          errors.push(`${path}[2]: expected a saved move's palette slot`);
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) return fail();
+  return { replay: r as unknown as ReplayData, errors };
+}
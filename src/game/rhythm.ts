@@ -1,13 +1,31 @@
 import * as PIXI from 'pixi.js';
-import { TapZone, HitRating } from '@/types';
+import { TapZone, HitRating, SongDefinition } from '@/types';
 import { RhythmHitResult } from '@/game/scoring';
+import { eventBus } from '@/game/events';
+import {
+  RhythmJudge,
+  JudgeTarget,
+  JudgeEvent,
+  TargetKind,
+  zoneColumn,
+  zoneRow,
+  zoneAt,
+  columnCenter,
+  slideHeadX,
+  RAIL_Y,
+  TRAVEL_BEATS,
+} from '@/game/judge';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-const PERFECT_WINDOW = 0.05;   // ±50 ms
-const GOOD_WINDOW    = 0.15;   // ±150 ms
-const TRAVEL_BEATS   = 4;      // beats for target to travel from spawn to rail
-const GRACE_SEC      = 0.25;   // auto-miss grace period after hitTime
+const TRAIL_WIDTH = 16;
+
+// Rail heights as a fraction of canvas height. Six-lane mode splits the
+// single rail into an upper (arms/head) and lower (legs/hips) rail.
+const UPPER_RAIL_Y = 0.52;
+const LOWER_RAIL_Y = 0.72;
+
+const HINT_BEATS = 2;  // zone hints light up this many beats before a target is due
 
 // Zone colours (outer ring)
 const ZONE_COLORS: Record<string, number> = {
@@ -17,26 +35,18 @@ const ZONE_COLORS: Record<string, number> = {
 };
 
 
-// ─── RhythmTarget ─────────────────────────────────────────────────────────────
+// ─── Target sprites ───────────────────────────────────────────────────────────
 
-interface RhythmTarget {
-  id: number;
-  zone: TapZone;
-  hitTime: number;      // AudioContext.currentTime when this target should be hit
+interface TargetSprite {
+  sprite: PIXI.Container;
+  trail: PIXI.Graphics | null;  // sustain body for holds/slides
   spawnY: number;       // y at spawn
   railY: number;        // y of the hit rail (destination)
-  travelSec: number;    // total travel time in seconds
-  state: 'active' | 'hit' | 'missed';
-  sprite: PIXI.Container;
-}
-
-function zoneColumn(zone: TapZone): 'left' | 'center' | 'right' {
-  if (zone.includes('left'))   return 'left';
-  if (zone.includes('right'))  return 'right';
-  return 'center';
 }
 
 // ─── RhythmEngine ─────────────────────────────────────────────────────────────
+// Draws a RhythmJudge session. Judging methods take the song time (seconds
+// since the first audio beat, see songTime); update() takes the audio clock.
 
 export class RhythmEngine {
   private layer: PIXI.Container;
@@ -45,26 +55,27 @@ export class RhythmEngine {
   private railY: number;
   private bpm: number;
   private secPerBeat: number;
-  private beatPattern: TapZone[][];
-
-  private targets: RhythmTarget[] = [];
-  private idCounter = 0;
-  private running = false;
+  private judge: RhythmJudge;
+  private audioStartTime: number | null = null; // audio time of beat 0
+  private sprites = new Map<number, TargetSprite>();
 
   private onHitCbs: Array<(r: RhythmHitResult) => void> = [];
-  private onMissCbs: Array<(zone: TapZone) => void> = [];
+  private onMissCbs: Array<(r: RhythmHitResult, time: number) => void> = [];
+  private onSustainEndCbs: Array<(r: RhythmHitResult, time: number) => void> = [];
 
   // Hit rail graphics (drawn once)
   private railGfx: PIXI.Graphics;
+  // Upcoming-zone highlights (practice), redrawn every frame while enabled
+  private hintGfx: PIXI.Graphics | null = null;
 
-  constructor(layer: PIXI.Container, canvasW: number, canvasH: number, bpm: number, beatPattern: TapZone[][]) {
+  constructor(layer: PIXI.Container, canvasW: number, canvasH: number, song: SongDefinition) {
     this.layer = layer;
     this.canvasW = canvasW;
     this.canvasH = canvasH;
-    this.bpm = bpm;
-    this.beatPattern = beatPattern;
-    this.secPerBeat = 60 / bpm;
-    this.railY = canvasH * 0.62;
+    this.bpm = song.bpm;
+    this.secPerBeat = 60 / song.bpm;
+    this.judge = new RhythmJudge(song);
+    this.railY = canvasH * RAIL_Y;
 
     // Draw the hit rail once
     this.railGfx = new PIXI.Graphics();
@@ -74,10 +85,29 @@ export class RhythmEngine {
 
   private drawRail(): void {
     this.railGfx.clear();
-    // Main rail line
-    this.railGfx.lineStyle(2, 0xffffff, 0.25);
-    this.railGfx.moveTo(0, this.railY);
-    this.railGfx.lineTo(this.canvasW, this.railY);
+    if (this.judge.laneMode === 'six-lane') {
+      // Shaded row bands so the upper and lower lanes read as separate
+      const upperY = this.canvasH * UPPER_RAIL_Y;
+      const lowerY = this.canvasH * LOWER_RAIL_Y;
+      this.railGfx.beginFill(0xffffff, 0.04);
+      this.railGfx.drawRect(0, 0, this.canvasW, this.railY);
+      this.railGfx.endFill();
+      this.railGfx.lineStyle(2, 0xffffff, 0.25);
+      this.railGfx.moveTo(0, upperY);
+      this.railGfx.lineTo(this.canvasW, upperY);
+      this.railGfx.lineStyle(2, 0xffffff, 0.25);
+      this.railGfx.moveTo(0, lowerY);
+      this.railGfx.lineTo(this.canvasW, lowerY);
+      // Row divider
+      this.railGfx.lineStyle(1, 0xffffff, 0.12);
+      this.railGfx.moveTo(0, this.railY);
+      this.railGfx.lineTo(this.canvasW, this.railY);
+    } else {
+      // Main rail line
+      this.railGfx.lineStyle(2, 0xffffff, 0.25);
+      this.railGfx.moveTo(0, this.railY);
+      this.railGfx.lineTo(this.canvasW, this.railY);
+    }
     // Column dividers
     this.railGfx.lineStyle(1, 0xffffff, 0.08);
     const col = this.canvasW / 3;
@@ -88,98 +118,167 @@ export class RhythmEngine {
   }
 
   start(): void {
-    this.running = true;
+    this.judge.start();
+  }
+
+  /**
+   * Apply measured latency. Taps are judged `audioOffset` late; targets are
+   * drawn so they cross the rail when a player tracking them visually taps.
+   */
+  setLatency(audioOffsetSec: number, visualOffsetSec: number): void {
+    this.judge.setLatency(audioOffsetSec, visualOffsetSec);
+  }
+
+  /** Light up the zones of targets about to reach the rail (practice aid) */
+  setZoneHints(enabled: boolean): void {
+    if (enabled && !this.hintGfx) {
+      this.hintGfx = new PIXI.Graphics();
+      this.layer.addChildAt(this.hintGfx, 0);
+    } else if (!enabled && this.hintGfx) {
+      if (this.hintGfx.parent) this.hintGfx.parent.removeChild(this.hintGfx);
+      this.hintGfx = null;
+    }
+  }
+
+  /** Audio time of the first beat, once the beat has started; replays are timed from here */
+  getStartTime(): number | null {
+    return this.audioStartTime;
+  }
+
+  /** Song clock → the clock targets are drawn on (see RhythmJudge.drawTime) */
+  drawTime(songTime: number): number {
+    return this.judge.drawTime(songTime);
+  }
+
+  /** Audio clock → song clock, or null before the first beat */
+  songTime(audioNow: number): number | null {
+    return this.audioStartTime === null ? null : audioNow - this.audioStartTime;
   }
 
   stop(): void {
-    this.running = false;
-    for (const t of this.targets) this.removeSprite(t);
-    this.targets = [];
+    this.judge.stop();
+    for (const id of [...this.sprites.keys()]) this.removeSprite(id);
+    this.hintGfx?.clear();
+    this.audioStartTime = null;
+  }
+
+  /**
+   * Round over: judge whatever is still on screen (see RhythmJudge.finish)
+   * and fire the usual miss / sustain-end callbacks for it.
+   */
+  finish(): void {
+    for (const e of this.judge.finish()) this.emit(e);
   }
 
-  /** Called by dance.ts when soundSystem.onBeat fires */
+  /**
+   * Called by dance.ts when soundSystem.onBeat fires. Song beat 0 lands
+   * LEAD_IN_BEATS after the first audio beat, so each note is spawned one
+   * full travel time before it reaches the rail. Announced as a 'beat' event.
+   */
   onBeatFired(beatNum: number, beatTime: number): void {
-    if (!this.running) return;
-    const zones = this.beatPattern[beatNum % this.beatPattern.length];
-    for (const zone of zones) {
-      this.spawnTarget(zone, beatTime + TRAVEL_BEATS * this.secPerBeat);
+    if (!this.judge.isRunning()) return;
+    if (this.audioStartTime === null) {
+      this.audioStartTime = beatTime - beatNum * this.secPerBeat;
     }
+    eventBus.emit('beat', { beat: beatNum, time: beatTime });
+    for (const t of this.judge.onBeatFired(beatNum)) this.spawnSprite(t);
   }
 
   /** Main update — call every frame with dt (seconds) and audioCurrentTime */
   update(dt: number, audioNow: number): void {
-    const toRemove: RhythmTarget[] = [];
-
-    for (const t of this.targets) {
-      if (t.state !== 'active') {
-        toRemove.push(t);
-        continue;
-      }
-
-      // Auto-miss if past grace period
-      if (audioNow > t.hitTime + GRACE_SEC) {
-        t.state = 'missed';
-        this.onMissCbs.forEach(cb => cb(t.zone));
-        toRemove.push(t);
+    const songNow = this.songTime(audioNow);
+    if (songNow === null) return;
+    this.judgeUpTo(songNow);
+
+    const drawNow = this.judge.drawTime(songNow);
+    if (this.hintGfx) this.drawZoneHints(this.hintGfx, drawNow);
+    for (const t of this.judge.getTargets()) {
+      const v = this.sprites.get(t.id);
+      if (!v) continue;
+
+      if (t.state === 'holding') {
+        this.updateHolding(t, v, drawNow);
         continue;
       }
 
       // Animate position: travel from spawnY to railY over travelSec
-      const elapsed = audioNow - (t.hitTime - t.travelSec);
+      const elapsed = drawNow - (t.hitTime - t.travelSec);
       const progress = Math.max(0, Math.min(1, elapsed / t.travelSec));
-      const y = t.spawnY + (this.railY - t.spawnY) * progress;
-      t.sprite.y = y;
+      v.sprite.y = v.spawnY + (v.railY - v.spawnY) * progress;
 
       // Scale grows from 0.7 to 1.0 as it approaches
-      t.sprite.scale.set(0.7 + progress * 0.3);
+      v.sprite.scale.set(0.7 + progress * 0.3);
 
       // Pulse alpha
       const pulse = 0.75 + 0.25 * Math.sin(audioNow * Math.PI * 2 * (this.bpm / 60));
-      t.sprite.alpha = pulse;
+      v.sprite.alpha = pulse;
     }
+  }
 
-    // Remove finished targets
-    for (const t of toRemove) {
-      this.removeSprite(t);
-      this.targets = this.targets.filter(x => x !== t);
-    }
+  /**
+   * Judge misses and completed holds due by `songTime` without waiting for
+   * the next frame. Call before applying an input so judgements happen in
+   * the same order however the frames fell.
+   */
+  judgeUpTo(songTime: number): void {
+    for (const e of this.judge.update(songTime)) this.emit(e);
   }
 
   /**
    * Called from touch handler. Returns a RhythmHitResult if a target was hit,
    * or null if the tap was purely puppeteer (no target in range).
    */
-  tryHit(tapX: number, _tapY: number, audioNow: number): RhythmHitResult | null {
-    const col = this.columnFromX(tapX);
-    let best: RhythmTarget | null = null;
-    let bestDelta = Infinity;
+  tryHit(tapX: number, tapY: number, songTime: number, pointerId = -1): RhythmHitResult | null {
+    return this.tryHitZone(this.getTapZone(tapX, tapY), songTime, pointerId);
+  }
 
-    for (const t of this.targets) {
-      if (t.state !== 'active') continue;
-      if (zoneColumn(t.zone) !== col) continue;
-      const delta = Math.abs(audioNow - t.hitTime);
-      if (delta <= GOOD_WINDOW && delta < bestDelta) {
-        best = t;
-        bestDelta = delta;
+  /** Same as tryHit for a tap already resolved to a zone (replay playback) */
+  tryHitZone(zone: TapZone, songTime: number, pointerId = -1): RhythmHitResult | null {
+    const hit = this.judge.tryHitZone(zone, songTime, pointerId);
+    if (!hit) return null;
+
+    const v = this.sprites.get(hit.target.id);
+    if (v) {
+      this.flashHit(hit.target, v, hit.result.rating);
+      if (hit.target.state === 'hit') {
+        this.removeSprite(hit.target.id);
+      } else {
+        // Holds and slides stay on the rail until released or completed
+        v.sprite.scale.set(1);
+        v.sprite.alpha = 1;
       }
     }
 
-    if (!best) return null;
+    this.onHitCbs.forEach(cb => cb(hit.result));
+    return hit.result;
+  }
 
-    const rating: HitRating = bestDelta <= PERFECT_WINDOW ? 'perfect' : 'good';
-    best.state = 'hit';
-    this.flashHit(best, rating);
+  /**
+   * Pointer moved: a slide fails if its pointer strays more than a column
+   * from where the slide head currently is.
+   */
+  track(pointerId: number, x: number, songTime: number): void {
+    for (const e of this.judge.track(pointerId, x / this.canvasW, songTime)) this.emit(e);
+  }
+
+  /** Pointer lifted: ends any hold/slide it was keeping down */
+  release(pointerId: number, songTime: number): void {
+    for (const e of this.judge.release(pointerId, songTime)) this.emit(e);
+  }
+
+  /** Whether this pointer is keeping a slide down, so its movement matters */
+  isTracking(pointerId: number): boolean {
+    return this.judge.isTracking(pointerId);
+  }
 
-    const result: RhythmHitResult = { rating, zone: best.zone, targetId: best.id };
-    this.onHitCbs.forEach(cb => cb(result));
-    return result;
+  /** Targets on screen, for the auto-play bot to aim at */
+  getTargets(): readonly JudgeTarget[] {
+    return this.judge.getTargets();
   }
 
   /** Get the tap zone for a coordinate even with no target present (puppeteer mode) */
   getTapZone(tapX: number, tapY: number): TapZone {
-    const col = this.columnFromX(tapX);
-    const row = tapY < this.railY ? 'upper' : 'lower';
-    return `${row}-${col}` as TapZone;
+    return zoneAt(tapX / this.canvasW, tapY / this.canvasH);
   }
 
   onHit(cb: (r: RhythmHitResult) => void): () => void {
@@ -187,78 +286,149 @@ export class RhythmEngine {
     return () => { this.onHitCbs = this.onHitCbs.filter(c => c !== cb); };
   }
 
-  onMiss(cb: (zone: TapZone) => void): () => void {
+  /** Fired when a target passes the rail unhit; `time` is on the song clock */
+  onMiss(cb: (r: RhythmHitResult, time: number) => void): () => void {
     this.onMissCbs.push(cb);
     return () => { this.onMissCbs = this.onMissCbs.filter(c => c !== cb); };
   }
 
+  /** Fired when a hold/slide is released or runs to its end (result carries `sustain`) */
+  onSustainEnd(cb: (r: RhythmHitResult, time: number) => void): () => void {
+    this.onSustainEndCbs.push(cb);
+    return () => { this.onSustainEndCbs = this.onSustainEndCbs.filter(c => c !== cb); };
+  }
+
   // ─── Private helpers ────────────────────────────────────────────────────────
 
-  private columnFromX(x: number): 'left' | 'center' | 'right' {
-    const col = this.canvasW / 3;
-    if (x < col)         return 'left';
-    if (x < col * 2)     return 'center';
-    return 'right';
+  private emit(e: JudgeEvent): void {
+    if (e.result.sustain === undefined) {
+      this.onMissCbs.forEach(cb => cb(e.result, e.time));
+    } else {
+      const v = this.sprites.get(e.target.id);
+      if (v && e.result.rating !== 'miss') this.flashHit(e.target, v, e.result.rating);
+      this.onSustainEndCbs.forEach(cb => cb(e.result, e.time));
+    }
+    this.removeSprite(e.target.id);
   }
 
-  private xForColumn(col: 'left' | 'center' | 'right'): number {
-    const col3 = this.canvasW / 3;
-    if (col === 'left')   return col3 * 0.5;
-    if (col === 'right')  return col3 * 2.5;
-    return col3 * 1.5;
+  private railYFor(zone: TapZone): number {
+    if (this.judge.laneMode !== 'six-lane') return this.railY;
+    return this.canvasH * (zoneRow(zone) === 'upper' ? UPPER_RAIL_Y : LOWER_RAIL_Y);
   }
 
-  private spawnTarget(zone: TapZone, hitTime: number): void {
-    const col = zoneColumn(zone);
-    const x = this.xForColumn(col);
-    const spawnY = -40;
-    const travelSec = TRAVEL_BEATS * this.secPerBeat;
+  private xForZone(zone: TapZone): number {
+    return columnCenter(zoneColumn(zone)) * this.canvasW;
+  }
 
-    const sprite = this.buildSprite(col);
-    sprite.x = x;
+  private spawnSprite(t: JudgeTarget): void {
+    const sprite = this.buildSprite(t.kind, t.zone, t.endZone);
+    const spawnY = -40;
+    sprite.x = this.xForZone(t.zone);
     sprite.y = spawnY;
     sprite.scale.set(0.7);
     this.layer.addChild(sprite);
 
-    const target: RhythmTarget = {
-      id: this.idCounter++,
-      zone,
-      hitTime,
-      spawnY,
-      railY: this.railY,
-      travelSec,
-      state: 'active',
+    const v: TargetSprite = {
       sprite,
+      trail: t.kind === 'tap' ? null : sprite.getChildAt(0) as PIXI.Graphics,
+      spawnY,
+      railY: this.railYFor(t.zone),
     };
-    this.targets.push(target);
+    this.sprites.set(t.id, v);
+
+    if (v.trail) {
+      this.drawTrail(t, v, this.trailLength(t, v, t.endTime - t.hitTime), this.slideDx(t, 1));
+    }
   }
 
-  private buildSprite(col: 'left' | 'center' | 'right'): PIXI.Container {
+  private buildSprite(kind: TargetKind, zone: TapZone, endZone: TapZone): PIXI.Container {
+    const col = zoneColumn(zone);
     const c = new PIXI.Container();
     const color = ZONE_COLORS[col];
     const outer = new PIXI.Graphics();
     const inner = new PIXI.Graphics();
 
-    // Outer ring
+    // Sustain body sits behind the head; drawn per-target in drawTrail
+    if (kind !== 'tap') c.addChild(new PIXI.Graphics());
+
+    // Outer ring — doubled for holds, square for slides
     outer.lineStyle(3, color, 0.9);
-    outer.drawCircle(0, 0, 28);
+    if (kind === 'slide') {
+      outer.drawRoundedRect(-26, -26, 52, 52, 10);
+    } else {
+      outer.drawCircle(0, 0, 28);
+      if (kind === 'hold') {
+        outer.lineStyle(2, 0xffffff, 0.6);
+        outer.drawCircle(0, 0, 33);
+      }
+    }
 
     // Inner fill
     inner.beginFill(color, 0.35);
     inner.drawCircle(0, 0, 20);
     inner.endFill();
 
-    // Small zone indicator dot at center
-    inner.beginFill(color, 0.8);
-    inner.drawCircle(0, 0, 5);
-    inner.endFill();
+    if (kind === 'slide') {
+      // Chevron pointing toward the slide's destination column
+      const dir = this.xForZone(endZone) > this.xForZone(zone) ? 1 : -1;
+      inner.lineStyle(4, 0xffffff, 0.9);
+      inner.moveTo(-6 * dir, -9);
+      inner.lineTo(6 * dir, 0);
+      inner.lineTo(-6 * dir, 9);
+    } else if (this.judge.laneMode === 'six-lane') {
+      // Arrow pointing at the target's row
+      const dir = zoneRow(zone) === 'upper' ? -1 : 1;
+      inner.beginFill(color, 0.9);
+      inner.drawPolygon([-8, -4 * dir, 8, -4 * dir, 0, 8 * dir]);
+      inner.endFill();
+    } else {
+      // Small zone indicator dot at center
+      inner.beginFill(color, 0.8);
+      inner.drawCircle(0, 0, 5);
+      inner.endFill();
+    }
 
     c.addChild(outer, inner);
     return c;
   }
 
-  private flashHit(target: RhythmTarget, rating: HitRating): void {
-    const col = zoneColumn(target.zone);
+  // ─── Holds & slides ─────────────────────────────────────────────────────────
+
+  /** Pixel length of `sec` of sustain at this target's scroll speed */
+  private trailLength(t: JudgeTarget, v: TargetSprite, sec: number): number {
+    return (v.railY - v.spawnY) * (sec / t.travelSec);
+  }
+
+  /** Horizontal offset from the slide head to its end, with `remaining` (0–1) left */
+  private slideDx(t: JudgeTarget, remaining: number): number {
+    return (this.xForZone(t.endZone) - this.xForZone(t.zone)) * remaining;
+  }
+
+  /** Sustain body from the head (local origin) up to the tail at (dx, -len) */
+  private drawTrail(t: JudgeTarget, v: TargetSprite, len: number, dx: number): void {
+    const g = v.trail;
+    if (!g) return;
+    const color = ZONE_COLORS[zoneColumn(t.zone)];
+    g.clear();
+    g.lineStyle({ width: TRAIL_WIDTH, color, alpha: 0.45, cap: PIXI.LINE_CAP.ROUND });
+    g.moveTo(0, 0);
+    g.lineTo(dx, -len);
+    g.lineStyle({ width: 4, color: 0xffffff, alpha: 0.5, cap: PIXI.LINE_CAP.ROUND });
+    g.moveTo(0, 0);
+    g.lineTo(dx, -len);
+  }
+
+  /** Head pinned to the rail; slides glide across while the trail shrinks */
+  private updateHolding(t: JudgeTarget, v: TargetSprite, drawNow: number): void {
+    const p = Math.max(0, Math.min(1, (drawNow - t.hitTime) / (t.endTime - t.hitTime)));
+    v.sprite.y = v.railY;
+    if (t.kind === 'slide') v.sprite.x = slideHeadX(t, drawNow) * this.canvasW;
+    this.drawTrail(t, v, this.trailLength(t, v, Math.max(0, t.endTime - drawNow)), this.slideDx(t, 1 - p));
+    v.sprite.alpha = 0.85 + 0.15 * Math.sin(drawNow * Math.PI * 8);
+  }
+
+  private flashHit(target: JudgeTarget, v: TargetSprite, rating: HitRating): void {
+    const col = zoneColumn(target.state === 'hit' ? target.endZone : target.zone);
     const color = rating === 'perfect' ? 0xFFFFFF : ZONE_COLORS[col];
 
     // Brief flash: scale up then fade
@@ -266,8 +436,8 @@ export class RhythmEngine {
     flash.beginFill(color, 0.6);
     flash.drawCircle(0, 0, rating === 'perfect' ? 48 : 36);
     flash.endFill();
-    flash.x = target.sprite.x;
-    flash.y = target.sprite.y;
+    flash.x = v.sprite.x;
+    flash.y = v.sprite.y;
     this.layer.addChild(flash);
 
     let t = 0;
@@ -284,12 +454,38 @@ export class RhythmEngine {
     ticker.add(fn);
   }
 
-  private removeSprite(target: RhythmTarget): void {
-    if (target.sprite.parent) target.sprite.parent.removeChild(target.sprite);
+  private drawZoneHints(g: PIXI.Graphics, drawNow: number): void {
+    g.clear();
+    const colW = this.canvasW / 3;
+    for (const t of this.judge.getTargets()) {
+      if (t.state !== 'active') continue;
+      // Beats until due, using the target's own tempo
+      const beatsAway = (t.hitTime - drawNow) / (t.travelSec / TRAVEL_BEATS);
+      if (beatsAway < 0 || beatsAway > HINT_BEATS) continue;
+
+      const col = zoneColumn(t.zone);
+      let top = 0;
+      let bottom = this.canvasH;
+      if (this.judge.laneMode === 'six-lane') {
+        if (zoneRow(t.zone) === 'upper') bottom = this.railY;
+        else top = this.railY;
+      }
+      g.beginFill(ZONE_COLORS[col], 0.18 * (1 - beatsAway / HINT_BEATS));
+      g.drawRect(Math.floor(columnCenter(col) * 3) * colW, top, colW, bottom - top);
+      g.endFill();
+    }
+  }
+
+  private removeSprite(id: number): void {
+    const v = this.sprites.get(id);
+    if (!v) return;
+    if (v.sprite.parent) v.sprite.parent.removeChild(v.sprite);
+    this.sprites.delete(id);
   }
 
   destroy(): void {
     this.stop();
+    this.setZoneHints(false);
     if (this.railGfx.parent) this.railGfx.parent.removeChild(this.railGfx);
   }
 }
@@ -4,8 +4,19 @@ import {
   HitRating,
   TapZone,
   DailyChallenge,
+  ChallengeResult,
+  ChallengeStats,
   ChallengeCondition,
+  ChallengeConditionType,
+  Grade,
+  LeaderboardWindow,
+  ComboEvent,
+  StageEffectType,
+  DANCE_MOVES,
+  SONGS,
 } from '@/types';
+import { createRng, seedFromString } from '@/game/replay';
+import { EventBus } from '@/game/events';
 
 // ─── Score State Factory ──────────────────────────────────────────────────────
 
@@ -32,8 +43,15 @@ export interface RhythmHitResult {
   rating: HitRating;
   zone: TapZone;
   targetId: number;
+  /**
+   * Hold/slide release only: fraction of the sustain that was held (0–1).
+   * The press that starts a hold is judged like a tap and leaves this unset.
+   */
+  sustain?: number;
 }
 
+const SUSTAIN_POINTS = 200;
+
 /**
  * Register a rhythm hit (or miss) and update score state.
  * Returns the points awarded.
@@ -42,6 +60,8 @@ export function registerRhythmHit(
   score: ScoreState,
   hit: RhythmHitResult
 ): number {
+  if (hit.sustain !== undefined) return registerSustainEnd(score, hit, hit.sustain);
+
   score.totalHitAttempts++;
 
   if (hit.rating === 'miss') {
@@ -71,6 +91,30 @@ export function registerRhythmHit(
   return points;
 }
 
+/**
+ * Hold/slide release: partial credit for however much of the sustain was
+ * held. Dropping it early ('miss') still pays out but breaks the combo.
+ * Releases don't count toward hit accuracy — the press already did.
+ */
+function registerSustainEnd(score: ScoreState, hit: RhythmHitResult, sustain: number): number {
+  const held = Math.max(0, Math.min(1, sustain));
+  const points = Math.round(SUSTAIN_POINTS * held * score.comboMultiplier);
+
+  score.crowdHype += points;
+  score.totalScore = Math.floor(score.crowdHype);
+
+  if (hit.rating === 'miss') {
+    score.combo = 0;
+    score.consecutivePerfects = 0;
+    score.comboMultiplier = Math.max(1.0, score.comboMultiplier - 0.5);
+  } else {
+    score.combo++;
+    score.comboMultiplier = Math.min(5.0, 1.0 + score.combo * 0.25);
+  }
+
+  return points;
+}
+
 /**
  * Accuracy bonus awarded at end of session.
  */
@@ -89,35 +133,229 @@ export function tickScore(score: ScoreState, dt: number, _currentMove: DanceMove
   }
 }
 
-// ─── Daily Challenge Generator ────────────────────────────────────────────────
+// ─── Combo Milestones ─────────────────────────────────────────────────────────
 
-export function generateDailyChallenge(dateStr: string): DailyChallenge {
-  let hash = 0;
-  for (let i = 0; i < dateStr.length; i++) {
-    hash = ((hash << 5) - hash + dateStr.charCodeAt(i)) | 0;
-  }
-  hash = Math.abs(hash);
+/** Stage effects a combo landing on `event` sets off (the dance screen's crowd plays them) */
+export function comboMilestoneEffects(event: ComboEvent): StageEffectType[] {
+  const effects: StageEffectType[] = [];
+  if (event.combo === 5) effects.push('spotlight');
+  else if (event.combo === 10) effects.push('discoBall');
+  else if (event.combo === 15) effects.push('hypeTrain');
+  if (event.perfectStreak >= 5) effects.push('confetti');
+  return effects;
+}
 
-  const streakCount = 5 + (hash % 8); // 5-12 consecutive perfects
+// ─── Grades ───────────────────────────────────────────────────────────────────
 
-  const conditions: ChallengeCondition[] = [
-    {
-      type: 'hit_streak',
-      count: streakCount,
+/** Minimum accuracy (presses landed / judged) for each grade, best first */
+export const GRADE_THRESHOLDS: Array<[Grade, number]> = [
+  ['S', 0.95],
+  ['A', 0.85],
+  ['B', 0.70],
+  ['C', 0.50],
+  ['D', 0],
+];
+
+export function computeAccuracy(score: ScoreState): number {
+  if (score.totalHitAttempts === 0) return 0;
+  return (score.perfectHits + score.goodHits) / score.totalHitAttempts;
+}
+
+export function computeGrade(accuracy: number): Grade {
+  return GRADE_THRESHOLDS.find(([, min]) => accuracy >= min)?.[0] ?? 'D';
+}
+
+function gradeThreshold(grade: Grade): number {
+  return GRADE_THRESHOLDS.find(([g]) => g === grade)?.[1] ?? 0;
+}
+
+// ─── Challenge Conditions ─────────────────────────────────────────────────────
+// Every ChallengeConditionType has an evaluator here. A new kind of condition
+// needs a type, an evaluator and (to be generated) a template below.
+
+/**
+ * The move a landed hit counts as for 'dance_move' conditions: each column
+ * has its own move, and holding a hold or slide to the end is a spin.
+ */
+export const HIT_MOVES = {
+  left: 'wiggle',
+  center: 'robot',
+  right: 'flail',
+  sustain: 'spin',
+} as const satisfies Record<string, DanceMoveId>;
+
+const MOVE_HINTS: Partial<Record<DanceMoveId, string>> = {
+  [HIT_MOVES.left]: 'left lane',
+  [HIT_MOVES.center]: 'center lane',
+  [HIT_MOVES.right]: 'right lane',
+  [HIT_MOVES.sustain]: 'holds & slides',
+};
+
+export function moveForHit(hit: RhythmHitResult): DanceMoveId | null {
+  if (hit.rating === 'miss') return null;
+  if (hit.sustain !== undefined) return HIT_MOVES.sustain;
+  if (hit.zone.endsWith('left')) return HIT_MOVES.left;
+  if (hit.zone.endsWith('right')) return HIT_MOVES.right;
+  return HIT_MOVES.center;
+}
+
+export interface ConditionStatus {
+  current: number;
+  target: number;
+  state: 'pending' | 'met' | 'failed';
+}
+
+export interface ConditionEvaluator {
+  label: string;     // short name for progress display
+  unit?: string;     // appended to current/target
+  binary?: boolean;  // shown as done / not done rather than a count
+  describe(cond: ChallengeCondition): string;
+  evaluate(cond: ChallengeCondition, progress: ChallengeProgress, score: ScoreState): ConditionStatus;
+}
+
+/** Met as soon as `current` reaches `target` */
+function reach(current: number, target: number): ConditionStatus {
+  return { current: Math.min(current, target), target, state: current >= target ? 'met' : 'pending' };
+}
+
+/** Only decided once the song has ended */
+function atSongEnd(progress: ChallengeProgress, current: number, target: number): ConditionStatus {
+  if (!progress.finished) return { current, target, state: 'pending' };
+  return { current, target, state: current >= target ? 'met' : 'failed' };
+}
+
+export const CONDITION_EVALUATORS: Record<ChallengeConditionType, ConditionEvaluator> = {
+  hit_streak: {
+    label: 'Perfect streak',
+    describe: c => `Land ${c.count ?? 1} perfect hits in a row`,
+    evaluate: (c, p) => reach(p.bestStreak, c.count ?? 1),
+  },
+  combo: {
+    label: 'Combo',
+    describe: c => `Build a combo of ${c.count ?? 1}`,
+    evaluate: (c, p) => reach(p.bestCombo, c.count ?? 1),
+  },
+  score: {
+    label: 'Hype',
+    describe: c => `Score ${c.targetScore ?? 0}+ Hype`,
+    evaluate: (c, p, score) => {
+      const target = c.targetScore ?? 0;
+      return { current: Math.min(score.totalScore, target), target, state: p.scoreReached ? 'met' : 'pending' };
     },
-  ];
+  },
+  dance_move: {
+    label: 'Moves',
+    describe: c => {
+      const move = c.moveId ?? 'idle';
+      return `Bust ${c.count ?? 1} ${DANCE_MOVES[move].label}s (${MOVE_HINTS[move] ?? 'any lane'})`;
+    },
+    evaluate: (c, p) => reach(p.moves[c.moveId ?? 'idle'] ?? 0, c.count ?? 1),
+  },
+  accuracy: {
+    label: 'Accuracy',
+    unit: '%',
+    describe: c => `Finish with ${c.percent ?? 0}%+ accuracy`,
+    evaluate: (c, p, score) => atSongEnd(p, Math.floor(computeAccuracy(score) * 100), c.percent ?? 0),
+  },
+  song: {
+    label: 'Song',
+    binary: true,
+    describe: c => `Play ${SONGS.find(s => s.id === c.songId)?.name ?? c.songId}`,
+    evaluate: (c, p) => ({ current: p.songId === c.songId ? 1 : 0, target: 1, state: p.songId === c.songId ? 'met' : 'failed' }),
+  },
+  no_miss: {
+    label: 'No misses',
+    binary: true,
+    describe: () => 'Finish without a single miss',
+    evaluate: (_c, p, score) => {
+      if (p.misses > 0) return { current: 0, target: 1, state: 'failed' };
+      if (!p.finished) return { current: 0, target: 1, state: 'pending' };
+      return score.totalHitAttempts > 0
+        ? { current: 1, target: 1, state: 'met' }
+        : { current: 0, target: 1, state: 'failed' };
+    },
+  },
+  grade: {
+    label: 'Grade',
+    unit: '%',
+    describe: c => `Finish with grade ${c.grade ?? 'D'} or better`,
+    evaluate: (c, p, score) =>
+      atSongEnd(p, Math.floor(computeAccuracy(score) * 100), Math.round(gradeThreshold(c.grade ?? 'D') * 100)),
+  },
+};
+
+/** One line of progress for the challenge bar, e.g. "⬜ Combo 12/20" */
+export function formatConditionStatus(cond: ChallengeCondition, status: ConditionStatus): string {
+  const evaluator = CONDITION_EVALUATORS[cond.type];
+  const icon = status.state === 'met' ? '✅' : status.state === 'failed' ? '❌' : '⬜';
+  if (evaluator.binary) return `${icon} ${evaluator.describe(cond)}`;
+  const unit = evaluator.unit ?? '';
+  return `${icon} ${evaluator.label} ${status.current}${unit}/${status.target}${unit}`;
+}
 
-  const scoreTarget = (2 + (hash % 8)) * 500;
-  conditions.push({
-    type: 'score',
-    targetScore: scoreTarget,
-  });
+// ─── Daily Challenge Generator ────────────────────────────────────────────────
+// A challenge is one of these templates, picked and tuned by a PRNG seeded
+// with the date. `level` (5–12) sets how demanding it is and its reward.
+
+type ChallengeTemplate = (rng: () => number, level: number) => ChallengeCondition[];
+
+function pick<T>(rng: () => number, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+function scoreTarget(rng: () => number): number {
+  return (2 + Math.floor(rng() * 8)) * 500; // 1000-4500
+}
+
+const CHALLENGE_TEMPLATES: ChallengeTemplate[] = [
+  // Perfect streak
+  (rng, level) => [
+    { type: 'hit_streak', count: level },
+    { type: 'score', targetScore: scoreTarget(rng) },
+  ],
+  // Long combo
+  (rng, level) => [
+    { type: 'combo', count: level * 3 },
+    { type: 'score', targetScore: scoreTarget(rng) },
+  ],
+  // Dance moves
+  (rng, level) => {
+    const moveId = pick(rng, Object.values(HIT_MOVES));
+    const count = moveId === HIT_MOVES.sustain ? Math.ceil(level / 3) : level;
+    return [
+      { type: 'dance_move', moveId, count },
+      { type: 'combo', count: level },
+    ];
+  },
+  // Precision
+  (_rng, level) => [
+    { type: 'accuracy', percent: 60 + level * 3 },
+    { type: 'hit_streak', count: level },
+  ],
+  // Grade on a given song
+  (rng, level) => [
+    { type: 'song', songId: pick(rng, SONGS).id },
+    { type: 'grade', grade: level >= 11 ? 'S' : 'A' },
+  ],
+  // Flawless run on a gentler song
+  (rng, level) => [
+    { type: 'song', songId: pick(rng, SONGS.filter(s => s.difficulty !== 'hard')).id },
+    { type: 'no_miss' },
+    ...(level >= 9 ? [{ type: 'hit_streak' as const, count: level }] : []),
+  ],
+];
+
+export function generateDailyChallenge(dateStr: string): DailyChallenge {
+  const rng = createRng(seedFromString(dateStr));
+
+  const level = 5 + Math.floor(rng() * 8); // 5-12
+  const conditions = pick(rng, CHALLENGE_TEMPLATES)(rng, level);
 
   return {
     date: dateStr,
-    description: `Land ${streakCount} perfect hits in a row! Score ${scoreTarget}+ Hype.`,
+    description: conditions.map(c => `${CONDITION_EVALUATORS[c.type].describe(c)}!`).join(' '),
     conditions,
-    rewardPoints: 500 + streakCount * 100,
+    rewardPoints: 500 + level * 100,
   };
 }
 
@@ -125,34 +363,108 @@ export function getTodayDateStr(): string {
   return new Date().toISOString().slice(0, 10);
 }
 
+// ─── Challenge Streaks ────────────────────────────────────────────────────────
+
+/** The date `days` after `dateStr` (YYYY-MM-DD, UTC like the challenges) */
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Streaks and totals from stored results. Today doesn't break the current
+ * streak until it's over — a run through yesterday still counts.
+ */
+export function summarizeChallengeHistory(results: ChallengeResult[], today = getTodayDateStr()): ChallengeStats {
+  const completed = results.filter(r => r.completed);
+  const days = new Set(completed.map(r => r.date));
+
+  let longestStreak = 0;
+  let run = 0;
+  let prev: string | null = null;
+  for (const date of [...days].sort()) {
+    run = prev !== null && addDays(prev, 1) === date ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    prev = date;
+  }
+
+  let currentStreak = 0;
+  for (let date = days.has(today) ? today : addDays(today, -1); days.has(date); date = addDays(date, -1)) {
+    currentStreak++;
+  }
+
+  return {
+    currentStreak,
+    longestStreak,
+    completedDays: days.size,
+    totalRewardPoints: completed.reduce((sum, r) => sum + r.rewardPoints, 0),
+  };
+}
+
+// ─── Leaderboard Windows ──────────────────────────────────────────────────────
+
+/**
+ * Earliest submission time (ISO) counted on a leaderboard window, or null
+ * for all-time. Windows follow the daily challenge's UTC day.
+ */
+export function leaderboardWindowStart(window: LeaderboardWindow, now = new Date()): string | null {
+  if (window === 'all-time') return null;
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (window === 'weekly') {
+    // Back to Monday (getUTCDay: 0 = Sunday)
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start.toISOString();
+}
+
 // ─── Challenge Progress Tracker ───────────────────────────────────────────────
 
 export interface ChallengeProgress {
   challenge: DailyChallenge;
+  songId: string | null;  // song being played, for 'song' conditions
   consecutivePerfects: number;
   bestStreak: number;
+  bestCombo: number;
   scoreReached: boolean;
+  misses: number;         // any miss, dropped holds included
+  moves: Partial<Record<DanceMoveId, number>>;
+  finished: boolean;      // the song has ended, so end-of-song conditions are decided
   completed: boolean;
 }
 
-export function createChallengeProgress(challenge: DailyChallenge): ChallengeProgress {
+export function createChallengeProgress(challenge: DailyChallenge, songId: string | null = null): ChallengeProgress {
   return {
     challenge,
+    songId,
     consecutivePerfects: 0,
     bestStreak: 0,
+    bestCombo: 0,
     scoreReached: false,
+    misses: 0,
+    moves: {},
+    finished: false,
     completed: false,
   };
 }
 
+/** Where each of the challenge's conditions stands */
+export function evaluateChallenge(progress: ChallengeProgress, score: ScoreState): ConditionStatus[] {
+  return progress.challenge.conditions.map(c => CONDITION_EVALUATORS[c.type].evaluate(c, progress, score));
+}
+
+/**
+ * Update progress after a judgement. A bare rating is enough for everything
+ * but 'dance_move' conditions, which need the full hit.
+ */
 export function updateChallengeProgress(
   progress: ChallengeProgress,
   score: ScoreState,
-  rating?: HitRating
+  hit?: HitRating | RhythmHitResult
 ): void {
   if (progress.completed) return;
 
-  const conds = progress.challenge.conditions;
+  const rating = typeof hit === 'string' ? hit : hit?.rating;
 
   // Track perfect streak
   if (rating === 'perfect') {
@@ -164,27 +476,135 @@ export function updateChallengeProgress(
     progress.consecutivePerfects = 0;
   }
 
+  if (rating === 'miss') progress.misses++;
+  progress.bestCombo = Math.max(progress.bestCombo, score.combo);
+
+  const move = typeof hit === 'object' ? moveForHit(hit) : null;
+  if (move) progress.moves[move] = (progress.moves[move] ?? 0) + 1;
+
   // Check score condition
-  for (const cond of conds) {
+  for (const cond of progress.challenge.conditions) {
     if (cond.type === 'score' && cond.targetScore && score.totalScore >= cond.targetScore) {
       progress.scoreReached = true;
     }
   }
 
   // Check completion
-  const streakCond = conds.find(c => c.type === 'hit_streak');
-  const scoreCond = conds.find(c => c.type === 'score');
+  if (evaluateChallenge(progress, score).every(s => s.state === 'met')) {
+    progress.completed = true;
+  }
+}
 
-  const streakDone = !streakCond || progress.bestStreak >= (streakCond.count ?? 1);
-  const scoreDone = !scoreCond || progress.scoreReached;
+/** The song has ended: decide end-of-song conditions */
+export function finishChallengeProgress(progress: ChallengeProgress, score: ScoreState): void {
+  progress.finished = true;
+  updateChallengeProgress(progress, score);
+}
 
-  if (streakDone && scoreDone) {
-    progress.completed = true;
+// ─── Rhythm Run ───────────────────────────────────────────────────────────────
+// Everything that decides a rhythm session's score, shared by the dance
+// screen and replay verification so both arrive at the same total. A live
+// run announces each judgement on its event bus; verification runs silently.
+
+export interface RhythmRun {
+  score: ScoreState;
+  challenge: ChallengeProgress | null;
+  challengeRewarded: boolean;
+  peakCombo: number;
+  clockMs: number | null; // song time of the last judgement
+  bus: EventBus | null;
+}
+
+export interface RunJudgement {
+  points: number;
+  challengeCompleted: boolean; // the daily challenge was completed by this judgement
+}
+
+export function createRhythmRun(
+  score: ScoreState,
+  challenge: ChallengeProgress | null = null,
+  bus: EventBus | null = null
+): RhythmRun {
+  return { score, challenge, challengeRewarded: false, peakCombo: 1.0, clockMs: null, bus };
+}
+
+/**
+ * Score a judgement made `ms` into the song. Combo decay is caught up to
+ * that moment first, so the total depends only on when things were judged,
+ * never on frame timing.
+ */
+export function judgeRhythmRun(run: RhythmRun, hit: RhythmHitResult, ms: number): RunJudgement {
+  const { score } = run;
+  if (run.clockMs !== null && ms > run.clockMs) {
+    tickScore(score, (ms - run.clockMs) / 1000, score.lastMoveId ?? 'idle');
+  }
+  run.clockMs = Math.max(run.clockMs ?? ms, ms);
+
+  const combo = score.combo;
+  const points = registerRhythmHit(score, hit);
+  if (score.comboMultiplier > run.peakCombo) run.peakCombo = score.comboMultiplier;
+  announceJudgement(run, hit, points, combo);
+
+  let challengeCompleted = false;
+  if (run.challenge) {
+    updateChallengeProgress(run.challenge, score, hit);
+    challengeCompleted = rewardChallenge(run);
+  }
+
+  return { points, challengeCompleted };
+}
+
+function announceJudgement(run: RhythmRun, hit: RhythmHitResult, points: number, comboBefore: number): void {
+  const { bus, score } = run;
+  if (!bus) return;
+  const sustain = hit.sustain !== undefined;
+  if (hit.rating === 'miss') {
+    bus.emit('rhythm_miss', { zone: hit.zone, sustain, brokenCombo: comboBefore });
+  } else {
+    bus.emit('rhythm_hit', { zone: hit.zone, rating: hit.rating, points, sustain });
+    bus.emit('combo', {
+      combo: score.combo, multiplier: score.comboMultiplier, perfectStreak: score.consecutivePerfects,
+    });
+  }
+  bus.emit('score_update', { score: score.totalScore, points });
+}
+
+/** Pay out the challenge reward the first time it's completed; true if that was now */
+function rewardChallenge(run: RhythmRun): boolean {
+  if (!run.challenge?.completed || run.challengeRewarded) return false;
+  const { challenge } = run.challenge;
+  run.challengeRewarded = true;
+  run.score.crowdHype += challenge.rewardPoints;
+  run.score.totalScore = Math.floor(run.score.crowdHype);
+  run.bus?.emit('challenge_complete', {
+    challengeId: `daily:${challenge.date}`, tier: 'daily', rewardPoints: challenge.rewardPoints,
+  });
+  run.bus?.emit('score_update', { score: run.score.totalScore, points: challenge.rewardPoints });
+  return true;
+}
+
+/**
+ * Apply the end-of-session accuracy bonus and, if the song played to the
+ * end, settle the challenge's end-of-song conditions (paying its reward if
+ * that completes it). Returns the bonus.
+ */
+export function finishRhythmRun(run: RhythmRun, songEnded = true): number {
+  const bonus = calculateSessionBonus(run.score);
+  if (bonus > 0) {
+    run.score.crowdHype += bonus;
+    run.score.totalScore = Math.floor(run.score.crowdHype);
+    run.bus?.emit('score_update', { score: run.score.totalScore, points: bonus });
+  }
+  if (run.challenge && songEnded) {
+    finishChallengeProgress(run.challenge, run.score);
+    rewardChallenge(run);
   }
+  return bonus;
 }
 
-// ─── Legacy / Compat ──────────────────────────────────────────────────────────
+// ─── Dance Moves ──────────────────────────────────────────────────────────────
 
+/** Track the freestyle variety streak: different moves in a row, reset by idling */
 export function registerDanceMove(score: ScoreState, move: DanceMoveId): void {
   if (move === 'idle') {
     score.consecutiveDifferentMoves = 0;
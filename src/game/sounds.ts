@@ -1,7 +1,8 @@
 // ─── Web Audio Sound System ───────────────────────────────────────────────────
 // All sounds are synthesized via Web Audio API - no external files required.
 
-import { MusicStyle } from '@/types';
+import { MusicStyle, TempoChange } from '@/types';
+import { bpmAtBeat } from '@/game/chart';
 
 type WaveType = OscillatorType;
 
@@ -68,12 +69,17 @@ const BASS_CYCLES: Record<MusicStyle, [number, number, number, number]> = {
 
 // ─── Beat Engine (Chris Wilson lookahead scheduler) ───────────────────────────
 
+/** 'metronome' swaps the drum kit for a click; 'silent' only drives onBeat */
+type BeatEngineMode = 'music' | 'metronome' | 'silent';
+
 class BeatEngine {
   private ctx: AudioContext;
   private master: GainNode;
   private bpm: number;
   private style: MusicStyle;
   private secPerBeat: number;
+  private tempoChanges: TempoChange[] | undefined;
+  private mode: BeatEngineMode;
   private nextBeatTime = 0;
   private beatCount = 0;
   private bassIndex = 0;
@@ -82,11 +88,20 @@ class BeatEngine {
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private beatCallbacks: Array<(beatNum: number, beatTime: number) => void> = [];
 
-  constructor(ctx: AudioContext, master: GainNode, bpm: number, style: MusicStyle) {
+  constructor(
+    ctx: AudioContext,
+    master: GainNode,
+    bpm: number,
+    style: MusicStyle,
+    tempoChanges?: TempoChange[],
+    mode: BeatEngineMode = 'music'
+  ) {
     this.ctx = ctx;
     this.master = master;
     this.bpm = bpm;
     this.style = style;
+    this.tempoChanges = tempoChanges;
+    this.mode = mode;
     this.secPerBeat = 60.0 / bpm;
   }
 
@@ -119,6 +134,13 @@ class BeatEngine {
       // Notify listeners with the exact audio-clock beat time
       this.beatCallbacks.forEach(cb => cb(n, t));
 
+      if (this.mode !== 'music') {
+        if (this.mode === 'metronome') this.playClick(t, beatIndex === 0);
+        this.nextBeatTime += this.secPerBeat;
+        this.beatCount++;
+        continue;
+      }
+
       // Per-style drum pattern (may include 8th-note sub-events)
       const events = DRUM_PATTERNS[this.style][beatIndex];
       for (const ev of events) {
@@ -138,9 +160,28 @@ class BeatEngine {
 
       this.nextBeatTime += this.secPerBeat;
       this.beatCount++;
+
+      // Tempo changes take effect on the beat they are keyed to
+      if (this.tempoChanges) {
+        this.secPerBeat = 60.0 / bpmAtBeat(this.beatCount, this.bpm, this.tempoChanges);
+      }
     }
   }
 
+  /** Short, sharp click — easy to tap along to precisely */
+  private playClick(time: number, accent: boolean): void {
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(accent ? 1760 : 1320, time);
+    gain.gain.setValueAtTime(accent ? 0.35 : 0.25, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.03);
+    osc.connect(gain);
+    gain.connect(this.master);
+    osc.start(time);
+    osc.stop(time + 0.04);
+  }
+
   private playKick(time: number, gainOverride?: number): void {
     const osc = this.ctx.createOscillator();
     const gain = this.ctx.createGain();
@@ -308,10 +349,21 @@ class SoundSystem {
 
   // ─── Beat Engine ─────────────────────────────────────────────────────────
 
-  startBeat(bpm: number, style: MusicStyle): void {
+  startBeat(bpm: number, style: MusicStyle, tempoChanges?: TempoChange[]): void {
+    if (!this.initialized || !this.ctx || !this.masterGain) return;
+    this.beatEngine?.stop();
+    this.beatEngine = new BeatEngine(this.ctx, this.masterGain, bpm, style, tempoChanges);
+    this.beatEngine.start(this.ctx.currentTime + 0.1);
+  }
+
+  /**
+   * Steady clicks at `bpm` for latency calibration. With `audible` false the
+   * clock still drives onBeat but nothing plays (for visual-only calibration).
+   */
+  startMetronome(bpm: number, audible = true): void {
     if (!this.initialized || !this.ctx || !this.masterGain) return;
     this.beatEngine?.stop();
-    this.beatEngine = new BeatEngine(this.ctx, this.masterGain, bpm, style);
+    this.beatEngine = new BeatEngine(this.ctx, this.masterGain, bpm, 'pop', undefined, audible ? 'metronome' : 'silent');
     this.beatEngine.start(this.ctx.currentTime + 0.1);
   }
 
@@ -0,0 +1,175 @@
+import {
+  ReplayData,
+  ReplayHit,
+  SongDefinition,
+  ScoreVerification,
+  ScoreMode,
+  DifficultyLevel,
+  FREESTYLE_MOVES,
+} from '@/types';
+import { RhythmJudge, JudgeEvent } from '@/game/judge';
+import { getSongLengthBeats } from '@/game/chart';
+import {
+  createScoreState,
+  createRhythmRun,
+  judgeRhythmRun,
+  finishRhythmRun,
+  createChallengeProgress,
+  generateDailyChallenge,
+} from '@/game/scoring';
+import { EventBus } from '@/game/events';
+import { createFreestyleRun, judgeFreestyleMove, finishFreestyleRun } from '@/game/freestyle';
+import { parseReplay, encodeHit, inputZone, firstHitMismatch, INPUT_DOWN, INPUT_UP } from '@/game/replay';
+
+// ─── Score Verification ───────────────────────────────────────────────────────
+// Re-plays a submitted input log through the same judge and scoring code the
+// dance screen uses. A genuine run lands on exactly the score it claimed;
+// anything else is flagged and kept off the leaderboard.
+
+/** How far a replay's challenge date may be from its submission (time zones) */
+const CHALLENGE_DATE_SLACK_MS = 36 * 60 * 60 * 1000;
+
+export interface SimulatedRun {
+  score: number;
+  hits: ReplayHit[];
+  perfectHits: number;
+  goodHits: number;
+  totalHits: number;
+  comboPeak: number;
+}
+
+/** What a submitted score row says about itself */
+export interface ScoreClaim {
+  score: number;
+  mode?: string | null;
+  songId?: string | null;
+  difficulty?: DifficultyLevel | null;
+  submittedAt?: string;
+}
+
+export interface VerificationResult {
+  status: Exclude<ScoreVerification, 'pending'>;
+  reason: string;
+  simulated: SimulatedRun | null;
+}
+
+/**
+ * Judge a replay's inputs from scratch, exactly as the live session did.
+ * Pass a `bus` to hear the run's gameplay events as it goes.
+ */
+export function simulateReplay(song: SongDefinition, replay: ReplayData, bus: EventBus | null = null): SimulatedRun {
+  const judge = new RhythmJudge(song);
+  judge.setLatency(replay.latency[0] / 1000, replay.latency[1] / 1000);
+  judge.start();
+  // Spawning every target up front is safe: each is on screen a full travel
+  // time before it can be hit, far outside the judgement windows
+  const totalBeats = getSongLengthBeats(song);
+  for (let beat = 0; beat < totalBeats; beat++) judge.onBeatFired(beat);
+
+  const score = createScoreState();
+  const challenge = replay.challenge
+    ? createChallengeProgress(generateDailyChallenge(replay.challenge), song.id)
+    : null;
+  const run = createRhythmRun(score, challenge, bus);
+  const hits: ReplayHit[] = [];
+
+  const judgeAll = (events: JudgeEvent[]): void => {
+    for (const e of events) {
+      const ms = Math.round(e.time * 1000);
+      hits.push(encodeHit(ms, e.result));
+      judgeRhythmRun(run, e.result, ms);
+    }
+  };
+
+  for (const input of replay.inputs) {
+    const [ms, kind, x, , pointerId] = input;
+    const t = ms / 1000;
+    judgeAll(judge.update(t));
+    if (kind === INPUT_DOWN) {
+      const hit = judge.tryHitZone(inputZone(input), t, pointerId);
+      if (hit) judgeAll([hit]);
+    } else if (kind === INPUT_UP) {
+      judgeAll(judge.release(pointerId, t));
+    } else {
+      judgeAll(judge.track(pointerId, x / 1000, t));
+    }
+  }
+
+  judgeAll(judge.finish());
+  finishRhythmRun(run);
+
+  return {
+    score: score.totalScore,
+    hits,
+    perfectHits: score.perfectHits,
+    goodHits: score.goodHits,
+    totalHits: score.totalHitAttempts,
+    comboPeak: run.peakCombo,
+  };
+}
+
+/** Score a freestyle replay's moves from scratch */
+export function simulateFreestyle(song: SongDefinition, replay: ReplayData): SimulatedRun {
+  const score = createScoreState();
+  const run = createFreestyleRun(score, song, replay.latency[0] / 1000);
+  for (const [ms, move, slot] of replay.moves ?? []) judgeFreestyleMove(run, FREESTYLE_MOVES[move], ms / 1000, slot);
+  finishFreestyleRun(run);
+
+  return {
+    score: score.totalScore,
+    hits: [],
+    perfectHits: score.perfectHits,
+    goodHits: score.goodHits,
+    totalHits: score.totalHitAttempts,
+    comboPeak: run.peakCombo,
+  };
+}
+
+/**
+ * Check a submitted score against its replay. `songs` is every song the
+ * verifier knows; runs on anything else (e.g. local editor charts) can't be
+ * re-simulated and are flagged.
+ */
+export function verifySubmission(songs: SongDefinition[], rawReplay: unknown, claim: ScoreClaim): VerificationResult {
+  const { score: claimedScore, submittedAt } = claim;
+  const flag = (reason: string, simulated: SimulatedRun | null = null): VerificationResult =>
+    ({ status: 'flagged', reason, simulated });
+
+  if (rawReplay === null || rawReplay === undefined) return flag('no replay');
+
+  const { replay, errors } = parseReplay(rawReplay);
+  if (!replay) return flag(`invalid replay: ${errors[0]}`);
+
+  const song = songs.find(s => s.id === replay.songId);
+  if (!song) return flag(`unknown song "${replay.songId}"`);
+
+  // The leaderboard files a score under the song and difficulty it was submitted with
+  if (claim.songId && claim.songId !== song.id) {
+    return flag(`submitted for "${claim.songId}" but the replay is of "${song.id}"`);
+  }
+  if (claim.difficulty && claim.difficulty !== song.difficulty) {
+    return flag(`submitted as ${claim.difficulty} but "${song.id}" is ${song.difficulty}`);
+  }
+  const mode: ScoreMode = replay.moves ? 'freestyle' : 'rhythm';
+  if (claim.mode && claim.mode !== mode) {
+    return flag(`submitted as ${claim.mode} but the replay is of a ${mode} run`);
+  }
+
+  if (replay.score !== claimedScore) {
+    return flag(`replay records ${replay.score} but ${claimedScore} was submitted`);
+  }
+
+  if (replay.challenge && submittedAt) {
+    const gap = Math.abs(Date.parse(`${replay.challenge}T12:00:00Z`) - Date.parse(submittedAt));
+    if (!(gap <= CHALLENGE_DATE_SLACK_MS)) return flag(`challenge ${replay.challenge} doesn't match submission date`);
+  }
+
+  const simulated = mode === 'freestyle' ? simulateFreestyle(song, replay) : simulateReplay(song, replay);
+  const mismatch = firstHitMismatch(replay.hits, simulated.hits);
+  if (mismatch !== -1) return flag(`judgement #${mismatch + 1} differs from the recorded one`, simulated);
+  if (simulated.score !== claimedScore) {
+    return flag(`inputs score ${simulated.score}, not ${claimedScore}`, simulated);
+  }
+
+  return { status: 'verified', reason: 'score reproduced', simulated };
+}
@@ -1,15 +1,27 @@
 import '@/styles/global.css';
 import { GameState, GameScreen, CustomizationData, DEFAULT_CUSTOMIZATION, DEFAULT_SONG } from '@/types';
 import { createScoreState } from '@/game/scoring';
+import { summarizeProgression } from '@/game/progression';
 import { engine } from '@/game/engine';
+import { eventBus } from '@/game/events';
 import { soundSystem } from '@/game/sounds';
 import { authService } from '@/services/supabase/auth';
+import { dataService } from '@/services/supabase/data';
 import { createHomeScreen } from '@/ui/screens/home';
 import { createCustomizeScreen } from '@/ui/screens/customize';
 import { createDanceScreen } from '@/ui/screens/dance';
+import { createFreestyleScreen } from '@/ui/screens/freestyle';
+import { createRecorderScreen } from '@/ui/screens/recorder';
 import { createLeaderboardScreen } from '@/ui/screens/leaderboard';
 import { createLockerScreen } from '@/ui/screens/locker';
 import { createSongSelectScreen } from '@/ui/screens/song-select';
+import { createEditorScreen } from '@/ui/screens/editor';
+import { createCalibrationScreen } from '@/ui/screens/calibration';
+import { createChallengesScreen } from '@/ui/screens/challenges';
+import { createTrophiesScreen } from '@/ui/screens/trophies';
+import { toast } from '@/ui/components/button';
+import { achievementTracker } from '@/services/achievements';
+import { ACHIEVEMENTS } from '@/game/achievements';
 
 // ─── Loading Progress ─────────────────────────────────────────────────────────
 
@@ -44,6 +56,11 @@ const initialState: GameState = {
   fps: 60,
   quality: 'high',
   selectedSong: DEFAULT_SONG,
+  replay: null,
+  practice: null,
+  autoplay: null,
+  migration: null,
+  progression: summarizeProgression([]),
 };
 
 // ─── Router ───────────────────────────────────────────────────────────────────
@@ -52,17 +69,18 @@ const uiLayer = document.getElementById('ui-layer') as HTMLDivElement;
 const canvasContainer = document.getElementById('game-canvas-container') as HTMLDivElement;
 
 let currentScreenEl: HTMLElement | null = null;
-let danceCleanup: (() => void) | null = null;
+let screenCleanup: (() => void) | null = null;
 // Use null so the first navigate('home') call is never short-circuited
 let currentScreen: GameScreen | null = null;
 
 async function navigate(screen: GameScreen): Promise<void> {
   if (currentScreen === screen) return;
+  const previousScreen = currentScreen;
 
-  // Cleanup dance screen
-  if (danceCleanup) {
-    danceCleanup();
-    danceCleanup = null;
+  // Cleanup dance / replay / editor / calibration screen
+  if (screenCleanup) {
+    screenCleanup();
+    screenCleanup = null;
   }
 
   // Remove current screen
@@ -75,7 +93,8 @@ async function navigate(screen: GameScreen): Promise<void> {
   initialState.screen = screen;
 
   // Show/hide canvas
-  const showCanvas = screen === 'dance';
+  const showCanvas = screen === 'dance' || screen === 'replay' || screen === 'practice' || screen === 'demo'
+    || screen === 'freestyle' || screen === 'recorder';
   canvasContainer.style.visibility = showCanvas ? 'visible' : 'hidden';
 
   // Build new screen
@@ -90,20 +109,56 @@ async function navigate(screen: GameScreen): Promise<void> {
       el = createCustomizeScreen(
         initialState,
         navigate,
-        (cust: CustomizationData) => {
-          initialState.profile.customization = cust;
-        }
+        applyCustomization
       );
       break;
 
     case 'dance': {
       const result = createDanceScreen(initialState, engine, navigate);
       el = result.element;
-      danceCleanup = result.cleanup;
+      screenCleanup = result.cleanup;
       initialState.isPlaying = true;
       break;
     }
 
+    case 'replay': {
+      const result = createDanceScreen(initialState, engine, navigate, { replay: initialState.replay ?? undefined });
+      el = result.element;
+      screenCleanup = result.cleanup;
+      break;
+    }
+
+    case 'practice': {
+      const result = createDanceScreen(initialState, engine, navigate, { practice: initialState.practice ?? undefined });
+      el = result.element;
+      screenCleanup = result.cleanup;
+      initialState.isPlaying = true;
+      break;
+    }
+
+    case 'demo': {
+      const autoplay = initialState.autoplay ?? { jitterMs: 0, exitTo: 'home' };
+      const result = createDanceScreen(initialState, engine, navigate, { autoplay });
+      el = result.element;
+      screenCleanup = result.cleanup;
+      break;
+    }
+
+    case 'freestyle': {
+      const result = createFreestyleScreen(initialState, engine, navigate);
+      el = result.element;
+      screenCleanup = result.cleanup;
+      initialState.isPlaying = true;
+      break;
+    }
+
+    case 'recorder': {
+      const result = createRecorderScreen(initialState, engine, navigate);
+      el = result.element;
+      screenCleanup = result.cleanup;
+      break;
+    }
+
     case 'leaderboard':
       el = createLeaderboardScreen(initialState, navigate);
       break;
@@ -112,16 +167,36 @@ async function navigate(screen: GameScreen): Promise<void> {
       el = createLockerScreen(
         initialState,
         navigate,
-        (cust: CustomizationData) => {
-          initialState.profile.customization = cust;
-        }
+        applyCustomization
       );
       break;
 
+    case 'challenges':
+      el = createChallengesScreen(initialState, navigate);
+      break;
+
+    case 'trophies':
+      el = createTrophiesScreen(initialState, navigate);
+      break;
+
     case 'song-select':
       el = createSongSelectScreen(initialState, navigate);
       break;
 
+    case 'editor': {
+      const result = createEditorScreen(initialState, navigate);
+      el = result.element;
+      screenCleanup = result.cleanup;
+      break;
+    }
+
+    case 'calibration': {
+      const result = createCalibrationScreen(initialState, navigate);
+      el = result.element;
+      screenCleanup = result.cleanup;
+      break;
+    }
+
     default:
       el = createHomeScreen(initialState, navigate);
   }
@@ -137,11 +212,17 @@ async function navigate(screen: GameScreen): Promise<void> {
   });
 
   // Stop isPlaying flag when leaving dance
-  if (screen !== 'dance') {
+  if (screen !== 'dance' && screen !== 'practice' && screen !== 'freestyle') {
     initialState.isPlaying = false;
   }
 
-  // (screen_change event omitted – no active subscribers in current build)
+  eventBus.emit('screen_change', { from: previousScreen, to: screen });
+}
+
+/** The look was saved (customize screen) or picked from the locker */
+function applyCustomization(customization: CustomizationData): void {
+  initialState.profile.customization = customization;
+  eventBus.emit('customization_change', { customization });
 }
 
 // ─── Init ─────────────────────────────────────────────────────────────────────
@@ -153,9 +234,43 @@ async function init(): Promise<void> {
   try {
     const profile = await authService.init();
     initialState.profile = profile;
+    initialState.migration = authService.takeMigrationSummary();
+    initialState.progression = await dataService.getProgression(profile.id);
   } catch (err) {
     console.warn('[App] Auth init failed, using guest mode:', err);
   }
+
+  // Tell the player once if offline saves stop fitting on the device
+  const unwatchStorage = eventBus.on('storage_full', event => {
+    unwatchStorage();
+    toast('💾', 'Device storage is full', `${event.data.queued} offline saves are waiting. Get online so they can sync — new ones may be lost.`, 6000);
+  });
+
+  // Send anything saved while offline (or before signing in)
+  dataService.startSync(() => authService.profile?.id ?? null);
+
+  // Achievements follow gameplay events from here on
+  achievementTracker.start(id => {
+    const achievement = ACHIEVEMENTS[id];
+    toast(achievement.emoji, `Achievement unlocked: ${achievement.name}`, achievement.description);
+    initialState.progression = {
+      ...initialState.progression,
+      achievements: [...initialState.progression.achievements, id],
+    };
+  });
+  void achievementTracker.load(initialState.profile.id);
+
+  // A magic link opened in another tab signs this one in too
+  authService.watchSession(async profile => {
+    initialState.profile = profile;
+    initialState.migration = authService.takeMigrationSummary();
+    initialState.progression = await dataService.getProgression(profile.id);
+    await achievementTracker.load(profile.id);
+    if (currentScreen === 'home') {
+      currentScreen = null;
+      void navigate('home');
+    }
+  });
   setLoadingProgress(35);
 
   // Init game engine
@@ -0,0 +1,83 @@
+import { eventBus } from '@/game/events';
+import {
+  AchievementEventType,
+  ACHIEVEMENT_EVENTS,
+  applyAchievementEvent,
+  addAchievementTallies,
+  newlyUnlocked,
+} from '@/game/achievements';
+import { dataService } from '@/services/supabase/data';
+import { AchievementId, AchievementTally, DanceStartEvent, GameEvent } from '@/types';
+
+// ─── Achievement Tracker ──────────────────────────────────────────────────────
+// Follows gameplay on the event bus and keeps each achievement's progress: the
+// stored total plus the current session. An unlock is saved and announced the
+// moment it happens; the session's tally is saved when the dance ends. Nothing
+// counts while a replay is being watched, a section practised or the bot plays.
+
+export class AchievementTracker {
+  private userId: string | null = null;
+  private stored: AchievementTally = {};
+  private unlocked = new Set<AchievementId>();
+  private session: AchievementTally = {};
+  private recording = false;
+  private saving: Promise<void> = Promise.resolve();
+  private onUnlock: (id: AchievementId) => void = () => {};
+
+  /** Subscribe to the event bus; `onUnlock` announces each new achievement */
+  start(onUnlock: (id: AchievementId) => void): void {
+    this.onUnlock = onUnlock;
+    for (const type of ACHIEVEMENT_EVENTS) eventBus.on(type, event => this.handle(event));
+    eventBus.on('dance_start', event => this.begin(event.data));
+    eventBus.on('dance_end', () => this.end());
+  }
+
+  /** Load `userId`'s stored progress — call whenever the signed-in profile changes */
+  async load(userId: string): Promise<void> {
+    this.end();
+    this.userId = userId;
+    const { tally, unlocks } = await dataService.getAchievements(userId);
+    if (this.userId !== userId) return;
+    this.stored = tally;
+    this.unlocked = new Set(unlocks.map(u => u.id));
+  }
+
+  /** Resolves once everything saved so far has been written (or queued to sync) */
+  settled(): Promise<void> {
+    return this.saving;
+  }
+
+  private begin(data: DanceStartEvent): void {
+    this.end();
+    this.recording = !data.replay && !data.practice && !data.autoplay;
+  }
+
+  private handle(event: GameEvent<AchievementEventType>): void {
+    const userId = this.userId;
+    if (!this.recording || !userId) return;
+
+    this.session = applyAchievementEvent(this.session, event.type, event.data);
+    for (const id of newlyUnlocked(addAchievementTallies(this.stored, this.session), this.unlocked)) {
+      this.unlocked.add(id);
+      this.onUnlock(id);
+      this.save(() => dataService.unlockAchievement(userId, id));
+    }
+  }
+
+  private end(): void {
+    const userId = this.userId;
+    if (this.recording && userId) {
+      const tally = this.session;
+      this.stored = addAchievementTallies(this.stored, tally);
+      this.save(() => dataService.recordAchievementProgress(userId, tally));
+    }
+    this.recording = false;
+    this.session = {};
+  }
+
+  private save(write: () => Promise<void>): void {
+    this.saving = this.saving.then(write).catch(err => console.warn('[Achievements] Save failed:', err));
+  }
+}
+
+export const achievementTracker = new AchievementTracker();
@@ -1,9 +1,12 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
 import { getSupabaseClient } from './client';
-import { PlayerProfile, CustomizationData, DEFAULT_CUSTOMIZATION } from '@/types';
+import { dataService } from './data';
+import { PlayerProfile, CustomizationData, LatencyCalibration, MigrationSummary, DEFAULT_CUSTOMIZATION } from '@/types';
 
 // ─── Local Storage Keys ───────────────────────────────────────────────────────
 
 const LOCAL_PROFILE_KEY = 'wobble_dance_profile';
+const LOCAL_CALIBRATION_KEY = 'wobble_dance_calibration';
 
 function loadLocalProfile(): PlayerProfile {
   try {
@@ -25,10 +28,28 @@ function saveLocalProfile(profile: PlayerProfile): void {
   localStorage.setItem(LOCAL_PROFILE_KEY, JSON.stringify(profile));
 }
 
+// Latency depends on the device and headphones, so calibration is never
+// synced to the server — it is attached to whichever profile loads here.
+function loadLocalCalibration(): LatencyCalibration | undefined {
+  try {
+    const raw = localStorage.getItem(LOCAL_CALIBRATION_KEY);
+    if (raw) return JSON.parse(raw) as LatencyCalibration;
+  } catch {
+    // ignore
+  }
+  return undefined;
+}
+
+function saveLocalCalibration(calibration: LatencyCalibration | undefined): void {
+  if (calibration) localStorage.setItem(LOCAL_CALIBRATION_KEY, JSON.stringify(calibration));
+  else localStorage.removeItem(LOCAL_CALIBRATION_KEY);
+}
+
 // ─── Auth Service ─────────────────────────────────────────────────────────────
 
 export class AuthService {
   private _profile: PlayerProfile | null = null;
+  private _migration: MigrationSummary | null = null;
 
   async init(): Promise<PlayerProfile> {
     const supabase = getSupabaseClient();
@@ -36,6 +57,7 @@ export class AuthService {
     if (!supabase) {
       // Guest mode - load from localStorage
       this._profile = loadLocalProfile();
+      this._profile.calibration = loadLocalCalibration();
       return this._profile;
     }
 
@@ -52,65 +74,59 @@ export class AuthService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('No user');
 
-      // Load or create profile
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user.id)
-        .single();
-
-      if (profileData) {
-        this._profile = {
-          id: profileData.id,
-          displayName: profileData.display_name ?? 'Wobbler',
-          customization: (profileData.customization_json as CustomizationData) ?? { ...DEFAULT_CUSTOMIZATION },
-          lastSeen: profileData.last_seen ?? new Date().toISOString(),
-          isGuest: user.is_anonymous ?? true,
-        };
-      } else {
-        // Create new profile
-        const newProfile: PlayerProfile = {
-          id: user.id,
-          displayName: 'Wobbler',
-          customization: { ...DEFAULT_CUSTOMIZATION },
-          lastSeen: new Date().toISOString(),
-          isGuest: user.is_anonymous ?? true,
-        };
-
-        await supabase.from('profiles').insert({
-          id: user.id,
-          display_name: newProfile.displayName,
-          customization_json: newProfile.customization,
-          last_seen: newProfile.lastSeen,
-        });
-
-        this._profile = newProfile;
-      }
-
-      // Update last_seen
-      await supabase
-        .from('profiles')
-        .update({ last_seen: new Date().toISOString() })
-        .eq('id', user.id);
-
+      this._profile = await this.loadProfile(supabase, user);
+      await this.migrateGuest(supabase, user);
     } catch (err) {
       console.warn('[Auth] Falling back to guest mode:', err);
       this._profile = loadLocalProfile();
     }
 
     // _profile is guaranteed to be set by this point
-    return this._profile as PlayerProfile;
+    const profile = this._profile as PlayerProfile;
+    profile.calibration = loadLocalCalibration();
+    return profile;
   }
 
   get profile(): PlayerProfile | null {
     return this._profile;
   }
 
+  /** The result of the last guest → account migration, once; null if none ran */
+  takeMigrationSummary(): MigrationSummary | null {
+    const summary = this._migration;
+    this._migration = null;
+    return summary;
+  }
+
+  /**
+   * Follow sign-ins that happen while the game is open (a magic link opened
+   * in another tab). `onChange` gets the new profile once any guest data has
+   * been migrated into it.
+   */
+  watchSession(onChange: (profile: PlayerProfile) => void): void {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    supabase.auth.onAuthStateChange((event, session) => {
+      if (event !== 'SIGNED_IN' || !session || session.user.id === this._profile?.id) return;
+      // Supabase calls inside the auth callback deadlock, so defer the work
+      setTimeout(() => {
+        void this.switchTo(supabase, session.user).then(profile => {
+          if (profile) onChange(profile);
+        });
+      }, 0);
+    });
+  }
+
   async signInWithEmail(email: string): Promise<{ error: string | null }> {
     const supabase = getSupabaseClient();
     if (!supabase) return { error: 'Supabase not configured' };
 
     try {
+      // The link signs in as a different user — remember what the guest owns
+      // so it can be merged into that account (see migration.ts)
+      if (this._profile?.isGuest) await dataService.snapshotGuest(this._profile);
+
       const { error } = await supabase.auth.signInWithOtp({
         email,
         options: { emailRedirectTo: window.location.href },
@@ -128,12 +144,16 @@ export class AuthService {
     }
     // Reset to guest
     this._profile = loadLocalProfile();
+    this._profile.calibration = loadLocalCalibration();
   }
 
-  async updateProfile(updates: Partial<Pick<PlayerProfile, 'displayName' | 'customization'>>): Promise<void> {
+  async updateProfile(
+    updates: Partial<Pick<PlayerProfile, 'displayName' | 'customization' | 'calibration'>>
+  ): Promise<void> {
     if (!this._profile) return;
 
     this._profile = { ...this._profile, ...updates };
+    if ('calibration' in updates) saveLocalCalibration(updates.calibration);
 
     const supabase = getSupabaseClient();
     if (supabase && !this._profile.isGuest) {
@@ -154,6 +174,70 @@ export class AuthService {
   isLoggedIn(): boolean {
     return Boolean(this._profile && !this._profile.isGuest);
   }
+
+  private async switchTo(supabase: SupabaseClient, user: User): Promise<PlayerProfile | null> {
+    try {
+      this._profile = await this.loadProfile(supabase, user);
+      await this.migrateGuest(supabase, user);
+      this._profile.calibration = loadLocalCalibration();
+      return this._profile;
+    } catch (err) {
+      console.warn('[Auth] Failed to load the signed-in profile:', err);
+      return null;
+    }
+  }
+
+  /** Merge a pending guest snapshot into a real account, then reload its profile */
+  private async migrateGuest(supabase: SupabaseClient, user: User): Promise<void> {
+    if (user.is_anonymous) return;
+    const summary = await dataService.migrateGuest(user.id);
+    if (!summary) return;
+    this._migration = summary;
+    if (summary.profile === 'adopted') this._profile = await this.loadProfile(supabase, user);
+  }
+
+  private async loadProfile(supabase: SupabaseClient, user: User): Promise<PlayerProfile> {
+    const { data: profileData } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .single();
+
+    let profile: PlayerProfile;
+    if (profileData) {
+      profile = {
+        id: profileData.id,
+        displayName: profileData.display_name ?? 'Wobbler',
+        customization: (profileData.customization_json as CustomizationData) ?? { ...DEFAULT_CUSTOMIZATION },
+        lastSeen: profileData.last_seen ?? new Date().toISOString(),
+        isGuest: user.is_anonymous ?? true,
+      };
+    } else {
+      // Create new profile
+      profile = {
+        id: user.id,
+        displayName: 'Wobbler',
+        customization: { ...DEFAULT_CUSTOMIZATION },
+        lastSeen: new Date().toISOString(),
+        isGuest: user.is_anonymous ?? true,
+      };
+
+      await supabase.from('profiles').insert({
+        id: user.id,
+        display_name: profile.displayName,
+        customization_json: profile.customization,
+        last_seen: profile.lastSeen,
+      });
+    }
+
+    // Update last_seen
+    await supabase
+      .from('profiles')
+      .update({ last_seen: new Date().toISOString() })
+      .eq('id', user.id);
+
+    return profile;
+  }
 }
 
 export const authService = new AuthService();
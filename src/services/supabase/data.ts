@@ -1,17 +1,72 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabaseClient } from './client';
+import {
+  OutboxItem,
+  OutboxPayload,
+  createOutboxItem,
+  createOutboxKey,
+  queueWrite,
+  loadOutbox,
+  LOCAL_REPLAYS_KEY,
+  updateOutbox,
+  claimItems,
+  markAttempt,
+  nextAttemptAt,
+  mergeChallengeResults,
+  isLocalGuestId,
+} from './outbox';
+import {
+  GuestSnapshot,
+  AccountData,
+  planMigration,
+  DEFAULT_DISPLAY_NAME,
+  loadGuestSnapshot,
+  saveGuestSnapshot,
+  clearGuestSnapshot,
+} from './migration';
 import {
   ScoreEntry,
   SavedOutfit,
+  SavedMove,
+  DanceAnimation,
   CustomizationData,
   DailyChallenge,
+  ChallengeResult,
+  ChallengeStats,
+  ChallengeTally,
+  ChallengeContribution,
+  LongChallenge,
+  XpAward,
+  ProgressionState,
+  AchievementId,
+  AchievementTally,
+  AchievementUnlock,
+  ChartFile,
+  ReplayData,
+  DEFAULT_CUSTOMIZATION,
+  ScoreVerification,
+  PlayerProfile,
+  MigrationSummary,
+  LeaderboardFilter,
+  ScoreMode,
+  DifficultyLevel,
 } from '@/types';
-import type { ChallengeProgress } from '@/game/scoring';
+import { leaderboardWindowStart, summarizeChallengeHistory, getTodayDateStr, ChallengeProgress } from '@/game/scoring';
+import { getActiveLongChallenges, addTallies, isLongChallengeComplete } from '@/game/goals';
+import { summarizeProgression } from '@/game/progression';
+import { addAchievementTallies } from '@/game/achievements';
 
 // ─── Local Storage Fallbacks ──────────────────────────────────────────────────
 
 const LOCAL_SCORES_KEY = 'wobble_dance_scores';
 const LOCAL_OUTFITS_KEY = 'wobble_dance_outfits';
+const LOCAL_MOVES_KEY = 'wobble_dance_moves';
 const LOCAL_CHALLENGES_KEY = 'wobble_dance_challenges';
+const LOCAL_PROGRESS_KEY = 'wobble_dance_challenge_progress';
+const LOCAL_XP_KEY = 'wobble_dance_xp';
+const LOCAL_ACHIEVEMENTS_KEY = 'wobble_dance_achievements';
+const LOCAL_CHARTS_KEY = 'wobble_dance_charts';
+const MAX_LOCAL_REPLAYS = 10;
 
 function localScores(): ScoreEntry[] {
   try {
@@ -20,7 +75,77 @@ function localScores(): ScoreEntry[] {
 }
 
 function saveLocalScores(scores: ScoreEntry[]): void {
-  localStorage.setItem(LOCAL_SCORES_KEY, JSON.stringify(scores.slice(0, 50)));
+  // Replays are the bulk — drop them from the oldest scores until they fit
+  const kept = scores.slice(0, 50);
+  for (let replays = kept.length; replays >= 0; replays--) {
+    try {
+      localStorage.setItem(LOCAL_SCORES_KEY, JSON.stringify(kept.map((s, i) => (i < replays ? s : { ...s, replay: undefined }))));
+      return;
+    } catch (err) {
+      console.warn('[Data] Score storage full, dropping the oldest replay:', err);
+    }
+  }
+}
+
+function matchesFilter(s: ScoreEntry, filter: LeaderboardFilter, since: string | null): boolean {
+  if (filter.mode && s.mode !== filter.mode) return false;
+  if (filter.songId && s.songId !== filter.songId) return false;
+  if (filter.difficulty && s.difficulty !== filter.difficulty) return false;
+  // Scores saved before dates were kept only count all-time
+  if (since && (!s.createdAt || s.createdAt < since)) return false;
+  return true;
+}
+
+function localChallenges(): ChallengeResult[] {
+  const results: ChallengeResult[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(`${LOCAL_CHALLENGES_KEY}_`)) continue;
+    try {
+      results.push(JSON.parse(localStorage.getItem(key) ?? ''));
+    } catch { /* skip unreadable days */ }
+  }
+  return results;
+}
+
+function clearLocalChallenges(): void {
+  for (const result of localChallenges()) localStorage.removeItem(`${LOCAL_CHALLENGES_KEY}_${result.date}`);
+}
+
+/** Weekly/seasonal totals by challenge id — locally there's one device, so no per-session rows */
+function localProgress(): Record<string, ChallengeTally> {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_PROGRESS_KEY) ?? '{}');
+  } catch { return {}; }
+}
+
+function saveLocalProgress(progress: Record<string, ChallengeTally>): void {
+  localStorage.setItem(LOCAL_PROGRESS_KEY, JSON.stringify(progress));
+}
+
+function localXp(): XpAward[] {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_XP_KEY) ?? '[]');
+  } catch { return []; }
+}
+
+function saveLocalXp(awards: XpAward[]): void {
+  localStorage.setItem(LOCAL_XP_KEY, JSON.stringify(awards));
+}
+
+interface AchievementRecord {
+  tally: AchievementTally;
+  unlocks: AchievementUnlock[];
+}
+
+function localAchievements(): AchievementRecord {
+  try {
+    return { tally: {}, unlocks: [], ...JSON.parse(localStorage.getItem(LOCAL_ACHIEVEMENTS_KEY) ?? '{}') };
+  } catch { return { tally: {}, unlocks: [] }; }
+}
+
+function saveLocalAchievements(record: AchievementRecord): void {
+  localStorage.setItem(LOCAL_ACHIEVEMENTS_KEY, JSON.stringify(record));
 }
 
 function localOutfits(): SavedOutfit[] {
@@ -33,6 +158,142 @@ function saveLocalOutfits(outfits: SavedOutfit[]): void {
   localStorage.setItem(LOCAL_OUTFITS_KEY, JSON.stringify(outfits));
 }
 
+function localMoves(): SavedMove[] {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_MOVES_KEY) ?? '[]');
+  } catch { return []; }
+}
+
+function saveLocalMoves(moves: SavedMove[]): void {
+  localStorage.setItem(LOCAL_MOVES_KEY, JSON.stringify(moves));
+}
+
+function localCharts(): ChartFile[] {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_CHARTS_KEY) ?? '[]');
+  } catch { return []; }
+}
+
+function saveLocalCharts(charts: ChartFile[]): void {
+  localStorage.setItem(LOCAL_CHARTS_KEY, JSON.stringify(charts));
+}
+
+function localReplays(): ReplayData[] {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_REPLAYS_KEY) ?? '[]');
+  } catch { return []; }
+}
+
+function saveLocalReplays(replays: ReplayData[]): void {
+  // Long sessions make big replays — drop the oldest until they fit
+  for (let keep = Math.min(replays.length, MAX_LOCAL_REPLAYS); keep > 0; keep--) {
+    try {
+      localStorage.setItem(LOCAL_REPLAYS_KEY, JSON.stringify(replays.slice(0, keep)));
+      return;
+    } catch (err) {
+      console.warn('[Data] Replay storage full, dropping the oldest:', err);
+    }
+  }
+}
+
+// ─── Rows ─────────────────────────────────────────────────────────────────────
+
+function scoreRow(userId: string, score: ScoreEntry, clientKey: string): Record<string, unknown> {
+  return {
+    user_id: userId,
+    score: score.score,
+    mode: score.mode,
+    song_id: score.songId ?? null,
+    difficulty: score.difficulty ?? null,
+    metadata_json: score.metadata ?? null,
+    replay_json: score.replay ?? null,
+    client_key: clientKey,
+  };
+}
+
+function outfitRow(userId: string, outfit: SavedOutfit, clientKey: string): Record<string, unknown> {
+  return {
+    user_id: userId,
+    name: outfit.name,
+    customization_json: outfit.customization,
+    client_key: clientKey,
+  };
+}
+
+function moveRow(userId: string, move: SavedMove, clientKey: string): Record<string, unknown> {
+  return {
+    user_id: userId,
+    name: move.name,
+    animation_json: move.animation,
+    client_key: clientKey,
+  };
+}
+
+function progressRow(userId: string, contribution: ChallengeContribution, clientKey: string): Record<string, unknown> {
+  return {
+    user_id: userId,
+    challenge_id: contribution.challengeId,
+    tier: contribution.tier,
+    tally_json: contribution.tally,
+    client_key: clientKey,
+  };
+}
+
+function xpRow(userId: string, award: XpAward, clientKey: string): Record<string, unknown> {
+  return {
+    user_id: userId,
+    source: award.source,
+    xp: award.xp,
+    challenge_id: award.challengeId ?? null,
+    grade: award.grade ?? null,
+    client_key: clientKey,
+  };
+}
+
+/** Challenge rewards get a key per player and challenge, so a second device can't pay out twice */
+function xpAwardKey(userId: string, award: XpAward): string {
+  return award.challengeId ? `xp:${userId}:${award.challengeId}` : createOutboxKey();
+}
+
+function unlockRow(userId: string, unlock: AchievementUnlock, clientKey: string): Record<string, unknown> {
+  return {
+    user_id: userId,
+    achievement_id: unlock.id,
+    unlocked_at: unlock.unlockedAt,
+    client_key: clientKey,
+  };
+}
+
+function xpFromRow(row: Record<string, unknown>): XpAward {
+  const award: XpAward = { source: row.source as XpAward['source'], xp: row.xp as number };
+  if (row.challenge_id) award.challengeId = row.challenge_id as string;
+  if (row.grade) award.grade = row.grade as XpAward['grade'];
+  return award;
+}
+
+function outfitFromRow(row: Record<string, unknown>): SavedOutfit {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    customization: row.customization_json as CustomizationData,
+    createdAt: row.created_at as string,
+  };
+}
+
+function moveFromRow(row: Record<string, unknown>): SavedMove {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    animation: row.animation_json as DanceAnimation,
+    createdAt: row.created_at as string,
+  };
+}
+
+/** Queued items `userId` will send once online, including ones queued as a guest */
+function queuedFor(userId: string): OutboxItem[] {
+  return loadOutbox().filter(i => i.userId === userId || isLocalGuestId(i.userId));
+}
+
 // ─── Data Service ─────────────────────────────────────────────────────────────
 
 export class DataService {
@@ -42,42 +303,45 @@ export class DataService {
     const supabase = getSupabaseClient();
 
     if (!supabase) {
-      // Guest: save locally
+      // Guest: save locally, with the replay, so the score can still be
+      // verified if the guest later saves their progress to an account
       const scores = localScores();
-      scores.unshift({ ...score, userId });
+      scores.unshift({ ...score, userId, createdAt: new Date().toISOString() });
       saveLocalScores(scores);
       return;
     }
 
-    try {
-      await supabase.from('scores').insert({
-        user_id: userId,
-        score: score.score,
-        mode: score.mode,
-        metadata_json: score.metadata ?? null,
-      });
-    } catch (err) {
-      console.warn('[Data] Score submit failed, saving locally:', err);
-      const scores = localScores();
-      scores.unshift(score);
-      saveLocalScores(scores);
-    }
+    // Starts out 'pending' until scripts/verify-scores.ts re-simulates the replay
+    await this.write(supabase, userId, { kind: 'score', score });
   }
 
-  async getLeaderboard(limit = 20): Promise<ScoreEntry[]> {
+  /**
+   * Top scores, optionally for one song and/or difficulty, within a daily,
+   * weekly or all-time window.
+   */
+  async getLeaderboard(limit = 20, filter: LeaderboardFilter = {}): Promise<ScoreEntry[]> {
     const supabase = getSupabaseClient();
+    const since = leaderboardWindowStart(filter.window ?? 'all-time');
 
     if (!supabase) {
       return localScores()
+        .filter(s => matchesFilter(s, filter, since))
         .sort((a, b) => b.score - a.score)
         .slice(0, limit)
         .map(s => ({ ...s, displayName: 'You' }));
     }
 
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('scores')
-        .select('id, score, mode, created_at, profiles(display_name)')
+        .select('id, score, mode, song_id, difficulty, created_at, verification, profiles(display_name)')
+        .neq('verification', 'flagged');
+      if (filter.mode) query = query.eq('mode', filter.mode);
+      if (filter.songId) query = query.eq('song_id', filter.songId);
+      if (filter.difficulty) query = query.eq('difficulty', filter.difficulty);
+      if (since) query = query.gte('created_at', since);
+
+      const { data, error } = await query
         .order('score', { ascending: false })
         .limit(limit);
 
@@ -87,7 +351,10 @@ export class DataService {
         id: row.id as string,
         score: row.score as number,
         mode: row.mode as string,
+        songId: (row.song_id as string | null) ?? undefined,
+        difficulty: (row.difficulty as DifficultyLevel | null) ?? undefined,
         createdAt: row.created_at as string,
+        verification: row.verification as ScoreVerification,
         displayName: (row.profiles as { display_name?: string } | null)?.display_name ?? 'Wobbler',
       }));
     } catch (err) {
@@ -96,26 +363,35 @@ export class DataService {
     }
   }
 
-  async getUserBestScore(userId: string): Promise<number> {
+  /** Best score in `mode`, or in any mode if omitted */
+  async getUserBestScore(userId: string, mode?: ScoreMode): Promise<number> {
     const supabase = getSupabaseClient();
+    const inMode = (s: ScoreEntry): boolean => !mode || s.mode === mode;
 
     if (!supabase) {
-      const scores = localScores();
+      const scores = localScores().filter(inMode);
       return scores.reduce((best, s) => Math.max(best, s.score), 0);
     }
 
+    // Scores still waiting to sync count too
+    const queuedBest = queuedFor(userId).reduce(
+      (best, i) => (i.kind === 'score' && inMode(i.score) ? Math.max(best, i.score.score) : best), 0
+    );
+
     try {
-      const { data } = await supabase
+      let query = supabase
         .from('scores')
         .select('score')
-        .eq('user_id', userId)
+        .eq('user_id', userId);
+      if (mode) query = query.eq('mode', mode);
+      const { data } = await query
         .order('score', { ascending: false })
         .limit(1)
         .single();
 
-      return data?.score ?? 0;
+      return Math.max(data?.score ?? 0, queuedBest);
     } catch {
-      return 0;
+      return queuedBest;
     }
   }
 
@@ -132,29 +408,27 @@ export class DataService {
       return saved;
     }
 
-    try {
-      const { data, error } = await supabase
-        .from('outfits')
-        .insert({
-          user_id: userId,
-          name: outfit.name,
-          customization_json: outfit.customization,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+    const key = createOutboxKey();
+    if (!isLocalGuestId(userId)) {
+      try {
+        const { data, error } = await supabase
+          .from('outfits')
+          .insert(outfitRow(userId, outfit, key))
+          .select()
+          .single();
 
-      return {
-        id: (data as Record<string, unknown>).id as string,
-        name: (data as Record<string, unknown>).name as string,
-        customization: (data as Record<string, unknown>).customization_json as CustomizationData,
-        createdAt: (data as Record<string, unknown>).created_at as string,
-      };
-    } catch (err) {
-      console.warn('[Data] Outfit save failed:', err);
-      return null;
+        if (error) throw error;
+        return outfitFromRow(data as Record<string, unknown>);
+      } catch (err) {
+        console.warn('[Data] Outfit save failed, queued for sync:', err);
+      }
     }
+
+    // Shown in the locker as a local outfit until it syncs
+    const item = createOutboxItem(userId, { kind: 'outfit', outfit }, key);
+    queueWrite(item);
+    this.scheduleFlush();
+    return { ...outfit, id: `local_${key}`, createdAt: item.queuedAt };
   }
 
   async getOutfits(userId: string): Promise<SavedOutfit[]> {
@@ -164,6 +438,11 @@ export class DataService {
       return localOutfits();
     }
 
+    // Outfits saved offline come first, until they sync
+    const queued = queuedFor(userId).flatMap(i =>
+      i.kind === 'outfit' ? [{ ...i.outfit, id: `local_${i.key}`, createdAt: i.queuedAt }] : []
+    ).reverse();
+
     try {
       const { data, error } = await supabase
         .from('outfits')
@@ -173,15 +452,10 @@ export class DataService {
 
       if (error) throw error;
 
-      return (data ?? []).map((row: Record<string, unknown>) => ({
-        id: row.id as string,
-        name: row.name as string,
-        customization: row.customization_json as CustomizationData,
-        createdAt: row.created_at as string,
-      }));
+      return [...queued, ...(data ?? []).map(outfitFromRow)];
     } catch (err) {
       console.warn('[Data] Outfits fetch failed:', err);
-      return localOutfits();
+      return [...queued, ...localOutfits()];
     }
   }
 
@@ -191,6 +465,8 @@ export class DataService {
     if (!supabase || outfitId.startsWith('local_')) {
       const outfits = localOutfits().filter(o => o.id !== outfitId);
       saveLocalOutfits(outfits);
+      // Deleting an outfit that hasn't synced yet cancels the sync
+      updateOutbox(items => items.filter(i => `local_${i.key}` !== outfitId));
       return;
     }
 
@@ -205,6 +481,92 @@ export class DataService {
     }
   }
 
+  // ─── Dance Moves ───────────────────────────────────────────────────────────
+  // Moves recorded on the recorder screen, kept alongside outfits and synced
+  // the same way.
+
+  async saveMove(userId: string, move: SavedMove): Promise<SavedMove | null> {
+    const supabase = getSupabaseClient();
+
+    if (!supabase) {
+      const moves = localMoves();
+      const saved: SavedMove = { ...move, id: `local_${Date.now()}`, createdAt: new Date().toISOString() };
+      moves.unshift(saved);
+      saveLocalMoves(moves);
+      return saved;
+    }
+
+    const key = createOutboxKey();
+    if (!isLocalGuestId(userId)) {
+      try {
+        const { data, error } = await supabase
+          .from('dance_moves')
+          .insert(moveRow(userId, move, key))
+          .select()
+          .single();
+
+        if (error) throw error;
+        return moveFromRow(data as Record<string, unknown>);
+      } catch (err) {
+        console.warn('[Data] Move save failed, queued for sync:', err);
+      }
+    }
+
+    const item = createOutboxItem(userId, { kind: 'move', move }, key);
+    queueWrite(item);
+    this.scheduleFlush();
+    return { ...move, id: `local_${key}`, createdAt: item.queuedAt };
+  }
+
+  async getMoves(userId: string): Promise<SavedMove[]> {
+    const supabase = getSupabaseClient();
+
+    if (!supabase) {
+      return localMoves();
+    }
+
+    // Moves saved offline come first, until they sync
+    const queued = queuedFor(userId).flatMap(i =>
+      i.kind === 'move' ? [{ ...i.move, id: `local_${i.key}`, createdAt: i.queuedAt }] : []
+    ).reverse();
+
+    try {
+      const { data, error } = await supabase
+        .from('dance_moves')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return [...queued, ...(data ?? []).map(moveFromRow)];
+    } catch (err) {
+      console.warn('[Data] Moves fetch failed:', err);
+      return [...queued, ...localMoves()];
+    }
+  }
+
+  async deleteMove(userId: string, moveId: string): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    if (!supabase || moveId.startsWith('local_')) {
+      saveLocalMoves(localMoves().filter(m => m.id !== moveId));
+      // Deleting a move that hasn't synced yet cancels the sync
+      updateOutbox(items => items.filter(i => `local_${i.key}` !== moveId));
+      return;
+    }
+
+    try {
+      await supabase
+        .from('dance_moves')
+        .delete()
+        .eq('id', moveId)
+        .eq('user_id', userId);
+    } catch (err) {
+      console.warn('[Data] Move delete failed:', err);
+    }
+  }
+
   // ─── Daily Challenges ──────────────────────────────────────────────────────
 
   async saveChallengeCompletion(
@@ -215,7 +577,7 @@ export class DataService {
   ): Promise<void> {
     const supabase = getSupabaseClient();
 
-    const result = {
+    const result: ChallengeResult = {
       date,
       completed: progress.completed,
       bestStreak: progress.bestStreak,
@@ -227,16 +589,7 @@ export class DataService {
       return;
     }
 
-    try {
-      await supabase.from('challenge_completions').upsert({
-        user_id: userId,
-        date,
-        result_json: result,
-      }, { onConflict: 'user_id,date' });
-    } catch (err) {
-      console.warn('[Data] Challenge save failed:', err);
-      localStorage.setItem(`${LOCAL_CHALLENGES_KEY}_${date}`, JSON.stringify(result));
-    }
+    await this.write(supabase, userId, { kind: 'challenge', result });
   }
 
   async getChallengeCompletion(userId: string, date: string): Promise<boolean> {
@@ -250,6 +603,11 @@ export class DataService {
       } catch { return false; }
     }
 
+    // Completed offline and still waiting to sync
+    if (queuedFor(userId).some(i => i.kind === 'challenge' && i.result.date === date && i.result.completed)) {
+      return true;
+    }
+
     try {
       const { data } = await supabase
         .from('challenge_completions')
@@ -264,6 +622,616 @@ export class DataService {
     }
   }
 
+  /** Stored results from `from` to `to` (inclusive, YYYY-MM-DD; open-ended if omitted), oldest first */
+  async getChallengeHistory(userId: string, from?: string, to?: string): Promise<ChallengeResult[]> {
+    const inRange = (r: ChallengeResult): boolean => (!from || r.date >= from) && (!to || r.date <= to);
+    const byDate = (a: ChallengeResult, b: ChallengeResult): number => a.date.localeCompare(b.date);
+    const supabase = getSupabaseClient();
+
+    if (!supabase) return localChallenges().filter(inRange).sort(byDate);
+
+    let results: ChallengeResult[] = [];
+    try {
+      let query = supabase
+        .from('challenge_completions')
+        .select('result_json')
+        .eq('user_id', userId);
+      if (from) query = query.gte('date', from);
+      if (to) query = query.lte('date', to);
+
+      const { data, error } = await query.order('date', { ascending: true });
+      if (error) throw error;
+      results = (data ?? []).map(row => row.result_json as ChallengeResult);
+    } catch (err) {
+      console.warn('[Data] Challenge history fetch failed:', err);
+    }
+
+    // Results still waiting to sync, merged as they will be on the server
+    for (const item of queuedFor(userId)) {
+      if (item.kind !== 'challenge' || !inRange(item.result)) continue;
+      const idx = results.findIndex(r => r.date === item.result.date);
+      if (idx === -1) results.push(item.result);
+      else results[idx] = mergeChallengeResults(results[idx], item.result);
+    }
+    return results.sort(byDate);
+  }
+
+  async getChallengeStats(userId: string): Promise<ChallengeStats> {
+    return summarizeChallengeHistory(await this.getChallengeHistory(userId));
+  }
+
+  // ─── Weekly & Seasonal Challenges ──────────────────────────────────────────
+  // Progress is the sum of per-session contributions (see goals.ts and
+  // migration 006), so sessions on different devices simply add up.
+
+  /**
+   * Add a session's tally to every weekly and seasonal challenge running on
+   * `date`. Returns the challenges this session completed.
+   */
+  async recordChallengeProgress(userId: string, tally: ChallengeTally, date = getTodayDateStr()): Promise<LongChallenge[]> {
+    if (Object.keys(tally).length === 0) return [];
+    const challenges = getActiveLongChallenges(date);
+    const before = await this.getChallengeProgress(userId, challenges.map(c => c.id));
+    const completed = challenges.filter(c =>
+      !isLongChallengeComplete(c, before[c.id]) && isLongChallengeComplete(c, addTallies(before[c.id], tally)));
+    const contributions: ChallengeContribution[] = challenges
+      .map(c => ({ challengeId: c.id, tier: c.tier, tally }));
+    const supabase = getSupabaseClient();
+
+    if (!supabase) {
+      const progress = localProgress();
+      for (const c of contributions) progress[c.challengeId] = addTallies(progress[c.challengeId] ?? {}, c.tally);
+      saveLocalProgress(progress);
+      return completed;
+    }
+
+    for (const contribution of contributions) {
+      await this.write(supabase, userId, { kind: 'progress', contribution });
+    }
+    return completed;
+  }
+
+  /** Summed progress for each of `challengeIds`, sessions waiting to sync included */
+  async getChallengeProgress(userId: string, challengeIds: string[]): Promise<Record<string, ChallengeTally>> {
+    const totals: Record<string, ChallengeTally> = {};
+    for (const id of challengeIds) totals[id] = {};
+    const supabase = getSupabaseClient();
+
+    if (!supabase) {
+      const local = localProgress();
+      for (const id of challengeIds) totals[id] = local[id] ?? {};
+      return totals;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('challenge_progress')
+        .select('challenge_id, tally_json')
+        .eq('user_id', userId)
+        .in('challenge_id', challengeIds);
+      if (error) throw error;
+      for (const row of data ?? []) {
+        totals[row.challenge_id] = addTallies(totals[row.challenge_id] ?? {}, row.tally_json as ChallengeTally);
+      }
+    } catch (err) {
+      console.warn('[Data] Challenge progress fetch failed:', err);
+    }
+
+    for (const item of queuedFor(userId)) {
+      if (item.kind !== 'progress' || !(item.contribution.challengeId in totals)) continue;
+      const id = item.contribution.challengeId;
+      totals[id] = addTallies(totals[id], item.contribution.tally);
+    }
+    return totals;
+  }
+
+  // ─── Progression ───────────────────────────────────────────────────────────
+  // XP is the sum of append-only awards (see progression.ts and migration 007).
+
+  async awardXp(userId: string, awards: XpAward[]): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    if (!supabase) {
+      const local = localXp();
+      for (const award of awards) {
+        if (award.challengeId && local.some(a => a.challengeId === award.challengeId)) continue;
+        local.push(award);
+      }
+      saveLocalXp(local);
+      return;
+    }
+
+    for (const award of awards) {
+      await this.write(supabase, userId, { kind: 'xp', award }, xpAwardKey(userId, award));
+    }
+  }
+
+  /** XP, level and achievements, writes waiting to sync included */
+  async getProgression(userId: string): Promise<ProgressionState> {
+    const { unlocks } = await this.getAchievements(userId);
+    const achievements = unlocks.map(u => u.id);
+    const supabase = getSupabaseClient();
+    if (!supabase) return summarizeProgression(localXp(), achievements);
+
+    const awards: XpAward[] = [];
+    try {
+      const { data, error } = await supabase
+        .from('xp_awards')
+        .select('source, xp, challenge_id, grade')
+        .eq('user_id', userId);
+      if (error) throw error;
+      awards.push(...(data ?? []).map(xpFromRow));
+    } catch (err) {
+      console.warn('[Data] XP fetch failed:', err);
+    }
+
+    for (const item of queuedFor(userId)) {
+      if (item.kind !== 'xp') continue;
+      // A queued challenge reward may already have landed
+      if (item.award.challengeId && awards.some(a => a.challengeId === item.award.challengeId)) continue;
+      awards.push(item.award);
+    }
+    return summarizeProgression(awards, achievements);
+  }
+
+  // ─── Achievements ──────────────────────────────────────────────────────────
+  // Session tallies add up like challenge progress (see achievements.ts and
+  // migration 008); each unlock is stored once per player.
+
+  async recordAchievementProgress(userId: string, tally: AchievementTally): Promise<void> {
+    if (Object.keys(tally).length === 0) return;
+    const supabase = getSupabaseClient();
+
+    if (!supabase) {
+      const local = localAchievements();
+      saveLocalAchievements({ ...local, tally: addAchievementTallies(local.tally, tally) });
+      return;
+    }
+
+    await this.write(supabase, userId, { kind: 'achievement_progress', tally });
+  }
+
+  async unlockAchievement(userId: string, id: AchievementId): Promise<void> {
+    const unlock: AchievementUnlock = { id, unlockedAt: new Date().toISOString() };
+    const supabase = getSupabaseClient();
+
+    if (!supabase) {
+      const local = localAchievements();
+      if (!local.unlocks.some(u => u.id === id)) saveLocalAchievements({ ...local, unlocks: [...local.unlocks, unlock] });
+      return;
+    }
+
+    await this.write(supabase, userId, { kind: 'achievement', unlock }, `achievement:${userId}:${id}`);
+  }
+
+  /** Combined progress and every unlock, writes waiting to sync included */
+  async getAchievements(userId: string): Promise<AchievementRecord> {
+    const supabase = getSupabaseClient();
+    if (!supabase) return localAchievements();
+
+    let tally: AchievementTally = {};
+    const unlocks: AchievementUnlock[] = [];
+    try {
+      const [progress, unlocked] = await Promise.all([
+        supabase.from('achievement_progress').select('tally_json').eq('user_id', userId),
+        supabase.from('achievement_unlocks').select('achievement_id, unlocked_at').eq('user_id', userId),
+      ]);
+      const error = progress.error ?? unlocked.error;
+      if (error) throw error;
+      for (const row of progress.data ?? []) tally = addAchievementTallies(tally, row.tally_json as AchievementTally);
+      unlocks.push(...(unlocked.data ?? []).map(row => ({
+        id: row.achievement_id as AchievementId,
+        unlockedAt: row.unlocked_at as string,
+      })));
+    } catch (err) {
+      console.warn('[Data] Achievements fetch failed:', err);
+    }
+
+    for (const item of queuedFor(userId)) {
+      if (item.kind === 'achievement_progress') tally = addAchievementTallies(tally, item.tally);
+      if (item.kind === 'achievement' && !unlocks.some(u => u.id === item.unlock.id)) unlocks.push(item.unlock);
+    }
+    return { tally, unlocks };
+  }
+
+  // ─── Sync ──────────────────────────────────────────────────────────────────
+  // Writes that fail go to the outbox (see outbox.ts) instead of being lost.
+  // It is flushed at start-up — which is also right after a magic-link
+  // sign-in — whenever the browser comes back online, and on a backoff timer.
+
+  private syncUserId: () => string | null = () => null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Begin syncing queued writes for whoever `getUserId` says is signed in */
+  startSync(getUserId: () => string | null): void {
+    this.syncUserId = getUserId;
+    window.addEventListener('online', () => { void this.flushOutbox(); });
+    void this.flushOutbox();
+  }
+
+  /** Send every queued write that is due. Concurrent calls share one flush. */
+  flushOutbox(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendDue().finally(() => {
+        this.flushing = null;
+        this.scheduleFlush();
+      });
+    }
+    return this.flushing;
+  }
+
+  /** Number of writes still waiting to reach the server */
+  pendingWrites(): number {
+    return loadOutbox().length;
+  }
+
+  /** Send a write now, or queue it if that fails (or there's no account yet) */
+  private async write(supabase: SupabaseClient, userId: string, payload: OutboxPayload, key?: string): Promise<void> {
+    const item = createOutboxItem(userId, payload, key);
+    if (!isLocalGuestId(userId)) {
+      try {
+        await this.send(supabase, item);
+        return;
+      } catch (err) {
+        console.warn(`[Data] ${item.kind} save failed, queued for sync:`, err);
+      }
+    }
+    queueWrite(item);
+    this.scheduleFlush();
+  }
+
+  private async send(supabase: SupabaseClient, item: OutboxItem): Promise<void> {
+    if (item.kind === 'score') {
+      // client_key makes a retry after a lost response a no-op
+      const { error } = await supabase
+        .from('scores')
+        .upsert(scoreRow(item.userId, item.score, item.key), { onConflict: 'client_key', ignoreDuplicates: true });
+      if (error) throw error;
+      return;
+    }
+
+    if (item.kind === 'outfit') {
+      const { error } = await supabase
+        .from('outfits')
+        .upsert(outfitRow(item.userId, item.outfit, item.key), { onConflict: 'client_key', ignoreDuplicates: true });
+      if (error) throw error;
+      return;
+    }
+
+    if (item.kind === 'move') {
+      const { error } = await supabase
+        .from('dance_moves')
+        .upsert(moveRow(item.userId, item.move, item.key), { onConflict: 'client_key', ignoreDuplicates: true });
+      if (error) throw error;
+      return;
+    }
+
+    if (item.kind === 'progress') {
+      const { error } = await supabase
+        .from('challenge_progress')
+        .upsert(progressRow(item.userId, item.contribution, item.key), { onConflict: 'client_key', ignoreDuplicates: true });
+      if (error) throw error;
+      return;
+    }
+
+    if (item.kind === 'achievement_progress') {
+      const { error } = await supabase
+        .from('achievement_progress')
+        .upsert({ user_id: item.userId, tally_json: item.tally, client_key: item.key }, { onConflict: 'client_key', ignoreDuplicates: true });
+      if (error) throw error;
+      return;
+    }
+
+    if (item.kind === 'achievement') {
+      const { error } = await supabase
+        .from('achievement_unlocks')
+        .upsert(unlockRow(item.userId, item.unlock, item.key), { onConflict: 'client_key', ignoreDuplicates: true });
+      if (error) throw error;
+      return;
+    }
+
+    if (item.kind === 'xp') {
+      const { error } = await supabase
+        .from('xp_awards')
+        .upsert(xpRow(item.userId, item.award, item.key), { onConflict: 'client_key', ignoreDuplicates: true });
+      if (error) throw error;
+      return;
+    }
+
+    // Merge with whatever the server already has for that day
+    const { data, error: fetchError } = await supabase
+      .from('challenge_completions')
+      .select('result_json')
+      .eq('user_id', item.userId)
+      .eq('date', item.result.date)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+
+    const existing = data?.result_json as ChallengeResult | null | undefined;
+    const { error } = await supabase.from('challenge_completions').upsert({
+      user_id: item.userId,
+      date: item.result.date,
+      result_json: existing?.date ? mergeChallengeResults(existing, item.result) : item.result,
+    }, { onConflict: 'user_id,date' });
+    if (error) throw error;
+  }
+
+  private canSync(userId: string | null): userId is string {
+    if (!getSupabaseClient() || !userId || isLocalGuestId(userId)) return false;
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  private async sendDue(): Promise<void> {
+    const userId = this.syncUserId();
+    const supabase = getSupabaseClient();
+    if (!supabase || !this.canSync(userId)) return;
+
+    updateOutbox(items => claimItems(items, userId));
+    const now = Date.now();
+    const due = loadOutbox().filter(i => i.userId === userId && i.nextAttemptAt <= now);
+
+    for (const item of due) {
+      try {
+        await this.send(supabase, item);
+        updateOutbox(items => items.filter(i => i.key !== item.key));
+      } catch (err) {
+        console.warn(`[Data] Sync of queued ${item.kind} failed, will retry:`, err);
+        updateOutbox(items => items.map(i => (i.key === item.key ? markAttempt(i, err, Date.now()) : i)));
+      }
+    }
+  }
+
+  /** Wake up when the next queued write is due (the 'online' event covers offline) */
+  private scheduleFlush(): void {
+    if (this.retryTimer !== null) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    const userId = this.syncUserId();
+    if (!this.canSync(userId)) return;
+    const next = nextAttemptAt(claimItems(loadOutbox(), userId), userId);
+    if (next === null) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flushOutbox();
+    }, Math.max(1000, next - Date.now()));
+  }
+
+  // ─── Guest Migration ───────────────────────────────────────────────────────
+  // See migration.ts. The snapshot is taken while still signed in as the
+  // guest; the merge runs once the new account's session is up.
+
+  /** Record everything `guest` owns, locally and (for anonymous accounts) on the server */
+  async snapshotGuest(guest: PlayerProfile): Promise<void> {
+    const snapshot: GuestSnapshot & { moves: SavedMove[]; achievements: AchievementRecord } = {
+      fromUserId: guest.id,
+      takenAt: new Date().toISOString(),
+      profile: { displayName: guest.displayName, customization: guest.customization },
+      scores: localScores(),
+      outfits: localOutfits(),
+      moves: localMoves(),
+      challenges: localChallenges(),
+      progress: Object.entries(localProgress()).map(([challengeId, tally]) => ({
+        id: `local:${challengeId}`,
+        challengeId,
+        tier: challengeId.startsWith('weekly:') ? 'weekly' as const : 'seasonal' as const,
+        tally,
+      })),
+      xp: localXp().map((award, i) => ({ ...award, id: `local:${i}` })),
+      achievements: localAchievements(),
+    };
+
+    const supabase = getSupabaseClient();
+    if (supabase && !isLocalGuestId(guest.id)) {
+      const [offer, scores, outfits, moves, challenges, progress, xp, achievementProgress, unlocks] = await Promise.all([
+        // Scores change hands rather than being copied, or they'd be on the boards twice
+        supabase.rpc('offer_guest_scores'),
+        supabase.from('scores').select('id', { count: 'exact', head: true }).eq('user_id', guest.id),
+        supabase.from('outfits').select('*').eq('user_id', guest.id),
+        supabase.from('dance_moves').select('*').eq('user_id', guest.id),
+        supabase.from('challenge_completions').select('result_json').eq('user_id', guest.id),
+        supabase.from('challenge_progress').select('id, challenge_id, tier, tally_json').eq('user_id', guest.id),
+        supabase.from('xp_awards').select('id, source, xp, challenge_id, grade').eq('user_id', guest.id),
+        supabase.from('achievement_progress').select('tally_json').eq('user_id', guest.id),
+        supabase.from('achievement_unlocks').select('achievement_id, unlocked_at').eq('user_id', guest.id),
+      ]);
+      const error = offer.error ?? scores.error ?? outfits.error ?? moves.error ?? challenges.error ?? progress.error ?? xp.error
+        ?? achievementProgress.error ?? unlocks.error;
+      if (error) console.warn('[Data] Guest snapshot fetch failed:', error);
+      if (offer.data) snapshot.transfer = { token: offer.data as string, scores: scores.count ?? 0 };
+      snapshot.outfits.push(...(outfits.data ?? []).map(outfitFromRow));
+      snapshot.moves.push(...(moves.data ?? []).map(moveFromRow));
+      snapshot.challenges.push(...(challenges.data ?? []).map(row => row.result_json as ChallengeResult));
+      snapshot.progress?.push(...(progress.data ?? []).map(row => ({
+        id: row.id as string,
+        challengeId: row.challenge_id as string,
+        tier: row.tier as ChallengeContribution['tier'],
+        tally: row.tally_json as ChallengeTally,
+      })));
+      snapshot.xp?.push(...(xp.data ?? []).map(row => ({ ...xpFromRow(row), id: row.id as string })));
+      for (const row of achievementProgress.data ?? []) {
+        snapshot.achievements.tally = addAchievementTallies(snapshot.achievements.tally, row.tally_json as AchievementTally);
+      }
+      snapshot.achievements.unlocks.push(...(unlocks.data ?? []).map(row => ({
+        id: row.achievement_id as AchievementId,
+        unlockedAt: row.unlocked_at as string,
+      })));
+    }
+
+    saveGuestSnapshot(snapshot);
+  }
+
+  /**
+   * Merge a pending guest snapshot into `userId`'s account. Returns what was
+   * moved, or null if there was nothing to do or it failed (it's kept and
+   * retried on the next start; copies are keyed, so nothing is duplicated).
+   */
+  async migrateGuest(userId: string): Promise<MigrationSummary | null> {
+    const supabase = getSupabaseClient();
+    const snapshot = loadGuestSnapshot();
+    if (!supabase || !snapshot || snapshot.fromUserId === userId || isLocalGuestId(userId)) return null;
+
+    // Offline saves the guest queued now belong to the account
+    let queued = 0;
+    updateOutbox(items => items.map(i => {
+      if (i.userId !== snapshot.fromUserId && !isLocalGuestId(i.userId)) return i;
+      queued++;
+      return { ...i, userId };
+    }));
+
+    try {
+      const plan = planMigration(snapshot, await this.fetchAccountData(supabase, userId));
+
+      if (plan.profile) {
+        const update: Record<string, unknown> = {};
+        if (plan.profile.displayName) update.display_name = plan.profile.displayName;
+        if (plan.profile.customization) update.customization_json = plan.profile.customization;
+        const { error } = await supabase.from('profiles').update(update).eq('id', userId);
+        if (error) throw error;
+      }
+
+      if (plan.outfits.length > 0) {
+        const { error } = await supabase.from('outfits').upsert(
+          plan.outfits.map(({ outfit, clientKey }) => outfitRow(userId, outfit, clientKey)),
+          { onConflict: 'client_key', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+      }
+
+      if (plan.moves.length > 0) {
+        const { error } = await supabase.from('dance_moves').upsert(
+          plan.moves.map(({ move, clientKey }) => moveRow(userId, move, clientKey)),
+          { onConflict: 'client_key', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+      }
+
+      if (plan.transfer) {
+        const { error } = await supabase.rpc('claim_guest_scores', { transfer_token: plan.transfer });
+        if (error) throw error;
+      }
+
+      if (plan.scores.length > 0) {
+        // Keep the original dates so daily/weekly boards still file them correctly
+        const { error } = await supabase.from('scores').upsert(
+          plan.scores.map(({ score, clientKey }) => ({
+            ...scoreRow(userId, score, clientKey),
+            ...(score.createdAt ? { created_at: score.createdAt } : {}),
+          })),
+          { onConflict: 'client_key', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+      }
+
+      if (plan.progress.length > 0) {
+        const { error } = await supabase.from('challenge_progress').upsert(
+          plan.progress.map(({ contribution, clientKey }) => progressRow(userId, contribution, clientKey)),
+          { onConflict: 'client_key', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+      }
+
+      if (plan.xp.length > 0) {
+        const { error } = await supabase.from('xp_awards').upsert(
+          plan.xp.map(({ award, clientKey }) => xpRow(userId, award, clientKey)),
+          { onConflict: 'client_key', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+      }
+
+      if (plan.achievementTally) {
+        const { tally, clientKey } = plan.achievementTally;
+        const { error } = await supabase.from('achievement_progress').upsert(
+          { user_id: userId, tally_json: tally, client_key: clientKey },
+          { onConflict: 'client_key', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+      }
+
+      if (plan.unlocks.length > 0) {
+        const { error } = await supabase.from('achievement_unlocks').upsert(
+          plan.unlocks.map(({ unlock, clientKey }) => unlockRow(userId, unlock, clientKey)),
+          { onConflict: 'client_key', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+      }
+
+      if (plan.challenges.length > 0) {
+        const { error } = await supabase.from('challenge_completions').upsert(
+          plan.challenges.map(result => ({ user_id: userId, date: result.date, result_json: result })),
+          { onConflict: 'user_id,date' }
+        );
+        if (error) throw error;
+      }
+
+      clearGuestSnapshot();
+      saveLocalScores([]);
+      saveLocalOutfits([]);
+      saveLocalMoves([]);
+      clearLocalChallenges();
+      localStorage.removeItem(LOCAL_PROGRESS_KEY);
+      localStorage.removeItem(LOCAL_XP_KEY);
+      localStorage.removeItem(LOCAL_ACHIEVEMENTS_KEY);
+      void this.flushOutbox();
+      return { ...plan.summary, queued };
+    } catch (err) {
+      console.warn('[Data] Guest migration failed, will retry next start:', err);
+      return null;
+    }
+  }
+
+  private async fetchAccountData(supabase: SupabaseClient, userId: string): Promise<AccountData> {
+    const [profile, outfits, moves, challenges, rewards, unlocks] = await Promise.all([
+      supabase.from('profiles').select('display_name, customization_json').eq('id', userId).maybeSingle(),
+      supabase.from('outfits').select('*').eq('user_id', userId),
+      supabase.from('dance_moves').select('*').eq('user_id', userId),
+      supabase.from('challenge_completions').select('result_json').eq('user_id', userId),
+      supabase.from('xp_awards').select('challenge_id').eq('user_id', userId).not('challenge_id', 'is', null),
+      supabase.from('achievement_unlocks').select('achievement_id').eq('user_id', userId),
+    ]);
+    const error = profile.error ?? outfits.error ?? moves.error ?? challenges.error ?? rewards.error ?? unlocks.error;
+    if (error) throw error;
+
+    return {
+      displayName: profile.data?.display_name ?? DEFAULT_DISPLAY_NAME,
+      customization: (profile.data?.customization_json as CustomizationData | null) ?? { ...DEFAULT_CUSTOMIZATION },
+      outfits: (outfits.data ?? []).map(outfitFromRow),
+      moves: (moves.data ?? []).map(moveFromRow),
+      challenges: (challenges.data ?? []).map(row => row.result_json as ChallengeResult),
+      rewardedChallenges: (rewards.data ?? []).map(row => row.challenge_id as string),
+      achievements: (unlocks.data ?? []).map(row => row.achievement_id as AchievementId),
+    };
+  }
+
+  // ─── Custom Charts ─────────────────────────────────────────────────────────
+  // Editor charts stay on this device; share them by exporting the JSON.
+
+  async saveChart(chart: ChartFile): Promise<void> {
+    const charts = localCharts().filter(c => c.meta.id !== chart.meta.id);
+    charts.unshift(chart);
+    saveLocalCharts(charts);
+  }
+
+  async getCharts(): Promise<ChartFile[]> {
+    return localCharts();
+  }
+
+  async deleteChart(chartId: string): Promise<void> {
+    saveLocalCharts(localCharts().filter(c => c.meta.id !== chartId));
+  }
+
+  // ─── Replays ───────────────────────────────────────────────────────────────
+  // The last few runs are kept on this device; share one by saving the file.
+
+  async saveReplay(replay: ReplayData): Promise<void> {
+    saveLocalReplays([replay, ...localReplays()]);
+  }
+
+  async getReplays(): Promise<ReplayData[]> {
+    return localReplays();
+  }
+
   // ─── Profile ───────────────────────────────────────────────────────────────
 
   async updateDisplayName(userId: string, name: string): Promise<void> {
@@ -0,0 +1,234 @@
+import {
+  ScoreEntry,
+  SavedOutfit,
+  SavedMove,
+  ChallengeResult,
+  ChallengeContribution,
+  XpAward,
+  AchievementId,
+  AchievementTally,
+  AchievementUnlock,
+  CustomizationData,
+  MigrationSummary,
+  DEFAULT_CUSTOMIZATION,
+} from '@/types';
+import { mergeChallengeResults } from './outbox';
+
+// ─── Guest → Account Migration ────────────────────────────────────────────────
+// Signing in with a magic link lands in a different account from the guest
+// that asked for it. Just before the link is sent, everything the guest owns
+// is snapshotted to localStorage; once the new session is up, the snapshot is
+// merged into the account and deleted. Every copied row gets a client_key
+// derived from the guest's row, so a migration interrupted halfway can simply
+// run again without duplicating anything. An anonymous guest's scores are
+// public, so they aren't copied at all: the account claims the rows
+// themselves with a one-time token (011_guest_score_transfer.sql).
+
+const SNAPSHOT_KEY = 'wobble_dance_guest_snapshot';
+
+export const DEFAULT_DISPLAY_NAME = 'Wobbler';
+
+export interface GuestSnapshot {
+  fromUserId: string;
+  takenAt: string;
+  profile: { displayName: string; customization: CustomizationData };
+  scores: ScoreEntry[];                        // kept on this device, copied
+  transfer?: { token: string; scores: number }; // the guest's server scores, claimed whole
+  outfits: SavedOutfit[];
+  moves?: SavedMove[];
+  challenges: ChallengeResult[];
+  progress?: Array<ChallengeContribution & { id: string }>;  // weekly/seasonal sessions
+  xp?: Array<XpAward & { id: string }>;
+  achievements?: { tally: AchievementTally; unlocks: AchievementUnlock[] };
+}
+
+/** What the account already has, fetched before merging */
+export interface AccountData {
+  displayName: string;
+  customization: CustomizationData;
+  outfits: SavedOutfit[];
+  moves: SavedMove[];
+  challenges: ChallengeResult[];
+  rewardedChallenges: string[];  // challenge ids the account already has XP for
+  achievements: AchievementId[]; // already unlocked
+}
+
+export interface MigrationPlan {
+  profile: { displayName?: string; customization?: CustomizationData } | null;
+  scores: Array<{ score: ScoreEntry; clientKey: string }>;
+  transfer: string | null;  // token to claim the guest's server scores with
+  outfits: Array<{ outfit: SavedOutfit; clientKey: string }>;
+  moves: Array<{ move: SavedMove; clientKey: string }>;
+  challenges: ChallengeResult[];
+  progress: Array<{ contribution: ChallengeContribution; clientKey: string }>;
+  xp: Array<{ award: XpAward; clientKey: string }>;
+  achievementTally: { tally: AchievementTally; clientKey: string } | null;
+  unlocks: Array<{ unlock: AchievementUnlock; clientKey: string }>;
+  summary: MigrationSummary;
+}
+
+/** Stable JSON (sorted keys) so equal customizations compare equal */
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameLook(a: CustomizationData, b: CustomizationData): boolean {
+  return stableJson(a) === stableJson(b);
+}
+
+/** Idempotency key for a copied row — the same guest row always maps to the same key */
+export function migrationKey(fromUserId: string, kind: 'score' | 'outfit' | 'move' | 'progress' | 'xp' | 'achievement', rowId: string): string {
+  return `migrated:${fromUserId}:${kind}:${rowId}`;
+}
+
+/**
+ * Work out what to copy. The account keeps its own name and look if it has
+ * set them; otherwise it adopts the guest's. A guest look that loses out is
+ * saved as a locker outfit instead, so it isn't lost. Outfits and dance
+ * moves the account already has (same name and content) are skipped, and
+ * challenge days are merged best-of.
+ */
+export function planMigration(snapshot: GuestSnapshot, account: AccountData): MigrationPlan {
+  const { fromUserId } = snapshot;
+  const guest = snapshot.profile;
+
+  // Profile
+  const profile: NonNullable<MigrationPlan['profile']> = {};
+  let keptAccount = false;
+  if (guest.displayName !== DEFAULT_DISPLAY_NAME && guest.displayName !== account.displayName) {
+    if (account.displayName === DEFAULT_DISPLAY_NAME) profile.displayName = guest.displayName;
+    else keptAccount = true;
+  }
+
+  const outfits = [...snapshot.outfits];
+  if (!sameLook(guest.customization, DEFAULT_CUSTOMIZATION) && !sameLook(guest.customization, account.customization)) {
+    if (sameLook(account.customization, DEFAULT_CUSTOMIZATION)) {
+      profile.customization = guest.customization;
+    } else {
+      keptAccount = true;
+      outfits.push({ id: 'profile-look', name: 'Guest Look', customization: guest.customization });
+    }
+  }
+
+  // Outfits
+  const plannedOutfits = outfits
+    .filter(o => !account.outfits.some(a => a.name === o.name && sameLook(a.customization, o.customization)))
+    .map((outfit, i) => ({ outfit, clientKey: migrationKey(fromUserId, 'outfit', outfit.id ?? `${outfit.name}:${i}`) }));
+
+  // Recorded moves
+  const plannedMoves = (snapshot.moves ?? [])
+    .filter(m => !account.moves.some(a => a.name === m.name && stableJson(a.animation) === stableJson(m.animation)))
+    .map((move, i) => ({ move, clientKey: migrationKey(fromUserId, 'move', move.id ?? `${move.name}:${i}`) }));
+
+  // Scores are append-only; the key makes copying them again a no-op
+  const scores = snapshot.scores.map((score, i) => ({
+    score,
+    clientKey: migrationKey(fromUserId, 'score', score.id ?? `${score.createdAt ?? ''}:${score.score}:${i}`),
+  }));
+
+  // Weekly/seasonal progress is a sum of session rows, so copying them adds up
+  const progress = (snapshot.progress ?? []).map(({ id, ...contribution }) => ({
+    contribution,
+    clientKey: migrationKey(fromUserId, 'progress', id),
+  }));
+
+  // XP adds up the same way, but a challenge only pays out once per player
+  const xp = (snapshot.xp ?? [])
+    .filter(({ challengeId }) => !challengeId || !account.rewardedChallenges.includes(challengeId))
+    .map(({ id, ...award }) => ({ award, clientKey: migrationKey(fromUserId, 'xp', id) }));
+
+  // Achievement progress moves as one combined row; unlocks the account lacks come along
+  const guestAchievements = snapshot.achievements ?? { tally: {}, unlocks: [] };
+  const achievementTally = Object.keys(guestAchievements.tally).length > 0
+    ? { tally: guestAchievements.tally, clientKey: migrationKey(fromUserId, 'achievement', 'tally') }
+    : null;
+  const unlocks = guestAchievements.unlocks
+    .filter(u => !account.achievements.includes(u.id))
+    .map(unlock => ({ unlock, clientKey: migrationKey(fromUserId, 'achievement', unlock.id) }));
+
+  // Challenges
+  const challenges: ChallengeResult[] = [];
+  for (const result of snapshot.challenges) {
+    const existing = account.challenges.find(c => c.date === result.date);
+    const merged = existing ? mergeChallengeResults(existing, result) : result;
+    if (!existing || stableJson(merged) !== stableJson(existing)) challenges.push(merged);
+  }
+
+  const hasProfileChange = profile.displayName !== undefined || profile.customization !== undefined;
+  return {
+    profile: hasProfileChange ? profile : null,
+    scores,
+    transfer: snapshot.transfer?.token ?? null,
+    outfits: plannedOutfits,
+    moves: plannedMoves,
+    challenges,
+    progress,
+    xp,
+    achievementTally,
+    unlocks,
+    summary: {
+      scores: scores.length + (snapshot.transfer?.scores ?? 0),
+      outfits: plannedOutfits.length,
+      moves: plannedMoves.length,
+      challenges: challenges.length,
+      unranked: scores.filter(({ score }) => !score.replay).length,
+      queued: 0,
+      profile: hasProfileChange ? 'adopted' : keptAccount ? 'kept-account' : 'unchanged',
+    },
+  };
+}
+
+/** Player-facing lines describing a finished migration */
+export function describeMigration(summary: MigrationSummary): string[] {
+  const plural = (n: number, word: string): string => `${n} ${word}${n === 1 ? '' : 's'}`;
+  const lines: string[] = [];
+  const moved = [
+    summary.scores > 0 ? plural(summary.scores, 'score') : '',
+    summary.outfits > 0 ? plural(summary.outfits, 'outfit') : '',
+    summary.moves > 0 ? plural(summary.moves, 'dance move') : '',
+    summary.challenges > 0 ? plural(summary.challenges, 'challenge day') : '',
+  ].filter(Boolean);
+
+  lines.push(moved.length > 0 ? `Moved ${moved.join(', ')} into your account.` : 'Nothing new to move — your account already had it all.');
+  if (summary.unranked > 0) {
+    lines.push(`${plural(summary.unranked, 'score')} had no replay to verify, so ${summary.unranked === 1 ? 'it' : 'they'} won't be ranked.`);
+  }
+  if (summary.queued > 0) lines.push(`${plural(summary.queued, 'offline save')} will sync when you're back online.`);
+  if (summary.profile === 'adopted') lines.push('Your guest name and look are now on your account.');
+  if (summary.profile === 'kept-account') lines.push('Kept your account’s own name and look.');
+  return lines;
+}
+
+// ─── Storage ──────────────────────────────────────────────────────────────────
+
+export function loadGuestSnapshot(): GuestSnapshot | null {
+  try {
+    const raw = localStorage.getItem(SNAPSHOT_KEY);
+    return raw ? JSON.parse(raw) as GuestSnapshot : null;
+  } catch { return null; }
+}
+
+export function saveGuestSnapshot(snapshot: GuestSnapshot): void {
+  try {
+    localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
+  } catch (err) {
+    // Replays are the bulk. Scores without them still migrate, but can't be
+    // verified, so they stay off the boards (the summary says how many)
+    console.warn('[Data] Guest snapshot too big, dropping replays:', err);
+    const slim = { ...snapshot, scores: snapshot.scores.map(s => ({ ...s, replay: undefined })) };
+    try {
+      localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(slim));
+    } catch (err2) {
+      console.warn('[Data] Guest snapshot failed:', err2);
+    }
+  }
+}
+
+export function clearGuestSnapshot(): void {
+  localStorage.removeItem(SNAPSHOT_KEY);
+}
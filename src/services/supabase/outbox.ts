@@ -0,0 +1,182 @@
+import {
+  ScoreEntry,
+  SavedOutfit,
+  SavedMove,
+  ChallengeResult,
+  ChallengeContribution,
+  XpAward,
+  AchievementTally,
+  AchievementUnlock,
+} from '@/types';
+import { eventBus } from '@/game/events';
+
+// ─── Sync Outbox ──────────────────────────────────────────────────────────────
+// Writes that couldn't reach Supabase wait here, persisted in localStorage,
+// and are retried with exponential backoff until they land. Each item has an
+// idempotency key that is stored with the row (`client_key`), so a retry
+// after a lost response never creates a duplicate. Items are only removed
+// once the server has accepted them — when device storage fills up, replays
+// are given up to make room instead (see saveOutbox).
+
+const OUTBOX_KEY = 'wobble_dance_outbox';
+/** DataService's cache of recent replays — the first thing cleared for room */
+export const LOCAL_REPLAYS_KEY = 'wobble_dance_replays';
+
+export const OUTBOX_BASE_DELAY_MS = 5_000;
+export const OUTBOX_MAX_DELAY_MS = 30 * 60_000;
+
+interface OutboxMeta {
+  key: string;            // idempotency key
+  userId: string;         // owner when queued; guest ids are claimed on sign-in
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: number;  // epoch ms
+  lastError?: string;
+}
+
+export type OutboxItem = OutboxMeta & (
+  | { kind: 'score'; score: ScoreEntry }
+  | { kind: 'outfit'; outfit: SavedOutfit }
+  | { kind: 'move'; move: SavedMove }
+  | { kind: 'challenge'; result: ChallengeResult }
+  | { kind: 'progress'; contribution: ChallengeContribution }
+  | { kind: 'xp'; award: XpAward }
+  | { kind: 'achievement_progress'; tally: AchievementTally }
+  | { kind: 'achievement'; unlock: AchievementUnlock }
+);
+
+/** Distributes Omit over the union so each kind keeps its own payload */
+type Payload<T> = T extends OutboxItem ? Omit<T, keyof OutboxMeta> : never;
+export type OutboxPayload = Payload<OutboxItem>;
+
+/** Profiles created offline (see AuthService) — they can't own server rows */
+export function isLocalGuestId(userId: string): boolean {
+  return userId.startsWith('guest_');
+}
+
+export function createOutboxKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export function createOutboxItem(userId: string, payload: OutboxPayload, key = createOutboxKey()): OutboxItem {
+  return {
+    ...payload,
+    key,
+    userId,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  } as OutboxItem;
+}
+
+/** Delay before retry number `attempts` (1 = first retry) */
+export function backoffMs(attempts: number): number {
+  return Math.min(OUTBOX_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_MAX_DELAY_MS);
+}
+
+/**
+ * Conflict policy for challenge results recorded in two places: keep the
+ * best of each, so a completion earned offline is never downgraded.
+ */
+export function mergeChallengeResults(a: ChallengeResult, b: ChallengeResult): ChallengeResult {
+  const completedBy = a.completed ? a : b;
+  return {
+    date: a.date,
+    completed: a.completed || b.completed,
+    bestStreak: Math.max(a.bestStreak, b.bestStreak),
+    rewardPoints: completedBy.completed ? completedBy.rewardPoints : Math.max(a.rewardPoints, b.rewardPoints),
+  };
+}
+
+/**
+ * Add a write to the queue. A second result for the same user and day is
+ * merged into the one already waiting rather than queued twice.
+ */
+export function enqueueItem(items: OutboxItem[], item: OutboxItem): OutboxItem[] {
+  if (items.some(i => i.key === item.key)) return items;
+  if (item.kind === 'challenge') {
+    const idx = items.findIndex(i => i.kind === 'challenge' && i.userId === item.userId && i.result.date === item.result.date);
+    if (idx !== -1) {
+      // The merged item takes the new key, so a flush already sending the old
+      // result won't remove it from the queue when that send completes
+      const existing = items[idx] as Extract<OutboxItem, { kind: 'challenge' }>;
+      const merged = { ...existing, key: item.key, result: mergeChallengeResults(existing.result, item.result) };
+      return items.map((i, n) => (n === idx ? merged : i));
+    }
+  }
+  return [...items, item];
+}
+
+/** Record a failed attempt and schedule the next one */
+export function markAttempt(item: OutboxItem, error: unknown, now: number): OutboxItem {
+  const attempts = item.attempts + 1;
+  return { ...item, attempts, nextAttemptAt: now + backoffMs(attempts), lastError: errorMessage(error) };
+}
+
+/** Hand anything queued under a local guest profile to the signed-in `userId` */
+export function claimItems(items: OutboxItem[], userId: string): OutboxItem[] {
+  return items.map(i => (isLocalGuestId(i.userId) && i.userId !== userId ? { ...i, userId } : i));
+}
+
+/** When the next queued item for `userId` is due, or null if none are */
+export function nextAttemptAt(items: OutboxItem[], userId: string): number | null {
+  let next: number | null = null;
+  for (const i of items) {
+    if (i.userId !== userId) continue;
+    if (next === null || i.nextAttemptAt < next) next = i.nextAttemptAt;
+  }
+  return next;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && error !== null && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+// ─── Storage ──────────────────────────────────────────────────────────────────
+// Always re-read before writing: a flush awaits the network between items, and
+// new writes may be queued meanwhile.
+
+export function loadOutbox(): OutboxItem[] {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? '[]');
+  } catch { return []; }
+}
+
+export function saveOutbox(items: OutboxItem[]): void {
+  if (storeOutbox(items)) return;
+
+  // Storage full: free what can be rebuilt, never a queued write. First the
+  // replay cache, then the replays on queued scores, oldest first — the score
+  // still syncs, it just can't be verified, so it stays off the leaderboards
+  localStorage.removeItem(LOCAL_REPLAYS_KEY);
+  if (storeOutbox(items)) return;
+
+  const slimmed = [...items];
+  for (let i = 0; i < slimmed.length; i++) {
+    const item = slimmed[i];
+    if (item.kind !== 'score' || !item.score.replay) continue;
+    slimmed[i] = { ...item, score: { ...item.score, replay: undefined } };
+    if (storeOutbox(slimmed)) return;
+  }
+
+  console.warn('[Data] Outbox storage full, the latest queued writes were not saved');
+  eventBus.emit('storage_full', { queued: items.length });
+}
+
+function storeOutbox(items: OutboxItem[]): boolean {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+    return true;
+  } catch { return false; }
+}
+
+export function queueWrite(item: OutboxItem): void {
+  saveOutbox(enqueueItem(loadOutbox(), item));
+}
+
+export function updateOutbox(fn: (items: OutboxItem[]) => OutboxItem[]): void {
+  saveOutbox(fn(loadOutbox()));
+}
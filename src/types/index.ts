@@ -47,7 +47,7 @@ export const DEFAULT_CUSTOMIZATION: CustomizationData = {
 
 // ─── Dance Moves ─────────────────────────────────────────────────────────────
 
-export type DanceMoveId = 'wiggle' | 'robot' | 'worm' | 'flail' | 'spin' | 'idle';
+export type DanceMoveId = 'wiggle' | 'robot' | 'worm' | 'flail' | 'spin' | 'idle' | 'custom';
 
 export interface DanceMove {
   id: DanceMoveId;
@@ -64,6 +64,106 @@ export const DANCE_MOVES: Record<DanceMoveId, DanceMove> = {
   worm: { id: 'worm', label: 'Worm', emoji: '🪱', basePoints: 20, duration: 3500 },
   flail: { id: 'flail', label: 'Flail', emoji: '🙆', basePoints: 12, duration: 2500 },
   spin: { id: 'spin', label: 'Spin', emoji: '💫', basePoints: 18, duration: 2000 },
+  // Any move the player recorded (see SavedMove) — they all score alike
+  custom: { id: 'custom', label: 'My Move', emoji: '⭐', basePoints: 15, duration: 3000 },
+};
+
+/**
+ * Moves on the freestyle palette, in order (a freestyle replay stores indexes
+ * into this). The player's saved moves all play as 'custom', told apart by
+ * their slot on the palette.
+ */
+export const FREESTYLE_MOVES: DanceMoveId[] = ['wiggle', 'robot', 'worm', 'flail', 'spin', 'custom'];
+
+/** Saved moves shown on the freestyle palette (the most recent ones) */
+export const MAX_PALETTE_MOVES = 5;
+
+// ─── Dance Animation ─────────────────────────────────────────────────────────
+// Keyframe clips for the character's joints. See src/game/animation.ts.
+
+/** The character's animated joints (angles in radians) */
+export type JointKey =
+  | 'leftShoulder' | 'leftElbow' | 'rightShoulder' | 'rightElbow'  // arms
+  | 'leftHip' | 'leftKnee' | 'rightHip' | 'rightKnee'              // legs
+  | 'torsoTilt' | 'headBob';                                       // body
+
+export const JOINT_KEYS: JointKey[] = [
+  'leftShoulder', 'leftElbow', 'rightShoulder', 'rightElbow',
+  'leftHip', 'leftKnee', 'rightHip', 'rightKnee',
+  'torsoTilt', 'headBob',
+];
+
+export type JointPose = Partial<Record<JointKey, number>>;
+
+export type Easing = 'linear' | 'step' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export interface DanceFrame {
+  beat: number;        // beats from the start of the clip
+  joints: JointPose;   // joints keyed on this frame; the others pass through
+  ease?: Easing;       // curve from here to each joint's next key (default easeInOut)
+}
+
+export interface DanceAnimation {
+  beats: number;         // clip length in beats
+  loop: boolean;         // one-shot clips hold their last frame
+  frames: DanceFrame[];  // in beat order
+}
+
+// ─── Facial Expressions ──────────────────────────────────────────────────────
+// The character's eyes, brows and mouth. See src/game/face.ts.
+
+export type FaceExpression = 'neutral' | 'focused' | 'ecstatic' | 'dizzy' | 'embarrassed';
+
+/** Everything the face is drawn from; expressions blend by blending these */
+export interface FacePose {
+  eyeOpen: number;      // 0 = lids shut, 1 = wide open
+  pupil: number;        // pupil size (1 = normal)
+  lookX: number;        // pupil offset (px)
+  lookY: number;
+  eyeSmile: number;     // 0–1 towards happy ^ ^ eyes
+  spiral: number;       // 0–1 towards dizzy swirl eyes
+  browLift: number;     // px, up is positive
+  browTilt: number;     // positive lowers the inner ends (determined), negative raises them (worried)
+  mouthCurve: number;   // -1 frown … 1 smile
+  mouthOpen: number;    // 0–1
+  mouthWobble: number;  // 0–1 towards a wavy, flustered mouth
+  blush: number;        // 0–1
+}
+
+// ─── Droppable Objects ────────────────────────────────────────────────────────
+
+export type DroppableObjectId =
+  | 'beachBall'
+  | 'anvil'
+  | 'rubberDuck'
+  | 'giantTaco'
+  | 'bowlingBall'
+  | 'watermelon'
+  | 'pillow'
+  | 'donut';
+
+export interface DroppableObjectDef {
+  id: DroppableObjectId;
+  label: string;
+  emoji: string;          // tray icon
+  reaction: string;       // emoji bubble shown when it lands on the dancer
+  shape: 'circle' | 'rect';
+  width: number;          // px (diameter for circles)
+  height: number;         // px (ignored for circles)
+  mass: number;           // also drives soundSystem.playCollision pitch
+  restitution: number;
+  friction: number;
+}
+
+export const DROPPABLE_OBJECTS: Record<DroppableObjectId, DroppableObjectDef> = {
+  beachBall:   { id: 'beachBall',   label: 'Beach Ball',   emoji: '🏐', reaction: '😆', shape: 'circle', width: 56, height: 56, mass: 1,  restitution: 0.85, friction: 0.05 },
+  anvil:       { id: 'anvil',       label: 'Anvil',        emoji: '⚒️', reaction: '😵', shape: 'rect',   width: 64, height: 34, mass: 10, restitution: 0.05, friction: 0.9 },
+  rubberDuck:  { id: 'rubberDuck',  label: 'Rubber Duck',  emoji: '🦆', reaction: '🤭', shape: 'circle', width: 40, height: 40, mass: 1.5, restitution: 0.6, friction: 0.2 },
+  giantTaco:   { id: 'giantTaco',   label: 'Giant Taco',   emoji: '🌮', reaction: '🤤', shape: 'rect',   width: 70, height: 36, mass: 4,  restitution: 0.2,  friction: 0.6 },
+  bowlingBall: { id: 'bowlingBall', label: 'Bowling Ball', emoji: '🎳', reaction: '🤕', shape: 'circle', width: 44, height: 44, mass: 8,  restitution: 0.15, friction: 0.4 },
+  watermelon:  { id: 'watermelon',  label: 'Watermelon',   emoji: '🍉', reaction: '😲', shape: 'circle', width: 58, height: 58, mass: 6,  restitution: 0.25, friction: 0.5 },
+  pillow:      { id: 'pillow',      label: 'Pillow',       emoji: '🛏️', reaction: '😴', shape: 'rect',   width: 68, height: 40, mass: 0.8, restitution: 0.3, friction: 0.8 },
+  donut:       { id: 'donut',       label: 'Donut',        emoji: '🍩', reaction: '😋', shape: 'circle', width: 42, height: 42, mass: 2,  restitution: 0.5,  friction: 0.3 },
 };
 
 // ─── Rhythm / Tap Zones ───────────────────────────────────────────────────────
@@ -76,8 +176,15 @@ export type TapZone =
   | 'lower-center'  // both legs
   | 'lower-right';  // right leg
 
+export const TAP_ZONES: TapZone[] = [
+  'upper-left', 'upper-center', 'upper-right',
+  'lower-left', 'lower-center', 'lower-right',
+];
+
 export type HitRating = 'perfect' | 'good' | 'miss';
 
+export const HIT_RATINGS: HitRating[] = ['perfect', 'good', 'miss'];
+
 export type StageEffectType = 'spotlight' | 'discoBall' | 'hypeTrain' | 'confetti';
 
 // ─── Scoring ──────────────────────────────────────────────────────────────────
@@ -98,11 +205,17 @@ export interface ScoreState {
   isGrounded: boolean;
 }
 
+/** Leaderboard a score is submitted to */
+export type ScoreMode = 'rhythm' | 'freestyle';
+export const SCORE_MODES: ScoreMode[] = ['rhythm', 'freestyle'];
+
 export interface ScoreEntry {
   id?: string;
   userId?: string;
   score: number;
-  mode: string;
+  mode: string;                      // a ScoreMode
+  songId?: string;
+  difficulty?: DifficultyLevel;
   displayName?: string;
   createdAt?: string;
   metadata?: {
@@ -112,6 +225,24 @@ export interface ScoreEntry {
     comboPeak: number;
     duration: number;
   };
+  replay?: ReplayData;               // input log, re-simulated to verify the score
+  verification?: ScoreVerification;
+}
+
+export type ScoreVerification = 'pending' | 'verified' | 'flagged';
+
+// ─── Leaderboards ─────────────────────────────────────────────────────────────
+
+/** Daily and weekly boards reset at UTC midnight (weekly on Mondays) */
+export type LeaderboardWindow = 'daily' | 'weekly' | 'all-time';
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['daily', 'weekly', 'all-time'];
+
+export interface LeaderboardFilter {
+  window?: LeaderboardWindow;        // default 'all-time'
+  mode?: ScoreMode;                  // omit for every mode
+  songId?: string;                   // omit for every song
+  difficulty?: DifficultyLevel;      // omit for every difficulty
 }
 
 // ─── Daily Challenge ──────────────────────────────────────────────────────────
@@ -123,11 +254,129 @@ export interface DailyChallenge {
   rewardPoints: number;
 }
 
+/** A player's stored result for one day's challenge */
+export interface ChallengeResult {
+  date: string; // YYYY-MM-DD
+  completed: boolean;
+  bestStreak: number;
+  rewardPoints: number;
+}
+
+/** Totals over a player's challenge history (see summarizeChallengeHistory) */
+export interface ChallengeStats {
+  currentStreak: number;      // completed days in a row up to today (or yesterday, while today is open)
+  longestStreak: number;
+  completedDays: number;
+  totalRewardPoints: number;  // from completed days
+}
+
+export type ChallengeConditionType =
+  | 'hit_streak'  // `count` perfect hits in a row
+  | 'dance_move'  // `count` hits performing `moveId` (see HIT_MOVES)
+  | 'combo'       // a combo of `count`
+  | 'score'       // `targetScore` Hype
+  | 'accuracy'    // finish with at least `percent` of presses landed
+  | 'song'        // play `songId`
+  | 'no_miss'     // finish without a single miss
+  | 'grade';      // finish with `grade` or better
+
+export const CHALLENGE_CONDITION_TYPES: ChallengeConditionType[] = [
+  'hit_streak', 'dance_move', 'combo', 'score', 'accuracy', 'song', 'no_miss', 'grade',
+];
+
 export interface ChallengeCondition {
-  type: 'hit_streak' | 'dance_move' | 'combo' | 'score';
+  type: ChallengeConditionType;
   moveId?: DanceMoveId;
   count?: number;
   targetScore?: number;
+  percent?: number;
+  songId?: string;
+  grade?: Grade;
+}
+
+export type Grade = 'S' | 'A' | 'B' | 'C' | 'D';
+
+// ─── Weekly & Seasonal Challenges ─────────────────────────────────────────────
+
+export type ChallengeTier = 'daily' | 'weekly' | 'seasonal';
+
+/** Running totals a weekly or seasonal challenge counts across sessions */
+export type GoalMetric =
+  | 'perfects'           // perfect hits
+  | 'hits'               // perfect + good hits
+  | 'hype'               // Hype scored
+  | 'songs'              // songs played to the end
+  | 'grade_a'            // songs finished with grade A or better
+  | 'daily_completions'; // daily challenges completed
+
+export const GOAL_METRICS: GoalMetric[] = ['perfects', 'hits', 'hype', 'songs', 'grade_a', 'daily_completions'];
+
+export type ChallengeTally = Partial<Record<GoalMetric, number>>;
+
+export interface ChallengeGoal {
+  metric: GoalMetric;
+  target: number;
+}
+
+export interface LongChallenge {
+  id: string;          // 'weekly:2026-W42', 'seasonal:2026-autumn'
+  tier: Exclude<ChallengeTier, 'daily'>;
+  title: string;
+  description: string;
+  goals: ChallengeGoal[];
+  rewardPoints: number;
+  startsOn: string;    // YYYY-MM-DD, first day
+  endsOn: string;      // YYYY-MM-DD, last day
+}
+
+/** What one session added to a weekly or seasonal challenge */
+export interface ChallengeContribution {
+  challengeId: string;
+  tier: LongChallenge['tier'];
+  tally: ChallengeTally;
+}
+
+// ─── Progression ──────────────────────────────────────────────────────────────
+
+/** One lump of XP; a player's total is the sum of their awards (see progression.ts) */
+export interface XpAward {
+  source: 'session' | ChallengeTier;
+  xp: number;
+  challengeId?: string;  // challenge rewards: 'daily:2026-10-19', 'weekly:2026-W42', ...
+  grade?: Grade;         // sessions played to the end
+}
+
+export interface ProgressionState {
+  xp: number;
+  level: number;
+  levelXp: number;      // earned since reaching `level`
+  nextLevelXp: number;  // needed to reach the next level (0 at the cap)
+  achievements: AchievementId[];
+}
+
+// ─── Achievements ─────────────────────────────────────────────────────────────
+
+export type AchievementId =
+  | 'first_song'
+  | 'songs_25'
+  | 'flawless'
+  | 'straight_a'
+  | 'hard_clear'
+  | 'combo_50'
+  | 'combo_100'
+  | 'perfects_1000'
+  | 'clumsy'
+  | 'personal_best'
+  | 'daily_regular'
+  | 'weekly_winner'
+  | 'season_star';
+
+/** Progress towards each achievement: a count, or the best value seen (see achievements.ts) */
+export type AchievementTally = Partial<Record<AchievementId, number>>;
+
+export interface AchievementUnlock {
+  id: AchievementId;
+  unlockedAt: string;
 }
 
 // ─── Player Profile ───────────────────────────────────────────────────────────
@@ -138,6 +387,25 @@ export interface PlayerProfile {
   customization: CustomizationData;
   lastSeen: string;
   isGuest: boolean;
+  calibration?: LatencyCalibration; // per-device, kept in localStorage
+}
+
+/** What moved into an account when a guest signed in (see migration.ts) */
+export interface MigrationSummary {
+  scores: number;
+  outfits: number;
+  moves: number;
+  challenges: number;
+  unranked: number;    // copied scores with no replay to verify, kept off the boards
+  queued: number;      // offline writes now waiting to sync to the account
+  profile: 'adopted' | 'kept-account' | 'unchanged';
+}
+
+/** Latency offsets measured on the calibration screen (ms, positive = player lands late) */
+export interface LatencyCalibration {
+  audioOffsetMs: number;
+  visualOffsetMs: number;
+  calibratedAt: string;
 }
 
 // ─── Music / Songs ────────────────────────────────────────────────────────────
@@ -145,6 +413,39 @@ export interface PlayerProfile {
 export type MusicStyle = 'pop' | 'hiphop' | 'electronic' | 'latin';
 export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 
+export const MUSIC_STYLES: MusicStyle[] = ['pop', 'hiphop', 'electronic', 'latin'];
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+/**
+ * 'three-lane' judges taps by column only; 'six-lane' adds separate upper and
+ * lower rails so the row of each TapZone must match too.
+ */
+export type LaneMode = 'three-lane' | 'six-lane';
+
+export const LANE_MODES: LaneMode[] = ['three-lane', 'six-lane'];
+
+/** Lane mode for songs that don't set one — six-lane is opted into per song */
+export const DEFAULT_LANE_MODE: LaneMode = 'three-lane';
+
+/** A single note at an absolute beat position from the start of the song */
+export interface SongNote {
+  beat: number;        // fractional for sub-beats (e.g. 4.5 = 8th after beat 4)
+  zone: TapZone;
+  holdBeats?: number;  // sustain length in beats; omitted for taps
+  slideTo?: TapZone;   // slide: drag from `zone` to this zone over `holdBeats`
+}
+
+export interface TempoChange {
+  beat: number;        // absolute beat where the new tempo starts
+  bpm: number;
+}
+
+/** Choreography: the dancer switches to `move` at `beat` */
+export interface SongMove {
+  beat: number;        // absolute (fractional) song beat
+  move: DanceMoveId;
+}
+
 export interface SongDefinition {
   id: string;
   name: string;
@@ -155,6 +456,10 @@ export interface SongDefinition {
   barCount: number;         // number of bars in the round
   durationSec: number;      // approximate display duration
   beatPattern: TapZone[][]; // per-beat zone list; length = beats per bar
+  notes?: SongNote[];       // explicit note list (charts); takes precedence over beatPattern
+  tempoChanges?: TempoChange[];
+  laneMode?: LaneMode;      // defaults to DEFAULT_LANE_MODE
+  moves?: SongMove[];       // choreography; the dancer idles without it
 }
 
 export const SONGS: SongDefinition[] = [
@@ -177,6 +482,14 @@ export const SONGS: SongDefinition[] = [
       ['lower-center'],                       // beat 6
       [],                                     // beat 7 — rest
     ],
+    moves: [
+      { beat: 0, move: 'wiggle' },
+      { beat: 16, move: 'robot' },
+      { beat: 32, move: 'flail' },
+      { beat: 48, move: 'worm' },
+      { beat: 64, move: 'wiggle' },
+      { beat: 88, move: 'spin' },
+    ],
   },
   {
     id: 'easy-groove',
@@ -193,6 +506,12 @@ export const SONGS: SongDefinition[] = [
       ['upper-right'],  // beat 2
       [],               // beat 3 — rest
     ],
+    moves: [
+      { beat: 0, move: 'wiggle' },
+      { beat: 8, move: 'robot' },
+      { beat: 16, move: 'wiggle' },
+      { beat: 28, move: 'spin' },
+    ],
   },
   {
     id: 'electric-surge',
@@ -213,6 +532,15 @@ export const SONGS: SongDefinition[] = [
       ['upper-center', 'lower-left'],         // beat 6
       ['upper-right', 'lower-right'],         // beat 7
     ],
+    moves: [
+      { beat: 0, move: 'robot' },
+      { beat: 16, move: 'flail' },
+      { beat: 32, move: 'spin' },
+      { beat: 40, move: 'robot' },
+      { beat: 64, move: 'worm' },
+      { beat: 80, move: 'flail' },
+      { beat: 104, move: 'spin' },
+    ],
   },
   {
     id: 'salsa-night',
@@ -233,14 +561,152 @@ export const SONGS: SongDefinition[] = [
       ['upper-center', 'lower-left'],         // beat 6 — double
       [],                                     // beat 7 — rest
     ],
+    moves: [
+      { beat: 0, move: 'wiggle' },
+      { beat: 16, move: 'spin' },
+      { beat: 24, move: 'wiggle' },
+      { beat: 40, move: 'flail' },
+      { beat: 56, move: 'worm' },
+      { beat: 72, move: 'spin' },
+    ],
   },
 ];
 
 export const DEFAULT_SONG = SONGS[0];
 
+// ─── Chart Files ──────────────────────────────────────────────────────────────
+// Versioned JSON format for authored songs. See src/game/chart.ts for the loader.
+
+export const CHART_FORMAT_VERSION = 1;
+
+/** Sub-beat offset as [numerator, denominator]: [1, 2] = 8th, [1, 4] = 16th, [1, 3] = triplet */
+export type ChartSubBeat = [number, number];
+
+export interface ChartNote {
+  beat: number;        // beat within the bar (0-based)
+  sub?: ChartSubBeat;
+  zone: TapZone;
+  hold?: number;       // hold length in beats (slide length for slides, default 1)
+  slide?: TapZone;     // makes this a slide ending in another column
+}
+
+/** Per-note timing: a note placed by absolute bar */
+export interface ChartTimedNote extends ChartNote {
+  bar: number;
+}
+
+/** Per-bar timing: notes positioned relative to their bar */
+export interface ChartBar {
+  bar?: number;        // defaults to the bar's index in `bars`
+  notes: ChartNote[];
+}
+
+export interface ChartTempoChange {
+  bar: number;
+  beat?: number;   // a whole beat: the backing track changes tempo on the beat
+  bpm: number;
+}
+
+export interface ChartMove {
+  bar: number;
+  beat?: number;
+  sub?: ChartSubBeat;
+  move: DanceMoveId;
+}
+
+export interface ChartMeta {
+  id: string;
+  name: string;
+  emoji?: string;
+  artist?: string;
+  charter?: string;
+  bpm: number;
+  style: MusicStyle;
+  difficulty: DifficultyLevel;
+  beatsPerBar?: number; // defaults to 4
+  lanes?: LaneMode;     // defaults to DEFAULT_LANE_MODE
+}
+
+export interface ChartFile {
+  version: number;
+  meta: ChartMeta;
+  bars?: ChartBar[];
+  notes?: ChartTimedNote[];
+  tempo?: ChartTempoChange[];
+  moves?: ChartMove[];
+}
+
+// ─── Replays ──────────────────────────────────────────────────────────────────
+// Compact record of a rhythm session. See src/game/replay.ts for the recorder.
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+/** 0 = pointer down, 1 = pointer up, 2 = pointer move */
+export type ReplayInputKind = 0 | 1 | 2;
+
+/**
+ * [ms since song audio start, kind, x ‰ of canvas width, y ‰ of canvas
+ * height, pointerId, resolved TAP_ZONES index]
+ */
+export type ReplayInput = [number, ReplayInputKind, number, number, number, number];
+
+/** [ms since song audio start, HIT_RATINGS index, TAP_ZONES index, targetId, sustain ‰ or -1] */
+export type ReplayHit = [number, number, number, number, number];
+
+/** [ms since song audio start, FREESTYLE_MOVES index, palette slot of a saved ('custom') move] */
+export type ReplayMove = [number, number] | [number, number, number];
+
+export interface ReplayData {
+  v: number;
+  songId: string;
+  seed: number;
+  latency: [number, number]; // audio / visual offset in ms, as calibrated when recorded
+  challenge: string | null;  // date of the daily challenge being tracked, if any
+  player: string;
+  createdAt: string;
+  score: number;             // final score including the session bonus
+  inputs: ReplayInput[];
+  hits: ReplayHit[];
+  moves?: ReplayMove[];      // freestyle runs only (their inputs and hits are empty)
+}
+
+// ─── Practice ─────────────────────────────────────────────────────────────────
+
+/** A section of a song to rehearse (bars are 0-based and inclusive) */
+export interface PracticeSettings {
+  fromBar: number;
+  toBar: number;
+  speed: number;       // 0.5–1 of the song's tempo
+  loops: number;       // times the section repeats
+  showZones: boolean;  // light up the zones of upcoming notes
+}
+
+// ─── Auto-play ────────────────────────────────────────────────────────────────
+
+/** The bot dancing on the 'demo' screen (attract mode and song previews) */
+export interface AutoplaySettings {
+  jitterMs: number;    // presses land up to this far off the beat; 0 hits every one perfectly
+  exitTo: GameScreen;  // where the demo goes when the song ends or it's tapped
+}
+
 // ─── Game State ───────────────────────────────────────────────────────────────
 
-export type GameScreen = 'home' | 'customize' | 'dance' | 'leaderboard' | 'locker' | 'song-select';
+export type GameScreen =
+  | 'home'
+  | 'customize'
+  | 'dance'
+  | 'leaderboard'
+  | 'locker'
+  | 'song-select'
+  | 'editor'
+  | 'calibration'
+  | 'challenges'
+  | 'trophies'
+  | 'replay'
+  | 'practice'
+  | 'demo'
+  | 'freestyle'
+  | 'recorder';
 
 export interface GameState {
   screen: GameScreen;
@@ -253,6 +719,11 @@ export interface GameState {
   fps: number;
   quality: 'high' | 'medium' | 'low';
   selectedSong: SongDefinition;
+  replay: ReplayData | null; // played back on the 'replay' screen
+  practice: PracticeSettings | null; // section rehearsed on the 'practice' screen
+  autoplay: AutoplaySettings | null; // the bot playing on the 'demo' screen
+  migration: MigrationSummary | null; // shown once on home after a guest signs in
+  progression: ProgressionState;      // the profile's XP, level and achievements
 }
 
 // ─── Outfit / Locker ──────────────────────────────────────────────────────────
@@ -264,25 +735,119 @@ export interface SavedOutfit {
   createdAt?: string;
 }
 
+/** A dance move the player recorded on the recorder screen (see src/game/moves.ts) */
+export interface SavedMove {
+  id?: string;
+  name: string;
+  animation: DanceAnimation;
+  createdAt?: string;
+}
+
 // ─── Events ──────────────────────────────────────────────────────────────────
 
-export type GameEventType =
-  | 'rhythm_hit'
-  | 'rhythm_miss'
-  | 'beat'
-  | 'dance_start'
-  | 'dance_end'
-  | 'score_update'
-  | 'screen_change'
-  | 'customization_change'
-  | 'challenge_complete'
-  | 'high_score'
-  | 'stage_effect';
-
-export interface GameEvent<T = unknown> {
-  type: GameEventType;
-  data: T;
-  timestamp: number;
+/** Every event on the bus with the payload it carries */
+export interface GameEventMap {
+  rhythm_hit: RhythmHitEvent;
+  rhythm_miss: RhythmMissEvent;
+  beat: BeatEvent;
+  dance_start: DanceStartEvent;
+  dance_end: DanceEndEvent;
+  score_update: ScoreUpdateEvent;
+  screen_change: ScreenChangeEvent;
+  customization_change: CustomizationChangeEvent;
+  challenge_complete: ChallengeCompleteEvent;
+  high_score: HighScoreEvent;
+  stage_effect: StageEffectEvent;
+  combo: ComboEvent;
+  song_clear: SongClearEvent;
+  storage_full: StorageFullEvent;
+}
+
+export type GameEventType = keyof GameEventMap;
+
+/** An event as delivered to listeners; for a union of types, narrow on `type` */
+export type GameEvent<K extends GameEventType = GameEventType> = {
+  [T in K]: { type: T; data: GameEventMap[T]; timestamp: number };
+}[K];
+
+export interface DanceStartEvent {
+  songId: string;
+  replay: boolean;    // watching a replay — nothing it does counts
+  practice: boolean;  // rehearsing a section — doesn't count either
+  autoplay: boolean;  // the bot is playing — nor does this
+}
+
+export interface DanceEndEvent {
+  songId: string;
+  songEnded: boolean;  // played to the end rather than quit
+  score: number;
+}
+
+export interface RhythmHitEvent {
+  zone: TapZone;
+  rating: Exclude<HitRating, 'miss'>;
+  points: number;
+  sustain: boolean;  // a hold/slide release rather than a press
+}
+
+export interface RhythmMissEvent {
+  zone: TapZone;
+  sustain: boolean;
+  brokenCombo: number;  // the combo this miss ended
+}
+
+export interface BeatEvent {
+  beat: number;  // audio beats since the song started, lead-in included
+  time: number;  // audio clock (seconds)
+}
+
+export interface ScoreUpdateEvent {
+  score: number;
+  points: number;  // added by this update
+}
+
+export interface ScreenChangeEvent {
+  from: GameScreen | null;  // null on the first screen
+  to: GameScreen;
+}
+
+export interface CustomizationChangeEvent {
+  customization: CustomizationData;
+}
+
+export interface StageEffectEvent {
+  effect: StageEffectType;
+}
+
+export interface ComboEvent {
+  combo: number;
+  multiplier: number;
+  perfectStreak: number;  // perfect hits in a row, this one included
+}
+
+export interface SongClearEvent {
+  songId: string;
+  difficulty: DifficultyLevel;
+  grade: Grade;
+  accuracy: number;  // 0–1
+  score: number;
+}
+
+export interface ChallengeCompleteEvent {
+  challengeId: string;  // 'daily:2026-10-19', 'weekly:2026-W42', ...
+  tier: ChallengeTier;
+  rewardPoints: number;
+}
+
+/** A new personal best — not sent for a player's first score */
+export interface HighScoreEvent {
+  score: number;
+  previousBest: number;
+}
+
+/** Device storage couldn't hold the offline write queue, even without replays */
+export interface StorageFullEvent {
+  queued: number;  // writes waiting to sync, the unsaved ones included
 }
 
 // ─── Joints ──────────────────────────────────────────────────────────────────
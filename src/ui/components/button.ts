@@ -87,14 +87,17 @@ export function optionRow(
   options: string[],
   selected: string,
   onChange: (val: string) => void,
-  labelMap?: Record<string, string>
+  labelMap?: Record<string, string>,
+  locked?: Record<string, string>  // option → what unlocks it
 ): HTMLDivElement {
   const row = document.createElement('div');
   row.style.cssText = 'display: flex; flex-wrap: wrap; gap: 8px;';
 
   for (const opt of options) {
     const b = document.createElement('button');
-    b.textContent = labelMap?.[opt] ?? opt;
+    const label = labelMap?.[opt] ?? opt;
+    const lockedBy = opt === selected ? undefined : locked?.[opt];
+    b.textContent = lockedBy ? `🔒 ${label} · ${lockedBy}` : label;
     b.style.cssText = `
       padding: 8px 14px; border-radius: 12px; border: 2px solid;
       font-size: 14px; font-weight: 600; font-family: inherit;
@@ -104,13 +107,34 @@ export function optionRow(
         : 'background: rgba(255,255,255,0.08); border-color: transparent; color: rgba(255,255,255,0.7);'
       }
     `;
-    b.addEventListener('click', () => onChange(opt));
+    if (lockedBy) {
+      b.disabled = true;
+      b.title = `Locked: ${lockedBy}`;
+      b.style.opacity = '0.45';
+      b.style.cursor = 'not-allowed';
+    } else {
+      b.addEventListener('click', () => onChange(opt));
+    }
     row.appendChild(b);
   }
 
   return row;
 }
 
+/** − value + control; `onStep` gets -1 or 1 */
+export function stepper(value: string, onStep: (delta: number) => void): HTMLDivElement {
+  const row = el('div', {}, { display: 'flex', alignItems: 'center', gap: '12px' });
+  const minus = btn('−', () => onStep(-1), 'ghost');
+  const plus = btn('+', () => onStep(1), 'ghost');
+  minus.style.cssText += 'padding: 6px 16px; min-height: 40px;';
+  plus.style.cssText += 'padding: 6px 16px; min-height: 40px;';
+  const label = el('span', { textContent: value }, {
+    fontSize: '17px', fontWeight: '800', minWidth: '72px', textAlign: 'center',
+  });
+  row.append(minus, label, plus);
+  return row;
+}
+
 export function colorPalette(
   colors: string[],
   selected: string,
@@ -144,3 +168,55 @@ export function formatScore(n: number): string {
   if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
   return n.toFixed(0);
 }
+
+/** Brief notice at the top of the screen; several at once stack up */
+export function toast(emoji: string, title: string, detail = '', durationMs = 3500): void {
+  let stack = document.getElementById('toast-stack');
+  if (!stack) {
+    stack = el('div', { id: 'toast-stack', role: 'status', 'aria-live': 'polite' }, {
+      position: 'fixed',
+      top: 'max(env(safe-area-inset-top,12px),12px)',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      zIndex: '1000',
+      pointerEvents: 'none',
+      width: 'min(360px, calc(100% - 32px))',
+    });
+    document.body.appendChild(stack);
+  }
+
+  const card = el('div', {}, {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '12px 16px',
+    borderRadius: '16px',
+    background: 'rgba(30,10,60,0.95)',
+    border: '1.5px solid rgba(255,230,109,0.6)',
+    boxShadow: '0 6px 24px rgba(0,0,0,0.4)',
+    color: '#fff',
+    opacity: '0',
+    transform: 'translateY(-12px)',
+    transition: 'opacity 0.25s ease, transform 0.25s ease',
+  });
+  const icon = el('div', { textContent: emoji }, { fontSize: '28px', flexShrink: '0' });
+  const text = el('div', {}, { minWidth: '0' });
+  text.append(
+    el('div', { textContent: title }, { fontWeight: '800', fontSize: '15px' }),
+    el('div', { textContent: detail }, { fontSize: '12px', color: 'rgba(255,255,255,0.65)' }),
+  );
+  card.append(icon, text);
+  stack.appendChild(card);
+
+  requestAnimationFrame(() => {
+    card.style.opacity = '1';
+    card.style.transform = 'none';
+  });
+  setTimeout(() => {
+    card.style.opacity = '0';
+    setTimeout(() => card.remove(), 300);
+  }, durationMs);
+}
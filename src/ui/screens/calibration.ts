@@ -0,0 +1,283 @@
+import { GameState, GameScreen, LatencyCalibration } from '@/types';
+import { btn, el, haptic } from '@/ui/components/button';
+import {
+  estimateOffset,
+  OffsetEstimate,
+  CALIBRATION_BPM,
+  CALIBRATION_TAPS,
+  CALIBRATION_WARMUP_BEATS,
+} from '@/game/calibration';
+import { soundSystem } from '@/game/sounds';
+import { authService } from '@/services/supabase/auth';
+
+// ─── Calibration Screen ───────────────────────────────────────────────────────
+// Two phases: tap along to metronome clicks (audio offset), then to a silent
+// flashing pad (visual offset). Both are measured on the audio clock.
+
+type Phase = 'intro' | 'audio' | 'visual' | 'done';
+
+const PAD_IDLE = 'rgba(255,255,255,0.08)';
+const PAD_FLASH = 'rgba(255,230,109,0.85)';
+
+function formatOffset(ms: number): string {
+  return `${ms > 0 ? '+' : ''}${ms} ms`;
+}
+
+export function createCalibrationScreen(
+  state: GameState,
+  navigate: (screen: GameScreen) => void
+): { element: HTMLElement; cleanup: () => void } {
+  let phase: Phase = 'intro';
+  let beatTimes: number[] = [];
+  let tapTimes: number[] = [];
+  let beatUnsub: (() => void) | null = null;
+  let flashTimers: ReturnType<typeof setTimeout>[] = [];
+  let audioResult: OffsetEstimate | null = null;
+  let visualResult: OffsetEstimate | null = null;
+
+  // ── Layout ─────────────────────────────────────────────────────────────────
+  const root = el('div', {}, {
+    position: 'absolute',
+    inset: '0',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    background: 'linear-gradient(160deg, #1a0533, #2d0a5e)',
+    overflowY: 'auto',
+  });
+
+  const topBar = el('div', {}, {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    width: '100%',
+    maxWidth: '420px',
+    padding: 'max(env(safe-area-inset-top,16px),16px) 16px 12px',
+    boxSizing: 'border-box',
+  });
+
+  const backBtn = btn('← Back', () => {
+    haptic('light');
+    navigate('home');
+  }, 'ghost');
+  backBtn.style.padding = '10px 16px';
+
+  const titleEl = el('h2', { textContent: '🎧 Calibrate' }, {
+    fontSize: '20px', fontWeight: '800', margin: '0',
+  });
+
+  topBar.append(backBtn, titleEl, el('div', {}, { width: '80px' }));
+
+  const body = el('div', {}, {
+    width: '100%',
+    maxWidth: '420px',
+    padding: '0 20px',
+    paddingBottom: 'max(env(safe-area-inset-bottom,24px),24px)',
+    boxSizing: 'border-box',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: '16px',
+  });
+
+  const instructions = el('p', {}, {
+    margin: '0',
+    fontSize: '15px',
+    lineHeight: '1.5',
+    textAlign: 'center',
+    color: 'rgba(255,255,255,0.8)',
+  });
+
+  const pad = el('button', { 'aria-label': 'Tap pad' }, {
+    width: 'min(64vw, 240px)',
+    height: 'min(64vw, 240px)',
+    borderRadius: '50%',
+    border: '3px solid rgba(255,255,255,0.25)',
+    background: PAD_IDLE,
+    color: '#fff',
+    fontSize: '22px',
+    fontWeight: '800',
+    fontFamily: 'inherit',
+    cursor: 'pointer',
+    touchAction: 'manipulation',
+    transition: 'background 0.08s',
+  });
+
+  const progressEl = el('div', {}, {
+    fontSize: '14px',
+    color: 'rgba(255,255,255,0.55)',
+    minHeight: '20px',
+  });
+
+  const actions = el('div', {}, {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+    width: '100%',
+  });
+
+  body.append(instructions, pad, progressEl, actions);
+  root.append(topBar, body);
+
+  // ── Phase rendering ────────────────────────────────────────────────────────
+  function currentSummary(): string {
+    const c = state.profile.calibration;
+    if (!c) return 'Not calibrated yet.';
+    return `Current: audio ${formatOffset(c.audioOffsetMs)}, visual ${formatOffset(c.visualOffsetMs)}.`;
+  }
+
+  function render(message?: string): void {
+    actions.innerHTML = '';
+    pad.textContent = '';
+
+    if (phase === 'intro') {
+      instructions.textContent = message ??
+        'Wired or Bluetooth, every device lags a little. Put on the headphones you play with, ' +
+        `then tap the pad in time with ${CALIBRATION_TAPS} clicks, and after that with ${CALIBRATION_TAPS} flashes.`;
+      progressEl.textContent = currentSummary();
+      const startBtn = btn('▶ Start', () => {
+        haptic('medium');
+        startPhase('audio');
+      }, 'primary');
+      actions.appendChild(startBtn);
+      if (state.profile.calibration) {
+        actions.appendChild(btn('Reset to zero', () => {
+          haptic('light');
+          state.profile.calibration = undefined;
+          void authService.updateProfile({ calibration: undefined });
+          render();
+        }, 'ghost'));
+      }
+      return;
+    }
+
+    if (phase === 'audio' || phase === 'visual') {
+      instructions.textContent = phase === 'audio'
+        ? '🔊 Tap the pad on every click. Don\'t watch it — just listen.'
+        : '👀 Tap the pad every time it flashes. There\'s no sound this time.';
+      pad.textContent = 'TAP';
+      updateProgress();
+      return;
+    }
+
+    // Done
+    const audioMs = audioResult?.offsetMs ?? 0;
+    const visualMs = visualResult?.offsetMs ?? 0;
+    instructions.innerHTML =
+      `Audio offset: <b>${formatOffset(audioMs)}</b> (±${audioResult?.spreadMs ?? 0} ms)<br>` +
+      `Visual offset: <b>${formatOffset(visualMs)}</b> (±${visualResult?.spreadMs ?? 0} ms)`;
+    progressEl.textContent = message ?? 'Save to use these offsets when judging hits.';
+
+    const saveBtn = btn('💾 Save', () => {
+      haptic('medium');
+      const calibration: LatencyCalibration = {
+        audioOffsetMs: audioMs,
+        visualOffsetMs: visualMs,
+        calibratedAt: new Date().toISOString(),
+      };
+      state.profile.calibration = calibration;
+      void authService.updateProfile({ calibration });
+      navigate('home');
+    }, 'primary');
+    const retryBtn = btn('↻ Try again', () => {
+      haptic('light');
+      startPhase('audio');
+    }, 'secondary');
+    actions.append(saveBtn, retryBtn);
+  }
+
+  function updateProgress(): void {
+    const warmupLeft = CALIBRATION_WARMUP_BEATS - beatCount;
+    progressEl.textContent = warmupLeft > 0
+      ? `Get ready… ${warmupLeft}`
+      : `Taps: ${tapTimes.length} / ${CALIBRATION_TAPS}`;
+  }
+
+  // ── Phases ─────────────────────────────────────────────────────────────────
+  let beatCount = 0;
+
+  function startPhase(next: 'audio' | 'visual'): void {
+    stopMetronome();
+    phase = next;
+    beatTimes = [];
+    tapTimes = [];
+    beatCount = 0;
+
+    // Clicks must be audible here even if game sound is switched off
+    soundSystem.init();
+    soundSystem.setEnabled(true);
+    soundSystem.startMetronome(CALIBRATION_BPM, next === 'audio');
+
+    beatUnsub = soundSystem.onBeat((beatNum, beatTime) => {
+      beatCount = beatNum + 1;
+      if (beatNum >= CALIBRATION_WARMUP_BEATS - 1) beatTimes.push(beatTime);
+      // Flash the pad on the beat (and during the warm-up, so players can lock in)
+      const delayMs = Math.max(0, (beatTime - (soundSystem.getAudioCurrentTime() ?? beatTime)) * 1000);
+      flashTimers.push(setTimeout(() => {
+        if (phase === 'visual') flashPad();
+        updateProgress();
+      }, delayMs));
+      if (flashTimers.length > 8) flashTimers = flashTimers.slice(-4);
+    });
+
+    render();
+  }
+
+  function flashPad(): void {
+    pad.style.background = PAD_FLASH;
+    flashTimers.push(setTimeout(() => { pad.style.background = PAD_IDLE; }, 90));
+  }
+
+  function finishPhase(): void {
+    const result = estimateOffset(tapTimes, beatTimes);
+    stopMetronome();
+
+    if (!result) {
+      phase = 'intro';
+      render('Those taps were too uneven to measure. Try again and keep a steady rhythm.');
+      return;
+    }
+
+    if (phase === 'audio') {
+      audioResult = result;
+      startPhase('visual');
+    } else {
+      visualResult = result;
+      phase = 'done';
+      render();
+    }
+  }
+
+  function stopMetronome(): void {
+    beatUnsub?.();
+    beatUnsub = null;
+    soundSystem.stopBeat();
+    for (const t of flashTimers) clearTimeout(t);
+    flashTimers = [];
+    pad.style.background = PAD_IDLE;
+  }
+
+  pad.addEventListener('pointerdown', e => {
+    e.preventDefault();
+    if (phase !== 'audio' && phase !== 'visual') return;
+    if (beatCount < CALIBRATION_WARMUP_BEATS) return;
+
+    const now = soundSystem.getAudioCurrentTime();
+    if (now === null) return;
+    haptic('light');
+    tapTimes.push(now);
+    updateProgress();
+
+    if (tapTimes.length >= CALIBRATION_TAPS) finishPhase();
+  });
+
+  render();
+
+  return {
+    element: root,
+    cleanup: () => {
+      stopMetronome();
+      soundSystem.setEnabled(state.audioEnabled);
+    },
+  };
+}
@@ -0,0 +1,319 @@
+import { GameState, GameScreen, ChallengeResult, ChallengeTally, LongChallenge } from '@/types';
+import { btn, el, formatScore, haptic } from '@/ui/components/button';
+import { dataService } from '@/services/supabase/data';
+import { generateDailyChallenge, getTodayDateStr, addDays } from '@/game/scoring';
+import { getActiveLongChallenges, goalStatuses, isLongChallengeComplete } from '@/game/goals';
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+/**
+ * The month's dates (YYYY-MM-DD) in Monday-first weeks, padded with null.
+ * `month` is YYYY-MM; days are UTC, like the challenges themselves.
+ */
+function monthWeeks(month: string): Array<Array<string | null>> {
+  const [year, mon] = month.split('-').map(Number);
+  const first = new Date(Date.UTC(year, mon - 1, 1));
+  const daysInMonth = new Date(Date.UTC(year, mon, 0)).getUTCDate();
+  const cells: Array<string | null> = Array((first.getUTCDay() + 6) % 7).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) cells.push(`${month}-${String(day).padStart(2, '0')}`);
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: Array<Array<string | null>> = [];
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+  return weeks;
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, mon] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, mon - 1 + delta, 1)).toISOString().slice(0, 7);
+}
+
+function monthLabel(month: string): string {
+  const [year, mon] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, mon - 1, 1)).toLocaleDateString(undefined, {
+    month: 'long', year: 'numeric', timeZone: 'UTC',
+  });
+}
+
+export function createChallengesScreen(
+  state: GameState,
+  navigate: (screen: GameScreen) => void
+): HTMLElement {
+  const today = getTodayDateStr();
+  const thisMonth = today.slice(0, 7);
+  let month = thisMonth;
+
+  const root = el('div', {}, {
+    position: 'absolute',
+    inset: '0',
+    display: 'flex',
+    flexDirection: 'column',
+    background: 'linear-gradient(160deg, #1a0533, #2d0a5e)',
+    overflow: 'hidden',
+  });
+
+  // Top bar
+  const topBar = el('div', {}, {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 'max(env(safe-area-inset-top,16px),16px) 20px 12px',
+    flexShrink: '0',
+  });
+
+  const backBtn = btn('← Back', () => navigate('home'), 'ghost');
+  backBtn.style.padding = '10px 16px';
+
+  const titleEl = el('h2', { textContent: '📅 Challenges' }, {
+    fontSize: '20px', fontWeight: '800', margin: '0',
+  });
+
+  topBar.append(backBtn, titleEl, el('div', {}, { width: '80px' }));
+
+  const scroll = el('div', {}, {
+    flex: '1',
+    overflowY: 'auto',
+    padding: '0 16px',
+    paddingBottom: 'max(env(safe-area-inset-bottom,16px),16px)',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '14px',
+  });
+
+  // ── Stats ──────────────────────────────────────────────────────────────────
+  const statsRow = el('div', {}, {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(3, 1fr)',
+    gap: '8px',
+  });
+
+  function statCard(label: string): HTMLDivElement {
+    const value = el('div', { textContent: '—' }, { fontSize: '22px', fontWeight: '900' });
+    const card = el('div', {}, {
+      background: 'rgba(255,255,255,0.07)',
+      border: '1px solid rgba(255,255,255,0.12)',
+      borderRadius: '14px',
+      padding: '10px 8px',
+      textAlign: 'center',
+    });
+    card.append(value, el('div', { textContent: label }, {
+      fontSize: '11px',
+      fontWeight: '700',
+      textTransform: 'uppercase',
+      letterSpacing: '1px',
+      color: 'rgba(255,255,255,0.5)',
+      marginTop: '2px',
+    }));
+    statsRow.appendChild(card);
+    return value;
+  }
+
+  const streakEl = statCard('🔥 Streak');
+  const longestEl = statCard('🏅 Longest');
+  const earnedEl = statCard('✨ Hype won');
+
+  dataService.getChallengeStats(state.profile.id).then(stats => {
+    streakEl.textContent = `${stats.currentStreak}`;
+    longestEl.textContent = `${stats.longestStreak}`;
+    earnedEl.textContent = formatScore(stats.totalRewardPoints);
+  });
+
+  // ── Today ──────────────────────────────────────────────────────────────────
+  const todayCard = el('div', {}, {
+    background: 'rgba(108,63,245,0.2)',
+    border: '1px solid rgba(108,63,245,0.4)',
+    borderRadius: '16px',
+    padding: '14px 18px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  });
+  const challenge = generateDailyChallenge(today);
+  const todayStatus = el('div', { textContent: "Today's challenge" }, {
+    fontSize: '12px',
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: '1px',
+    color: 'rgba(255,255,255,0.5)',
+  });
+  const playBtn = btn('▶️ Play', () => {
+    haptic('medium');
+    navigate('song-select');
+  }, 'primary');
+  playBtn.style.cssText += 'font-size: 15px; padding: 10px;';
+  todayCard.append(
+    todayStatus,
+    el('div', { textContent: challenge.description }, { fontSize: '15px', fontWeight: '600', lineHeight: '1.4' }),
+    el('div', { textContent: `Reward: ${formatScore(challenge.rewardPoints)} Hype` }, {
+      fontSize: '13px', color: 'rgba(255,255,255,0.6)',
+    }),
+    playBtn
+  );
+
+  dataService.getChallengeCompletion(state.profile.id, today).then(done => {
+    if (!done) return;
+    todayStatus.textContent = "✅ Today's challenge — done! Come back tomorrow";
+    playBtn.remove();
+  });
+
+  // ── Weekly & Seasonal ──────────────────────────────────────────────────────
+  const longChallenges = getActiveLongChallenges(today);
+  const longList = el('div', {}, { display: 'flex', flexDirection: 'column', gap: '10px' });
+
+  function longChallengeCard(event: LongChallenge, tally: ChallengeTally): HTMLDivElement {
+    const complete = isLongChallengeComplete(event, tally);
+    const card = el('div', {}, {
+      background: complete ? 'rgba(107,203,119,0.15)' : 'rgba(255,255,255,0.07)',
+      border: complete ? '1px solid rgba(107,203,119,0.4)' : '1px solid rgba(255,255,255,0.12)',
+      borderRadius: '16px',
+      padding: '12px 16px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '6px',
+    });
+
+    // Days left counts today
+    let daysLeft = 1;
+    while (addDays(today, daysLeft) <= event.endsOn) daysLeft++;
+
+    const header = el('div', {}, { display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '8px' });
+    header.append(
+      el('div', { textContent: event.title }, { fontWeight: '800', fontSize: '15px' }),
+      el('div', { textContent: complete ? '✅ Complete' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left` }, {
+        fontSize: '12px', color: 'rgba(255,255,255,0.5)', whiteSpace: 'nowrap',
+      })
+    );
+    card.append(header, el('div', { textContent: event.description }, {
+      fontSize: '13px', color: 'rgba(255,255,255,0.75)', lineHeight: '1.4',
+    }));
+
+    for (const status of goalStatuses(event, tally)) {
+      const bar = el('div', {}, {
+        height: '6px',
+        background: 'rgba(255,255,255,0.1)',
+        borderRadius: '3px',
+        overflow: 'hidden',
+      });
+      bar.appendChild(el('div', {}, {
+        height: '100%',
+        width: `${(status.current / status.goal.target) * 100}%`,
+        background: 'linear-gradient(90deg, #6BCB77, #FFE66D)',
+      }));
+      card.append(
+        el('div', { textContent: `${status.label} ${formatScore(status.current)}/${formatScore(status.goal.target)}` }, {
+          fontSize: '12px', color: 'rgba(255,255,255,0.6)', marginTop: '2px',
+        }),
+        bar
+      );
+    }
+
+    card.append(el('div', {
+      textContent: complete
+        ? `Earned ${formatScore(event.rewardPoints)} Hype`
+        : `Reward: ${formatScore(event.rewardPoints)} Hype`,
+    }, { fontSize: '13px', color: 'rgba(255,255,255,0.6)' }));
+    return card;
+  }
+
+  const renderLong = (progress: Record<string, ChallengeTally>): void => {
+    longList.replaceChildren(...longChallenges.map(c => longChallengeCard(c, progress[c.id] ?? {})));
+  };
+  renderLong({});
+  dataService.getChallengeProgress(state.profile.id, longChallenges.map(c => c.id)).then(renderLong);
+
+  // ── Calendar ───────────────────────────────────────────────────────────────
+  const calendar = el('div', {}, {
+    background: 'rgba(255,255,255,0.05)',
+    border: '1px solid rgba(255,255,255,0.08)',
+    borderRadius: '16px',
+    padding: '12px',
+  });
+
+  const monthNav = el('div', {}, {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: '10px',
+  });
+  const prevBtn = btn('‹', () => showMonth(shiftMonth(month, -1)), 'ghost');
+  const nextBtn = btn('›', () => showMonth(shiftMonth(month, 1)), 'ghost');
+  prevBtn.setAttribute('aria-label', 'Previous month');
+  nextBtn.setAttribute('aria-label', 'Next month');
+  for (const b of [prevBtn, nextBtn]) b.style.cssText += 'padding: 6px 14px; min-height: 36px; font-size: 18px;';
+  const monthEl = el('div', {}, { fontWeight: '800', fontSize: '16px' });
+  monthNav.append(prevBtn, monthEl, nextBtn);
+
+  const grid = el('div', {}, {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(7, 1fr)',
+    gap: '4px',
+    textAlign: 'center',
+  });
+
+  const legend = el('div', { textContent: '✅ completed · 🎯 tried · ◻️ today' }, {
+    fontSize: '12px',
+    color: 'rgba(255,255,255,0.45)',
+    textAlign: 'center',
+    marginTop: '10px',
+  });
+
+  calendar.append(monthNav, grid, legend);
+
+  function dayCell(date: string | null, result: ChallengeResult | undefined): HTMLDivElement {
+    const cell = el('div', {}, {
+      aspectRatio: '1',
+      borderRadius: '10px',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontSize: '13px',
+      fontWeight: '700',
+      color: date && date > today ? 'rgba(255,255,255,0.25)' : 'rgba(255,255,255,0.8)',
+      background: result?.completed ? 'rgba(107,203,119,0.25)' : date ? 'rgba(255,255,255,0.04)' : '',
+      border: date === today ? '1.5px solid #fff' : '1.5px solid transparent',
+    });
+    if (!date) return cell;
+
+    cell.append(el('span', { textContent: String(Number(date.slice(8))) }));
+    if (result) {
+      cell.append(el('span', { textContent: result.completed ? '✅' : '🎯' }, { fontSize: '11px' }));
+      cell.title = result.completed
+        ? `Completed · +${formatScore(result.rewardPoints)} Hype`
+        : `Tried · best streak ${result.bestStreak}`;
+    }
+    return cell;
+  }
+
+  // Only the latest month's request is shown if the player flips quickly
+  let loadId = 0;
+
+  function showMonth(next: string): void {
+    const id = ++loadId;
+    month = next;
+    monthEl.textContent = monthLabel(month);
+    nextBtn.disabled = month >= thisMonth;
+    nextBtn.style.opacity = nextBtn.disabled ? '0.3' : '1';
+
+    const weeks = monthWeeks(month);
+    const render = (results: ChallengeResult[]): void => {
+      grid.replaceChildren(
+        ...WEEKDAYS.map(d => el('div', { textContent: d }, { fontSize: '11px', color: 'rgba(255,255,255,0.45)' })),
+        ...weeks.flat().map(date => dayCell(date, results.find(r => r.date === date)))
+      );
+    };
+    render([]);
+
+    dataService.getChallengeHistory(state.profile.id, `${month}-01`, `${month}-31`).then(results => {
+      if (id !== loadId) return;
+      render(results);
+    });
+  }
+
+  showMonth(month);
+
+  scroll.append(statsRow, todayCard, longList, calendar);
+  root.append(topBar, scroll);
+
+  return root;
+}
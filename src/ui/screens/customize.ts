@@ -2,6 +2,7 @@ import { GameState, GameScreen, CustomizationData, DEFAULT_CUSTOMIZATION } from
 import { btn, section, optionRow, colorPalette, haptic, el } from '@/ui/components/button';
 import { authService } from '@/services/supabase/auth';
 import { dataService } from '@/services/supabase/data';
+import { unlockRequirement, meetsRequirement, describeRequirement, lockedOptions, isOptionUnlocked } from '@/game/progression';
 
 // ─── Color Palettes ───────────────────────────────────────────────────────────
 
@@ -31,6 +32,16 @@ export function createCustomizeScreen(
 ): HTMLElement {
   let currentCust: CustomizationData = { ...state.profile.customization };
 
+  /** Options in `field` the player hasn't unlocked, with what unlocks each */
+  function locks(field: keyof CustomizationData, options: string[]): Record<string, string> {
+    const locked: Record<string, string> = {};
+    for (const opt of options) {
+      const requirement = unlockRequirement(field, opt);
+      if (requirement && !meetsRequirement(requirement, state.progression)) locked[opt] = describeRequirement(requirement);
+    }
+    return locked;
+  }
+
   const root = el('div', {}, {
     position: 'absolute',
     inset: '0',
@@ -97,7 +108,14 @@ export function createCustomizeScreen(
       flex-shrink: 0; font-size: 12px; font-weight: 600; font-family: inherit;
       white-space: nowrap;
     `;
-    pb.innerHTML = `<span style="font-size:22px">${preset.emoji}</span>${preset.name}`;
+    const presetLocks = lockedOptions(preset.data, state.progression);
+    pb.innerHTML = `<span style="font-size:22px">${presetLocks.length > 0 ? '🔒' : preset.emoji}</span>${preset.name}`;
+    if (presetLocks.length > 0) {
+      pb.title = `Locked: ${presetLocks.map(describeRequirement).join(', ')}`;
+      pb.disabled = true;
+      pb.style.opacity = '0.45';
+      pb.style.cursor = 'not-allowed';
+    }
     pb.addEventListener('click', () => {
       haptic('light');
       currentCust = { ...currentCust, ...preset.data };
@@ -118,7 +136,7 @@ export function createCustomizeScreen(
   randBtn.innerHTML = `<span style="font-size:22px">🎲</span>Random`;
   randBtn.addEventListener('click', () => {
     haptic('medium');
-    currentCust = randomize();
+    currentCust = randomize((field, value) => isOptionUnlocked(field, value, state.progression));
     onCustomizationChange(currentCust);
     rebuild();
   });
@@ -139,6 +157,13 @@ export function createCustomizeScreen(
   function rebuild() {
     formContent.innerHTML = '';
 
+    const { level, levelXp, nextLevelXp } = state.progression;
+    formContent.appendChild(el('p', {
+      textContent: `⭐ Level ${level}${nextLevelXp > 0 ? ` · ${levelXp}/${nextLevelXp} XP to the next` : ''} — 🔒 looks unlock as you level up and earn achievements`,
+    }, {
+      fontSize: '13px', color: 'rgba(255,255,255,0.55)', margin: '0 0 16px',
+    }));
+
     // Name
     const nameSection = document.createElement('div');
     nameSection.style.marginBottom = '20px';
@@ -187,7 +212,7 @@ export function createCustomizeScreen(
         currentCust.hairStyle = v as CustomizationData['hairStyle'];
         onCustomizationChange(currentCust);
         rebuild();
-      }, { none: '🚫 None', short: '✂️ Short', medium: '💇 Medium', long: '👸 Long', afro: '🌟 Afro', bun: '🎀 Bun', spiky: '⚡ Spiky' }),
+      }, { none: '🚫 None', short: '✂️ Short', medium: '💇 Medium', long: '👸 Long', afro: '🌟 Afro', bun: '🎀 Bun', spiky: '⚡ Spiky' }, locks('hairStyle', ['none','short','medium','long','afro','bun','spiky'])),
     ]));
 
     formContent.appendChild(section('Hair Color', [
@@ -204,7 +229,7 @@ export function createCustomizeScreen(
         currentCust.outfitTop = v as CustomizationData['outfitTop'];
         onCustomizationChange(currentCust);
         rebuild();
-      }, { tshirt: '👕 T-Shirt', hoodie: '🧥 Hoodie', dress: '👗 Dress', suit: '🤵 Suit', tank: '🏋️ Tank', sweater: '🧶 Sweater' }),
+      }, { tshirt: '👕 T-Shirt', hoodie: '🧥 Hoodie', dress: '👗 Dress', suit: '🤵 Suit', tank: '🏋️ Tank', sweater: '🧶 Sweater' }, locks('outfitTop', ['tshirt','hoodie','dress','suit','tank','sweater'])),
     ]));
 
     formContent.appendChild(section('Top Color', [
@@ -220,7 +245,7 @@ export function createCustomizeScreen(
         currentCust.outfitBottom = v as CustomizationData['outfitBottom'];
         onCustomizationChange(currentCust);
         rebuild();
-      }, { jeans: '👖 Jeans', shorts: '🩳 Shorts', skirt: '👗 Skirt', pants: '🎽 Pants', joggers: '🏃 Joggers' }),
+      }, { jeans: '👖 Jeans', shorts: '🩳 Shorts', skirt: '👗 Skirt', pants: '🎽 Pants', joggers: '🏃 Joggers' }, locks('outfitBottom', ['jeans','shorts','skirt','pants','joggers'])),
     ]));
 
     formContent.appendChild(section('Bottom Color', [
@@ -237,7 +262,7 @@ export function createCustomizeScreen(
         currentCust.shoes = v as CustomizationData['shoes'];
         onCustomizationChange(currentCust);
         rebuild();
-      }, { sneakers: '👟', boots: '🥾', heels: '👠', sandals: '🩴', cleats: '⚽' }),
+      }, { sneakers: '👟', boots: '🥾', heels: '👠', sandals: '🩴', cleats: '⚽' }, locks('shoes', ['sneakers','boots','heels','sandals','cleats'])),
     ]));
 
     formContent.appendChild(section('Shoe Color', [
@@ -254,7 +279,7 @@ export function createCustomizeScreen(
         currentCust.hat = v as CustomizationData['hat'];
         onCustomizationChange(currentCust);
         rebuild();
-      }, { none: '🚫', cap: '🧢 Cap', tophat: '🎩 Top Hat', beanie: '🧣 Beanie', cowboy: '🤠 Cowboy' }),
+      }, { none: '🚫', cap: '🧢 Cap', tophat: '🎩 Top Hat', beanie: '🧣 Beanie', cowboy: '🤠 Cowboy' }, locks('hat', ['none','cap','tophat','beanie','cowboy'])),
     ]));
 
     formContent.appendChild(section('Glasses', [
@@ -262,7 +287,7 @@ export function createCustomizeScreen(
         currentCust.glasses = v as CustomizationData['glasses'];
         onCustomizationChange(currentCust);
         rebuild();
-      }, { none: '🚫', round: '👓 Round', square: '🕶️ Square', heart: '🩷 Heart', shades: '😎 Shades' }),
+      }, { none: '🚫', round: '👓 Round', square: '🕶️ Square', heart: '🩷 Heart', shades: '😎 Shades' }, locks('glasses', ['none','round','square','heart','shades'])),
     ]));
 
     // Save outfit button
@@ -298,22 +323,25 @@ const HAIR_COLORS_ARR = ['#3D1A00','#5C2D00','#B8860B','#FFD700','#FF4500','#CC0
 const OUTFIT_COLORS_ARR = ['#FF6B6B','#FFE66D','#6BCB77','#4D96FF','#C77DFF','#F4A261','#264653','#E76F51','#2A9D8F','#FFFFFF','#111111','#FF006E'];
 const SHOE_COLORS_ARR = ['#FFFFFF','#000000','#FF4500','#006400','#00008B','#8B0000','#FFD700'];
 
-function randomize(): CustomizationData {
+/** A random look made only of options `allowed` lets through */
+function randomize(allowed: (field: keyof CustomizationData, value: string) => boolean): CustomizationData {
+  const pick = <T extends string>(field: keyof CustomizationData, options: readonly T[]): T =>
+    randomItem(options.filter(o => allowed(field, o)));
   return {
     ...DEFAULT_CUSTOMIZATION,
-    skinTone: randomItem(['light','medium-light','medium','medium-dark','dark'] as const),
-    faceShape: randomItem(['round','oval','square'] as const),
-    hairStyle: randomItem(['none','short','medium','long','afro','bun','spiky'] as const),
+    skinTone: pick('skinTone', ['light','medium-light','medium','medium-dark','dark'] as const),
+    faceShape: pick('faceShape', ['round','oval','square'] as const),
+    hairStyle: pick('hairStyle', ['none','short','medium','long','afro','bun','spiky'] as const),
     hairColor: randomColor(HAIR_COLORS_ARR),
-    outfitTop: randomItem(['tshirt','hoodie','dress','suit','tank','sweater'] as const),
+    outfitTop: pick('outfitTop', ['tshirt','hoodie','dress','suit','tank','sweater'] as const),
     topColor: randomColor(OUTFIT_COLORS_ARR),
-    outfitBottom: randomItem(['jeans','shorts','skirt','pants','joggers'] as const),
+    outfitBottom: pick('outfitBottom', ['jeans','shorts','skirt','pants','joggers'] as const),
     bottomColor: randomColor(OUTFIT_COLORS_ARR),
-    shoes: randomItem(['sneakers','boots','heels','sandals','cleats'] as const),
+    shoes: pick('shoes', ['sneakers','boots','heels','sandals','cleats'] as const),
     shoeColor: randomColor(SHOE_COLORS_ARR),
-    hat: randomItem(['none','cap','tophat','beanie','cowboy'] as const),
+    hat: pick('hat', ['none','cap','tophat','beanie','cowboy'] as const),
     hatColor: randomColor(OUTFIT_COLORS_ARR),
-    glasses: randomItem(['none','round','square','heart','shades'] as const),
+    glasses: pick('glasses', ['none','round','square','heart','shades'] as const),
     glassesColor: randomColor(['#222222','#FF0000','#0000FF','#FFD700','#00FFFF']),
     name: randomItem(['Wobbler','Dancer','Groover','Shaker','Jiggler','Spinner']),
   };
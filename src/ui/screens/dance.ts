@@ -1,36 +1,67 @@
 import * as PIXI from 'pixi.js';
-import { GameState, GameScreen } from '@/types';
+import {
+  GameState,
+  GameScreen,
+  DROPPABLE_OBJECTS,
+  ReplayData,
+  ReplayInputKind,
+  TapZone,
+  Grade,
+  XpAward,
+  DanceEndEvent,
+  ChallengeCompleteEvent,
+  PracticeSettings,
+  AutoplaySettings,
+  ComboEvent,
+} from '@/types';
 import { btn, haptic, el, formatScore } from '@/ui/components/button';
 import { GameEngine } from '@/game/engine';
+import { eventBus } from '@/game/events';
 import { Character } from '@/game/character';
 import { RhythmEngine } from '@/game/rhythm';
+import { getSongLengthBeats, getAudioTempoChanges, getLaneMode, bpmAtBeat } from '@/game/chart';
+import { latencyOffsetsSec } from '@/game/calibration';
+import {
+  ReplayRecorder,
+  ReplayPlayer,
+  createRng,
+  createSeed,
+  toPermille,
+  inputZone,
+  firstHitMismatch,
+  INPUT_DOWN,
+  INPUT_UP,
+  INPUT_MOVE,
+} from '@/game/replay';
 import { CrowdManager } from '@/game/crowd';
+import { ObjectManager } from '@/game/objects';
 import {
   createScoreState,
-  tickScore,
-  registerRhythmHit,
-  calculateSessionBonus,
+  createRhythmRun,
+  judgeRhythmRun,
+  finishRhythmRun,
   generateDailyChallenge,
   getTodayDateStr,
   createChallengeProgress,
-  updateChallengeProgress,
-  ChallengeProgress,
+  evaluateChallenge,
+  formatConditionStatus,
+  computeAccuracy,
+  computeGrade,
+  comboMilestoneEffects,
   RhythmHitResult,
 } from '@/game/scoring';
+import { tallySession } from '@/game/goals';
+import { practiceSong, practiceLoopAt, describePractice } from '@/game/practice';
+import { AutoPlayer } from '@/game/autoplay';
+import { Choreographer } from '@/game/choreography';
+import { sessionXpAward, challengeXpAward, countNewUnlocks } from '@/game/progression';
 import { soundSystem } from '@/game/sounds';
 import { dataService } from '@/services/supabase/data';
+import { achievementTracker } from '@/services/achievements';
 
 // ─── Grade helpers ────────────────────────────────────────────────────────────
 
-function computeGrade(accuracy: number): string {
-  if (accuracy >= 0.95) return 'S';
-  if (accuracy >= 0.85) return 'A';
-  if (accuracy >= 0.70) return 'B';
-  if (accuracy >= 0.50) return 'C';
-  return 'D';
-}
-
-function gradeColor(grade: string): string {
+export function gradeColor(grade: Grade): string {
   switch (grade) {
     case 'S': return '#FFE66D';
     case 'A': return '#6BCB77';
@@ -40,13 +71,33 @@ function gradeColor(grade: string): string {
   }
 }
 
+// ─── Ragdoll triggers ─────────────────────────────────────────────────────────
+
+const COLLAPSE_COMBO = 10;  // breaking a combo this long knocks the dancer over
+const FAINT_MISSES   = 4;   // this many misses in a row and the dancer faints
+
 // ─── Dance Screen ─────────────────────────────────────────────────────────────
 
+/**
+ * Live sessions record a replay as they go. A `replay` instead plays that
+ * recording back through the same judging path, ignoring player input.
+ * `practice` loops a section of the song, optionally slowed down. With
+ * `autoplay` the bot plays the song and a tap stops it. Nothing from a
+ * practice or auto-play session is submitted or counts toward progress.
+ */
+export interface DanceMode {
+  replay?: ReplayData;
+  practice?: PracticeSettings;
+  autoplay?: AutoplaySettings;
+}
+
 export function createDanceScreen(
   state: GameState,
   gameEngine: GameEngine,
-  navigate: (screen: GameScreen) => void
+  navigate: (screen: GameScreen) => void,
+  mode: DanceMode = {}
 ): { element: HTMLElement; cleanup: () => void } {
+  const { replay, practice, autoplay } = mode;
   const cleanup: Array<() => void> = [];
 
   // ── Root overlay (UI only, transparent for canvas) ─────────────────────────
@@ -63,20 +114,22 @@ export function createDanceScreen(
   const W = gameEngine.width;
   const H = gameEngine.height;
 
-  // Song
-  const song = state.selectedSong;
+  // Song — practice plays the looped, slowed section as a song of its own
+  const song = practice ? practiceSong(state.selectedSong, practice) : state.selectedSong;
   const BPM = song.bpm;
 
   // Stage layers
   const bgLayer = new PIXI.Container();
   const crowdLayer = new PIXI.Container();
   const characterLayer = new PIXI.Container();
+  const objectLayer = new PIXI.Container();
   const rhythmLayer = new PIXI.Container();
   const fxLayer = new PIXI.Container();
 
   app.stage.addChild(bgLayer);
   app.stage.addChild(crowdLayer);
   app.stage.addChild(characterLayer);
+  app.stage.addChild(objectLayer);
   app.stage.addChild(rhythmLayer);
   app.stage.addChild(fxLayer);
 
@@ -91,36 +144,72 @@ export function createDanceScreen(
   const charY = H * 0.55;
   character.container.position.set(charX, charY);
   characterLayer.addChild(character.container);
-
-  // Rhythm engine — uses song's beat pattern
-  const rhythmEngine = new RhythmEngine(rhythmLayer, W, H, BPM, song.beatPattern);
+  character.enableRagdoll(gameEngine.physicsEngine, H * 0.72);
+
+  // Rhythm engine — uses song's notes (chart) or beat pattern (built-in)
+  const rhythmEngine = new RhythmEngine(rhythmLayer, W, H, song);
+  const latency = replay
+    ? { audio: replay.latency[0] / 1000, visual: replay.latency[1] / 1000 }
+    : autoplay
+      ? { audio: 0, visual: 0 }
+      : latencyOffsetsSec(state.profile.calibration);
+  rhythmEngine.setLatency(latency.audio, latency.visual);
+  if (practice?.showZones) rhythmEngine.setZoneHints(true);
+
+  // The song's choreography, kept in step with the targets on screen
+  const choreographer = new Choreographer(song);
+
+  // Replay — the recorder also collects a playback's judgements so they can
+  // be checked against the original run
+  const playback = replay ? new ReplayPlayer(replay) : null;
+  const seed = replay?.seed ?? createSeed();
+  const rng = createRng(seed);
+  const bot = autoplay ? new AutoPlayer(autoplay.jitterMs, seed) : null;
+  const recorder = new ReplayRecorder(
+    song.id,
+    seed,
+    [Math.round(latency.audio * 1000), Math.round(latency.visual * 1000)],
+    state.profile.displayName
+  );
 
   // Crowd manager
   const crowdMgr = new CrowdManager(crowdLayer, W, H);
 
+  // Droppable physics objects
+  const objectMgr = new ObjectManager(objectLayer, gameEngine.physicsEngine, character, W, H);
+
   // Round-end tracking
-  const TOTAL_BEATS = song.barCount * song.beatPattern.length;
+  const TOTAL_BEATS = getSongLengthBeats(song);
   let beatsScheduled = 0;
   let roundEndTriggered = false;
   let roundEndTimerId: ReturnType<typeof setTimeout> | null = null;
-  let peakCombo = 1.0;
+  let consecutiveMisses = 0;
 
   // Score state
   state.currentScore = createScoreState();
   const scoreState = state.currentScore;
+  const run = createRhythmRun(scoreState, null, eventBus);
+  // Achievements can unlock mid-song, so level-ups are measured from here
+  const progressionAtStart = state.progression;
 
-  // Daily challenge
+  // Daily challenge — a replay re-runs the challenge it was recorded against
   const today = getTodayDateStr();
-  const challenge = generateDailyChallenge(today);
-  let challengeProgress: ChallengeProgress | null = null;
-  let challengeRewarded = false;
+  const challenge = generateDailyChallenge(replay?.challenge ?? today);
 
-  dataService.getChallengeCompletion(state.profile.id, today).then(done => {
-    if (!done) {
-      challengeProgress = createChallengeProgress(challenge);
+  if (replay) {
+    if (replay.challenge) {
+      run.challenge = createChallengeProgress(challenge, song.id);
+      recorder.setChallenge(replay.challenge);
     }
-    updateChallengeUI();
-  });
+  } else if (!practice && !autoplay) {
+    dataService.getChallengeCompletion(state.profile.id, today).then(done => {
+      if (!done) {
+        run.challenge = createChallengeProgress(challenge, song.id);
+        recorder.setChallenge(today);
+      }
+      updateChallengeUI();
+    });
+  }
 
   // ── Score HUD ──────────────────────────────────────────────────────────────
   const hud = el('div', {}, {
@@ -166,7 +255,7 @@ export function createDanceScreen(
   const exitBtn = btn('✕', () => {
     haptic('light');
     finishSession();
-    navigate('home');
+    navigate(autoplay?.exitTo ?? 'home');
   }, 'ghost');
   exitBtn.style.cssText += 'padding: 10px; min-height: 44px; pointer-events: auto;';
   exitBtn.setAttribute('aria-label', 'Exit to home');
@@ -188,35 +277,85 @@ export function createDanceScreen(
     pointerEvents: 'none',
   });
   const challengeIcon = el('span', { textContent: '🎯' }, { flexShrink: '0' });
-  const challengeText = el('span', { textContent: challenge.description }, { flex: '1' });
-  challengeBar.append(challengeIcon, challengeText);
+  const challengeBody = el('div', {}, { flex: '1', display: 'flex', flexDirection: 'column', gap: '2px' });
+  const challengeText = el('span', { textContent: challenge.description });
+  const conditionList = el('div', {}, {
+    display: 'flex',
+    flexWrap: 'wrap',
+    columnGap: '10px',
+    fontSize: '12px',
+    color: 'rgba(255,255,255,0.6)',
+  });
+  challengeBody.append(challengeText, conditionList);
+  challengeBar.append(challengeIcon, challengeBody);
+  if (replay && !replay.challenge) challengeBar.style.display = 'none';
+
+  // Practice shows the section and which loop is playing instead
+  if (practice) {
+    const loopEl = el('span', { textContent: `Loop 1/${practice.loops}` });
+    challengeText.textContent = `Practice · ${describePractice(practice)}`;
+    conditionList.replaceChildren(loopEl);
+    cleanup.push(eventBus.on('beat', ({ data }) => {
+      loopEl.textContent = `Loop ${practiceLoopAt(state.selectedSong, practice, data.beat)}/${practice.loops}`;
+    }));
+  }
 
-  function updateChallengeUI(): void {
-    if (!challengeProgress) {
+  // Auto-play names the song the bot is dancing to
+  if (autoplay) {
+    challengeIcon.textContent = '🤖';
+    challengeText.textContent = `Auto-play · ${song.emoji} ${song.name}`;
+  }
+
+  function updateChallengeUI(justCompleted = false): void {
+    const progress = run.challenge;
+    if (!progress) {
       challengeText.textContent = '✅ Daily challenge already completed!';
       challengeIcon.textContent = '🏆';
+      conditionList.replaceChildren();
       return;
     }
-    const cond = challenge.conditions[0];
-    if (cond.type === 'hit_streak') {
-      const done = challengeProgress.bestStreak;
-      const total = cond.count ?? 1;
-      challengeText.textContent = `${challenge.description} (Best: ${done}/${total})`;
-    }
-    if (challengeProgress.completed && !challengeRewarded) {
-      challengeRewarded = true;
+    const statuses = evaluateChallenge(progress, scoreState);
+    conditionList.replaceChildren(...challenge.conditions.map((cond, i) =>
+      el('span', { textContent: formatConditionStatus(cond, statuses[i]) })
+    ));
+    if (progress.completed) {
       challengeText.textContent = '🎉 Challenge Complete! Bonus: ' + challenge.rewardPoints + ' Hype!';
       challengeIcon.textContent = '🏆';
-      scoreState.crowdHype += challenge.rewardPoints;
-      scoreState.totalScore = Math.floor(scoreState.crowdHype);
+    }
+    if (justCompleted) {
       soundSystem.playChallengeComplete();
       haptic('heavy');
-    } else if (challengeProgress.completed) {
-      challengeText.textContent = '🎉 Challenge Complete! Bonus: ' + challenge.rewardPoints + ' Hype!';
-      challengeIcon.textContent = '🏆';
     }
   }
 
+  // ── Object tray ────────────────────────────────────────────────────────────
+  const objectTray = el('div', {}, {
+    margin: '0 16px',
+    display: 'flex',
+    gap: '6px',
+    overflowX: 'auto',
+    pointerEvents: 'auto',
+  });
+  for (const def of Object.values(DROPPABLE_OBJECTS)) {
+    const dropBtn = el('button', { textContent: def.emoji, 'aria-label': `Drop ${def.label}` }, {
+      flexShrink: '0',
+      width: '40px',
+      height: '40px',
+      fontSize: '22px',
+      borderRadius: '12px',
+      border: '1.5px solid rgba(255,255,255,0.2)',
+      background: 'rgba(255,255,255,0.08)',
+      cursor: 'pointer',
+      touchAction: 'manipulation',
+    });
+    dropBtn.addEventListener('pointerdown', e => {
+      e.preventDefault();
+      haptic('light');
+      objectMgr.spawn(def.id);
+    });
+    objectTray.appendChild(dropBtn);
+  }
+
   // ── Energy bar ─────────────────────────────────────────────────────────────
   const energyBarFill = el('div', {}, {
     height: '100%',
@@ -236,7 +375,13 @@ export function createDanceScreen(
   energyBarContainer.appendChild(energyBarFill);
 
   // ── Tap hint ───────────────────────────────────────────────────────────────
-  const tapHint = el('div', { textContent: '🎵 Tap to dance — match the beat!' }, {
+  let hintText = getLaneMode(song) === 'six-lane'
+    ? '🎵 Six lanes — tap above the middle line for upper notes, below for lower!'
+    : '🎵 Tap to dance — match the beat!';
+  if (replay) hintText = `🎬 Replay — ${replay.player}`;
+  if (practice) hintText = '🎯 Practice — tap to start. Nothing here is scored.';
+  if (autoplay) hintText = '🤖 Auto-play — tap to stop';
+  const tapHint = el('div', { textContent: hintText }, {
     textAlign: 'center',
     fontSize: '13px',
     color: 'rgba(255,255,255,0.45)',
@@ -248,6 +393,7 @@ export function createDanceScreen(
   root.append(
     hud,
     challengeBar,
+    objectTray,
     el('div', {}, { flex: '1', pointerEvents: 'none' }),
     energyBarContainer,
     tapHint
@@ -257,121 +403,218 @@ export function createDanceScreen(
   let audioStarted = false;
   let beatUnsub: (() => void) | null = null;
 
+  function startSong(): void {
+    const audioTempoChanges = getAudioTempoChanges(song);
+    audioStarted = true;
+    soundSystem.init();
+    soundSystem.setEnabled(state.audioEnabled);
+    soundSystem.startBeat(BPM, song.style, audioTempoChanges);
+    rhythmEngine.start();
+    eventBus.emit('dance_start', {
+      songId: song.id, replay: Boolean(replay), practice: Boolean(practice), autoplay: Boolean(autoplay),
+    });
+
+    beatUnsub = soundSystem.onBeat((beatNum, beatTime) => {
+      rhythmEngine.onBeatFired(beatNum, beatTime);
+      character.setTempo(bpmAtBeat(beatNum, BPM, audioTempoChanges));
+      beatsScheduled++;
+      if (beatsScheduled >= TOTAL_BEATS && !roundEndTriggered) {
+        roundEndTriggered = true;
+        const travelSec = 4 * (60 / bpmAtBeat(TOTAL_BEATS, BPM, song.tempoChanges));
+        const delayMs = (travelSec + 0.5) * 1000;
+        roundEndTimerId = setTimeout(() => { void showResultsOverlay(); }, delayMs);
+      }
+    });
+  }
+
+  /** Score and record a judgement made at `songTime` (see judgeRhythmRun) */
+  function scoreHit(result: RhythmHitResult, songTime: number): number {
+    const ms = Math.round(songTime * 1000);
+    recorder.recordHit(ms, result);
+    const { points, challengeCompleted } = judgeRhythmRun(run, result, ms);
+    if (run.challenge) updateChallengeUI(challengeCompleted);
+    return points;
+  }
+
   // Auto-miss handler from rhythm engine
-  const unsubMiss = rhythmEngine.onMiss(zone => {
-    const prevCombo = scoreState.combo;
-    const missResult: RhythmHitResult = { rating: 'miss', zone, targetId: -1 };
-    registerRhythmHit(scoreState, missResult);
+  const unsubMiss = rhythmEngine.onMiss((result, time) => {
+    scoreHit(result, time);
+  });
+  cleanup.push(unsubMiss);
 
-    character.reactToZone(zone, 'miss');
+  // Hold/slide releases — partial credit, and dropping one early breaks the combo
+  const unsubSustain = rhythmEngine.onSustainEnd((result, time) => {
+    const points = scoreHit(result, time);
+    if (points > 0) {
+      showFloatingScore(points, W / 2, H * 0.62 - 30, result.rating === 'perfect');
+    }
+  });
+  cleanup.push(unsubSustain);
+
+  // ── Gameplay reactions ─────────────────────────────────────────────────────
+  // The run announces every judgement on the event bus; the dancer, crowd,
+  // sounds and HUD follow along from here
+  cleanup.push(
+    eventBus.on('rhythm_hit', ({ data }) => {
+      if (!data.sustain) consecutiveMisses = 0;
+      character.reactToZone(data.zone, data.rating);
+      crowdMgr.onRhythmHit(data.rating, scoreState.comboMultiplier);
+      if (data.rating === 'perfect') soundSystem.playPerfectHit();
+      else soundSystem.playGoodHit();
+    }),
+    eventBus.on('rhythm_miss', ({ data }) => {
+      character.reactToZone(data.zone, 'miss');
+
+      // Only targets that pass unhit knock the dancer about, not dropped holds
+      if (!data.sustain) {
+        consecutiveMisses++;
+        if (consecutiveMisses === FAINT_MISSES) {
+          character.faint();
+        } else if (data.brokenCombo >= COLLAPSE_COMBO) {
+          character.collapse({ x: (rng() - 0.5) * 4, y: 2 });
+        }
+      }
+
+      if (data.brokenCombo >= 3) {
+        crowdMgr.onComboBreak();
+        soundSystem.playComboBreak();
+      } else {
+        soundSystem.playMiss();
+      }
+    }),
+    eventBus.on('combo', ({ data }) => checkComboMilestones(data)),
+    eventBus.on('score_update', updateHUD)
+  );
 
-    if (prevCombo >= 3) {
-      crowdMgr.onComboBreak();
-      soundSystem.playComboBreak();
+  // ── Input (live pointer events, replay playback and the bot) ──────────────────────
+  function handleTap(zone: TapZone, x: number, y: number, songTime: number, pointerId: number): void {
+    const hitResult = rhythmEngine.tryHitZone(zone, songTime, pointerId);
+
+    if (hitResult) {
+      // Scored rhythm hit — the gameplay reactions above take it from here
+      const points = scoreHit(hitResult, songTime);
+      if (points > 0) {
+        showFloatingScore(points, x, y - 30, hitResult.rating === 'perfect');
+      }
     } else {
-      soundSystem.playMiss();
+      // Free-form puppeteer (no target hit)
+      character.reactToZone(zone, 'good');
     }
+  }
 
-    if (challengeProgress) {
-      updateChallengeProgress(challengeProgress, scoreState, 'miss');
-      updateChallengeUI();
+  /**
+   * Apply one input at `songTime`. Targets that ran out before it are judged
+   * first, so judgements happen in the same order live and on replay.
+   */
+  function applyInput(kind: ReplayInputKind, zone: TapZone, x: number, y: number, pointerId: number, songTime: number): void {
+    rhythmEngine.judgeUpTo(songTime);
+    if (kind === INPUT_DOWN) handleTap(zone, x, y, songTime, pointerId);
+    else if (kind === INPUT_UP) rhythmEngine.release(pointerId, songTime);
+    else rhythmEngine.track(pointerId, x, songTime);
+  }
+
+  /**
+   * Record a live input and apply it. Its time is rounded up to the replay's
+   * millisecond grid (so never before a frame that already ran) and its
+   * position snapped to per-mille, so playback judges it identically.
+   */
+  function liveInput(kind: ReplayInputKind, x: number, y: number, pointerId: number): void {
+    const zone = rhythmEngine.getTapZone(x, y);
+    const songNow = rhythmEngine.songTime(soundSystem.getAudioCurrentTime() ?? 0);
+    if (songNow === null || songNow < 0) {
+      // Nothing to judge before the first beat — just puppeteer
+      if (kind === INPUT_DOWN) character.reactToZone(zone, 'good');
+      return;
     }
 
-    updateHUD();
-  });
-  cleanup.push(unsubMiss);
+    const ms = Math.ceil(songNow * 1000);
+    const px = toPermille(x, gameEngine.width);
+    const py = toPermille(y, gameEngine.height);
+    recorder.recordInput(ms, kind, px, py, pointerId, zone);
+    applyInput(kind, zone, (px / 1000) * gameEngine.width, (py / 1000) * gameEngine.height, pointerId, ms / 1000);
+  }
+
+  /** Feed every recorded (or bot) input that is due by `songNow` */
+  function playInputs(songNow: number): void {
+    const due = playback?.due(songNow * 1000) ?? bot?.due(rhythmEngine.getTargets(), songNow) ?? [];
+    for (const input of due) {
+      const [ms, kind, px, py, pointerId] = input;
+      const x = (px / 1000) * gameEngine.width;
+      const y = (py / 1000) * gameEngine.height;
+      applyInput(kind, inputZone(input), x, y, pointerId, ms / 1000);
+    }
+  }
 
   // ── Canvas pointer handler ─────────────────────────────────────────────────
   const canvasEl = app.view as HTMLCanvasElement;
   canvasEl.style.pointerEvents = 'auto';
   canvasEl.style.touchAction = 'none';
 
+  // Convert screen coords to canvas coords
+  function canvasPoint(e: PointerEvent): { x: number; y: number } {
+    const rect = canvasEl.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (gameEngine.width / rect.width),
+      y: (e.clientY - rect.top) * (gameEngine.height / rect.height),
+    };
+  }
+
   const handlePointerDown = (e: PointerEvent): void => {
     e.preventDefault();
     haptic('light');
+    // Keep the pointer's moves and release coming here even once it slides
+    // off the canvas onto the HUD, so holds end and slides drift-check
+    canvasEl.setPointerCapture(e.pointerId);
 
     // First touch: unlock audio and start beat
     if (!audioStarted) {
-      audioStarted = true;
-      soundSystem.init();
-      soundSystem.setEnabled(state.audioEnabled);
-      soundSystem.startBeat(BPM, song.style);
-      rhythmEngine.start();
-
-      beatUnsub = soundSystem.onBeat((beatNum, beatTime) => {
-        rhythmEngine.onBeatFired(beatNum, beatTime);
-        beatsScheduled++;
-        if (beatsScheduled >= TOTAL_BEATS && !roundEndTriggered) {
-          roundEndTriggered = true;
-          const travelSec = 4 * (60 / BPM);
-          const delayMs = (travelSec + 0.5) * 1000;
-          roundEndTimerId = setTimeout(() => { void showResultsOverlay(); }, delayMs);
-        }
-      });
-
+      startSong();
       // Hide hint after first tap
       tapHint.textContent = '';
     }
 
-    // Convert screen coords to canvas coords
-    const rect = canvasEl.getBoundingClientRect();
-    const tapX = (e.clientX - rect.left) * (gameEngine.width / rect.width);
-    const tapY = (e.clientY - rect.top) * (gameEngine.height / rect.height);
-
-    const audioNow = soundSystem.getAudioCurrentTime() ?? 0;
-    const hitResult = rhythmEngine.tryHit(tapX, tapY, audioNow);
-
-    if (hitResult) {
-      // Scored rhythm hit
-      const points = registerRhythmHit(scoreState, hitResult);
-      if (scoreState.comboMultiplier > peakCombo) peakCombo = scoreState.comboMultiplier;
-      character.reactToZone(hitResult.zone, hitResult.rating);
-      crowdMgr.onRhythmHit(hitResult.rating, scoreState.comboMultiplier);
-
-      if (hitResult.rating === 'perfect') {
-        soundSystem.playPerfectHit();
-      } else {
-        soundSystem.playGoodHit();
-      }
-
-      if (points > 0) {
-        showFloatingScore(points, tapX, tapY - 30, hitResult.rating === 'perfect');
-      }
-
-      checkComboMilestones();
-
-      if (challengeProgress) {
-        updateChallengeProgress(challengeProgress, scoreState, hitResult.rating);
-        updateChallengeUI();
-      }
-    } else {
-      // Free-form puppeteer (no target hit)
-      const zone = rhythmEngine.getTapZone(tapX, tapY);
-      character.reactToZone(zone, 'good');
-    }
+    const { x, y } = canvasPoint(e);
+    liveInput(INPUT_DOWN, x, y, e.pointerId);
+  };
 
-    updateHUD();
+  // Holds end on release; slides follow the pointer across columns
+  const handlePointerUp = (e: PointerEvent): void => {
+    const { x, y } = canvasPoint(e);
+    liveInput(INPUT_UP, x, y, e.pointerId);
+  };
+  const handlePointerMove = (e: PointerEvent): void => {
+    if (!rhythmEngine.isTracking(e.pointerId)) return;
+    const { x, y } = canvasPoint(e);
+    liveInput(INPUT_MOVE, x, y, e.pointerId);
   };
 
-  canvasEl.addEventListener('pointerdown', handlePointerDown);
-  cleanup.push(() => canvasEl.removeEventListener('pointerdown', handlePointerDown));
+  // A replay ignores the player entirely; with the bot playing, a tap stops it
+  const stopAutoplay = (e: PointerEvent): void => {
+    e.preventDefault();
+    finishSession();
+    navigate(autoplay?.exitTo ?? 'home');
+  };
+  if (bot) {
+    canvasEl.addEventListener('pointerdown', stopAutoplay);
+    cleanup.push(() => canvasEl.removeEventListener('pointerdown', stopAutoplay));
+  } else if (!playback) {
+    canvasEl.addEventListener('pointerdown', handlePointerDown);
+    canvasEl.addEventListener('pointerup', handlePointerUp);
+    canvasEl.addEventListener('pointercancel', handlePointerUp);
+    canvasEl.addEventListener('pointermove', handlePointerMove);
+    cleanup.push(() => {
+      canvasEl.removeEventListener('pointerdown', handlePointerDown);
+      canvasEl.removeEventListener('pointerup', handlePointerUp);
+      canvasEl.removeEventListener('pointercancel', handlePointerUp);
+      canvasEl.removeEventListener('pointermove', handlePointerMove);
+    });
+  }
 
   // ── Combo milestone effects ────────────────────────────────────────────────
-  function checkComboMilestones(): void {
-    const combo = scoreState.combo;
-    if (combo === 5) {
-      crowdMgr.triggerEffect('spotlight');
-      soundSystem.playPowerUp();
-    } else if (combo === 10) {
-      crowdMgr.triggerEffect('discoBall');
-      soundSystem.playPowerUp();
-    } else if (combo === 15) {
-      crowdMgr.triggerEffect('hypeTrain');
-    }
-
-    if (scoreState.consecutivePerfects >= 5) {
-      crowdMgr.triggerEffect('confetti');
-    }
+  function checkComboMilestones(event: ComboEvent): void {
+    const { combo } = event;
+    for (const effect of comboMilestoneEffects(event)) crowdMgr.triggerEffect(effect);
+    if (combo === 5 || combo === 10) soundSystem.playPowerUp();
 
     if (combo > 0 && combo % 5 === 0) {
       soundSystem.playComboUp();
@@ -420,11 +663,17 @@ export function createDanceScreen(
   const unsubUpdate = gameEngine.onUpdate(dt => {
     const audioNow = soundSystem.getAudioCurrentTime() ?? 0;
 
+    const songNow = rhythmEngine.songTime(audioNow);
+    if ((playback || bot) && songNow !== null) playInputs(songNow);
+    const move = songNow === null ? null : choreographer.due(rhythmEngine.drawTime(songNow));
+    if (move) character.setDanceMove(move);
+
+    character.setMood(scoreState.combo, crowdMgr.energyLevel);
     character.update(dt);
     rhythmEngine.update(dt, audioNow);
     crowdMgr.update(dt);
+    objectMgr.update(dt);
 
-    tickScore(scoreState, dt, state.activeMove);
     energyBarFill.style.width = `${crowdMgr.energyLevel * 100}%`;
 
     // Handle window resize
@@ -433,7 +682,9 @@ export function createDanceScreen(
       prevH = gameEngine.height;
       bgGfx.clear();
       drawBackground(bgGfx, gameEngine.width, gameEngine.height);
-      character.container.position.set(gameEngine.width / 2, gameEngine.height * 0.55);
+      character.placeAt(gameEngine.width / 2, gameEngine.height * 0.55);
+      character.enableRagdoll(gameEngine.physicsEngine, gameEngine.height * 0.72);
+      objectMgr.resize(gameEngine.width, gameEngine.height);
     }
   });
 
@@ -444,52 +695,107 @@ export function createDanceScreen(
     soundSystem.stopBeat();
     rhythmEngine.destroy();
     crowdMgr.destroy();
-    app.stage.removeChild(bgLayer, crowdLayer, characterLayer, rhythmLayer, fxLayer);
+    objectMgr.destroy();
+    character.destroy();
+    app.stage.removeChild(bgLayer, crowdLayer, characterLayer, objectLayer, rhythmLayer, fxLayer);
   });
 
+  // Replays and the bot start straight away — there's no first tap to wait for
+  if (playback || bot) startSong();
+
   // ── Score submission (shared by both exit paths) ───────────────────────────
-  async function submitScore(): Promise<void> {
-    if (scoreState.totalScore <= 0) return;
+  /** Save the run and everything it earned; returns the XP awarded */
+  async function submitScore(runReplay?: ReplayData): Promise<number> {
+    const endEvent: DanceEndEvent = { songId: song.id, songEnded: roundEndTriggered, score: scoreState.totalScore };
+    // Watching a replay, practising or auto-play never submits a score or completes a challenge
+    if (replay || practice || autoplay || scoreState.totalScore <= 0) {
+      eventBus.emit('dance_end', endEvent);
+      return 0;
+    }
+    const previousBest = await dataService.getUserBestScore(state.profile.id, 'rhythm');
 
     const entry = {
       score: scoreState.totalScore,
       mode: 'rhythm',
+      songId: song.id,
+      difficulty: song.difficulty,
       metadata: {
         perfectHits: scoreState.perfectHits,
         goodHits: scoreState.goodHits,
         totalHits: scoreState.totalHitAttempts,
-        comboPeak: peakCombo,
+        comboPeak: run.peakCombo,
         duration: Math.floor((Date.now() - scoreState.sessionStart) / 1000),
       },
+      replay: runReplay,
     };
 
-    await dataService.submitScore(state.profile.id, entry);
+    // Only finished runs go on the boards: one quit early has no replay to
+    // verify it with, so it could only ever be flagged
+    if (runReplay) await dataService.submitScore(state.profile.id, entry);
 
-    if (challengeProgress?.completed) {
+    if (run.challenge?.completed) {
       await dataService.saveChallengeCompletion(
-        state.profile.id, today, challengeProgress, challenge
+        state.profile.id, today, run.challenge, challenge
       );
     }
+
+    // Weekly and seasonal challenges count every session, finished or not
+    const completed = await dataService.recordChallengeProgress(state.profile.id, tallySession(scoreState, {
+      songEnded: roundEndTriggered,
+      dailyCompleted: run.challengeRewarded,
+    }));
+
+    // The run announced the daily when it paid out; the others finish here
+    const completedLong: ChallengeCompleteEvent[] = completed.map(c => ({
+      challengeId: c.id, tier: c.tier, rewardPoints: c.rewardPoints,
+    }));
+    for (const c of completedLong) eventBus.emit('challenge_complete', c);
+    if (runReplay && previousBest > 0 && scoreState.totalScore > previousBest) {
+      eventBus.emit('high_score', { score: scoreState.totalScore, previousBest });
+    }
+    eventBus.emit('dance_end', endEvent);
+
+    const awards = [
+      sessionXpAward(scoreState, roundEndTriggered),
+      ...(run.challengeRewarded ? [challengeXpAward(`daily:${today}`, challenge.rewardPoints)] : []),
+      ...completedLong.map(c => challengeXpAward(c.challengeId, c.rewardPoints)),
+    ].filter((a): a is XpAward => a !== null);
+    await dataService.awardXp(state.profile.id, awards);
+    await achievementTracker.settled();
+    state.progression = await dataService.getProgression(state.profile.id);
+    return awards.reduce((sum, a) => sum + a.xp, 0);
   }
 
   // ── Results overlay (shown at natural round end) ───────────────────────────
   async function showResultsOverlay(): Promise<void> {
     soundSystem.stopBeat();
+    // Judge what's left exactly as the verifier will: remaining inputs first,
+    // then anything still on screen
+    if (playback || bot) playInputs(Infinity);
+    rhythmEngine.finish();
     rhythmEngine.stop();
     soundSystem.playVictory();
 
-    // Apply session bonus
-    const bonus = calculateSessionBonus(scoreState);
-    if (bonus > 0) {
-      scoreState.crowdHype += bonus;
-      scoreState.totalScore = Math.floor(scoreState.crowdHype);
-    }
-
-    await submitScore();
+    const wasRewarded = run.challengeRewarded;
+    const bonus = finishRhythmRun(run);
+    if (run.challenge) updateChallengeUI(run.challengeRewarded && !wasRewarded);
 
-    const total = Math.max(1, scoreState.totalHitAttempts);
-    const accuracy = (scoreState.perfectHits + scoreState.goodHits) / total;
+    const accuracy = computeAccuracy(scoreState);
     const grade = computeGrade(accuracy);
+    eventBus.emit('song_clear', {
+      songId: song.id, difficulty: song.difficulty, grade, accuracy, score: scoreState.totalScore,
+    });
+
+    const runReplay = replay ?? recorder.finish(scoreState.totalScore);
+    const xpEarned = await submitScore(runReplay);
+    if (!replay && !practice && !autoplay) void dataService.saveReplay(runReplay);
+
+    // The bot's song is over: back to where the demo was started from
+    if (autoplay) {
+      navigate(autoplay.exitTo);
+      return;
+    }
+
     const misses = scoreState.totalHitAttempts - scoreState.perfectHits - scoreState.goodHits;
 
     const overlay = document.createElement('div');
@@ -502,7 +808,11 @@ export function createDanceScreen(
 
     // Song + grade header
     const songHeader = document.createElement('div');
-    songHeader.textContent = `${song.emoji} ${song.name}`;
+    songHeader.textContent = replay
+      ? `🎬 ${song.emoji} ${song.name} — ${replay.player}`
+      : practice
+        ? `🎯 ${song.emoji} ${song.name} — ${describePractice(practice)}`
+        : `${song.emoji} ${song.name}`;
     songHeader.style.cssText = 'font-size:18px;color:rgba(255,255,255,0.6);margin-bottom:8px;text-align:center;';
 
     const gradeEl = document.createElement('div');
@@ -518,6 +828,31 @@ export function createDanceScreen(
     accuracyEl.textContent = `${Math.round(accuracy * 100)}% accuracy`;
     accuracyEl.style.cssText = 'font-size:20px;color:rgba(255,255,255,0.75);margin-bottom:24px;font-weight:700;';
 
+    // XP, and what a level-up unlocked
+    const xpEl = document.createElement('div');
+    if (xpEarned > 0) {
+      const { level } = state.progression;
+      const unlocks = countNewUnlocks(progressionAtStart, state.progression);
+      xpEl.textContent = [
+        `⭐ +${xpEarned} XP`,
+        level > progressionAtStart.level ? `🎉 Level ${level}!` : `Level ${level}`,
+        unlocks > 0 ? `🔓 ${unlocks} new look${unlocks === 1 ? '' : 's'}` : '',
+      ].filter(Boolean).join(' · ');
+      xpEl.style.cssText = 'font-size:15px;color:#FFE66D;margin:-12px 0 20px;font-weight:700;text-align:center;';
+    }
+
+    // Playback check: every judgement and the final score should match the recording
+    const verifyEl = document.createElement('div');
+    if (replay) {
+      const mismatch = firstHitMismatch(replay.hits, recorder.getHits());
+      verifyEl.textContent = mismatch >= 0
+        ? `⚠️ Differs from the recording at judgement #${mismatch + 1}`
+        : scoreState.totalScore !== replay.score
+          ? `⚠️ Recorded score was ${replay.score}`
+          : '✅ Matches the recorded run';
+      verifyEl.style.cssText = 'font-size:14px;color:rgba(255,255,255,0.7);margin:-16px 0 20px;font-weight:700;';
+    }
+
     // Stats grid
     const grid = document.createElement('div');
     grid.style.cssText = [
@@ -529,7 +864,7 @@ export function createDanceScreen(
       ['Perfect', String(scoreState.perfectHits)],
       ['Good',    String(scoreState.goodHits)],
       ['Miss',    String(misses)],
-      ['Peak ×',  peakCombo.toFixed(1)],
+      ['Peak ×',  run.peakCombo.toFixed(1)],
       ['Bonus',   `+${bonus}`],
       ['Score',   String(scoreState.totalScore)],
     ];
@@ -551,35 +886,50 @@ export function createDanceScreen(
     }
 
     // Buttons
+    function resultButton(label: string, background: string, onPress: () => void): HTMLButtonElement {
+      const b = document.createElement('button');
+      b.textContent = label;
+      b.style.cssText = [
+        'flex:1', 'padding:16px', 'font-size:16px', 'font-weight:800',
+        `background:${background}`, 'color:#fff', 'border:none', 'border-radius:14px',
+        'cursor:pointer', 'font-family:inherit',
+      ].join(';');
+      b.addEventListener('pointerdown', onPress);
+      return b;
+    }
+
     const btnRow = document.createElement('div');
     btnRow.style.cssText = 'display:flex;gap:12px;width:100%;max-width:320px;';
 
-    const againBtn = document.createElement('button');
-    againBtn.textContent = '▶️ Play Again';
-    againBtn.style.cssText = [
-      'flex:1', 'padding:16px', 'font-size:16px', 'font-weight:800',
-      'background:#6C3FF5', 'color:#fff', 'border:none', 'border-radius:14px',
-      'cursor:pointer', 'font-family:inherit',
-    ].join(';');
-    againBtn.addEventListener('pointerdown', () => {
+    // Practice settings are kept, so song select reopens them
+    const againBtn = resultButton(practice ? '🔁 Practice Again' : '▶️ Play Again', '#6C3FF5', () => {
       haptic('medium');
       navigate('song-select');
     });
 
-    const homeBtn = document.createElement('button');
-    homeBtn.textContent = '🏠 Home';
-    homeBtn.style.cssText = [
-      'flex:1', 'padding:16px', 'font-size:16px', 'font-weight:800',
-      'background:rgba(255,255,255,0.1)', 'color:#fff', 'border:none', 'border-radius:14px',
-      'cursor:pointer', 'font-family:inherit',
-    ].join(';');
-    homeBtn.addEventListener('pointerdown', () => {
+    const homeBtn = resultButton('🏠 Home', 'rgba(255,255,255,0.1)', () => {
       haptic('light');
       navigate('home');
     });
 
     btnRow.append(againBtn, homeBtn);
-    overlay.append(songHeader, gradeEl, accuracyEl, grid, btnRow);
+
+    const replayRow = document.createElement('div');
+    replayRow.style.cssText = 'display:flex;gap:12px;width:100%;max-width:320px;margin-top:12px;';
+    if (practice) replayRow.style.display = 'none';
+    if (!replay) {
+      replayRow.appendChild(resultButton('🎬 Watch', 'rgba(255,255,255,0.1)', () => {
+        haptic('light');
+        state.replay = runReplay;
+        navigate('replay');
+      }));
+    }
+    replayRow.appendChild(resultButton('⬇ Save Replay', 'rgba(255,255,255,0.1)', () => {
+      haptic('light');
+      downloadReplay(runReplay);
+    }));
+
+    overlay.append(songHeader, gradeEl, accuracyEl, xpEl, verifyEl, grid, btnRow, replayRow);
     root.appendChild(overlay);
   }
 
@@ -588,12 +938,8 @@ export function createDanceScreen(
     if (roundEndTriggered) return;  // round already ended normally
     if (roundEndTimerId !== null) clearTimeout(roundEndTimerId);
 
-    const bonus = calculateSessionBonus(scoreState);
-    if (bonus > 0) {
-      scoreState.crowdHype += bonus;
-      scoreState.totalScore = Math.floor(scoreState.crowdHype);
-    }
-
+    // Unfinished runs aren't posted as scores, but still earn XP and challenge progress
+    finishRhythmRun(run, false);
     await submitScore();
   }
 
@@ -605,9 +951,19 @@ export function createDanceScreen(
   };
 }
 
+// ─── Replay Export ────────────────────────────────────────────────────────────
+
+function downloadReplay(replay: ReplayData): void {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = el('a', { href: url, download: `${replay.songId}-${replay.createdAt.slice(0, 10)}.replay.json` });
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 // ─── Background Drawing ───────────────────────────────────────────────────────
 
-function drawBackground(g: PIXI.Graphics, W: number, H: number): void {
+export function drawBackground(g: PIXI.Graphics, W: number, H: number): void {
   // Sky gradient (simulated with multiple rects)
   g.beginFill(0x1a0533);
   g.drawRect(0, 0, W, H);
@@ -0,0 +1,549 @@
+import {
+  GameState,
+  GameScreen,
+  TapZone,
+  TAP_ZONES,
+  MUSIC_STYLES,
+  DIFFICULTY_LEVELS,
+  CHART_FORMAT_VERSION,
+  ChartFile,
+  ChartMeta,
+  ChartNote,
+  ChartSubBeat,
+  ChartTimedNote,
+  ChartTempoChange,
+  ChartMove,
+  MusicStyle,
+  DifficultyLevel,
+  LaneMode,
+  LANE_MODES,
+  SongDefinition,
+} from '@/types';
+import { btn, el, haptic, section, optionRow, stepper } from '@/ui/components/button';
+import { parseChart, flattenChartNotes, bpmAtBeat } from '@/game/chart';
+import { soundSystem } from '@/game/sounds';
+import { dataService } from '@/services/supabase/data';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const DEFAULT_BEATS_PER_BAR = 4;
+const DEFAULT_BARS = 8;
+const MAX_BARS = 64;
+const MIN_BPM = 40;
+const MAX_BPM = 300;
+
+// Grid steps per beat
+const RESOLUTIONS = ['1', '2', '3', '4'];
+const RESOLUTION_LABELS: Record<string, string> = { '1': 'Beat', '2': '8th', '3': 'Triplet', '4': '16th' };
+
+const LANE_LABELS: Record<string, string> = { auto: 'By difficulty', 'three-lane': '3 lanes', 'six-lane': '6 lanes' };
+
+const ZONE_LABELS: Record<TapZone, string> = {
+  'upper-left': '↖',
+  'upper-center': '⬆',
+  'upper-right': '↗',
+  'lower-left': '↙',
+  'lower-center': '⬇',
+  'lower-right': '↘',
+};
+
+const ROW_BG = 'rgba(255,255,255,0.03)';
+const BEAT_ROW_BG = 'rgba(255,255,255,0.08)';
+const PLAYHEAD_BG = 'rgba(255,230,109,0.35)';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/** Sub-beat for grid step `step` of `division`, reduced (2/4 → 1/2) */
+function subForStep(step: number, division: number): ChartSubBeat | undefined {
+  if (step === 0) return undefined;
+  const g = gcd(step, division);
+  return [step / g, division / g];
+}
+
+function notePosition(n: ChartNote): number {
+  return n.beat + (n.sub ? n.sub[0] / n.sub[1] : 0);
+}
+
+function newMeta(state: GameState): ChartMeta {
+  return {
+    id: `custom-${Date.now()}`,
+    name: 'My Chart',
+    emoji: '✏️',
+    charter: state.profile.displayName,
+    bpm: 120,
+    style: 'pop',
+    difficulty: 'medium',
+  };
+}
+
+// ─── Chart Editor Screen ──────────────────────────────────────────────────────
+
+export function createEditorScreen(
+  state: GameState,
+  navigate: (screen: GameScreen) => void
+): { element: HTMLElement; cleanup: () => void } {
+  // ── Draft chart ────────────────────────────────────────────────────────────
+  let meta = newMeta(state);
+  let notes: ChartTimedNote[] = [];
+  let tempo: ChartTempoChange[] | undefined;
+  let moves: ChartMove[] | undefined;
+  let barCount = DEFAULT_BARS;
+  let division = 2;
+
+  const beatsPerBar = () => meta.beatsPerBar ?? DEFAULT_BEATS_PER_BAR;
+
+  function toChart(): ChartFile {
+    const chart: ChartFile = {
+      version: CHART_FORMAT_VERSION,
+      meta: { ...meta },
+      notes: [...notes].sort((a, b) => a.bar - b.bar || notePosition(a) - notePosition(b)),
+    };
+    if (tempo) chart.tempo = tempo;
+    if (moves) chart.moves = moves;
+    return chart;
+  }
+
+  function loadChart(chart: ChartFile): void {
+    stopPreview();
+    meta = { ...chart.meta };
+    notes = flattenChartNotes(chart);
+    tempo = chart.tempo;
+    moves = chart.moves;
+    barCount = Math.max(1, ...notes.map(n => n.bar + 1));
+    rebuild();
+    void refreshSaved();
+  }
+
+  /** Validate the draft; shows errors and returns null if it can't be played */
+  function validate(): SongDefinition | null {
+    const { song, errors } = parseChart(toChart());
+    if (!song) {
+      setStatus(`⚠️ ${errors.slice(0, 3).join(' · ')}`, true);
+      return null;
+    }
+    return song;
+  }
+
+  // ── Layout ─────────────────────────────────────────────────────────────────
+  const root = el('div', {}, {
+    position: 'absolute',
+    inset: '0',
+    display: 'flex',
+    flexDirection: 'column',
+    background: 'linear-gradient(160deg, #1a0533, #2d0a5e)',
+    overflow: 'hidden',
+  });
+
+  const topBar = el('div', {}, {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 'max(env(safe-area-inset-top,16px),16px) 16px 8px',
+    flexShrink: '0',
+  });
+
+  const backBtn = btn('← Back', () => {
+    haptic('light');
+    navigate('song-select');
+  }, 'ghost');
+  backBtn.style.cssText += 'padding: 10px 14px; min-height: 44px;';
+
+  const titleEl = el('h2', { textContent: '✏️ Chart Editor' }, {
+    fontSize: '20px', fontWeight: '800', margin: '0',
+  });
+
+  const newBtn = btn('New', () => {
+    haptic('light');
+    stopPreview();
+    meta = newMeta(state);
+    notes = [];
+    tempo = undefined;
+    moves = undefined;
+    barCount = DEFAULT_BARS;
+    rebuild();
+    setStatus('Started a new chart');
+  }, 'ghost');
+  newBtn.style.cssText += 'padding: 10px 14px; min-height: 44px;';
+
+  topBar.append(backBtn, titleEl, newBtn);
+
+  const scroll = el('div', {}, {
+    flex: '1',
+    overflowY: 'auto',
+    padding: '0 16px',
+    paddingBottom: 'max(env(safe-area-inset-bottom,16px),16px)',
+  });
+
+  const statusEl = el('div', {}, {
+    fontSize: '13px',
+    minHeight: '18px',
+    margin: '0 0 10px',
+    color: 'rgba(255,255,255,0.55)',
+  });
+
+  function setStatus(text: string, isError = false): void {
+    statusEl.textContent = text;
+    statusEl.style.color = isError ? '#FF6B6B' : 'rgba(255,255,255,0.55)';
+  }
+
+  const formContent = el('div', {}, {});
+  const savedList = el('div', {}, { display: 'flex', flexWrap: 'wrap', gap: '8px' });
+  const grid = el('div', {}, {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    marginBottom: '20px',
+  });
+
+  // Hidden file picker for JSON import
+  const fileInput = document.createElement('input');
+  fileInput.type = 'file';
+  fileInput.accept = 'application/json,.json';
+  fileInput.style.display = 'none';
+  fileInput.addEventListener('change', () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(text);
+      } catch {
+        setStatus('⚠️ That file is not valid JSON', true);
+        return;
+      }
+      const { song, errors } = parseChart(raw);
+      if (!song) {
+        setStatus(`⚠️ ${errors.slice(0, 3).join(' · ')}`, true);
+        return;
+      }
+      loadChart(raw as ChartFile);
+      setStatus(`Imported "${song.name}"`);
+    }).catch(err => {
+      console.warn('[Editor] Import failed:', err);
+      setStatus('⚠️ Could not read that file', true);
+    });
+  });
+
+  // ── Toolbar ────────────────────────────────────────────────────────────────
+  const toolbar = el('div', {}, {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(3, 1fr)',
+    gap: '8px',
+    margin: '4px 0 8px',
+  });
+
+  const previewBtn = btn('▶ Preview', () => {
+    haptic('light');
+    if (previewUnsub) stopPreview();
+    else startPreview();
+  }, 'secondary');
+
+  const saveBtn = btn('💾 Save', () => {
+    haptic('medium');
+    if (!validate()) return;
+    void dataService.saveChart(toChart()).then(() => {
+      setStatus(`Saved "${meta.name}"`);
+      void refreshSaved();
+    });
+  }, 'secondary');
+
+  const playBtn = btn('🕺 Play', () => {
+    haptic('medium');
+    const song = validate();
+    if (!song) return;
+    void dataService.saveChart(toChart()).then(() => {
+      state.selectedSong = song;
+      navigate('dance');
+    });
+  }, 'primary');
+
+  const exportBtn = btn('⬇ Export', () => {
+    haptic('light');
+    if (!validate()) return;
+    const blob = new Blob([JSON.stringify(toChart(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = el('a', { href: url, download: `${meta.id}.json` });
+    a.click();
+    URL.revokeObjectURL(url);
+    setStatus(`Exported ${meta.id}.json`);
+  }, 'ghost');
+
+  const importBtn = btn('⬆ Import', () => {
+    haptic('light');
+    fileInput.click();
+  }, 'ghost');
+
+  for (const b of [previewBtn, saveBtn, playBtn, exportBtn, importBtn]) {
+    b.style.cssText += 'padding: 10px 8px; min-height: 44px; font-size: 15px;';
+  }
+  toolbar.append(previewBtn, saveBtn, playBtn, exportBtn, importBtn);
+
+  scroll.append(toolbar, statusEl, formContent, fileInput);
+  root.append(topBar, scroll);
+
+  // ── Form ───────────────────────────────────────────────────────────────────
+  function textInput(value: string, label: string, onInput: (v: string) => void): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.maxLength = 32;
+    input.value = value;
+    input.setAttribute('aria-label', label);
+    input.style.cssText = `
+      width: 100%; padding: 12px 16px; border-radius: 14px;
+      border: 1.5px solid rgba(255,255,255,0.2); background: rgba(255,255,255,0.08);
+      color: #fff; font-size: 16px; font-family: inherit; box-sizing: border-box;
+    `;
+    input.addEventListener('input', () => onInput(input.value));
+    return input;
+  }
+
+  function rebuild(): void {
+    formContent.innerHTML = '';
+
+    formContent.appendChild(section('Name', [
+      textInput(meta.name, 'Chart name', v => { meta.name = v; }),
+    ]));
+
+    formContent.appendChild(section('Tempo', [
+      stepper(`${meta.bpm} BPM`, delta => {
+        meta.bpm = Math.max(MIN_BPM, Math.min(MAX_BPM, meta.bpm + delta * 4));
+        rebuild();
+      }),
+    ]));
+
+    formContent.appendChild(section('Music Style', [
+      optionRow(MUSIC_STYLES, meta.style, v => {
+        meta.style = v as MusicStyle;
+        rebuild();
+      }),
+    ]));
+
+    formContent.appendChild(section('Difficulty', [
+      optionRow(DIFFICULTY_LEVELS, meta.difficulty, v => {
+        meta.difficulty = v as DifficultyLevel;
+        rebuild();
+      }),
+    ]));
+
+    formContent.appendChild(section('Lanes', [
+      optionRow(['auto', ...LANE_MODES], meta.lanes ?? 'auto', v => {
+        if (v === 'auto') delete meta.lanes;
+        else meta.lanes = v as LaneMode;
+        rebuild();
+      }, LANE_LABELS),
+    ]));
+
+    formContent.appendChild(section('Bars', [
+      stepper(`${barCount}`, delta => {
+        barCount = Math.max(1, Math.min(MAX_BARS, barCount + delta));
+        notes = notes.filter(n => n.bar < barCount);
+        rebuild();
+      }),
+    ]));
+
+    formContent.appendChild(section('Grid', [
+      optionRow(RESOLUTIONS, String(division), v => {
+        division = Number(v);
+        rebuild();
+      }, RESOLUTION_LABELS),
+    ]));
+
+    formContent.appendChild(section('Saved Charts', [savedList]));
+    formContent.appendChild(section('Notes', [grid]));
+
+    renderGrid();
+  }
+
+  // ── Note Grid ──────────────────────────────────────────────────────────────
+  // One row per grid step, one column per TapZone. Row index = absolute step.
+  let rowEls: HTMLElement[] = [];
+
+  function findNote(bar: number, pos: number, zone: TapZone): number {
+    return notes.findIndex(n => n.bar === bar && n.zone === zone && Math.abs(notePosition(n) - pos) < 1e-6);
+  }
+
+  function styleCell(cell: HTMLElement, note: ChartTimedNote | undefined): void {
+    cell.textContent = note ? ZONE_LABELS[note.zone] : '';
+    cell.style.background = note
+      ? (note.hold ? 'linear-gradient(135deg,#4ECDC4,#6C3FF5)' : 'linear-gradient(135deg,#6C3FF5,#FF6B6B)')
+      : 'rgba(255,255,255,0.06)';
+  }
+
+  function renderGrid(): void {
+    grid.innerHTML = '';
+    rowEls = [];
+
+    const header = el('div', {}, {
+      display: 'grid',
+      gridTemplateColumns: '44px repeat(6, 1fr)',
+      gap: '2px',
+      fontSize: '12px',
+      color: 'rgba(255,255,255,0.45)',
+      textAlign: 'center',
+    });
+    header.appendChild(el('span'));
+    for (const zone of TAP_ZONES) {
+      header.appendChild(el('span', { textContent: ZONE_LABELS[zone], title: zone }));
+    }
+    grid.appendChild(header);
+
+    const bpb = beatsPerBar();
+    for (let bar = 0; bar < barCount; bar++) {
+      for (let beat = 0; beat < bpb; beat++) {
+        for (let step = 0; step < division; step++) {
+          const pos = beat + step / division;
+          const baseBg = step === 0 ? BEAT_ROW_BG : ROW_BG;
+          const row = el('div', {}, {
+            display: 'grid',
+            gridTemplateColumns: '44px repeat(6, 1fr)',
+            gap: '2px',
+            background: baseBg,
+            borderTop: beat === 0 && step === 0 ? '2px solid rgba(255,255,255,0.25)' : 'none',
+            borderRadius: '4px',
+          });
+          row.dataset.bg = baseBg;
+
+          const label = step === 0 ? `${bar + 1}.${beat + 1}` : '';
+          row.appendChild(el('span', { textContent: label }, {
+            fontSize: '11px',
+            color: 'rgba(255,255,255,0.45)',
+            alignSelf: 'center',
+            paddingLeft: '4px',
+          }));
+
+          for (const zone of TAP_ZONES) {
+            const cell = el('button', { 'aria-label': `Bar ${bar + 1} beat ${beat + 1} ${zone}` }, {
+              height: '26px',
+              border: 'none',
+              borderRadius: '6px',
+              color: '#fff',
+              fontSize: '13px',
+              fontFamily: 'inherit',
+              cursor: 'pointer',
+              padding: '0',
+            });
+            const idx = findNote(bar, pos, zone);
+            styleCell(cell, idx >= 0 ? notes[idx] : undefined);
+
+            cell.addEventListener('click', () => {
+              haptic('light');
+              const existing = findNote(bar, pos, zone);
+              if (existing >= 0) {
+                notes.splice(existing, 1);
+                styleCell(cell, undefined);
+              } else {
+                const note: ChartTimedNote = { bar, beat, zone };
+                const sub = subForStep(step, division);
+                if (sub) note.sub = sub;
+                notes.push(note);
+                styleCell(cell, note);
+              }
+            });
+            row.appendChild(cell);
+          }
+
+          grid.appendChild(row);
+          rowEls.push(row);
+        }
+      }
+    }
+  }
+
+  // ── Saved charts ───────────────────────────────────────────────────────────
+  async function refreshSaved(): Promise<void> {
+    const charts = await dataService.getCharts();
+    savedList.innerHTML = '';
+    if (charts.length === 0) {
+      savedList.appendChild(el('span', { textContent: 'Nothing saved yet.' }, {
+        fontSize: '13px', color: 'rgba(255,255,255,0.4)',
+      }));
+      return;
+    }
+    for (const chart of charts) {
+      const chip = el('div', {}, { display: 'flex', gap: '4px' });
+      const loadBtn = btn(`${chart.meta.emoji ?? '🎵'} ${chart.meta.name}`, () => {
+        haptic('light');
+        loadChart(chart);
+        setStatus(`Loaded "${chart.meta.name}"`);
+      }, chart.meta.id === meta.id ? 'primary' : 'secondary');
+      const delBtn = btn('🗑️', () => {
+        haptic('medium');
+        void dataService.deleteChart(chart.meta.id).then(refreshSaved);
+      }, 'ghost');
+      loadBtn.style.cssText += 'padding: 6px 12px; min-height: 36px; font-size: 14px;';
+      delBtn.style.cssText += 'padding: 6px 10px; min-height: 36px; font-size: 14px;';
+      chip.append(loadBtn, delBtn);
+      savedList.appendChild(chip);
+    }
+  }
+
+  // ── Preview ────────────────────────────────────────────────────────────────
+  // Loops the chart over the backing beat, lighting up each grid row and
+  // blipping on rows that hold notes.
+  let previewUnsub: (() => void) | null = null;
+  let previewTimers: ReturnType<typeof setTimeout>[] = [];
+  let playheadRow: HTMLElement | null = null;
+
+  function movePlayhead(row: HTMLElement | undefined): void {
+    if (playheadRow) playheadRow.style.background = playheadRow.dataset.bg ?? ROW_BG;
+    playheadRow = row ?? null;
+    if (playheadRow) {
+      playheadRow.style.background = PLAYHEAD_BG;
+      playheadRow.scrollIntoView({ block: 'nearest' });
+    }
+  }
+
+  function startPreview(): void {
+    soundSystem.init();
+    soundSystem.setEnabled(state.audioEnabled);
+
+    const bpb = beatsPerBar();
+    const tempoChanges = tempo?.map(t => ({ beat: t.bar * bpb + (t.beat ?? 0), bpm: t.bpm }));
+    const totalBeats = barCount * bpb;
+    soundSystem.startBeat(meta.bpm, meta.style, tempoChanges);
+
+    previewUnsub = soundSystem.onBeat((beatNum, beatTime) => {
+      const beat = beatNum % totalBeats;
+      const secPerBeat = 60 / bpmAtBeat(beatNum, meta.bpm, tempoChanges);
+      const now = soundSystem.getAudioCurrentTime() ?? beatTime;
+
+      for (let step = 0; step < division; step++) {
+        const delayMs = Math.max(0, (beatTime + (step / division) * secPerBeat - now) * 1000);
+        const rowIdx = beat * division + step;
+        previewTimers.push(setTimeout(() => {
+          movePlayhead(rowEls[rowIdx]);
+          const bar = Math.floor(beat / bpb);
+          const pos = (beat % bpb) + step / division;
+          if (TAP_ZONES.some(zone => findNote(bar, pos, zone) >= 0)) soundSystem.playGoodHit();
+        }, delayMs));
+      }
+      // Keep the timer list from growing while looping
+      if (previewTimers.length > division * 8) previewTimers = previewTimers.slice(-division * 4);
+    });
+
+    previewBtn.innerHTML = '■ Stop';
+    setStatus('Previewing…');
+  }
+
+  function stopPreview(): void {
+    if (!previewUnsub) return;
+    previewUnsub();
+    previewUnsub = null;
+    soundSystem.stopBeat();
+    for (const t of previewTimers) clearTimeout(t);
+    previewTimers = [];
+    movePlayhead(undefined);
+    previewBtn.innerHTML = '▶ Preview';
+    setStatus('');
+  }
+
+  rebuild();
+  void refreshSaved();
+
+  return { element: root, cleanup: stopPreview };
+}
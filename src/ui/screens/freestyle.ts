@@ -0,0 +1,450 @@
+import * as PIXI from 'pixi.js';
+import { GameState, GameScreen, DanceMoveId, DANCE_MOVES, FREESTYLE_MOVES, MAX_PALETTE_MOVES, SavedMove, XpAward } from '@/types';
+import { btn, haptic, el, formatScore } from '@/ui/components/button';
+import { GameEngine } from '@/game/engine';
+import { Character } from '@/game/character';
+import { CrowdManager } from '@/game/crowd';
+import { bpmAtBeat } from '@/game/chart';
+import { latencyOffsetsSec } from '@/game/calibration';
+import { ReplayRecorder, createSeed } from '@/game/replay';
+import {
+  createScoreState,
+  computeAccuracy,
+  computeGrade,
+  comboMilestoneEffects,
+} from '@/game/scoring';
+import { createFreestyleRun, judgeFreestyleMove, finishFreestyleRun } from '@/game/freestyle';
+import { sessionXpAward, countNewUnlocks } from '@/game/progression';
+import { soundSystem } from '@/game/sounds';
+import { dataService } from '@/services/supabase/data';
+import { gradeColor, drawBackground } from '@/ui/screens/dance';
+
+const MOVE_SOUNDS: Partial<Record<DanceMoveId, () => void>> = {
+  wiggle: () => soundSystem.playWiggle(),
+  robot: () => soundSystem.playRobot(),
+  worm: () => soundSystem.playWorm(),
+  flail: () => soundSystem.playFlail(),
+  spin: () => soundSystem.playSpin(),
+  custom: () => soundSystem.playDanceStart(),
+};
+
+const RATING_LABELS = { perfect: 'On beat!', good: 'Close!', miss: 'Off beat' };
+
+// ─── Freestyle Screen ─────────────────────────────────────────────────────────
+
+/**
+ * Dance the selected song's backing track with moves from the palette (see
+ * src/game/freestyle.ts for how they score). The run is recorded as a
+ * freestyle replay and submitted to the freestyle leaderboard. The player's
+ * recorded moves (see the recorder screen) join the palette and score as
+ * 'custom'.
+ */
+export function createFreestyleScreen(
+  state: GameState,
+  gameEngine: GameEngine,
+  navigate: (screen: GameScreen) => void
+): { element: HTMLElement; cleanup: () => void } {
+  const cleanup: Array<() => void> = [];
+
+  const root = el('div', {}, {
+    position: 'absolute',
+    inset: '0',
+    display: 'flex',
+    flexDirection: 'column',
+    pointerEvents: 'none',
+  });
+
+  // ── Game setup ─────────────────────────────────────────────────────────────
+  const { app } = gameEngine;
+  const W = gameEngine.width;
+  const H = gameEngine.height;
+  const song = state.selectedSong;
+
+  const bgLayer = new PIXI.Container();
+  const crowdLayer = new PIXI.Container();
+  const characterLayer = new PIXI.Container();
+  app.stage.addChild(bgLayer, crowdLayer, characterLayer);
+
+  const bgGfx = new PIXI.Graphics();
+  drawBackground(bgGfx, W, H);
+  bgLayer.addChild(bgGfx);
+
+  const character = new Character(state.profile.customization);
+  character.container.position.set(W / 2, H * 0.55);
+  characterLayer.addChild(character.container);
+
+  const crowdMgr = new CrowdManager(crowdLayer, W, H);
+
+  // Judged with the latency the replay records, so the verifier agrees
+  const latency = latencyOffsetsSec(state.profile.calibration);
+  const latencyMs: [number, number] = [Math.round(latency.audio * 1000), Math.round(latency.visual * 1000)];
+  const recorder = new ReplayRecorder(song.id, createSeed(), latencyMs, state.profile.displayName);
+
+  state.currentScore = createScoreState();
+  const scoreState = state.currentScore;
+  const run = createFreestyleRun(scoreState, song, latencyMs[0] / 1000);
+  const progressionAtStart = state.progression;
+
+  // ── HUD ────────────────────────────────────────────────────────────────────
+  const hud = el('div', {}, {
+    padding: 'max(env(safe-area-inset-top,8px),8px) 16px 0',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    pointerEvents: 'auto',
+  });
+
+  const scoreNum = el('div', { textContent: '0' }, {
+    fontSize: 'clamp(2rem, 8vw, 3rem)',
+    fontWeight: '900',
+    background: 'linear-gradient(90deg, #FFE66D, #FF6B6B)',
+    WebkitBackgroundClip: 'text',
+    WebkitTextFillColor: 'transparent',
+    backgroundClip: 'text',
+    lineHeight: '1',
+  });
+  const scoreEl = el('div', {}, { textAlign: 'center' });
+  scoreEl.append(scoreNum, el('div', { textContent: 'HYPE' }, {
+    fontSize: '11px', fontWeight: '700', letterSpacing: '2px', color: 'rgba(255,255,255,0.45)',
+  }));
+
+  const comboNum = el('div', { textContent: 'x1.0' }, { fontSize: '22px', fontWeight: '900', color: '#6BCB77' });
+  const comboEl = el('div', {}, { textAlign: 'center', minWidth: '80px' });
+  comboEl.append(comboNum, el('div', { textContent: 'COMBO' }, {
+    fontSize: '11px', fontWeight: '700', letterSpacing: '2px', color: 'rgba(255,255,255,0.45)',
+  }));
+
+  const exitBtn = btn('✕', () => {
+    haptic('light');
+    finishSession();
+    navigate('home');
+  }, 'ghost');
+  exitBtn.style.cssText += 'padding: 10px; min-height: 44px;';
+  exitBtn.setAttribute('aria-label', 'Exit to home');
+
+  hud.append(scoreEl, comboEl, exitBtn);
+
+  const banner = el('div', { textContent: `🕺 Freestyle · ${song.emoji} ${song.name}` }, {
+    margin: '8px 16px',
+    padding: '10px 14px',
+    background: 'rgba(255,255,255,0.08)',
+    borderRadius: '12px',
+    fontSize: '13px',
+    color: 'rgba(255,255,255,0.75)',
+  });
+
+  // What the last move scored
+  const feedback = el('div', { textContent: '🎵 Pick a move to start — land them on the beat!' }, {
+    textAlign: 'center',
+    fontSize: '15px',
+    fontWeight: '700',
+    color: 'rgba(255,255,255,0.7)',
+    padding: '8px 16px',
+    minHeight: '22px',
+  });
+
+  function updateHUD(): void {
+    scoreNum.textContent = formatScore(scoreState.totalScore);
+    comboNum.textContent = `x${scoreState.comboMultiplier.toFixed(1)}`;
+    comboNum.style.color = scoreState.combo >= 5 ? '#FFE66D' : '#6BCB77';
+  }
+
+  // ── Move palette ───────────────────────────────────────────────────────────
+  const builtInMoves = FREESTYLE_MOVES.filter(m => m !== 'custom');
+  const palette = el('div', {}, {
+    display: 'grid',
+    gridTemplateColumns: `repeat(${builtInMoves.length}, 1fr)`,
+    gap: '8px',
+    padding: '0 16px',
+    paddingBottom: 'max(env(safe-area-inset-bottom,16px),16px)',
+    pointerEvents: 'auto',
+  });
+
+  function moveButton(emoji: string, label: string, onPress: () => void): HTMLElement {
+    const moveBtn = el('button', { 'aria-label': label }, {
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '2px',
+      padding: '10px 0',
+      fontSize: '12px',
+      fontWeight: '700',
+      color: '#fff',
+      fontFamily: 'inherit',
+      borderRadius: '14px',
+      border: '1.5px solid rgba(255,255,255,0.2)',
+      background: 'rgba(255,255,255,0.08)',
+      cursor: 'pointer',
+      touchAction: 'manipulation',
+      overflow: 'hidden',
+      whiteSpace: 'nowrap',
+    });
+    moveBtn.append(el('span', { textContent: emoji }, { fontSize: '26px' }), label);
+    moveBtn.addEventListener('pointerdown', e => {
+      e.preventDefault();
+      onPress();
+    });
+    return moveBtn;
+  }
+
+  for (const move of builtInMoves) {
+    const def = DANCE_MOVES[move];
+    palette.appendChild(moveButton(def.emoji, def.label, () => performMove(move)));
+  }
+
+  // The player's own moves fill a second row once they've loaded
+  void dataService.getMoves(state.profile.id).then(moves => {
+    moves.slice(0, MAX_PALETTE_MOVES).forEach((saved, slot) => {
+      palette.appendChild(moveButton(DANCE_MOVES.custom.emoji, saved.name, () => performMove('custom', saved, slot)));
+    });
+  });
+
+  root.append(hud, banner, el('div', {}, { flex: '1' }), feedback, palette);
+
+  // ── Beat ───────────────────────────────────────────────────────────────────
+  // The song clock starts on the backing track's first beat, as in a rhythm round
+  let audioStarted = false;
+  let startTime: number | null = null;
+  let roundEndTriggered = false;
+  let roundOver = false;
+  let roundEndTimerId: ReturnType<typeof setTimeout> | null = null;
+  let beatUnsub: (() => void) | null = null;
+
+  function startSong(): void {
+    audioStarted = true;
+    soundSystem.init();
+    soundSystem.setEnabled(state.audioEnabled);
+    soundSystem.startBeat(song.bpm, song.style, run.tempoChanges);
+
+    beatUnsub = soundSystem.onBeat((beatNum, beatTime) => {
+      if (beatNum === 0) startTime = beatTime;
+      character.setTempo(bpmAtBeat(beatNum, song.bpm, run.tempoChanges));
+      if (beatNum === run.totalBeats - 1 && !roundEndTriggered) {
+        roundEndTriggered = true;
+        const beatSec = 60 / bpmAtBeat(beatNum, song.bpm, run.tempoChanges);
+        const delaySec = beatTime - (soundSystem.getAudioCurrentTime() ?? 0) + beatSec + 0.5;
+        roundEndTimerId = setTimeout(() => { void showResultsOverlay(); }, delaySec * 1000);
+      }
+    });
+  }
+
+  function songTime(): number | null {
+    return startTime === null ? null : (soundSystem.getAudioCurrentTime() ?? 0) - startTime;
+  }
+
+  // ── Moves ──────────────────────────────────────────────────────────────────
+  let idleTimerId: ReturnType<typeof setTimeout> | null = null;
+
+  function performMove(move: DanceMoveId, saved?: SavedMove, slot?: number): void {
+    haptic('light');
+    if (!audioStarted) startSong();
+
+    if (saved) character.playCustomMove(saved.animation);
+    else character.setDanceMove(move);
+    MOVE_SOUNDS[move]?.();
+    if (idleTimerId !== null) clearTimeout(idleTimerId);
+    idleTimerId = setTimeout(() => character.setDanceMove('idle'), DANCE_MOVES[move].duration);
+
+    const now = songTime();
+    if (now === null || now < 0 || roundOver) return;
+
+    // Rounded to the replay's millisecond grid, so the verifier scores it identically
+    const ms = Math.ceil(now * 1000);
+    recorder.recordMove(ms, move, slot);
+    const comboBefore = scoreState.combo;
+    const judgement = judgeFreestyleMove(run, move, ms / 1000, slot);
+
+    if (judgement.rating === 'miss') {
+      character.fluster();
+      if (comboBefore >= 3) {
+        crowdMgr.onComboBreak();
+        soundSystem.playComboBreak();
+      }
+    } else {
+      crowdMgr.onRhythmHit(judgement.rating, scoreState.comboMultiplier);
+      const effects = comboMilestoneEffects({
+        combo: scoreState.combo,
+        multiplier: scoreState.comboMultiplier,
+        perfectStreak: scoreState.consecutivePerfects,
+      });
+      for (const effect of effects) crowdMgr.triggerEffect(effect);
+    }
+
+    const variety = judgement.variety > 1 ? ` · 🔀 ×${judgement.variety.toFixed(2)}` : '';
+    const label = saved ? `${DANCE_MOVES.custom.emoji} ${saved.name}` : DANCE_MOVES[move].emoji;
+    feedback.textContent = `${label} ${RATING_LABELS[judgement.rating]} +${judgement.points}${variety}`;
+    feedback.style.color = judgement.rating === 'miss' ? 'rgba(255,255,255,0.5)' : '#FFE66D';
+    updateHUD();
+  }
+
+  // ── Main update loop ───────────────────────────────────────────────────────
+  let prevW = W;
+  let prevH = H;
+
+  cleanup.push(gameEngine.onUpdate(dt => {
+    character.setMood(scoreState.combo, crowdMgr.energyLevel);
+    character.update(dt);
+    crowdMgr.update(dt);
+
+    if (gameEngine.width !== prevW || gameEngine.height !== prevH) {
+      prevW = gameEngine.width;
+      prevH = gameEngine.height;
+      bgGfx.clear();
+      drawBackground(bgGfx, gameEngine.width, gameEngine.height);
+      character.placeAt(gameEngine.width / 2, gameEngine.height * 0.55);
+    }
+  }));
+
+  cleanup.push(() => {
+    if (roundEndTimerId !== null) clearTimeout(roundEndTimerId);
+    if (idleTimerId !== null) clearTimeout(idleTimerId);
+    if (beatUnsub) beatUnsub();
+    soundSystem.stopBeat();
+    crowdMgr.destroy();
+    character.destroy();
+    app.stage.removeChild(bgLayer, crowdLayer, characterLayer);
+  });
+
+  // ── Score submission ───────────────────────────────────────────────────────
+  /** Save the run and its XP; returns the XP awarded */
+  async function submitScore(songEnded: boolean): Promise<number> {
+    if (scoreState.totalScore <= 0) return 0;
+
+    // Only finished rounds go on the boards: one quit early has no replay to
+    // verify it with, so it could only ever be flagged
+    if (songEnded) {
+      await dataService.submitScore(state.profile.id, {
+        score: scoreState.totalScore,
+        mode: 'freestyle',
+        songId: song.id,
+        difficulty: song.difficulty,
+        metadata: {
+          perfectHits: scoreState.perfectHits,
+          goodHits: scoreState.goodHits,
+          totalHits: scoreState.totalHitAttempts,
+          comboPeak: run.peakCombo,
+          duration: Math.floor((Date.now() - scoreState.sessionStart) / 1000),
+        },
+        replay: recorder.finish(scoreState.totalScore),
+      });
+    }
+
+    const awards = [sessionXpAward(scoreState, songEnded)].filter((a): a is XpAward => a !== null);
+    await dataService.awardXp(state.profile.id, awards);
+    state.progression = await dataService.getProgression(state.profile.id);
+    return awards.reduce((sum, a) => sum + a.xp, 0);
+  }
+
+  // ── Results overlay ────────────────────────────────────────────────────────
+  async function showResultsOverlay(): Promise<void> {
+    roundOver = true;
+    soundSystem.stopBeat();
+    soundSystem.playVictory();
+    character.setDanceMove('idle');
+
+    const bonus = finishFreestyleRun(run);
+    updateHUD();
+    const accuracy = computeAccuracy(scoreState);
+    const grade = computeGrade(accuracy);
+    const xpEarned = await submitScore(true);
+
+    const overlay = el('div', {}, {
+      position: 'absolute',
+      inset: '0',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: 'rgba(10,0,25,0.92)',
+      padding: '24px',
+      boxSizing: 'border-box',
+      zIndex: '100',
+      pointerEvents: 'auto',
+    });
+
+    const header = el('div', { textContent: `🕺 ${song.emoji} ${song.name}` }, {
+      fontSize: '18px', color: 'rgba(255,255,255,0.6)', marginBottom: '8px', textAlign: 'center',
+    });
+    const gradeEl = el('div', { textContent: grade }, {
+      fontSize: 'clamp(80px,22vw,120px)',
+      fontWeight: '900',
+      lineHeight: '1',
+      color: gradeColor(grade),
+      textShadow: '0 0 40px currentColor',
+      marginBottom: '12px',
+    });
+    const accuracyEl = el('div', { textContent: `${Math.round(accuracy * 100)}% on the beat` }, {
+      fontSize: '20px', color: 'rgba(255,255,255,0.75)', marginBottom: '24px', fontWeight: '700',
+    });
+
+    const xpEl = el('div', {}, {
+      fontSize: '15px', color: '#FFE66D', margin: '-12px 0 20px', fontWeight: '700', textAlign: 'center',
+    });
+    if (xpEarned > 0) {
+      const { level } = state.progression;
+      const unlocks = countNewUnlocks(progressionAtStart, state.progression);
+      xpEl.textContent = [
+        `⭐ +${xpEarned} XP`,
+        level > progressionAtStart.level ? `🎉 Level ${level}!` : `Level ${level}`,
+        unlocks > 0 ? `🔓 ${unlocks} new look${unlocks === 1 ? '' : 's'}` : '',
+      ].filter(Boolean).join(' · ');
+    }
+
+    const grid = el('div', {}, {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr',
+      gap: '10px',
+      width: '100%',
+      maxWidth: '320px',
+      marginBottom: '28px',
+    });
+    const stats: Array<[string, string]> = [
+      ['Moves',   String(scoreState.totalHitAttempts)],
+      ['On beat', String(scoreState.perfectHits + scoreState.goodHits)],
+      ['Peak ×',  run.peakCombo.toFixed(1)],
+      ['Bonus',   `+${bonus}`],
+    ];
+    for (const [label, value] of stats) {
+      const cell = el('div', {}, {
+        background: 'rgba(255,255,255,0.07)', borderRadius: '12px', padding: '10px 14px', textAlign: 'center',
+      });
+      cell.append(
+        el('div', { textContent: value }, { fontSize: '22px', fontWeight: '900', color: '#fff' }),
+        el('div', { textContent: label }, {
+          fontSize: '11px', color: 'rgba(255,255,255,0.45)', fontWeight: '700', letterSpacing: '1px', marginTop: '2px',
+        })
+      );
+      grid.appendChild(cell);
+    }
+
+    const againBtn = btn('🔁 Dance Again', () => {
+      haptic('medium');
+      navigate('song-select');
+    }, 'primary');
+    const homeBtn = btn('🏠 Home', () => {
+      haptic('light');
+      navigate('home');
+    }, 'ghost');
+    againBtn.style.flex = '1';
+    homeBtn.style.flex = '1';
+    const btnRow = el('div', {}, { display: 'flex', gap: '12px', width: '100%', maxWidth: '320px' });
+    btnRow.append(againBtn, homeBtn);
+
+    overlay.append(header, gradeEl, accuracyEl, xpEl, grid, btnRow);
+    root.appendChild(overlay);
+  }
+
+  // ── Session finish (early exit via ✕ button) ───────────────────────────────
+  async function finishSession(): Promise<void> {
+    if (roundOver) return;
+    roundOver = true;
+    await submitScore(false);
+  }
+
+  return {
+    element: root,
+    cleanup: () => {
+      for (const fn of cleanup) fn();
+    },
+  };
+}
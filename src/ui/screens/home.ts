@@ -1,8 +1,15 @@
-import { GameState, GameScreen } from '@/types';
+import { GameState, GameScreen, SONGS } from '@/types';
 import { btn, el, formatScore } from '@/ui/components/button';
 import { haptic } from '@/ui/components/button';
 import { authService } from '@/services/supabase/auth';
 import { dataService } from '@/services/supabase/data';
+import { isSupabaseConfigured } from '@/services/supabase/client';
+import { describeMigration } from '@/services/supabase/migration';
+import { loadBundledSongs } from '@/game/chart';
+import { soundSystem } from '@/game/sounds';
+
+const ATTRACT_IDLE_MS = 30000;  // untouched this long, home hands over to the bot
+const ATTRACT_JITTER_MS = 30;   // so the demo looks played rather than perfect
 
 export function createHomeScreen(
   state: GameState,
@@ -102,20 +109,119 @@ export function createHomeScreen(
     marginTop: '2px',
   });
 
+  const { level, levelXp, nextLevelXp } = state.progression;
+  const levelEl = el('div', {
+    textContent: `⭐ Level ${level}${nextLevelXp > 0 ? ` · ${levelXp}/${nextLevelXp} XP` : ''}`,
+  }, {
+    fontSize: '13px',
+    color: '#FFE66D',
+    marginTop: '2px',
+  });
+
   const bestScoreEl = el('div', { textContent: 'Best: —' }, {
     fontSize: '13px',
     color: 'rgba(255,255,255,0.45)',
     marginTop: '2px',
   });
 
-  profileInfo.append(profileName, guestBadge, bestScoreEl);
+  const streakEl = el('div', {}, {
+    fontSize: '13px',
+    color: '#FFA94D',
+    marginTop: '2px',
+  });
+
+  profileInfo.append(profileName, guestBadge, levelEl, bestScoreEl, streakEl);
   profileCard.append(avatar, profileInfo);
 
-  // Load best score async
+  // Load best score and challenge streak async
   if (state.profile.id) {
     dataService.getUserBestScore(state.profile.id).then(best => {
       bestScoreEl.textContent = best > 0 ? `Best: ${formatScore(best)} Hype` : 'No scores yet';
     });
+    dataService.getChallengeStats(state.profile.id).then(stats => {
+      if (stats.currentStreak > 0) streakEl.textContent = `🔥 ${stats.currentStreak}-day challenge streak`;
+    });
+  }
+
+  // ── Save Progress (guests) ──────────────────────────────────────────────────
+  // A magic link signs in as a real account; whatever this guest has is
+  // migrated into it when the link is opened (see migration.ts)
+  const accountRow = el('div', {}, {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    width: 'calc(100% - 48px)',
+    maxWidth: '380px',
+    boxSizing: 'border-box',
+  });
+
+  if (state.profile.isGuest && isSupabaseConfigured()) {
+    const emailRow = el('div', {}, { display: 'none', gap: '8px' });
+    const emailInput = document.createElement('input');
+    emailInput.type = 'email';
+    emailInput.placeholder = 'you@example.com';
+    emailInput.setAttribute('aria-label', 'Email for a sign-in link');
+    emailInput.style.cssText = `
+      flex: 1; min-width: 0; padding: 12px 16px; border-radius: 14px;
+      border: 1.5px solid rgba(255,255,255,0.2); background: rgba(255,255,255,0.08);
+      color: #fff; font-size: 16px; font-family: inherit; box-sizing: border-box;
+    `;
+    const statusEl = el('div', {}, {
+      fontSize: '13px',
+      color: 'rgba(255,255,255,0.6)',
+      textAlign: 'center',
+    });
+
+    const sendBtn = btn('Send link', async () => {
+      const email = emailInput.value.trim();
+      if (!email.includes('@')) {
+        statusEl.textContent = 'Enter your email address.';
+        return;
+      }
+      haptic('light');
+      sendBtn.disabled = true;
+      statusEl.textContent = 'Sending…';
+      const { error } = await authService.signInWithEmail(email);
+      sendBtn.disabled = false;
+      statusEl.textContent = error
+        ? `Couldn't send the link: ${error}`
+        : '📬 Check your email — open the link to keep your scores and outfits.';
+    }, 'primary');
+    sendBtn.style.cssText += 'font-size: 14px; padding: 10px 16px;';
+    emailRow.append(emailInput, sendBtn);
+
+    const saveBtn = btn('✉️ Save progress', () => {
+      haptic('light');
+      saveBtn.style.display = 'none';
+      emailRow.style.display = 'flex';
+      emailInput.focus();
+    }, 'ghost');
+    saveBtn.style.cssText += 'font-size: 14px; padding: 10px;';
+
+    accountRow.append(saveBtn, emailRow, statusEl);
+  }
+
+  // Summary of a guest → account migration that just ran
+  if (state.migration) {
+    const banner = el('div', { role: 'status' }, {
+      background: 'rgba(107,203,119,0.15)',
+      border: '1px solid rgba(107,203,119,0.4)',
+      borderRadius: '16px',
+      padding: '12px 16px',
+      fontSize: '14px',
+      lineHeight: '1.4',
+    });
+    banner.append(el('div', { textContent: '🎉 Welcome to your account!' }, { fontWeight: '700', marginBottom: '4px' }));
+    for (const line of describeMigration(state.migration)) {
+      banner.append(el('div', { textContent: line }, { color: 'rgba(255,255,255,0.75)' }));
+    }
+    const dismissBtn = btn('Got it', () => {
+      state.migration = null;
+      banner.remove();
+    }, 'ghost');
+    dismissBtn.style.cssText += 'font-size: 13px; padding: 6px 12px; margin-top: 8px;';
+    banner.append(dismissBtn);
+    accountRow.append(banner);
   }
 
   // ── Main Buttons ────────────────────────────────────────────────────────────
@@ -148,9 +254,19 @@ export function createHomeScreen(
     haptic('light');
     navigate('leaderboard');
   }, 'secondary');
-  lbBtn.style.cssText += 'grid-column: 1 / -1;';
 
-  buttonGrid.append(playBtn, customizeBtn, lockerBtn, lbBtn);
+  const challengesBtn = btn('📅 Challenges', () => {
+    haptic('light');
+    navigate('challenges');
+  }, 'secondary');
+
+  const trophiesBtn = btn('🎖️ Trophies', () => {
+    haptic('light');
+    navigate('trophies');
+  }, 'secondary');
+  trophiesBtn.style.cssText += 'grid-column: 1 / -1;';
+
+  buttonGrid.append(playBtn, customizeBtn, lockerBtn, lbBtn, challengesBtn, trophiesBtn);
 
   // ── Settings Row ────────────────────────────────────────────────────────────
   const settingsRow = el('div', {}, {
@@ -183,10 +299,16 @@ export function createHomeScreen(
   );
   motionBtn.style.cssText += 'flex: 1; font-size: 14px; padding: 10px;';
 
-  settingsRow.append(audioBtn, motionBtn);
+  const calibrateBtn = btn('🎧 Calibrate', () => {
+    haptic('light');
+    navigate('calibration');
+  }, 'ghost');
+  calibrateBtn.style.cssText += 'flex: 1; font-size: 14px; padding: 10px;';
+
+  settingsRow.append(audioBtn, motionBtn, calibrateBtn);
 
   // ── Assemble ────────────────────────────────────────────────────────────────
-  root.append(header, profileCard, buttonGrid, settingsRow);
+  root.append(header, profileCard, accountRow, buttonGrid, settingsRow);
 
   // Inject bounce keyframe if not already present
   if (!document.getElementById('home-bounce-style')) {
@@ -201,6 +323,26 @@ export function createHomeScreen(
     document.head.appendChild(style);
   }
 
+  // ── Attract mode ────────────────────────────────────────────────────────────
+  // Left alone, home has the auto-play bot dance a random song. Browsers only
+  // let audio start after a touch, so the demo waits until there's been one.
+  let attractTimer: ReturnType<typeof setTimeout> | null = null;
+  function armAttract(): void {
+    if (attractTimer !== null) clearTimeout(attractTimer);
+    attractTimer = setTimeout(() => {
+      if (!root.isConnected || soundSystem.getAudioContext()?.state !== 'running') return;
+      const songs = [...SONGS, ...loadBundledSongs()];
+      state.selectedSong = songs[Math.floor(Math.random() * songs.length)];
+      state.autoplay = { jitterMs: ATTRACT_JITTER_MS, exitTo: 'home' };
+      navigate('demo');
+    }, ATTRACT_IDLE_MS);
+  }
+  root.addEventListener('pointerdown', () => {
+    soundSystem.init();
+    armAttract();
+  });
+  armAttract();
+
   // Subscribe to profile changes
   const unsubProfile = () => {
     const p = authService.profile;
@@ -1,6 +1,33 @@
-import { GameState, GameScreen, ScoreEntry } from '@/types';
-import { btn, el, formatScore } from '@/ui/components/button';
+import {
+  GameState,
+  GameScreen,
+  ScoreEntry,
+  SONGS,
+  SongDefinition,
+  DifficultyLevel,
+  DIFFICULTY_LEVELS,
+  LeaderboardFilter,
+  LeaderboardWindow,
+  LEADERBOARD_WINDOWS,
+  ScoreMode,
+  SCORE_MODES,
+} from '@/types';
+import { btn, el, formatScore, optionRow, haptic } from '@/ui/components/button';
 import { dataService } from '@/services/supabase/data';
+import { loadBundledSongs } from '@/game/chart';
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  'daily': 'Today',
+  'weekly': 'This Week',
+  'all-time': 'All Time',
+};
+
+const MODE_LABELS: Record<ScoreMode, string> = {
+  rhythm: '🎵 Rhythm',
+  freestyle: '🕺 Freestyle',
+};
+
+const ALL = 'all';
 
 export function createLeaderboardScreen(
   state: GameState,
@@ -60,10 +87,63 @@ export function createLeaderboardScreen(
   pbInfo.append(pbTitle, pbScore);
   personalBest.append(pbIcon, pbInfo);
 
-  dataService.getUserBestScore(state.profile.id).then(best => {
-    pbScore.textContent = best > 0 ? `${formatScore(best)} Hype` : 'No scores yet';
+  // Filters — a song fixes the difficulty, so that row only shows for all songs
+  const songs: SongDefinition[] = [...SONGS, ...loadBundledSongs()];
+  // Opens on the song last picked, if it's one with a shared board
+  const filter: LeaderboardFilter = {
+    mode: 'rhythm',
+    window: 'all-time',
+    songId: songs.some(s => s.id === state.selectedSong.id) ? state.selectedSong.id : undefined,
+  };
+
+  const filtersEl = el('div', {}, {
+    margin: '0 16px 12px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    flexShrink: '0',
   });
 
+  function renderFilters(): void {
+    filtersEl.innerHTML = '';
+
+    filtersEl.appendChild(optionRow(SCORE_MODES, filter.mode ?? 'rhythm', v => {
+      filter.mode = v as ScoreMode;
+      applyFilter();
+    }, MODE_LABELS));
+
+    filtersEl.appendChild(optionRow(LEADERBOARD_WINDOWS, filter.window ?? 'all-time', v => {
+      filter.window = v as LeaderboardWindow;
+      applyFilter();
+    }, WINDOW_LABELS));
+
+    const songLabels: Record<string, string> = { [ALL]: 'All Songs' };
+    for (const s of songs) songLabels[s.id] = `${s.emoji} ${s.name}`;
+    const songRow = optionRow([ALL, ...songs.map(s => s.id)], filter.songId ?? ALL, v => {
+      filter.songId = v === ALL ? undefined : v;
+      if (filter.songId) filter.difficulty = undefined;
+      applyFilter();
+    }, songLabels);
+    songRow.style.flexWrap = 'nowrap';
+    songRow.style.overflowX = 'auto';
+    filtersEl.appendChild(songRow);
+
+    if (!filter.songId) {
+      const difficultyLabels: Record<string, string> = { [ALL]: 'Any Difficulty' };
+      for (const d of DIFFICULTY_LEVELS) difficultyLabels[d] = d.charAt(0).toUpperCase() + d.slice(1);
+      filtersEl.appendChild(optionRow([ALL, ...DIFFICULTY_LEVELS], filter.difficulty ?? ALL, v => {
+        filter.difficulty = v === ALL ? undefined : v as DifficultyLevel;
+        applyFilter();
+      }, difficultyLabels));
+    }
+  }
+
+  function applyFilter(): void {
+    haptic('light');
+    renderFilters();
+    loadScores();
+  }
+
   // Loading spinner
   const loadingEl = el('div', { textContent: 'Loading scores...' }, {
     textAlign: 'center',
@@ -80,17 +160,35 @@ export function createLeaderboardScreen(
     paddingBottom: 'max(env(safe-area-inset-bottom,16px),16px)',
   });
 
-  scoresList.appendChild(loadingEl);
+  root.append(topBar, personalBest, filtersEl, scoresList);
+
+  // Load leaderboard — only the latest request is shown if filters change quickly
+  let loadId = 0;
+
+  function loadScores(): void {
+    const id = ++loadId;
+    scoresList.innerHTML = '';
+    scoresList.appendChild(loadingEl);
 
-  root.append(topBar, personalBest, scoresList);
+    dataService.getUserBestScore(state.profile.id, filter.mode).then(best => {
+      if (id !== loadId) return;
+      pbScore.textContent = best > 0 ? `${formatScore(best)} Hype` : 'No scores yet';
+    });
+
+    dataService.getLeaderboard(20, { ...filter }).then(entries => {
+      if (id !== loadId) return;
+      showScores(entries);
+    });
+  }
 
-  // Load leaderboard
-  dataService.getLeaderboard(20).then(entries => {
+  function showScores(entries: ScoreEntry[]): void {
     scoresList.removeChild(loadingEl);
 
     if (entries.length === 0) {
       scoresList.appendChild(el('div', {
-        textContent: 'No scores yet! Be the first to play.',
+        textContent: filter.window === 'all-time'
+          ? 'No scores yet! Be the first to play.'
+          : 'No scores in this window yet — go set one!',
       }, {
         textAlign: 'center',
         padding: '40px 16px',
@@ -106,7 +204,10 @@ export function createLeaderboardScreen(
       const row = createScoreRow(entry, idx, medals[idx] ?? `${idx + 1}`);
       scoresList.appendChild(row);
     });
-  });
+  }
+
+  renderFilters();
+  loadScores();
 
   return root;
 }
@@ -131,7 +232,12 @@ function createScoreRow(entry: ScoreEntry, idx: number, medal: string): HTMLElem
     color: idx >= 3 ? 'rgba(255,255,255,0.4)' : '',
   });
 
-  const nameEl = el('div', { textContent: entry.displayName ?? 'Wobbler' }, {
+  // Pending scores are shown until the verifier gets to them; flagged ones never arrive here
+  const name = entry.displayName ?? 'Wobbler';
+  const nameEl = el('div', {
+    textContent: entry.verification === 'verified' ? `${name} ✓` : name,
+    title: entry.verification === 'verified' ? 'Verified from replay' : '',
+  }, {
     flex: '1',
     fontWeight: '700',
     fontSize: '15px',
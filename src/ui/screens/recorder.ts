@@ -0,0 +1,330 @@
+import * as PIXI from 'pixi.js';
+import { GameState, GameScreen, DanceAnimation, SavedMove, DANCE_MOVES } from '@/types';
+import { btn, haptic, el, toast } from '@/ui/components/button';
+import { GameEngine } from '@/game/engine';
+import { Character } from '@/game/character';
+import { zoneAt, RAIL_Y } from '@/game/judge';
+import { latencyOffsetsSec } from '@/game/calibration';
+import { MoveTap, MAX_MOVE_BEATS, buildCustomMove } from '@/game/moves';
+import { soundSystem } from '@/game/sounds';
+import { dataService } from '@/services/supabase/data';
+import { drawBackground } from '@/ui/screens/dance';
+
+const COUNT_IN_BEATS = 4;
+const DEFAULT_MOVE_NAME = 'My Move';
+
+type Phase = 'ready' | 'count-in' | 'recording' | 'review';
+
+// ─── Move Recorder Screen ─────────────────────────────────────────────────────
+
+/**
+ * Record a dance move of your own: after a count-in, puppeteer taps over
+ * MAX_MOVE_BEATS beats of the selected song's groove are snapped to the beat
+ * and turned into a looping clip (see src/game/moves.ts). Saved moves sit
+ * alongside the player's outfits and join the freestyle palette.
+ */
+export function createRecorderScreen(
+  state: GameState,
+  gameEngine: GameEngine,
+  navigate: (screen: GameScreen) => void
+): { element: HTMLElement; cleanup: () => void } {
+  const cleanup: Array<() => void> = [];
+
+  const root = el('div', {}, {
+    position: 'absolute',
+    inset: '0',
+    display: 'flex',
+    flexDirection: 'column',
+    pointerEvents: 'none',
+  });
+
+  // ── Stage ──────────────────────────────────────────────────────────────────
+  const { app } = gameEngine;
+  const song = state.selectedSong;
+
+  const bgLayer = new PIXI.Container();
+  const characterLayer = new PIXI.Container();
+  app.stage.addChild(bgLayer, characterLayer);
+
+  const bgGfx = new PIXI.Graphics();
+  const guideGfx = new PIXI.Graphics();
+  bgLayer.addChild(bgGfx, guideGfx);
+
+  /** Faint lines between the tap zones, so it's clear which limb a tap moves */
+  function drawStage(W: number, H: number): void {
+    bgGfx.clear();
+    drawBackground(bgGfx, W, H);
+    guideGfx.clear();
+    guideGfx.lineStyle(1, 0xffffff, 0.12);
+    for (const x of [W / 3, (2 * W) / 3]) {
+      guideGfx.moveTo(x, 0);
+      guideGfx.lineTo(x, H);
+    }
+    guideGfx.moveTo(0, H * RAIL_Y);
+    guideGfx.lineTo(W, H * RAIL_Y);
+  }
+  drawStage(gameEngine.width, gameEngine.height);
+
+  const character = new Character(state.profile.customization);
+  character.container.position.set(gameEngine.width / 2, gameEngine.height * 0.55);
+  character.setTempo(song.bpm);
+  characterLayer.addChild(character.container);
+
+  // ── Top bar ────────────────────────────────────────────────────────────────
+  const topBar = el('div', {}, {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 'max(env(safe-area-inset-top,16px),16px) 20px 12px',
+    pointerEvents: 'auto',
+  });
+  const backBtn = btn('← Back', () => {
+    haptic('light');
+    navigate('song-select');
+  }, 'ghost');
+  backBtn.style.padding = '10px 16px';
+  topBar.append(
+    backBtn,
+    el('h2', { textContent: '🎬 Move Recorder' }, { fontSize: '20px', fontWeight: '800', margin: '0' }),
+    el('div', {}, { width: '80px' })
+  );
+
+  const status = el('div', {}, {
+    margin: '0 16px',
+    padding: '10px 14px',
+    background: 'rgba(255,255,255,0.08)',
+    borderRadius: '12px',
+    fontSize: '14px',
+    fontWeight: '700',
+    textAlign: 'center',
+    color: 'rgba(255,255,255,0.8)',
+  });
+
+  // ── Controls ───────────────────────────────────────────────────────────────
+  const panel = el('div', {}, {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+    padding: '0 16px',
+    paddingBottom: 'max(env(safe-area-inset-bottom,16px),16px)',
+    pointerEvents: 'auto',
+  });
+
+  const recordBtn = btn(`⏺ Record ${MAX_MOVE_BEATS} Beats`, () => {
+    haptic('medium');
+    startTake();
+  }, 'primary');
+
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.maxLength = 20;
+  nameInput.placeholder = DEFAULT_MOVE_NAME;
+  nameInput.setAttribute('aria-label', 'Move name');
+  nameInput.style.cssText = `
+    width: 100%; padding: 12px 16px; border-radius: 14px;
+    border: 1.5px solid rgba(255,255,255,0.2); background: rgba(255,255,255,0.08);
+    color: #fff; font-size: 16px; font-family: inherit; box-sizing: border-box;
+  `;
+
+  const saveBtn = btn('💾 Save Move', () => { void saveTake(); }, 'primary');
+  const retakeBtn = btn('🔁 Retake', () => {
+    haptic('light');
+    startTake();
+  }, 'ghost');
+  saveBtn.style.flex = '1';
+  retakeBtn.style.flex = '1';
+  const reviewRow = el('div', {}, { display: 'flex', gap: '12px' });
+  reviewRow.append(saveBtn, retakeBtn);
+
+  const savedList = el('div', {}, {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    maxHeight: '30vh',
+    overflowY: 'auto',
+  });
+
+  panel.append(recordBtn, nameInput, reviewRow, savedList);
+  root.append(topBar, status, el('div', {}, { flex: '1' }), panel);
+
+  // ── Takes ──────────────────────────────────────────────────────────────────
+  const latency = latencyOffsetsSec(state.profile.calibration);
+  const secPerBeat = 60 / song.bpm;
+  let phase: Phase = 'ready';
+  let taps: MoveTap[] = [];
+  let take: DanceAnimation | null = null;
+  let recordStart: number | null = null;   // audio time of the take's first beat
+  let beatUnsub: (() => void) | null = null;
+  let endTimerId: ReturnType<typeof setTimeout> | null = null;
+
+  function setPhase(next: Phase, message: string): void {
+    phase = next;
+    status.textContent = message;
+    const reviewing = next === 'review';
+    recordBtn.style.display = reviewing ? 'none' : 'flex';
+    recordBtn.disabled = next === 'count-in' || next === 'recording';
+    recordBtn.style.opacity = recordBtn.disabled ? '0.5' : '1';
+    nameInput.style.display = reviewing ? 'block' : 'none';
+    reviewRow.style.display = reviewing ? 'flex' : 'none';
+  }
+
+  function stopBeat(): void {
+    if (endTimerId !== null) clearTimeout(endTimerId);
+    endTimerId = null;
+    if (beatUnsub) beatUnsub();
+    beatUnsub = null;
+    soundSystem.stopBeat();
+  }
+
+  function startTake(): void {
+    stopBeat();
+    taps = [];
+    take = null;
+    recordStart = null;
+    character.setDanceMove('idle');
+    setPhase('count-in', `Get ready… ${COUNT_IN_BEATS}`);
+
+    soundSystem.init();
+    soundSystem.setEnabled(state.audioEnabled);
+    soundSystem.startBeat(song.bpm, song.style);
+
+    beatUnsub = soundSystem.onBeat((beatNum, beatTime) => {
+      if (beatNum === 0) recordStart = beatTime + COUNT_IN_BEATS * secPerBeat;
+      const beat = beatNum - COUNT_IN_BEATS;
+      if (beat < 0) {
+        setPhase('count-in', `Get ready… ${-beat}`);
+      } else if (beat < MAX_MOVE_BEATS) {
+        setPhase('recording', `⏺ Tap the zones on the beat · ${beat + 1} / ${MAX_MOVE_BEATS}`);
+      } else if (beat === MAX_MOVE_BEATS) {
+        // The take ends on the beat after its last; any later tap would snap past the end
+        const delaySec = beatTime - (soundSystem.getAudioCurrentTime() ?? 0);
+        endTimerId = setTimeout(finishTake, Math.max(0, delaySec) * 1000);
+      }
+    });
+  }
+
+  function finishTake(): void {
+    stopBeat();
+    take = buildCustomMove(taps);
+    if (!take) {
+      setPhase('ready', `No taps landed in the ${MAX_MOVE_BEATS} beats — try again!`);
+      return;
+    }
+    character.playCustomMove(take);
+    nameInput.value = '';
+    setPhase('review', `${DANCE_MOVES.custom.emoji} Here's your move! Name it and save it for freestyle.`);
+  }
+
+  async function saveTake(): Promise<void> {
+    if (!take) return;
+    haptic('medium');
+    const name = nameInput.value.trim() || DEFAULT_MOVE_NAME;
+    saveBtn.disabled = true;
+    const saved = await dataService.saveMove(state.profile.id, { name, animation: take });
+    saveBtn.disabled = false;
+    if (!saved) {
+      toast('⚠️', 'Couldn\'t save the move', 'Try again in a moment.');
+      return;
+    }
+    toast(DANCE_MOVES.custom.emoji, `Saved “${name}”`, 'It\'s on your freestyle palette now.');
+    take = null;
+    character.setDanceMove('idle');
+    setPhase('ready', 'Record another, or tap a saved move to see it again.');
+    void loadSaved();
+  }
+
+  // ── Saved moves ────────────────────────────────────────────────────────────
+  function savedRow(move: SavedMove): HTMLElement {
+    const row = el('div', {}, {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '10px',
+      padding: '8px 12px',
+      background: 'rgba(255,255,255,0.06)',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '14px',
+    });
+    const nameEl = el('div', { textContent: `${DANCE_MOVES.custom.emoji} ${move.name}` }, {
+      flex: '1', minWidth: '0', fontWeight: '700', fontSize: '15px',
+      overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+    });
+    const subEl = el('div', { textContent: `${move.animation.beats} beats` }, {
+      fontSize: '12px', color: 'rgba(255,255,255,0.45)', flexShrink: '0',
+    });
+
+    const playBtn = btn('▶️', () => {
+      haptic('light');
+      if (phase === 'count-in' || phase === 'recording') return;
+      character.playCustomMove(move.animation);
+    }, 'secondary');
+    playBtn.style.cssText += 'padding: 6px 10px; font-size: 14px; min-height: 36px;';
+    playBtn.setAttribute('aria-label', `Preview ${move.name}`);
+
+    const deleteBtn = btn('🗑️', async () => {
+      haptic('light');
+      if (move.id) await dataService.deleteMove(state.profile.id, move.id);
+      void loadSaved();
+    }, 'danger');
+    deleteBtn.style.cssText += 'padding: 6px 10px; font-size: 14px; min-height: 36px;';
+    deleteBtn.setAttribute('aria-label', `Delete ${move.name}`);
+
+    row.append(nameEl, subEl, playBtn, deleteBtn);
+    return row;
+  }
+
+  async function loadSaved(): Promise<void> {
+    const moves = await dataService.getMoves(state.profile.id);
+    savedList.innerHTML = '';
+    for (const move of moves) savedList.appendChild(savedRow(move));
+  }
+
+  setPhase('ready', `${song.emoji} ${song.name} · Record, then tap the zones on the beat to build a move`);
+  void loadSaved();
+
+  // ── Canvas taps (puppeteer, captured while recording) ──────────────────────
+  const canvasEl = app.view as HTMLCanvasElement;
+  canvasEl.style.pointerEvents = 'auto';
+  canvasEl.style.touchAction = 'none';
+
+  const handlePointerDown = (e: PointerEvent): void => {
+    e.preventDefault();
+    haptic('light');
+    const rect = canvasEl.getBoundingClientRect();
+    const zone = zoneAt((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+    character.reactToZone(zone, 'good');
+
+    const now = soundSystem.getAudioCurrentTime();
+    if ((phase !== 'count-in' && phase !== 'recording') || recordStart === null || now === null) return;
+    taps.push({ beat: (now - latency.audio - recordStart) / secPerBeat, zone });
+  };
+  canvasEl.addEventListener('pointerdown', handlePointerDown);
+  cleanup.push(() => canvasEl.removeEventListener('pointerdown', handlePointerDown));
+
+  // ── Main update loop ───────────────────────────────────────────────────────
+  let prevW = gameEngine.width;
+  let prevH = gameEngine.height;
+
+  cleanup.push(gameEngine.onUpdate(dt => {
+    character.update(dt);
+
+    if (gameEngine.width !== prevW || gameEngine.height !== prevH) {
+      prevW = gameEngine.width;
+      prevH = gameEngine.height;
+      drawStage(prevW, prevH);
+      character.placeAt(prevW / 2, prevH * 0.55);
+    }
+  }));
+
+  cleanup.push(() => {
+    stopBeat();
+    character.destroy();
+    app.stage.removeChild(bgLayer, characterLayer);
+  });
+
+  return {
+    element: root,
+    cleanup: () => {
+      for (const fn of cleanup) fn();
+    },
+  };
+}
@@ -1,5 +1,14 @@
-import { GameState, GameScreen, SONGS, SongDefinition, DifficultyLevel } from '@/types';
-import { btn, el, haptic } from '@/ui/components/button';
+import { GameState, GameScreen, SONGS, SongDefinition, DifficultyLevel, ReplayData, PracticeSettings } from '@/types';
+import { btn, el, haptic, section, optionRow, stepper } from '@/ui/components/button';
+import { loadBundledSongs, parseChart, getLaneMode } from '@/game/chart';
+import {
+  PRACTICE_SPEEDS,
+  PRACTICE_LOOPS,
+  defaultPracticeSettings,
+  clampPracticeSettings,
+} from '@/game/practice';
+import { parseReplay } from '@/game/replay';
+import { dataService } from '@/services/supabase/data';
 
 // ─── Song Select Screen ───────────────────────────────────────────────────────
 
@@ -58,6 +67,9 @@ export function createSongSelectScreen(
     gap: '12px',
   });
 
+  // Built-in songs first, then any charts bundled under src/charts;
+  // the player's own editor charts are appended once they load
+  const songs: SongDefinition[] = [...SONGS, ...loadBundledSongs()];
   let selectedId = state.selectedSong.id;
   const cardEls: Map<string, HTMLElement> = new Map();
 
@@ -144,7 +156,18 @@ export function createSongSelectScreen(
       marginLeft: 'auto',
     });
 
-    metaRow.append(bpmBadge, diffBadge, styleBadge, durEl);
+    metaRow.append(bpmBadge, diffBadge, styleBadge);
+    if (getLaneMode(song) === 'six-lane') {
+      metaRow.appendChild(el('span', { textContent: '6-LANE', title: 'Upper and lower rows are judged separately' }, {
+        fontSize: '11px',
+        fontWeight: '700',
+        color: '#4ECDC4',
+        background: '#4ECDC422',
+        borderRadius: '4px',
+        padding: '1px 6px',
+      }));
+    }
+    metaRow.appendChild(durEl);
     info.append(nameEl, metaRow);
     card.append(emojiEl, info);
 
@@ -152,6 +175,7 @@ export function createSongSelectScreen(
       haptic('light');
       selectedId = song.id;
       updateSelectionStyles();
+      if (practiceOpen) renderPractice();
     });
 
     return card;
@@ -169,13 +193,25 @@ export function createSongSelectScreen(
     }
   }
 
-  for (const song of SONGS) {
+  function addCard(song: SongDefinition): void {
     const card = buildCard(song);
     cardEls.set(song.id, card);
     cardList.appendChild(card);
   }
+
+  for (const song of songs) addCard(song);
   updateSelectionStyles();
 
+  void dataService.getCharts().then(charts => {
+    for (const chart of charts) {
+      const { song } = parseChart(chart);
+      if (!song || cardEls.has(song.id)) continue;
+      songs.push(song);
+      addCard(song);
+    }
+    updateSelectionStyles();
+  });
+
   // ── Play Button ────────────────────────────────────────────────────────────
   const footer = el('div', {}, {
     width: '100%',
@@ -184,15 +220,187 @@ export function createSongSelectScreen(
     boxSizing: 'border-box',
   });
 
+  function selectedSong(): SongDefinition {
+    return songs.find(s => s.id === selectedId) ?? songs[0];
+  }
+
   const playBtn = btn('▶️ Play!', () => {
     haptic('medium');
-    const chosen = SONGS.find(s => s.id === selectedId) ?? SONGS[0];
-    state.selectedSong = chosen;
+    state.selectedSong = selectedSong();
     navigate('dance');
   }, 'primary');
   playBtn.style.cssText += 'width: 100%; font-size: 20px; padding: 18px; min-height: 60px;';
 
-  footer.appendChild(playBtn);
+  // The bot plays the song through; a tap brings the player back here
+  const previewBtn = btn('🤖 Watch a Preview', () => {
+    haptic('light');
+    state.selectedSong = selectedSong();
+    state.autoplay = { jitterMs: 0, exitTo: 'song-select' };
+    navigate('demo');
+  }, 'ghost');
+  previewBtn.style.cssText += 'width: 100%; margin-top: 10px;';
+
+  // No targets: dance moves from a palette to the song's backing track
+  const freestyleBtn = btn('🕺 Freestyle', () => {
+    haptic('light');
+    state.selectedSong = selectedSong();
+    navigate('freestyle');
+  }, 'ghost');
+  freestyleBtn.style.cssText += 'width: 100%; margin-top: 10px;';
+
+  // Tap out a move of your own to the song's groove, for the freestyle palette
+  const recorderBtn = btn('🎬 Record a Move', () => {
+    haptic('light');
+    state.selectedSong = selectedSong();
+    navigate('recorder');
+  }, 'ghost');
+  recorderBtn.style.cssText += 'width: 100%; margin-top: 10px;';
+
+  // ── Practice ───────────────────────────────────────────────────────────────
+  // Loop a few bars of the selected song, optionally slowed down. The last
+  // settings used are kept on the game state for next time.
+  let practiceOpen = false;
+  let practice: PracticeSettings | null = state.practice;
+
+  const practicePanel = el('div', {}, {
+    display: 'none',
+    marginTop: '10px',
+    padding: '16px',
+    background: 'rgba(255,255,255,0.06)',
+    borderRadius: '16px',
+  });
+
+  const SPEED_LABELS = Object.fromEntries(PRACTICE_SPEEDS.map(s => [String(s), `${Math.round(s * 100)}%`]));
+  const LOOP_LABELS = Object.fromEntries(PRACTICE_LOOPS.map(n => [String(n), `×${n}`]));
+
+  function renderPractice(): void {
+    const song = selectedSong();
+    const settings = clampPracticeSettings(song, practice ?? defaultPracticeSettings(song));
+    practice = settings;
+    const update = (changes: Partial<PracticeSettings>): void => {
+      haptic('light');
+      practice = { ...settings, ...changes };
+      renderPractice();
+    };
+
+    const startBtn = btn('🎯 Start Practice', () => {
+      haptic('medium');
+      state.selectedSong = song;
+      state.practice = settings;
+      navigate('practice');
+    }, 'primary');
+    startBtn.style.width = '100%';
+
+    practicePanel.replaceChildren(
+      section(`From bar (of ${song.barCount})`, [
+        stepper(`${settings.fromBar + 1}`, d => update({
+          fromBar: settings.fromBar + d,
+          toBar: Math.max(settings.toBar, settings.fromBar + d),
+        })),
+      ]),
+      section('To bar', [stepper(`${settings.toBar + 1}`, d => update({ toBar: settings.toBar + d }))]),
+      section('Speed', [
+        optionRow(PRACTICE_SPEEDS.map(String), String(settings.speed), v => update({ speed: Number(v) }), SPEED_LABELS),
+      ]),
+      section('Loops', [
+        optionRow(PRACTICE_LOOPS.map(String), String(settings.loops), v => update({ loops: Number(v) }), LOOP_LABELS),
+      ]),
+      section('Zone hints', [
+        optionRow(['on', 'off'], settings.showZones ? 'on' : 'off', v => update({ showZones: v === 'on' }), {
+          on: 'Show upcoming zones', off: 'Off',
+        }),
+      ]),
+      startBtn
+    );
+  }
+
+  const practiceBtn = btn('🎯 Practice a Section', () => {
+    haptic('light');
+    practiceOpen = !practiceOpen;
+    practicePanel.style.display = practiceOpen ? 'block' : 'none';
+    if (practiceOpen) renderPractice();
+  }, 'ghost');
+  practiceBtn.style.cssText += 'width: 100%; margin-top: 10px;';
+
+  const editorBtn = btn('✏️ Make a Chart', () => {
+    haptic('light');
+    navigate('editor');
+  }, 'ghost');
+  editorBtn.style.cssText += 'width: 100%; margin-top: 10px;';
+
+  // ── Replays ────────────────────────────────────────────────────────────────
+  const replayStatus = el('div', {}, {
+    fontSize: '13px',
+    color: 'rgba(255,255,255,0.55)',
+    textAlign: 'center',
+    minHeight: '18px',
+    marginTop: '8px',
+  });
+
+  const replayList = el('div', {}, {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginTop: '8px',
+  });
+
+  function watchReplay(replay: ReplayData): void {
+    const song = songs.find(s => s.id === replay.songId);
+    if (!song) {
+      replayStatus.textContent = `⚠️ This replay needs the song "${replay.songId}"`;
+      return;
+    }
+    if (replay.moves) {
+      replayStatus.textContent = '⚠️ Freestyle replays can only be verified, not watched';
+      return;
+    }
+    state.selectedSong = song;
+    state.replay = replay;
+    navigate('replay');
+  }
+
+  // Hidden file picker for shared replays
+  const replayInput = document.createElement('input');
+  replayInput.type = 'file';
+  replayInput.accept = 'application/json,.json';
+  replayInput.style.display = 'none';
+  replayInput.addEventListener('change', () => {
+    const file = replayInput.files?.[0];
+    replayInput.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      const { replay, errors } = parseReplay(JSON.parse(text));
+      if (!replay) {
+        replayStatus.textContent = `⚠️ ${errors.slice(0, 2).join(' · ')}`;
+        return;
+      }
+      watchReplay(replay);
+    }).catch(err => {
+      console.warn('[SongSelect] Replay import failed:', err);
+      replayStatus.textContent = '⚠️ That is not a replay file';
+    });
+  });
+
+  const openReplayBtn = btn('🎬 Open a Replay', () => {
+    haptic('light');
+    replayInput.click();
+  }, 'ghost');
+  openReplayBtn.style.cssText += 'width: 100%; margin-top: 10px;';
+
+  void dataService.getReplays().then(replays => {
+    for (const replay of replays.slice(0, 5)) {
+      const song = songs.find(s => s.id === replay.songId);
+      const chip = btn(`${song?.emoji ?? '🎵'} ${replay.score}`, () => {
+        haptic('light');
+        watchReplay(replay);
+      }, 'ghost');
+      chip.title = `${song?.name ?? replay.songId} — ${new Date(replay.createdAt).toLocaleString()}`;
+      chip.style.cssText += 'padding: 8px 12px; font-size: 14px;';
+      replayList.appendChild(chip);
+    }
+  });
+
+  footer.append(playBtn, previewBtn, freestyleBtn, recorderBtn, practiceBtn, practicePanel, editorBtn, openReplayBtn, replayInput, replayList, replayStatus);
 
   root.append(header, cardList, footer);
 
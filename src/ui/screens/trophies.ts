@@ -0,0 +1,121 @@
+import { GameState, GameScreen } from '@/types';
+import { btn, el, formatScore } from '@/ui/components/button';
+import { dataService } from '@/services/supabase/data';
+import { AchievementStatus, achievementStatuses } from '@/game/achievements';
+
+export function createTrophiesScreen(
+  state: GameState,
+  navigate: (screen: GameScreen) => void
+): HTMLElement {
+  const root = el('div', {}, {
+    position: 'absolute',
+    inset: '0',
+    display: 'flex',
+    flexDirection: 'column',
+    background: 'linear-gradient(160deg, #1a0533, #2d0a5e)',
+    overflow: 'hidden',
+  });
+
+  // Top bar
+  const topBar = el('div', {}, {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 'max(env(safe-area-inset-top,16px),16px) 20px 12px',
+    flexShrink: '0',
+  });
+
+  const backBtn = btn('← Back', () => navigate('home'), 'ghost');
+  backBtn.style.padding = '10px 16px';
+
+  const titleEl = el('h2', { textContent: '🎖️ Trophies' }, {
+    fontSize: '20px', fontWeight: '800', margin: '0',
+  });
+
+  topBar.append(backBtn, titleEl, el('div', {}, { width: '80px' }));
+
+  const scroll = el('div', {}, {
+    flex: '1',
+    overflowY: 'auto',
+    padding: '0 16px',
+    paddingBottom: 'max(env(safe-area-inset-bottom,16px),16px)',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+  });
+
+  const summary = el('div', { textContent: 'Loading…' }, {
+    fontSize: '14px',
+    color: 'rgba(255,255,255,0.6)',
+    textAlign: 'center',
+    marginBottom: '4px',
+  });
+  const list = el('div', {}, { display: 'flex', flexDirection: 'column', gap: '10px' });
+
+  function trophyCard({ def, current, unlockedAt }: AchievementStatus): HTMLDivElement {
+    const card = el('div', {}, {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '14px',
+      background: unlockedAt ? 'rgba(255,230,109,0.12)' : 'rgba(255,255,255,0.06)',
+      border: unlockedAt ? '1px solid rgba(255,230,109,0.45)' : '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '16px',
+      padding: '12px 16px',
+    });
+
+    const icon = el('div', { textContent: unlockedAt ? def.emoji : '🔒' }, {
+      fontSize: '30px',
+      flexShrink: '0',
+      opacity: unlockedAt ? '1' : '0.6',
+    });
+
+    const info = el('div', {}, { flex: '1', minWidth: '0', display: 'flex', flexDirection: 'column', gap: '4px' });
+    info.append(
+      el('div', { textContent: def.name }, { fontWeight: '800', fontSize: '15px' }),
+      el('div', { textContent: def.description }, { fontSize: '13px', color: 'rgba(255,255,255,0.7)' })
+    );
+
+    if (unlockedAt) {
+      info.appendChild(el('div', {
+        textContent: `Unlocked ${new Date(unlockedAt).toLocaleDateString()}`,
+      }, { fontSize: '12px', color: '#FFE66D' }));
+    } else if (def.target > 1) {
+      const bar = el('div', {}, {
+        height: '6px',
+        background: 'rgba(255,255,255,0.1)',
+        borderRadius: '3px',
+        overflow: 'hidden',
+      });
+      bar.appendChild(el('div', {}, {
+        height: '100%',
+        width: `${(current / def.target) * 100}%`,
+        background: 'linear-gradient(90deg, #6BCB77, #FFE66D)',
+      }));
+      info.append(
+        el('div', { textContent: `${formatScore(current)}/${formatScore(def.target)}` }, {
+          fontSize: '12px', color: 'rgba(255,255,255,0.6)',
+        }),
+        bar
+      );
+    }
+
+    card.append(icon, info);
+    return card;
+  }
+
+  dataService.getAchievements(state.profile.id).then(({ tally, unlocks }) => {
+    const statuses = achievementStatuses(tally, unlocks);
+    const unlocked = statuses.filter(s => s.unlockedAt).length;
+    summary.textContent = `${unlocked} of ${statuses.length} unlocked · ⭐ Level ${state.progression.level}`;
+    // Unlocked first, newest at the top; then the closest to unlocking
+    statuses.sort((a, b) => {
+      if (a.unlockedAt || b.unlockedAt) return (b.unlockedAt ?? '').localeCompare(a.unlockedAt ?? '');
+      return b.current / b.def.target - a.current / a.def.target;
+    });
+    list.replaceChildren(...statuses.map(trophyCard));
+  });
+
+  scroll.append(summary, list);
+  root.append(topBar, scroll);
+  return root;
+}
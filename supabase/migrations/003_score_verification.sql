@@ -0,0 +1,33 @@
+-- Wobble Dance – Score Verification
+-- Run AFTER 002_rls_policies.sql
+--
+-- Scores are submitted with their replay (input log) and start out 'pending'.
+-- `npm run verify-scores` re-simulates each replay with the game's own
+-- scoring code and marks the row 'verified' or 'flagged'. Flagged scores are
+-- hidden from the leaderboard.
+
+-- ─── Scores ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.scores
+  ADD COLUMN IF NOT EXISTS replay_json JSONB,
+  ADD COLUMN IF NOT EXISTS verification TEXT NOT NULL DEFAULT 'pending'
+    CHECK (verification IN ('pending', 'verified', 'flagged')),
+  ADD COLUMN IF NOT EXISTS verification_note TEXT;
+
+COMMENT ON COLUMN public.scores.replay_json IS 'Replay recorded with the score, re-simulated to verify it';
+COMMENT ON COLUMN public.scores.verification IS 'pending until the verifier has re-simulated the replay';
+
+CREATE INDEX IF NOT EXISTS scores_pending_idx
+  ON public.scores(created_at)
+  WHERE verification = 'pending';
+
+-- ─── Policies ─────────────────────────────────────────────────────────────────
+
+-- Players may only submit unverified scores; only the verifier (service role,
+-- which bypasses RLS) can change a score's status
+DROP POLICY IF EXISTS "scores_insert_own" ON public.scores;
+CREATE POLICY "scores_insert_own"
+  ON public.scores FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND verification = 'pending' AND verification_note IS NULL);
+
+DROP POLICY IF EXISTS "scores_update_own" ON public.scores;
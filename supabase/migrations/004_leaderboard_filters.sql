@@ -0,0 +1,22 @@
+-- Wobble Dance – Leaderboard Filters
+-- Run AFTER 003_score_verification.sql
+--
+-- Records which song (and its difficulty) each score was played on, so the
+-- leaderboard can be filtered per song, per difficulty and by daily/weekly
+-- windows. Scores submitted before this migration have no song and only
+-- show up on the unfiltered boards.
+
+-- ─── Scores ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.scores
+  ADD COLUMN IF NOT EXISTS song_id TEXT,
+  ADD COLUMN IF NOT EXISTS difficulty TEXT
+    CHECK (difficulty IN ('easy', 'medium', 'hard'));
+
+COMMENT ON COLUMN public.scores.song_id IS 'SongDefinition id the score was played on';
+COMMENT ON COLUMN public.scores.difficulty IS 'Difficulty of that song (easy / medium / hard)';
+
+-- Per-song and per-difficulty boards, newest-window boards
+CREATE INDEX IF NOT EXISTS scores_song_score_idx ON public.scores(song_id, score DESC);
+CREATE INDEX IF NOT EXISTS scores_difficulty_score_idx ON public.scores(difficulty, score DESC);
+CREATE INDEX IF NOT EXISTS scores_created_score_idx ON public.scores(created_at DESC, score DESC);
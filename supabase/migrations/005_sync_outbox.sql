@@ -0,0 +1,19 @@
+-- Wobble Dance – Offline Sync
+-- Run AFTER 004_leaderboard_filters.sql
+--
+-- Writes made offline are queued on the device and retried until they land.
+-- Each carries an idempotency key from the client; inserting the same key
+-- twice is ignored, so a retry after a lost response can't duplicate a row.
+-- (Challenge completions are already unique per user and day and are merged
+-- best-of on the client before upserting.)
+
+-- ─── Idempotency keys ─────────────────────────────────────────────────────────
+
+ALTER TABLE public.scores
+  ADD COLUMN IF NOT EXISTS client_key TEXT UNIQUE;
+
+ALTER TABLE public.outfits
+  ADD COLUMN IF NOT EXISTS client_key TEXT UNIQUE;
+
+COMMENT ON COLUMN public.scores.client_key IS 'Client-generated idempotency key for retried submissions';
+COMMENT ON COLUMN public.outfits.client_key IS 'Client-generated idempotency key for retried saves';
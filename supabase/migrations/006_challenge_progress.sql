@@ -0,0 +1,44 @@
+-- Wobble Dance – Weekly & Seasonal Challenges
+-- Run AFTER 005_sync_outbox.sql
+--
+-- Weekly and seasonal challenges count totals across many sessions ("land
+-- 500 perfects this week"). Every session adds one row holding what it
+-- contributed to each running challenge; a player's progress is the sum of
+-- their rows. Rows are append-only and carry the client's idempotency key,
+-- so a retried write can't count twice and two devices never overwrite
+-- each other's progress.
+
+-- ─── Challenge Progress ───────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.challenge_progress (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  challenge_id TEXT NOT NULL,
+  tier         TEXT NOT NULL CHECK (tier IN ('weekly', 'seasonal')),
+  tally_json   JSONB NOT NULL DEFAULT '{}'::JSONB,
+  client_key   TEXT UNIQUE,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.challenge_progress IS 'One session''s contribution to a weekly or seasonal challenge';
+COMMENT ON COLUMN public.challenge_progress.challenge_id IS 'e.g. weekly:2026-W42 or seasonal:2026-autumn';
+COMMENT ON COLUMN public.challenge_progress.tally_json IS 'Counts added by the session, keyed by goal metric';
+
+CREATE INDEX IF NOT EXISTS challenge_progress_user_idx
+  ON public.challenge_progress(user_id, challenge_id);
+
+-- ─── Policies ─────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.challenge_progress ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own progress
+CREATE POLICY "challenge_progress_select_own"
+  ON public.challenge_progress FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can add to their own progress (never edit or remove it)
+CREATE POLICY "challenge_progress_insert_own"
+  ON public.challenge_progress FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT ON public.challenge_progress TO authenticated;
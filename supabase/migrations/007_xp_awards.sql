@@ -0,0 +1,45 @@
+-- Wobble Dance – XP & Levels
+-- Run AFTER 006_challenge_progress.sql
+--
+-- Sessions and challenge rewards earn XP. Like challenge progress, every
+-- award is its own append-only row and a player's XP is the sum, so two
+-- devices never overwrite each other. Levels and achievements are derived
+-- from the rows on the client (see src/game/progression.ts).
+--
+-- A challenge reward's client_key is derived from the player and the
+-- challenge, so completing one on two devices still pays out only once.
+
+-- ─── XP Awards ────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.xp_awards (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  source       TEXT NOT NULL CHECK (source IN ('session', 'daily', 'weekly', 'seasonal')),
+  xp           INTEGER NOT NULL CHECK (xp >= 0),
+  challenge_id TEXT,
+  grade        TEXT CHECK (grade IN ('S', 'A', 'B', 'C', 'D')),
+  client_key   TEXT UNIQUE,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.xp_awards IS 'XP earned by a session or a challenge reward';
+COMMENT ON COLUMN public.xp_awards.challenge_id IS 'Challenge rewards only, e.g. daily:2026-10-19 or weekly:2026-W42';
+COMMENT ON COLUMN public.xp_awards.grade IS 'Sessions played to the end only';
+
+CREATE INDEX IF NOT EXISTS xp_awards_user_idx ON public.xp_awards(user_id);
+
+-- ─── Policies ─────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.xp_awards ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own XP
+CREATE POLICY "xp_awards_select_own"
+  ON public.xp_awards FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can add to their own XP (never edit or remove it)
+CREATE POLICY "xp_awards_insert_own"
+  ON public.xp_awards FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT ON public.xp_awards TO authenticated;
@@ -0,0 +1,63 @@
+-- Wobble Dance – Achievements
+-- Run AFTER 007_xp_awards.sql
+--
+-- Achievements are rules over gameplay events (see src/game/achievements.ts).
+-- Progress is stored like challenge progress: every session adds one
+-- append-only row with its tally, and a player's progress is the combination
+-- of their rows. An unlock is a row of its own, keyed by player and
+-- achievement, so it is only ever recorded once however many devices reach it.
+
+-- ─── Achievement Progress ─────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.achievement_progress (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  tally_json  JSONB NOT NULL DEFAULT '{}'::JSONB,
+  client_key  TEXT UNIQUE,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.achievement_progress IS 'One session''s progress towards achievements';
+COMMENT ON COLUMN public.achievement_progress.tally_json IS 'Per achievement id: events counted, or the best value measured';
+
+CREATE INDEX IF NOT EXISTS achievement_progress_user_idx ON public.achievement_progress(user_id);
+
+-- ─── Achievement Unlocks ──────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.achievement_unlocks (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  achievement_id TEXT NOT NULL,
+  unlocked_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  client_key     TEXT UNIQUE
+);
+
+COMMENT ON TABLE public.achievement_unlocks IS 'Achievements a player has unlocked';
+
+CREATE INDEX IF NOT EXISTS achievement_unlocks_user_idx ON public.achievement_unlocks(user_id);
+
+-- ─── Policies ─────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.achievement_progress ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.achievement_unlocks ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own achievements
+CREATE POLICY "achievement_progress_select_own"
+  ON public.achievement_progress FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "achievement_unlocks_select_own"
+  ON public.achievement_unlocks FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can add to their own achievements (never edit or remove them)
+CREATE POLICY "achievement_progress_insert_own"
+  ON public.achievement_progress FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "achievement_unlocks_insert_own"
+  ON public.achievement_unlocks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT ON public.achievement_progress TO authenticated;
+GRANT SELECT, INSERT ON public.achievement_unlocks TO authenticated;
@@ -0,0 +1,18 @@
+-- Wobble Dance – Score Modes
+-- Run AFTER 008_achievements.sql
+--
+-- Scores are submitted to one of two leaderboards: 'rhythm' (the charted
+-- game) or 'freestyle' (dance moves on the beat, see src/game/freestyle.ts).
+-- The client has always sent 'rhythm' for charted runs; rows that fell back
+-- to the old 'classic' default are relabelled so they stay on that board.
+
+-- ─── Scores ───────────────────────────────────────────────────────────────────
+
+UPDATE public.scores SET mode = 'rhythm' WHERE mode = 'classic';
+
+ALTER TABLE public.scores ALTER COLUMN mode SET DEFAULT 'rhythm';
+
+COMMENT ON COLUMN public.scores.mode IS 'Leaderboard the score was submitted to (rhythm / freestyle)';
+
+-- Per-mode boards
+CREATE INDEX IF NOT EXISTS scores_mode_score_idx ON public.scores(mode, score DESC);
@@ -0,0 +1,44 @@
+-- Wobble Dance – Recorded Dance Moves
+-- Run AFTER 009_score_modes.sql
+--
+-- Players record their own dance moves by tapping zones on the beat (see
+-- src/game/moves.ts). A move is stored like a locker outfit: a name and the
+-- keyframed clip it became, owned by one player and saved with the client's
+-- idempotency key so a retried save can't duplicate it.
+
+-- ─── Dance Moves ──────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.dance_moves (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name           TEXT NOT NULL DEFAULT 'My Move',
+  animation_json JSONB NOT NULL,
+  client_key     TEXT UNIQUE,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.dance_moves IS 'Dance moves players recorded for freestyle play';
+COMMENT ON COLUMN public.dance_moves.animation_json IS 'Keyframe clip: { beats, loop, frames: [{ beat, joints, ease? }] }';
+
+CREATE INDEX IF NOT EXISTS dance_moves_user_idx ON public.dance_moves(user_id);
+
+-- ─── Policies ─────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.dance_moves ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own moves
+CREATE POLICY "dance_moves_select_own"
+  ON public.dance_moves FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert their own moves
+CREATE POLICY "dance_moves_insert_own"
+  ON public.dance_moves FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can delete their own moves
+CREATE POLICY "dance_moves_delete_own"
+  ON public.dance_moves FOR DELETE
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, DELETE ON public.dance_moves TO authenticated;
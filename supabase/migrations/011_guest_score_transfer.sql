@@ -0,0 +1,72 @@
+-- Wobble Dance – Guest Score Transfer
+-- Run AFTER 010_dance_moves.sql
+--
+-- A guest who signs in with a magic link lands in a new account, and what the
+-- guest owned is merged into it (see src/services/supabase/migration.ts).
+-- Copying an anonymous guest's scores would list each one twice on the public
+-- boards, so the rows themselves are handed to the account instead. Players
+-- can't change a score's owner directly: while still signed in, the guest
+-- offers its scores and gets a one-time token; the account claims them with it.
+
+-- ─── Transfers ────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.guest_transfers (
+  token        TEXT PRIMARY KEY,
+  from_user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.guest_transfers IS 'One-time tokens a guest issued to hand its scores to the account it signs in to';
+
+-- No policies: only the functions below read or write it
+ALTER TABLE public.guest_transfers ENABLE ROW LEVEL SECURITY;
+
+-- ─── Functions ────────────────────────────────────────────────────────────────
+
+-- Called by the anonymous guest just before the magic link is sent
+CREATE OR REPLACE FUNCTION public.offer_guest_scores()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT := gen_random_uuid()::TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR NOT COALESCE((auth.jwt() ->> 'is_anonymous')::BOOLEAN, FALSE) THEN
+    RAISE EXCEPTION 'only a guest can offer its scores';
+  END IF;
+  INSERT INTO public.guest_transfers (token, from_user_id) VALUES (new_token, auth.uid());
+  RETURN new_token;
+END;
+$$;
+
+-- Called by the signed-in account; a token works once, so claiming again
+-- (after an interrupted migration) moves nothing and returns 0
+CREATE OR REPLACE FUNCTION public.claim_guest_scores(transfer_token TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  guest_id UUID;
+  moved    INTEGER;
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE((auth.jwt() ->> 'is_anonymous')::BOOLEAN, FALSE) THEN
+    RAISE EXCEPTION 'sign in to claim guest scores';
+  END IF;
+  DELETE FROM public.guest_transfers WHERE token = transfer_token RETURNING from_user_id INTO guest_id;
+  IF guest_id IS NULL OR guest_id = auth.uid() THEN
+    RETURN 0;
+  END IF;
+  UPDATE public.scores SET user_id = auth.uid() WHERE user_id = guest_id;
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  RETURN moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_guest_scores() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.claim_guest_scores(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.offer_guest_scores() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_guest_scores(TEXT) TO authenticated;
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ACHIEVEMENTS,
+  ACHIEVEMENT_DEFS,
+  matchesEvent,
+  applyAchievementEvent,
+  addAchievementTallies,
+  newlyUnlocked,
+  achievementStatuses,
+} from '../src/game/achievements';
+import { AchievementTally } from '../src/types';
+
+describe('Achievement Rules', () => {
+  it('defines every achievement once', () => {
+    expect(Object.keys(ACHIEVEMENTS)).toHaveLength(ACHIEVEMENT_DEFS.length);
+  });
+
+  it('matches an event by type and payload fields', () => {
+    const clear = { songId: 'funky', difficulty: 'hard', grade: 'A', accuracy: 0.9, score: 12000 };
+    expect(matchesEvent(ACHIEVEMENTS.hard_clear, 'song_clear', clear)).toBe(true);
+    expect(matchesEvent(ACHIEVEMENTS.hard_clear, 'song_clear', { ...clear, difficulty: 'easy' })).toBe(false);
+    expect(matchesEvent(ACHIEVEMENTS.hard_clear, 'combo', clear)).toBe(false);
+    // A list matches any of its values
+    expect(matchesEvent(ACHIEVEMENTS.straight_a, 'song_clear', clear)).toBe(true);
+    expect(matchesEvent(ACHIEVEMENTS.straight_a, 'song_clear', { ...clear, grade: 'B' })).toBe(false);
+  });
+
+  it('counts matching events, or keeps the best measured value', () => {
+    let tally: AchievementTally = {};
+    tally = applyAchievementEvent(tally, 'rhythm_hit', { zone: 'left', rating: 'perfect', points: 300, sustain: false });
+    tally = applyAchievementEvent(tally, 'rhythm_hit', { zone: 'left', rating: 'good', points: 100, sustain: false });
+    tally = applyAchievementEvent(tally, 'combo', { combo: 40, multiplier: 2, perfectStreak: 0 });
+    tally = applyAchievementEvent(tally, 'combo', { combo: 12, multiplier: 1, perfectStreak: 0 });
+    expect(tally).toEqual({ perfects_1000: 1, combo_50: 40, combo_100: 40 });
+  });
+});
+
+describe('Achievement Progress', () => {
+  it('adds counts across sessions and keeps the higher measured best', () => {
+    expect(addAchievementTallies(
+      { songs_25: 3, combo_50: 48 },
+      { songs_25: 2, combo_50: 20, clumsy: 7 }
+    )).toEqual({ songs_25: 5, combo_50: 48, clumsy: 7 });
+  });
+
+  it('reports targets reached that are not unlocked yet', () => {
+    const tally: AchievementTally = { first_song: 1, songs_25: 24, combo_50: 55 };
+    expect(newlyUnlocked(tally, [])).toEqual(['first_song', 'combo_50']);
+    expect(newlyUnlocked(tally, ['first_song'])).toEqual(['combo_50']);
+  });
+
+  it('lists progress capped at the target, full once unlocked', () => {
+    const statuses = achievementStatuses(
+      { songs_25: 30, clumsy: 12 },
+      [{ id: 'flawless', unlockedAt: '2026-10-19T12:00:00Z' }]
+    );
+    const byId = Object.fromEntries(statuses.map(s => [s.def.id, s]));
+    expect(statuses).toHaveLength(ACHIEVEMENT_DEFS.length);
+    expect(byId.songs_25.current).toBe(25);
+    expect(byId.clumsy).toMatchObject({ current: 12, unlockedAt: null });
+    expect(byId.flawless).toMatchObject({ current: 1, unlockedAt: '2026-10-19T12:00:00Z' });
+  });
+});
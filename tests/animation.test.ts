@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Animator,
+  DANCE_ANIMATIONS,
+  REST_POSE,
+  REFERENCE_BPM,
+  ease,
+  sampleClip,
+  blendPoses,
+  reactionClip,
+} from '../src/game/animation';
+import { DanceAnimation, DANCE_MOVES, JOINT_KEYS } from '../src/types';
+
+// Two keys on the left shoulder, one on the head
+const SWING: DanceAnimation = {
+  beats: 2,
+  loop: true,
+  frames: [
+    { beat: 0, ease: 'linear', joints: { leftShoulder: 0, headBob: 0.5 } },
+    { beat: 1, ease: 'linear', joints: { leftShoulder: 1 } },
+  ],
+};
+
+describe('Easing', () => {
+  it('runs every curve from 0 to 1', () => {
+    for (const easing of ['linear', 'step', 'easeIn', 'easeOut', 'easeInOut'] as const) {
+      expect(ease(easing, 0)).toBe(0);
+      expect(ease(easing, 1)).toBe(1);
+    }
+    expect(ease('step', 0.99)).toBe(0);
+    expect(ease('easeIn', 0.5)).toBeLessThan(0.5);
+    expect(ease('easeOut', 0.5)).toBeGreaterThan(0.5);
+    expect(ease('easeInOut', 0.5)).toBeCloseTo(0.5);
+  });
+});
+
+describe('Clip Sampling', () => {
+  it('interpolates each joint between the frames that key it', () => {
+    expect(sampleClip(SWING, 0.5)).toEqual({ leftShoulder: 0.5, headBob: 0.5 });
+    expect(sampleClip(SWING, 1).leftShoulder).toBe(1);
+  });
+
+  it('wraps a loop from its last key back to its first', () => {
+    expect(sampleClip(SWING, 1.5).leftShoulder).toBeCloseTo(0.5);
+    expect(sampleClip(SWING, 2.5).leftShoulder).toBeCloseTo(sampleClip(SWING, 0.5).leftShoulder!);
+  });
+
+  it('holds a one-shot clip on its last frame', () => {
+    const once = { ...SWING, loop: false };
+    expect(sampleClip(once, 1.5).leftShoulder).toBe(1);
+    expect(sampleClip(once, 10).leftShoulder).toBe(1);
+  });
+
+  it('blends whole poses', () => {
+    const raised = { ...REST_POSE, leftShoulder: REST_POSE.leftShoulder + 1 };
+    expect(blendPoses(REST_POSE, raised, 0.25).leftShoulder).toBeCloseTo(REST_POSE.leftShoulder + 0.25);
+  });
+
+  it('has a clip for every dance move', () => {
+    for (const move of Object.keys(DANCE_MOVES) as Array<keyof typeof DANCE_MOVES>) {
+      const clip = DANCE_ANIMATIONS[move];
+      expect(clip.frames.length).toBeGreaterThan(0);
+      expect(clip.frames.every(f => f.beat >= 0 && f.beat < clip.beats)).toBe(true);
+    }
+  });
+});
+
+describe('Animator', () => {
+  const secPerBeat = 60 / REFERENCE_BPM;
+
+  it('fills unkeyed joints from the rest pose', () => {
+    const pose = new Animator(SWING).pose();
+    expect(Object.keys(pose).sort()).toEqual([...JOINT_KEYS].sort());
+    expect(pose.rightKnee).toBe(REST_POSE.rightKnee);
+  });
+
+  it('plays in beats, so a faster song plays the clip faster', () => {
+    const slow = new Animator(SWING);
+    const fast = new Animator(SWING);
+    fast.setTempo(REFERENCE_BPM * 2);
+    slow.update(secPerBeat / 2);
+    fast.update(secPerBeat / 4);
+    expect(fast.pose().leftShoulder).toBeCloseTo(slow.pose().leftShoulder);
+    expect(fast.beats(1)).toBe(4);
+  });
+
+  it('crossfades from the pose it was in', () => {
+    const animator = new Animator(SWING);
+    animator.update(secPerBeat);
+    const before = animator.pose().leftShoulder;
+    animator.play(DANCE_ANIMATIONS.spin, 1);
+    expect(animator.pose().leftShoulder).toBeCloseTo(before);
+
+    animator.update(secPerBeat / 2);
+    const mid = animator.pose().leftShoulder;
+    expect(mid).toBeLessThan(before);
+    expect(mid).toBeGreaterThan(-Math.PI / 2);
+
+    animator.update(secPerBeat / 2);
+    expect(animator.pose().leftShoulder).toBeCloseTo(-Math.PI / 2);
+  });
+
+  it('adds reaction layers on top, then drops them', () => {
+    const animator = new Animator(DANCE_ANIMATIONS.idle);
+    const plain = new Animator(DANCE_ANIMATIONS.idle);
+    animator.addLayer(reactionClip(['leftHip', 'leftKnee'], 0.8), 0.5);
+    animator.update(secPerBeat / 8);
+    plain.update(secPerBeat / 8);
+    expect(animator.pose().leftHip - plain.pose().leftHip).toBeCloseTo(0.4);
+    expect(animator.pose().torsoTilt).toBe(plain.pose().torsoTilt);
+
+    animator.update(secPerBeat);
+    plain.update(secPerBeat);
+    expect(animator.pose()).toEqual(plain.pose());
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { AutoPlayer, autoplayReplay } from '../src/game/autoplay';
+import { RhythmJudge } from '../src/game/judge';
+import { simulateReplay } from '../src/game/verify';
+import { EventBus } from '../src/game/events';
+import { comboMilestoneEffects } from '../src/game/scoring';
+import { INPUT_DOWN, decodeHit } from '../src/game/replay';
+import { SongDefinition, SongNote, StageEffectType } from '../src/types';
+import { makeSong } from './fixtures';
+
+/** A medium song of `notes` lasting `barCount` bars */
+function chartSong(notes: SongNote[], barCount: number): SongDefinition {
+  return makeSong({ id: 'autoplay-test', difficulty: 'medium', barCount, durationSec: barCount * 2, notes });
+}
+
+// A tap, a hold and a slide across the stage, with a tempo change in between
+const MIXED = {
+  ...chartSong([
+    { beat: 0, zone: 'upper-left' },
+    { beat: 2, zone: 'lower-center', holdBeats: 2 },
+    { beat: 5, zone: 'lower-left', holdBeats: 2, slideTo: 'lower-right' },
+    { beat: 9, zone: 'upper-right' },
+  ], 3),
+  tempoChanges: [{ beat: 4, bpm: 150 }],
+};
+
+describe('Auto-play', () => {
+  it('hits every tap, hold and slide perfectly without jitter', () => {
+    const hits = simulateReplay(MIXED, autoplayReplay(MIXED)).hits.map(decodeHit);
+    // Each sustain is judged on its press and again on its release
+    expect(hits.map(h => h.rating)).toEqual(Array(6).fill('perfect'));
+    expect(hits.filter(h => h.sustain !== undefined).map(h => h.sustain)).toEqual([1, 1]);
+  });
+
+  it('presses each target at its hit time, once', () => {
+    const judge = new RhythmJudge(MIXED);
+    judge.start();
+    for (let beat = 0; beat < 8; beat++) judge.onBeatFired(beat);
+    const [first] = judge.getTargets();
+    const bot = new AutoPlayer();
+
+    expect(bot.due(judge.getTargets(), first.hitTime - 0.01)).toEqual([]);
+    const presses = bot.due(judge.getTargets(), first.hitTime).filter(i => i[1] === INPUT_DOWN);
+    expect(presses.map(i => i[0])).toEqual([Math.round(first.hitTime * 1000)]);
+    expect(bot.due(judge.getTargets(), first.hitTime).length).toBe(0);
+  });
+
+  it('plays the same run for the same seed, and a human-like one with jitter', () => {
+    const song = chartSong(Array.from({ length: 16 }, (_, beat): SongNote => ({ beat, zone: 'upper-center' })), 4);
+    const run = autoplayReplay(song, 100, 7);
+    const again = autoplayReplay(song, 100, 7);
+    expect([again.inputs, again.hits, again.score]).toEqual([run.inputs, run.hits, run.score]);
+    expect(autoplayReplay(song, 100, 8).inputs).not.toEqual(run.inputs);
+
+    const sim = simulateReplay(song, run);
+    expect(sim.goodHits).toBeGreaterThan(0);
+    expect(sim.perfectHits + sim.goodHits).toBe(16);
+  });
+
+  it('drives the combo milestones end-to-end', () => {
+    const song = chartSong(Array.from({ length: 20 }, (_, beat): SongNote => ({ beat, zone: 'lower-center' })), 5);
+    const bus = new EventBus();
+    const effects: StageEffectType[] = [];
+    bus.on('combo', ({ data }) => effects.push(...comboMilestoneEffects(data)));
+
+    const sim = simulateReplay(song, autoplayReplay(song), bus);
+    expect(sim.perfectHits).toBe(20);
+    expect(effects.filter(e => e !== 'confetti')).toEqual(['spotlight', 'discoBall', 'hypeTrain']);
+    expect(effects.filter(e => e === 'confetti').length).toBe(16); // every perfect from the fifth on
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { estimateOffset, latencyOffsetsSec } from '../src/game/calibration';
+
+const beats = Array.from({ length: 16 }, (_, i) => 1 + i * 0.6);
+
+describe('Latency Offset Estimation', () => {
+  it('returns zero for taps exactly on the beat', () => {
+    const result = estimateOffset(beats.slice(2, 14), beats);
+    expect(result).not.toBeNull();
+    expect(result!.offsetMs).toBe(0);
+    expect(result!.used).toBe(12);
+  });
+
+  it('measures a consistent late offset', () => {
+    const taps = beats.slice(2, 14).map(b => b + 0.12);
+    expect(estimateOffset(taps, beats)!.offsetMs).toBe(120);
+  });
+
+  it('measures early taps as a negative offset', () => {
+    const taps = beats.slice(2, 14).map((b, i) => b - 0.03 + (i % 2 ? 0.01 : -0.01));
+    const result = estimateOffset(taps, beats)!;
+    expect(result.offsetMs).toBe(-30);
+    expect(result.spreadMs).toBe(10);
+  });
+
+  it('ignores stray taps far from the median', () => {
+    const taps = beats.slice(2, 12).map(b => b + 0.05);
+    taps.push(beats[12] + 0.25, beats[13] - 0.2);
+    const result = estimateOffset(taps, beats)!;
+    expect(result.offsetMs).toBe(50);
+    expect(result.used).toBe(10);
+  });
+
+  it('returns null with too few taps', () => {
+    expect(estimateOffset([beats[2], beats[3]], beats)).toBeNull();
+    expect(estimateOffset(beats.slice(2, 14), [])).toBeNull();
+  });
+});
+
+describe('Latency Offsets', () => {
+  it('is zero when uncalibrated', () => {
+    expect(latencyOffsetsSec(undefined)).toEqual({ audio: 0, visual: 0 });
+  });
+
+  it('converts milliseconds to seconds', () => {
+    const offsets = latencyOffsetsSec({ audioOffsetMs: 150, visualOffsetMs: -20, calibratedAt: '2024-01-01' });
+    expect(offsets.audio).toBeCloseTo(0.15);
+    expect(offsets.visual).toBeCloseTo(-0.02);
+  });
+});
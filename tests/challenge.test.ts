@@ -4,8 +4,32 @@ import {
   getTodayDateStr,
   createChallengeProgress,
   updateChallengeProgress,
+  finishChallengeProgress,
+  evaluateChallenge,
+  formatConditionStatus,
+  createRhythmRun,
+  judgeRhythmRun,
+  finishRhythmRun,
+  CONDITION_EVALUATORS,
+  HIT_MOVES,
+  addDays,
+  summarizeChallengeHistory,
 } from '../src/game/scoring';
 import { createScoreState } from '../src/game/scoring';
+import { ChallengeCondition, CHALLENGE_CONDITION_TYPES, ChallengeResult, DailyChallenge, ScoreState } from '../src/types';
+
+function challengeOf(...conditions: ChallengeCondition[]): DailyChallenge {
+  return { date: '2026-10-19', description: 'test', conditions, rewardPoints: 1000 };
+}
+
+/** Score state after `perfect` perfect presses and `missed` misses */
+function scoreAfter(perfect: number, missed = 0): ScoreState {
+  const score = createScoreState();
+  score.perfectHits = perfect;
+  score.totalHitAttempts = perfect + missed;
+  score.combo = missed > 0 ? 0 : perfect;
+  return score;
+}
 
 describe('Daily Challenge Generation', () => {
   it('generates a challenge for a given date', () => {
@@ -37,25 +61,20 @@ describe('Daily Challenge Generation', () => {
   it('has valid condition types', () => {
     const challenge = generateDailyChallenge('2024-03-15');
     for (const cond of challenge.conditions) {
-      expect(['hit_streak', 'dance_move', 'combo', 'score']).toContain(cond.type);
+      expect(CHALLENGE_CONDITION_TYPES).toContain(cond.type);
     }
   });
 
-  it('always includes a score condition', () => {
-    const dates = ['2024-01-01', '2024-06-15', '2024-12-31'];
-    for (const date of dates) {
-      const challenge = generateDailyChallenge(date);
-      const hasScore = challenge.conditions.some(c => c.type === 'score');
-      expect(hasScore).toBe(true);
-    }
+  it('varies the kind of challenge from day to day', () => {
+    const dates = Array.from({ length: 60 }, (_, i) => new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10));
+    const types = new Set(dates.flatMap(d => generateDailyChallenge(d).conditions.map(c => c.type)));
+    expect([...types].sort()).toEqual([...CHALLENGE_CONDITION_TYPES].sort());
   });
 
-  it('always includes a hit_streak condition', () => {
-    const dates = ['2024-01-01', '2024-06-15', '2024-12-31'];
-    for (const date of dates) {
-      const challenge = generateDailyChallenge(date);
-      const hasStreak = challenge.conditions.some(c => c.type === 'hit_streak');
-      expect(hasStreak).toBe(true);
+  it('describes every condition in the description', () => {
+    const challenge = generateDailyChallenge('2024-03-15');
+    for (const cond of challenge.conditions) {
+      expect(challenge.description).toContain(CONDITION_EVALUATORS[cond.type].describe(cond));
     }
   });
 
@@ -200,3 +219,115 @@ describe('Challenge Progress Tracking', () => {
     expect(progress.bestStreak).toBe(prevStreak);
   });
 });
+
+describe('Challenge Conditions', () => {
+  it('tracks the best combo', () => {
+    const progress = createChallengeProgress(challengeOf({ type: 'combo', count: 3 }));
+    const score = createScoreState();
+    for (const combo of [1, 2, 0, 1, 2, 3]) {
+      score.combo = combo;
+      updateChallengeProgress(progress, score, combo === 0 ? 'miss' : 'good');
+    }
+    expect(progress.bestCombo).toBe(3);
+    expect(progress.completed).toBe(true);
+  });
+
+  it('counts dance moves by lane, with completed holds as spins', () => {
+    const progress = createChallengeProgress(challengeOf({ type: 'dance_move', moveId: HIT_MOVES.left, count: 2 }));
+    const score = createScoreState();
+    updateChallengeProgress(progress, score, { rating: 'perfect', zone: 'upper-left', targetId: 1 });
+    updateChallengeProgress(progress, score, { rating: 'good', zone: 'lower-center', targetId: 2 });
+    updateChallengeProgress(progress, score, { rating: 'miss', zone: 'lower-left', targetId: 3 });
+    updateChallengeProgress(progress, score, { rating: 'good', zone: 'lower-left', targetId: 4, sustain: 1 });
+    expect(progress.moves).toEqual({ [HIT_MOVES.left]: 1, [HIT_MOVES.center]: 1, [HIT_MOVES.sustain]: 1 });
+    expect(progress.completed).toBe(false);
+
+    updateChallengeProgress(progress, score, { rating: 'good', zone: 'lower-left', targetId: 5 });
+    expect(progress.completed).toBe(true);
+  });
+
+  it('only passes a song condition on that song', () => {
+    const challenge = challengeOf({ type: 'song', songId: 'wobble-pop' });
+    const elsewhere = createChallengeProgress(challenge, 'other-song');
+    updateChallengeProgress(elsewhere, createScoreState(), 'perfect');
+    expect(evaluateChallenge(elsewhere, createScoreState())[0].state).toBe('failed');
+
+    const onSong = createChallengeProgress(challenge, 'wobble-pop');
+    updateChallengeProgress(onSong, createScoreState(), 'perfect');
+    expect(onSong.completed).toBe(true);
+  });
+
+  it('decides accuracy and grade only when the song ends', () => {
+    const progress = createChallengeProgress(challengeOf({ type: 'accuracy', percent: 90 }, { type: 'grade', grade: 'A' }));
+    const score = scoreAfter(19, 1);
+    updateChallengeProgress(progress, score, 'perfect');
+    expect(evaluateChallenge(progress, score).map(s => s.state)).toEqual(['pending', 'pending']);
+    expect(progress.completed).toBe(false);
+
+    finishChallengeProgress(progress, score);
+    expect(evaluateChallenge(progress, score).map(s => s.state)).toEqual(['met', 'met']);
+    expect(progress.completed).toBe(true);
+  });
+
+  it('fails a no-miss condition on the first miss', () => {
+    const progress = createChallengeProgress(challengeOf({ type: 'no_miss' }));
+    updateChallengeProgress(progress, scoreAfter(5), 'perfect');
+    expect(evaluateChallenge(progress, scoreAfter(5))[0].state).toBe('pending');
+
+    updateChallengeProgress(progress, scoreAfter(5, 1), 'miss');
+    finishChallengeProgress(progress, scoreAfter(5, 1));
+    expect(evaluateChallenge(progress, scoreAfter(5, 1))[0].state).toBe('failed');
+    expect(progress.completed).toBe(false);
+  });
+
+  it('formats progress for each condition', () => {
+    const streak: ChallengeCondition = { type: 'hit_streak', count: 8 };
+    expect(formatConditionStatus(streak, { current: 3, target: 8, state: 'pending' })).toBe('⬜ Perfect streak 3/8');
+    expect(formatConditionStatus({ type: 'no_miss' }, { current: 0, target: 1, state: 'failed' }))
+      .toBe('❌ Finish without a single miss');
+  });
+
+  it('rewards end-of-song conditions when the run finishes, but not on an early exit', () => {
+    const challenge = challengeOf({ type: 'no_miss' });
+    const play = (songEnded: boolean): number => {
+      const run = createRhythmRun(createScoreState(), createChallengeProgress(challenge));
+      judgeRhythmRun(run, { rating: 'perfect', zone: 'upper-left', targetId: 1 }, 1000);
+      finishRhythmRun(run, songEnded);
+      return run.score.totalScore;
+    };
+    expect(play(true) - play(false)).toBe(challenge.rewardPoints);
+  });
+});
+
+describe('Challenge Streaks', () => {
+  const day = (date: string, completed = true, rewardPoints = 1000): ChallengeResult =>
+    ({ date, completed, bestStreak: 5, rewardPoints });
+
+  it('steps dates across month and year ends', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+  });
+
+  it('finds the longest run of completed days', () => {
+    const stats = summarizeChallengeHistory([
+      day('2026-09-28'), day('2026-09-29'), day('2026-09-30'), day('2026-10-01'),
+      day('2026-10-05'), day('2026-10-06', false), day('2026-10-07'),
+    ], '2026-10-19');
+    expect(stats.longestStreak).toBe(4);
+    expect(stats.currentStreak).toBe(0);
+    expect(stats.completedDays).toBe(6);
+  });
+
+  it('keeps the current streak alive until today is over', () => {
+    const history = [day('2026-10-16'), day('2026-10-17'), day('2026-10-18')];
+    expect(summarizeChallengeHistory(history, '2026-10-19').currentStreak).toBe(3);
+    expect(summarizeChallengeHistory([...history, day('2026-10-19')], '2026-10-19').currentStreak).toBe(4);
+    expect(summarizeChallengeHistory(history, '2026-10-20').currentStreak).toBe(0);
+  });
+
+  it('totals rewards from completed days only', () => {
+    const stats = summarizeChallengeHistory([day('2026-10-01', true, 1200), day('2026-10-02', false, 1500), day('2026-10-03', true, 800)]);
+    expect(stats.totalRewardPoints).toBe(2000);
+  });
+});
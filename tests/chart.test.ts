@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseChart,
+  getSongNotes,
+  getSongLengthBeats,
+  bpmAtBeat,
+  beatToSeconds,
+  loadBundledSongs,
+  flattenChartNotes,
+  getLaneMode,
+  LEAD_IN_BEATS,
+} from '../src/game/chart';
+import { Choreographer } from '../src/game/choreography';
+import { ChartFile, SONGS } from '../src/types';
+
+function makeChart(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    version: 1,
+    meta: { id: 'test', name: 'Test Song', bpm: 120, style: 'pop', difficulty: 'easy' },
+    bars: [
+      { notes: [{ beat: 0, zone: 'upper-left' }, { beat: 2, zone: 'lower-right' }] },
+    ],
+    ...overrides,
+  };
+}
+
+describe('Tempo Map', () => {
+  it('uses the base tempo with no changes', () => {
+    expect(bpmAtBeat(10, 120)).toBe(120);
+    expect(beatToSeconds(4, 120)).toBeCloseTo(2);
+  });
+
+  it('switches tempo at the change beat', () => {
+    const changes = [{ beat: 4, bpm: 60 }];
+    expect(bpmAtBeat(3.9, 120, changes)).toBe(120);
+    expect(bpmAtBeat(4, 120, changes)).toBe(60);
+    // 4 beats at 120 (2s) + 2 beats at 60 (2s)
+    expect(beatToSeconds(6, 120, changes)).toBeCloseTo(4);
+  });
+});
+
+describe('Chart Parsing', () => {
+  it('converts a valid chart to a SongDefinition', () => {
+    const { song, errors } = parseChart(makeChart());
+    expect(errors).toEqual([]);
+    expect(song).not.toBeNull();
+    expect(song!.id).toBe('test');
+    expect(song!.barCount).toBe(1);
+    expect(song!.beatPattern.length).toBe(4);
+    expect(song!.notes).toEqual([
+      { beat: 0, zone: 'upper-left' },
+      { beat: 2, zone: 'lower-right' },
+    ]);
+  });
+
+  it('places sub-beat notes and holds', () => {
+    const { song } = parseChart(makeChart({
+      bars: [
+        { notes: [] },
+        { notes: [
+          { beat: 1, sub: [1, 3], zone: 'upper-center' },
+          { beat: 2, sub: [3, 4], zone: 'lower-left', hold: 2 },
+        ] },
+      ],
+    }));
+    expect(song!.notes![0].beat).toBeCloseTo(5 + 1 / 3);
+    expect(song!.notes![1]).toEqual({ beat: 6.75, zone: 'lower-left', holdBeats: 2 });
+    // Hold ends in bar 2 → three bars
+    expect(song!.barCount).toBe(3);
+  });
+
+  it('mixes per-bar and per-note timing in playback order', () => {
+    const { song } = parseChart(makeChart({
+      notes: [{ bar: 0, beat: 1, zone: 'upper-right' }],
+    }));
+    expect(song!.notes!.map(n => n.beat)).toEqual([0, 1, 2]);
+  });
+
+  it('converts tempo changes to absolute beats', () => {
+    const { song } = parseChart(makeChart({
+      meta: { id: 'w', name: 'Waltz', bpm: 90, style: 'latin', difficulty: 'medium', beatsPerBar: 3 },
+      bars: [{ notes: [{ beat: 0, zone: 'upper-left' }] }, { notes: [{ beat: 2, zone: 'upper-left' }] }],
+      tempo: [{ bar: 1, beat: 1, bpm: 120 }],
+    }));
+    expect(song!.tempoChanges).toEqual([{ beat: 4, bpm: 120 }]);
+  });
+
+  it('rejects a tempo change on the first beat', () => {
+    const { song, errors } = parseChart(makeChart({ tempo: [{ bar: 0, bpm: 90 }] }));
+    expect(song).toBeNull();
+    expect(errors).toEqual(['tempo[0]: use meta.bpm for the opening tempo']);
+  });
+
+  it('rejects a tempo change between beats', () => {
+    const { song, errors } = parseChart(makeChart({ tempo: [{ bar: 1, beat: 2.5, bpm: 90 }] }));
+    expect(song).toBeNull();
+    expect(errors).toEqual([expect.stringMatching(/^tempo\[0\]\.beat: expected a whole beat/)]);
+  });
+
+  it('rejects unsupported versions', () => {
+    const { song, errors } = parseChart(makeChart({ version: 2 }));
+    expect(song).toBeNull();
+    expect(errors[0]).toMatch(/^version:/);
+  });
+
+  it('reports every invalid field with its path', () => {
+    const { song, errors } = parseChart(makeChart({
+      meta: { id: '', name: 'Bad', bpm: 999, style: 'polka', difficulty: 'easy' },
+      bars: [{ notes: [{ beat: 4, zone: 'middle' }, { beat: 0, sub: [1, 5], zone: 'upper-left' }] }],
+    }));
+    expect(song).toBeNull();
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^meta\.id:/),
+      expect.stringMatching(/^meta\.bpm:/),
+      expect.stringMatching(/^meta\.style:/),
+      expect.stringMatching(/^bars\[0\]\.notes\[0\]\.beat:/),
+      expect.stringMatching(/^bars\[0\]\.notes\[0\]\.zone:/),
+      expect.stringMatching(/^bars\[0\]\.notes\[1\]\.sub:/),
+    ]));
+  });
+
+  it('rejects a chart without notes', () => {
+    expect(parseChart(makeChart({ bars: undefined })).errors).toEqual(['chart: expected "bars" and/or "notes"']);
+    expect(parseChart(makeChart({ bars: [] })).errors).toEqual(['chart: contains no notes']);
+  });
+
+  it('parses slides with a default length', () => {
+    const { song, errors } = parseChart(makeChart({
+      bars: [{ notes: [
+        { beat: 0, zone: 'upper-left', slide: 'upper-right' },
+        { beat: 2, zone: 'lower-right', slide: 'lower-center', hold: 1.5 },
+      ] }],
+    }));
+    expect(errors).toEqual([]);
+    expect(song!.notes).toEqual([
+      { beat: 0, zone: 'upper-left', slideTo: 'upper-right', holdBeats: 1 },
+      { beat: 2, zone: 'lower-right', slideTo: 'lower-center', holdBeats: 1.5 },
+    ]);
+  });
+
+  it('rejects slides that stay in the same column', () => {
+    const { errors } = parseChart(makeChart({
+      bars: [{ notes: [{ beat: 0, zone: 'upper-left', slide: 'lower-left' }] }],
+    }));
+    expect(errors).toEqual([expect.stringMatching(/^bars\[0\]\.notes\[0\]\.slide:/)]);
+  });
+
+  it('rejects non-positive holds', () => {
+    const { errors } = parseChart(makeChart({
+      bars: [{ notes: [{ beat: 0, zone: 'upper-left', hold: 0 }] }],
+    }));
+    expect(errors).toEqual([expect.stringMatching(/^bars\[0\]\.notes\[0\]\.hold:/)]);
+  });
+});
+
+describe('Lane Mode', () => {
+  it('defaults to three-lane at every difficulty', () => {
+    expect(getLaneMode({ ...SONGS[0], difficulty: 'easy' })).toBe('three-lane');
+    expect(getLaneMode({ ...SONGS[0], difficulty: 'hard' })).toBe('three-lane');
+    expect(SONGS.map(getLaneMode)).toEqual(SONGS.map(() => 'three-lane'));
+  });
+
+  it('lets a song opt into six lanes', () => {
+    expect(getLaneMode({ ...SONGS[0], difficulty: 'hard', laneMode: 'six-lane' })).toBe('six-lane');
+  });
+
+  it('reads and validates meta.lanes', () => {
+    const { song } = parseChart(makeChart({
+      meta: { id: 't', name: 'T', bpm: 120, style: 'pop', difficulty: 'easy', lanes: 'six-lane' },
+    }));
+    expect(getLaneMode(song!)).toBe('six-lane');
+
+    const { errors } = parseChart(makeChart({
+      meta: { id: 't', name: 'T', bpm: 120, style: 'pop', difficulty: 'easy', lanes: 'nine-lane' },
+    }));
+    expect(errors).toEqual([expect.stringMatching(/^meta\.lanes:/)]);
+  });
+});
+
+describe('Chart Notes', () => {
+  it('flattens per-bar notes into per-note timing', () => {
+    const chart = makeChart({
+      bars: [{ notes: [{ beat: 1, zone: 'upper-left' }] }, { bar: 3, notes: [{ beat: 0, zone: 'lower-left' }] }],
+      notes: [{ bar: 1, beat: 2, sub: [1, 2], zone: 'upper-right' }],
+    }) as unknown as ChartFile;
+    expect(flattenChartNotes(chart)).toEqual([
+      { bar: 0, beat: 1, zone: 'upper-left' },
+      { bar: 3, beat: 0, zone: 'lower-left' },
+      { bar: 1, beat: 2, sub: [1, 2], zone: 'upper-right' },
+    ]);
+  });
+});
+
+describe('Choreography', () => {
+  it('reads moves by bar, beat and sub-beat, in order', () => {
+    const { song } = parseChart(makeChart({
+      moves: [{ bar: 1, beat: 3, sub: [1, 2], move: 'spin' }, { bar: 0, move: 'robot' }],
+    }));
+    expect(song?.moves).toEqual([{ beat: 0, move: 'robot' }, { beat: 7.5, move: 'spin' }]);
+    expect(parseChart(makeChart()).song?.moves).toBeUndefined();
+  });
+
+  it('reports invalid moves with their path', () => {
+    const { song, errors } = parseChart(makeChart({
+      moves: [{ bar: 0, move: 'moonwalk' }, { bar: 1, beat: 4, move: 'spin' }, { move: 'worm' }],
+    }));
+    expect(song).toBeNull();
+    expect(errors).toEqual([
+      expect.stringMatching(/^moves\[0\]\.move:/),
+      expect.stringMatching(/^moves\[1\]\.beat:/),
+      expect.stringMatching(/^moves\[2\]\.bar:/),
+    ]);
+    // A player's recorded moves aren't something a chart can call for
+    expect(parseChart(makeChart({ moves: [{ bar: 0, move: 'custom' }] })).errors).toEqual([
+      expect.stringMatching(/^moves\[0\]\.move: expected one of idle, wiggle, robot, worm, flail, spin$/),
+    ]);
+  });
+
+  it('cues each move on the song clock, after the lead-in and across tempo changes', () => {
+    const song = {
+      ...SONGS[0],
+      bpm: 120,
+      tempoChanges: [{ beat: 4, bpm: 60 }],
+      moves: [{ beat: 6, move: 'spin' as const }, { beat: 0, move: 'robot' as const }],
+    };
+    const choreographer = new Choreographer(song);
+    const leadIn = LEAD_IN_BEATS * 0.5;
+    expect(choreographer.due(leadIn - 0.01)).toBeNull();
+    expect(choreographer.due(leadIn)).toBe('robot');
+    expect(choreographer.due(leadIn + 1)).toBeNull();
+    // 4 beats at 120 (2s) + 2 beats at 60 (2s)
+    expect(choreographer.due(leadIn + 3.99)).toBeNull();
+    expect(choreographer.due(leadIn + 4)).toBe('spin');
+  });
+
+  it('collapses cues passed over at once into the latest', () => {
+    const song = { ...SONGS[0], moves: [{ beat: 0, move: 'robot' as const }, { beat: 1, move: 'worm' as const }] };
+    expect(new Choreographer(song).due(60)).toBe('worm');
+  });
+});
+
+describe('Song Notes', () => {
+  it('expands a built-in beat pattern across every bar', () => {
+    const song = SONGS[0];
+    const notes = getSongNotes(song);
+    const perBar = song.beatPattern.reduce((n, zones) => n + zones.length, 0);
+    expect(notes.length).toBe(perBar * song.barCount);
+    expect(getSongLengthBeats(song)).toBe(song.barCount * song.beatPattern.length);
+    for (let i = 1; i < notes.length; i++) {
+      expect(notes[i].beat).toBeGreaterThanOrEqual(notes[i - 1].beat);
+    }
+  });
+
+  it('loads the bundled charts', () => {
+    const songs = loadBundledSongs();
+    expect(songs.length).toBeGreaterThan(0);
+    for (const song of songs) {
+      expect(SONGS.find(s => s.id === song.id)).toBeUndefined();
+      expect(getSongNotes(song).length).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { EventBus } from '../src/game/events';
+import {
+  createScoreState,
+  createRhythmRun,
+  createChallengeProgress,
+  judgeRhythmRun,
+  finishRhythmRun,
+} from '../src/game/scoring';
+import { DailyChallenge, GameEvent, GameEventType } from '../src/types';
+
+/** Everything emitted on `bus` for `types`, in order */
+function record(bus: EventBus, types: GameEventType[]): GameEvent[] {
+  const events: GameEvent[] = [];
+  for (const type of types) bus.on(type, event => events.push(event));
+  return events;
+}
+
+describe('Event Bus', () => {
+  it('delivers payloads to listeners of that type until they unsubscribe', () => {
+    const bus = new EventBus();
+    const seen: number[] = [];
+    const off = bus.on('combo', ({ data }) => seen.push(data.combo));
+    bus.emit('combo', { combo: 3, multiplier: 1.75, perfectStreak: 3 });
+    bus.emit('beat', { beat: 1, time: 0.5 });
+    off();
+    bus.emit('combo', { combo: 4, multiplier: 2, perfectStreak: 4 });
+    expect(seen).toEqual([3]);
+  });
+});
+
+describe('Rhythm Run Events', () => {
+  it('announces each judgement with the combo it built or broke', () => {
+    const bus = new EventBus();
+    const events = record(bus, ['rhythm_hit', 'rhythm_miss', 'combo', 'score_update']);
+    const run = createRhythmRun(createScoreState(), null, bus);
+    judgeRhythmRun(run, { rating: 'perfect', zone: 'upper-left', targetId: 1 }, 500);
+    judgeRhythmRun(run, { rating: 'miss', zone: 'lower-right', targetId: 2 }, 1000);
+
+    expect(events.map(e => e.type)).toEqual(['rhythm_hit', 'combo', 'score_update', 'rhythm_miss', 'score_update']);
+    expect(events[0].data).toEqual({ zone: 'upper-left', rating: 'perfect', points: 300, sustain: false });
+    expect(events[1].data).toEqual({ combo: 1, multiplier: 1.25, perfectStreak: 1 });
+    expect(events[3].data).toEqual({ zone: 'lower-right', sustain: false, brokenCombo: 1 });
+  });
+
+  it('announces the daily challenge once, when it pays out', () => {
+    const challenge: DailyChallenge = {
+      date: '2026-10-19', description: 'Finish clean', conditions: [{ type: 'no_miss' }], rewardPoints: 800,
+    };
+    const bus = new EventBus();
+    const events = record(bus, ['challenge_complete']);
+    const run = createRhythmRun(createScoreState(), createChallengeProgress(challenge), bus);
+    judgeRhythmRun(run, { rating: 'good', zone: 'upper-left', targetId: 1 }, 500);
+    finishRhythmRun(run);
+    finishRhythmRun(run);
+    expect(events.map(e => e.data)).toEqual([{ challengeId: 'daily:2026-10-19', tier: 'daily', rewardPoints: 800 }]);
+  });
+});
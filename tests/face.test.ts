@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FaceController,
+  FaceMood,
+  EXPRESSION_FACES,
+  FACE_LAYOUTS,
+  DIZZY_WOBBLE,
+  EMBARRASSED_SEC,
+  FOCUSED_COMBO,
+  ECSTATIC_COMBO,
+  chooseExpression,
+  blendFaces,
+} from '../src/game/face';
+
+const CALM: FaceMood = { combo: 0, crowdEnergy: 0, wobble: 0, collapsed: false };
+
+describe('Expression Choice', () => {
+  it('follows the combo and the crowd', () => {
+    expect(chooseExpression(CALM)).toBe('neutral');
+    expect(chooseExpression({ ...CALM, combo: FOCUSED_COMBO })).toBe('focused');
+    expect(chooseExpression({ ...CALM, combo: ECSTATIC_COMBO })).toBe('ecstatic');
+    expect(chooseExpression({ ...CALM, crowdEnergy: 0.9 })).toBe('ecstatic');
+  });
+
+  it('is embarrassed just after a miss, and dizzy above all', () => {
+    const hot = { ...CALM, combo: ECSTATIC_COMBO };
+    expect(chooseExpression(hot, 0.2)).toBe('embarrassed');
+    expect(chooseExpression(hot, EMBARRASSED_SEC)).toBe('ecstatic');
+    expect(chooseExpression({ ...hot, wobble: DIZZY_WOBBLE }, 0.2)).toBe('dizzy');
+    expect(chooseExpression({ ...CALM, collapsed: true })).toBe('dizzy');
+  });
+});
+
+describe('Face Controller', () => {
+  const noBlink = (): number => 1;  // longest gap between blinks
+
+  it('eases into a new expression rather than snapping', () => {
+    const face = new FaceController(noBlink);
+    face.update(0.02, { ...CALM, combo: ECSTATIC_COMBO });
+    expect(face.current).toBe('ecstatic');
+    const smile = face.face().eyeSmile;
+    expect(smile).toBeGreaterThan(0);
+    expect(smile).toBeLessThan(1);
+
+    for (let i = 0; i < 60; i++) face.update(1 / 60, { ...CALM, combo: ECSTATIC_COMBO });
+    expect(face.face().eyeSmile).toBeCloseTo(1, 3);
+  });
+
+  it('stays embarrassed for a while after a miss', () => {
+    const face = new FaceController(noBlink);
+    face.miss();
+    face.update(EMBARRASSED_SEC / 2, CALM);
+    expect(face.current).toBe('embarrassed');
+    face.update(EMBARRASSED_SEC, CALM);
+    expect(face.current).toBe('neutral');
+  });
+
+  it('blinks every few seconds', () => {
+    const face = new FaceController(() => 0);  // shortest gap: 2s
+    face.update(1.9, CALM);
+    expect(face.face().eyeOpen).toBeCloseTo(1);
+    face.update(0.2, CALM);   // the blink starts
+    face.update(0.075, CALM); // halfway: lids shut
+    expect(face.face().eyeOpen).toBeLessThan(0.1);
+    face.update(0.1, CALM);
+    expect(face.face().eyeOpen).toBeCloseTo(1);
+  });
+
+  it('blends every feature', () => {
+    const half = blendFaces(EXPRESSION_FACES.neutral, EXPRESSION_FACES.dizzy, 0.5);
+    expect(half.spiral).toBeCloseTo(0.5);
+    expect(half.mouthCurve).toBeCloseTo((EXPRESSION_FACES.neutral.mouthCurve + EXPRESSION_FACES.dizzy.mouthCurve) / 2);
+  });
+});
+
+describe('Face Layouts', () => {
+  it('keeps the features in order down every face shape', () => {
+    for (const L of Object.values(FACE_LAYOUTS)) {
+      expect(L.browY).toBeLessThan(L.eyeY - L.eyeR / 2);
+      expect(L.eyeY + L.eyeR).toBeLessThan(L.mouthY);
+      expect(L.eyeX).toBeGreaterThan(L.eyeR);  // eyes (and lenses) don't overlap
+    }
+  });
+});
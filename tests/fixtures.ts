@@ -0,0 +1,17 @@
+import { SongDefinition } from '../src/types';
+
+/** A short 120 BPM song in 4/4 for tests; override whatever the test needs */
+export function makeSong(overrides: Partial<SongDefinition> = {}): SongDefinition {
+  return {
+    id: 'test-song',
+    name: 'Test Song',
+    emoji: '🧪',
+    bpm: 120,
+    style: 'pop',
+    difficulty: 'easy',
+    barCount: 4,
+    durationSec: 8,
+    beatPattern: [['upper-left'], ['upper-center'], ['upper-right'], ['lower-center']],
+    ...overrides,
+  };
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { createFreestyleRun, judgeFreestyleMove, nearestBeat, freestyleBeats } from '../src/game/freestyle';
+import { secondsToBeat, beatToSeconds } from '../src/game/chart';
+import { createScoreState } from '../src/game/scoring';
+import { ReplayRecorder, parseReplay } from '../src/game/replay';
+import { simulateFreestyle, verifySubmission } from '../src/game/verify';
+import { DanceMoveId, ReplayData, SongDefinition } from '../src/types';
+import { makeSong } from './fixtures';
+
+function makeRun(song = makeSong()) {
+  return createFreestyleRun(createScoreState(), song);
+}
+
+/** A freestyle run of `moves` ([ms, move, saved move's slot?]) as the replay it records */
+function freestyleReplay(song: SongDefinition, moves: Array<[number, DanceMoveId, number?]>): ReplayData {
+  const rec = new ReplayRecorder(song.id, 1, [0, 0], 'Tester');
+  for (const [ms, move, slot] of moves) rec.recordMove(ms, move, slot);
+  const provisional = rec.finish(0);
+  return { ...provisional, score: simulateFreestyle(song, provisional).score };
+}
+
+describe('Freestyle timing', () => {
+  it('inverts beatToSeconds across tempo changes', () => {
+    const changes = [{ beat: 8, bpm: 90 }];
+    for (const beat of [0, 3.5, 8, 11.25]) {
+      expect(secondsToBeat(beatToSeconds(beat, 120, changes), 120, changes)).toBeCloseTo(beat);
+    }
+  });
+
+  it('finds the nearest beat, within the round', () => {
+    const run = makeRun();
+    expect(run.totalBeats).toBe(freestyleBeats(makeSong()));
+    expect(nearestBeat(run, 1.02)).toEqual({ beat: 2, offset: expect.closeTo(0.02) });
+    expect(nearestBeat(run, 1.2).beat).toBe(2);
+    expect(nearestBeat(run, -0.3).beat).toBe(0);
+    expect(nearestBeat(run, 999).beat).toBe(run.totalBeats - 1);
+  });
+
+  it('rates moves by how close they land to a beat', () => {
+    const run = makeRun();
+    expect(judgeFreestyleMove(run, 'wiggle', 0.51).rating).toBe('perfect');
+    expect(judgeFreestyleMove(run, 'robot', 1.1).rating).toBe('good');
+    expect(judgeFreestyleMove(run, 'worm', 1.75).rating).toBe('miss');
+    expect(run.score.combo).toBe(0);
+  });
+
+  it('lets only one move land on each beat', () => {
+    const run = makeRun();
+    expect(judgeFreestyleMove(run, 'wiggle', 0.5).rating).toBe('perfect');
+    expect(judgeFreestyleMove(run, 'robot', 0.52).rating).toBe('miss');
+  });
+
+  it('judges moves late by the calibrated audio offset', () => {
+    const run = createFreestyleRun(createScoreState(), makeSong(), 0.1);
+    expect(judgeFreestyleMove(run, 'spin', 0.6).rating).toBe('perfect');
+  });
+});
+
+describe('Freestyle scoring', () => {
+  it('scores base points tripled on the beat, and nothing off it', () => {
+    const run = makeRun();
+    const offBeat = judgeFreestyleMove(run, 'wiggle', 0.25);
+    expect(offBeat.points).toBe(0);
+    const onBeat = judgeFreestyleMove(makeRun(), 'wiggle', 0.5);
+    expect(onBeat.points).toBe(Math.round(10 * 3 * 1.25));
+  });
+
+  it("can't be beaten by mashing moves between the beats", () => {
+    const song = makeSong();
+    const spam = makeRun(song);
+    for (let t = 0; t < song.durationSec; t += 0.05) {
+      judgeFreestyleMove(spam, Math.round(t / 0.05) % 2 ? 'robot' : 'wiggle', t);
+    }
+    const dance = makeRun(song);
+    for (let beat = 0; beat * 0.5 < song.durationSec; beat++) {
+      judgeFreestyleMove(dance, beat % 2 ? 'robot' : 'wiggle', beat * 0.5);
+    }
+    expect(spam.score.totalScore).toBeLessThan(dance.score.totalScore);
+  });
+
+  it('builds a variety bonus from different moves in a row', () => {
+    const run = makeRun();
+    const variety = (['wiggle', 'robot', 'worm', 'wiggle', 'wiggle'] as DanceMoveId[])
+      .map((move, i) => judgeFreestyleMove(run, move, i * 0.5).variety);
+    expect(variety).toEqual([1, 1.25, 1.5, 1.75, 1]);
+  });
+
+  it('caps the variety bonus at double', () => {
+    const run = makeRun();
+    const moves: DanceMoveId[] = ['wiggle', 'robot', 'worm', 'flail', 'spin', 'wiggle', 'robot'];
+    const variety = moves.map((move, i) => judgeFreestyleMove(run, move, i * 0.5).variety);
+    expect(variety.slice(-3)).toEqual([2, 2, 2]);
+  });
+
+  it('counts each saved move as a move of its own', () => {
+    const run = makeRun();
+    const variety = ([[0, 0], [0.5, 1], [1, 1], [1.5, 0]] as const)
+      .map(([t, slot]) => judgeFreestyleMove(run, 'custom', t, slot).variety);
+    expect(variety).toEqual([1, 1.25, 1, 1.5]);
+  });
+
+  it('ends the variety streak when a move plays out', () => {
+    const run = makeRun();
+    judgeFreestyleMove(run, 'spin', 0);
+    judgeFreestyleMove(run, 'robot', 0.5);
+    // Robot lasts 4s: idle by 5s
+    expect(judgeFreestyleMove(run, 'worm', 5).variety).toBe(1);
+  });
+});
+
+describe('Freestyle verification', () => {
+  const moves: Array<[number, DanceMoveId]> = [[0, 'wiggle'], [500, 'robot'], [1100, 'worm'], [1750, 'spin']];
+
+  it('records moves in the replay and re-scores them', () => {
+    const song = makeSong();
+    const replay = JSON.parse(JSON.stringify(freestyleReplay(song, moves)));
+    expect(parseReplay(replay).replay?.moves).toEqual([[0, 0], [500, 1], [1100, 2], [1750, 4]]);
+
+    const sim = simulateFreestyle(song, replay);
+    expect([sim.perfectHits, sim.goodHits, sim.totalHits]).toEqual([2, 1, 4]);
+    expect(verifySubmission([song], replay, { score: replay.score, mode: 'freestyle' }).status).toBe('verified');
+  });
+
+  it('records and re-scores recorded moves as custom, by palette slot', () => {
+    const song = makeSong();
+    const replay = freestyleReplay(song, [[0, 'custom', 0], [500, 'wiggle'], [1000, 'custom', 2], [1500, 'custom', 0]]);
+    expect(replay.moves).toEqual([[0, 5, 0], [500, 0], [1000, 5, 2], [1500, 5, 0]]);
+    expect(simulateFreestyle(song, replay).score).toBe(replay.score);
+    // Older replays without slots still re-score
+    expect(simulateFreestyle(song, { ...replay, moves: [[0, 5], [500, 0], [1000, 5]] }).score).toBeGreaterThan(0);
+    expect(verifySubmission([song], replay, { score: replay.score, mode: 'freestyle' }).status).toBe('verified');
+  });
+
+  it('flags forged scores and freestyle runs filed under another mode', () => {
+    const song = makeSong();
+    const replay = freestyleReplay(song, moves);
+    expect(verifySubmission([song], { ...replay, score: replay.score + 100 }, { score: replay.score + 100 }).reason)
+      .toMatch(/^inputs score/);
+    expect(verifySubmission([song], replay, { score: replay.score, mode: 'rhythm' }).reason)
+      .toBe('submitted as rhythm but the replay is of a freestyle run');
+  });
+
+  it('rejects replays with malformed moves', () => {
+    const song = makeSong();
+    const replay = freestyleReplay(song, moves);
+    expect(parseReplay({ ...replay, moves: [[500, 0], [0, 1]] }).replay).toBeNull();
+    expect(parseReplay({ ...replay, moves: [[0, 9]] }).replay).toBeNull();
+    expect(parseReplay({ ...replay, moves: [[0, 0, 1]] }).replay).toBeNull();
+    expect(parseReplay({ ...replay, moves: [[0, 5, 99]] }).replay).toBeNull();
+  });
+});
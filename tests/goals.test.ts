@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isoWeekKey,
+  seasonKey,
+  generateWeeklyChallenge,
+  generateSeasonalChallenge,
+  getActiveLongChallenges,
+  tallySession,
+  addTallies,
+  goalStatuses,
+  isLongChallengeComplete,
+} from '../src/game/goals';
+import { createScoreState } from '../src/game/scoring';
+
+describe('Challenge Calendar Keys', () => {
+  it('follows ISO weeks across year ends', () => {
+    expect(isoWeekKey('2026-10-19')).toBe('2026-W43');
+    expect(isoWeekKey('2026-10-25')).toBe('2026-W43'); // Sunday
+    expect(isoWeekKey('2021-01-03')).toBe('2020-W53');
+    expect(isoWeekKey('2024-12-30')).toBe('2025-W01');
+  });
+
+  it('files January and February under the winter that began in December', () => {
+    expect(seasonKey('2026-10-19')).toBe('2026-autumn');
+    expect(seasonKey('2026-12-05')).toBe('2026-winter');
+    expect(seasonKey('2027-02-28')).toBe('2026-winter');
+    expect(seasonKey('2027-03-01')).toBe('2027-spring');
+  });
+});
+
+describe('Weekly & Seasonal Challenges', () => {
+  it('runs a weekly challenge Monday to Sunday', () => {
+    const weekly = generateWeeklyChallenge('2026-W43');
+    expect(weekly).toMatchObject({ id: 'weekly:2026-W43', tier: 'weekly', startsOn: '2026-10-19', endsOn: '2026-10-25' });
+    expect(generateWeeklyChallenge('2020-W53')).toMatchObject({ startsOn: '2020-12-28', endsOn: '2021-01-03' });
+  });
+
+  it('runs a season for three months', () => {
+    expect(generateSeasonalChallenge('2026-winter')).toMatchObject({ startsOn: '2026-12-01', endsOn: '2027-02-28' });
+    expect(generateSeasonalChallenge('2026-autumn')).toMatchObject({ startsOn: '2026-09-01', endsOn: '2026-11-30' });
+  });
+
+  it('seeds goals from the key: the same every time, different goals within a challenge', () => {
+    expect(generateWeeklyChallenge('2026-W43')).toEqual(generateWeeklyChallenge('2026-W43'));
+    for (const c of [generateWeeklyChallenge('2026-W01'), generateSeasonalChallenge('2026-summer')]) {
+      expect(new Set(c.goals.map(g => g.metric)).size).toBe(c.goals.length);
+      expect(c.rewardPoints).toBeGreaterThan(0);
+    }
+  });
+
+  it('lists the challenges running on a date', () => {
+    expect(getActiveLongChallenges('2026-10-19').map(c => c.id)).toEqual(['weekly:2026-W43', 'seasonal:2026-autumn']);
+  });
+});
+
+describe('Long Challenge Progress', () => {
+  it('tallies a session, leaving out what it did not add to', () => {
+    const score = createScoreState();
+    score.perfectHits = 18;
+    score.goodHits = 1;
+    score.totalHitAttempts = 20;
+    score.totalScore = 5400;
+    expect(tallySession(score, { songEnded: true, dailyCompleted: false }))
+      .toEqual({ perfects: 18, hits: 19, hype: 5400, songs: 1, grade_a: 1 });
+    expect(tallySession(score, { songEnded: false, dailyCompleted: true }))
+      .toEqual({ perfects: 18, hits: 19, hype: 5400, daily_completions: 1 });
+  });
+
+  it('completes once summed sessions reach every goal', () => {
+    const weekly = generateWeeklyChallenge('2026-W43');
+    const half = Object.fromEntries(weekly.goals.map(g => [g.metric, Math.ceil(g.target / 2)]));
+    expect(isLongChallengeComplete(weekly, half)).toBe(false);
+    expect(goalStatuses(weekly, half).map(s => s.current)).toEqual(weekly.goals.map(g => Math.ceil(g.target / 2)));
+
+    const total = addTallies(half, half);
+    expect(isLongChallengeComplete(weekly, total)).toBe(true);
+    expect(goalStatuses(weekly, addTallies(total, total)).map(s => s.current)).toEqual(weekly.goals.map(g => g.target));
+  });
+});
@@ -0,0 +1,30 @@
+import * as PIXI from 'pixi.js';
+
+/**
+ * Lets PIXI build Graphics and Text under node: a canvas whose 2D context
+ * measures every string the same and draws nothing. Import before the game
+ * modules in tests that create display objects.
+ */
+const context2d = new Proxy({}, {
+  get: (_target, key) => {
+    if (key === 'measureText') return () => ({ width: 10, actualBoundingBoxAscent: 8, actualBoundingBoxDescent: 2 });
+    if (key === 'getImageData') return () => ({ data: new Uint8ClampedArray(4) });
+    return () => undefined;
+  },
+  set: () => true,
+});
+
+class HeadlessCanvas {
+  width = 1;
+  height = 1;
+  style = {};
+  getContext() { return context2d; }
+  addEventListener() {}
+  removeEventListener() {}
+}
+
+(globalThis as { HTMLCanvasElement?: unknown }).HTMLCanvasElement = HeadlessCanvas;
+PIXI.settings.ADAPTER = {
+  ...PIXI.settings.ADAPTER,
+  createCanvas: (width = 1, height = 1) => Object.assign(new HeadlessCanvas(), { width, height }) as unknown as HTMLCanvasElement,
+};
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GuestSnapshot,
+  AccountData,
+  planMigration,
+  describeMigration,
+  migrationKey,
+  DEFAULT_DISPLAY_NAME,
+} from '../src/services/supabase/migration';
+import { ChallengeResult, DEFAULT_CUSTOMIZATION } from '../src/types';
+
+const RED_LOOK = { ...DEFAULT_CUSTOMIZATION, topColor: '#FF0000' };
+const BLUE_LOOK = { ...DEFAULT_CUSTOMIZATION, topColor: '#0000FF' };
+
+function challenge(overrides: Partial<ChallengeResult> = {}): ChallengeResult {
+  return { date: '2026-10-19', completed: false, bestStreak: 3, rewardPoints: 800, ...overrides };
+}
+
+function snapshot(overrides: Partial<GuestSnapshot> = {}): GuestSnapshot {
+  return {
+    fromUserId: 'anon-1',
+    takenAt: '2026-10-19T12:00:00Z',
+    profile: { displayName: DEFAULT_DISPLAY_NAME, customization: { ...DEFAULT_CUSTOMIZATION } },
+    scores: [],
+    outfits: [],
+    challenges: [],
+    ...overrides,
+  };
+}
+
+function account(overrides: Partial<AccountData> = {}): AccountData {
+  return {
+    displayName: DEFAULT_DISPLAY_NAME,
+    customization: { ...DEFAULT_CUSTOMIZATION },
+    outfits: [],
+    moves: [],
+    challenges: [],
+    rewardedChallenges: [],
+    achievements: [],
+    ...overrides,
+  };
+}
+
+describe('Guest Migration Plan', () => {
+  it('copies every score under a key derived from the guest row', () => {
+    const plan = planMigration(snapshot({
+      scores: [{ id: 's1', score: 1200, mode: 'rhythm' }, { id: 's2', score: 900, mode: 'rhythm' }],
+    }), account());
+    expect(plan.scores.map(s => s.clientKey)).toEqual([
+      migrationKey('anon-1', 'score', 's1'),
+      migrationKey('anon-1', 'score', 's2'),
+    ]);
+    // Planning again yields the same keys, so a rerun can't duplicate rows
+    expect(planMigration(snapshot({ scores: [{ id: 's1', score: 1200, mode: 'rhythm' }] }), account()).scores[0].clientKey)
+      .toBe(plan.scores[0].clientKey);
+  });
+
+  it("claims the guest's server scores instead of copying them", () => {
+    const plan = planMigration(snapshot({
+      scores: [{ score: 700, mode: 'rhythm', createdAt: '2026-10-18T09:00:00Z' }],
+      transfer: { token: 'tok-1', scores: 2 },
+    }), account());
+    // Only the score kept on the device is copied: the two on the boards change hands, so each appears once
+    expect(plan.scores.map(s => s.score.score)).toEqual([700]);
+    expect(plan.transfer).toBe('tok-1');
+    expect(plan.summary.scores).toBe(3);
+    expect(planMigration(snapshot(), account()).transfer).toBeNull();
+  });
+
+  it('skips outfits the account already has', () => {
+    const plan = planMigration(snapshot({
+      outfits: [
+        { id: 'o1', name: 'Party', customization: RED_LOOK },
+        { id: 'o2', name: 'Chill', customization: BLUE_LOOK },
+      ],
+    }), account({ outfits: [{ id: 'x', name: 'Party', customization: RED_LOOK }] }));
+    expect(plan.outfits.map(o => o.outfit.name)).toEqual(['Chill']);
+    expect(plan.summary.outfits).toBe(1);
+  });
+
+  it('copies recorded moves the account lacks, and old snapshots without any', () => {
+    const shimmy = { beats: 1, loop: true, frames: [{ beat: 0, joints: { torsoTilt: 0.3 } }] };
+    const plan = planMigration(snapshot({
+      moves: [
+        { id: 'm1', name: 'Shimmy', animation: shimmy },
+        { id: 'm2', name: 'Shimmy', animation: { ...shimmy, beats: 2 } },
+      ],
+    }), account({ moves: [{ id: 'x', name: 'Shimmy', animation: shimmy }] }));
+    expect(plan.moves).toEqual([
+      { move: expect.objectContaining({ id: 'm2' }), clientKey: migrationKey('anon-1', 'move', 'm2') },
+    ]);
+    expect(plan.summary.moves).toBe(1);
+    expect(planMigration(snapshot(), account()).moves).toEqual([]);
+  });
+
+  it('merges challenge days best-of and leaves days the account already beat alone', () => {
+    const plan = planMigration(snapshot({
+      challenges: [
+        challenge({ date: '2026-10-18', bestStreak: 9 }),
+        challenge({ date: '2026-10-19', bestStreak: 2 }),
+        challenge({ date: '2026-10-17', completed: true }),
+      ],
+    }), account({
+      challenges: [
+        challenge({ date: '2026-10-18', completed: true, bestStreak: 4 }),
+        challenge({ date: '2026-10-19', completed: true, bestStreak: 5 }),
+      ],
+    }));
+    expect(plan.challenges).toEqual([
+      challenge({ date: '2026-10-18', completed: true, bestStreak: 9 }),
+      challenge({ date: '2026-10-17', completed: true }),
+    ]);
+  });
+
+  it('copies XP, except challenge rewards the account already earned', () => {
+    const plan = planMigration(snapshot({
+      xp: [
+        { id: 'x1', source: 'session', xp: 120, grade: 'A' },
+        { id: 'x2', source: 'weekly', xp: 300, challengeId: 'weekly:2026-W43' },
+        { id: 'x3', source: 'daily', xp: 110, challengeId: 'daily:2026-10-19' },
+      ],
+    }), account({ rewardedChallenges: ['weekly:2026-W43'] }));
+    expect(plan.xp.map(x => x.award.xp)).toEqual([120, 110]);
+    expect(plan.xp[0].clientKey).toBe(migrationKey('anon-1', 'xp', 'x1'));
+  });
+
+  it('copies achievement progress as one row and only the unlocks the account lacks', () => {
+    const plan = planMigration(snapshot({
+      achievements: {
+        tally: { first_song: 1, combo_50: 62 },
+        unlocks: [
+          { id: 'first_song', unlockedAt: '2026-10-18T10:00:00Z' },
+          { id: 'combo_50', unlockedAt: '2026-10-19T10:00:00Z' },
+        ],
+      },
+    }), account({ achievements: ['first_song'] }));
+    expect(plan.achievementTally).toEqual({
+      tally: { first_song: 1, combo_50: 62 },
+      clientKey: migrationKey('anon-1', 'achievement', 'tally'),
+    });
+    expect(plan.unlocks).toEqual([{
+      unlock: { id: 'combo_50', unlockedAt: '2026-10-19T10:00:00Z' },
+      clientKey: migrationKey('anon-1', 'achievement', 'combo_50'),
+    }]);
+    expect(planMigration(snapshot(), account()).achievementTally).toBeNull();
+  });
+
+  it('gives a fresh account the guest name and look', () => {
+    const plan = planMigration(snapshot({ profile: { displayName: 'Groover', customization: RED_LOOK } }), account());
+    expect(plan.profile).toEqual({ displayName: 'Groover', customization: RED_LOOK });
+    expect(plan.summary.profile).toBe('adopted');
+  });
+
+  it('keeps an existing account look and saves the guest one to the locker', () => {
+    const plan = planMigration(
+      snapshot({ profile: { displayName: 'Groover', customization: RED_LOOK } }),
+      account({ displayName: 'Boogie', customization: BLUE_LOOK })
+    );
+    expect(plan.profile).toBeNull();
+    expect(plan.outfits.map(o => o.outfit)).toContainEqual(expect.objectContaining({ name: 'Guest Look', customization: RED_LOOK }));
+    expect(plan.summary.profile).toBe('kept-account');
+  });
+});
+
+describe('Guest Migration Summary', () => {
+  it('describes what moved, what is still queued and what happened to the profile', () => {
+    expect(describeMigration({ scores: 3, outfits: 1, moves: 0, challenges: 0, unranked: 0, queued: 2, profile: 'adopted' })).toEqual([
+      'Moved 3 scores, 1 outfit into your account.',
+      '2 offline saves will sync when you\'re back online.',
+      'Your guest name and look are now on your account.',
+    ]);
+    expect(describeMigration({ scores: 0, outfits: 0, moves: 0, challenges: 0, unranked: 0, queued: 0, profile: 'unchanged' })).toEqual([
+      'Nothing new to move — your account already had it all.',
+    ]);
+  });
+
+  it('warns about copied scores that have no replay to verify', () => {
+    const replay = { v: 1, songId: 's', seed: 1, latency: [0, 0] as [number, number], challenge: null, player: 'Groover',
+      createdAt: '2026-10-18T09:00:00Z', score: 700, inputs: [], hits: [] };
+    const plan = planMigration(snapshot({
+      scores: [{ score: 700, mode: 'rhythm', replay }, { score: 500, mode: 'rhythm' }],
+    }), account());
+    expect(plan.scores[0].score.replay).toEqual(replay);
+    expect(plan.summary.unranked).toBe(1);
+    expect(describeMigration(plan.summary)).toContain("1 score had no replay to verify, so it won't be ranked.");
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_MOVE_BEATS, ZONE_REACH, quantizeBeat, buildCustomMove } from '../src/game/moves';
+import { REST_POSE, sampleClip } from '../src/game/animation';
+
+describe('Tap Quantizing', () => {
+  it('snaps taps to the nearest half beat', () => {
+    expect(quantizeBeat(0.2)).toBe(0);
+    expect(quantizeBeat(0.3)).toBe(0.5);
+    expect(quantizeBeat(2.74)).toBe(2.5);
+    expect(quantizeBeat(1.13, 4)).toBe(1.25);
+  });
+});
+
+describe('Custom Moves', () => {
+  it('reaches the tapped zone on its beat and lets go half a beat later', () => {
+    const clip = buildCustomMove([{ beat: 0.1, zone: 'upper-left' }, { beat: 1.9, zone: 'lower-right' }])!;
+    expect(clip.loop).toBe(true);
+    expect(clip.beats).toBe(3);
+    expect(clip.frames.map(f => f.beat)).toEqual([0, 0.5, 2, 2.5]);
+    expect(sampleClip(clip, 0).leftShoulder).toBe(ZONE_REACH['upper-left'].leftShoulder);
+    expect(sampleClip(clip, 0.5).leftShoulder).toBe(REST_POSE.leftShoulder);
+    expect(sampleClip(clip, 2).rightKnee).toBe(ZONE_REACH['lower-right'].rightKnee);
+  });
+
+  it('combines taps on the same beat into one pose', () => {
+    const clip = buildCustomMove([{ beat: 1, zone: 'upper-left' }, { beat: 1.1, zone: 'upper-right' }])!;
+    const reach = clip.frames.find(f => f.beat === 1)!;
+    expect(reach.joints).toEqual({ ...ZONE_REACH['upper-left'], ...ZONE_REACH['upper-right'] });
+  });
+
+  it('keeps a joint reaching when the next tap comes before it lets go', () => {
+    const clip = buildCustomMove([{ beat: 0, zone: 'lower-left' }, { beat: 0.5, zone: 'lower-center' }])!;
+    const second = clip.frames.find(f => f.beat === 0.5)!;
+    expect(second.joints.leftHip).toBe(ZONE_REACH['lower-center'].leftHip);
+    expect(second.joints.leftKnee).toBe(REST_POSE.leftKnee);
+  });
+
+  it('wraps a release that falls on the end of the loop round to its start', () => {
+    const clip = buildCustomMove([{ beat: 1, zone: 'upper-center' }, { beat: 1.5, zone: 'upper-right' }])!;
+    expect(clip.beats).toBe(2);
+    expect(clip.frames.every(f => f.beat >= 0 && f.beat < clip.beats)).toBe(true);
+    expect(clip.frames[0]).toMatchObject({ beat: 0, joints: { rightShoulder: REST_POSE.rightShoulder } });
+  });
+
+  it('drops taps outside the recording, and builds nothing without any', () => {
+    expect(buildCustomMove([])).toBeNull();
+    expect(buildCustomMove([{ beat: -1, zone: 'upper-left' }, { beat: MAX_MOVE_BEATS - 0.2, zone: 'upper-left' }]))
+      .toBeNull();
+    expect(buildCustomMove([{ beat: MAX_MOVE_BEATS - 0.5, zone: 'upper-left' }])!.beats).toBe(MAX_MOVE_BEATS);
+  });
+});
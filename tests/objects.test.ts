@@ -0,0 +1,101 @@
+import './headless';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as PIXI from 'pixi.js';
+import Matter from 'matter-js';
+import {
+  ObjectManager,
+  DroppableObject,
+  MAX_OBJECTS,
+  DESPAWN_SEC,
+  HIT_COOLDOWN,
+} from '../src/game/objects';
+import { Character } from '../src/game/character';
+import { DEFAULT_CUSTOMIZATION } from '../src/types';
+
+let physics: Matter.Engine;
+let character: Character;
+let layer: PIXI.Container;
+let objects: ObjectManager;
+
+beforeEach(() => {
+  physics = Matter.Engine.create();
+  character = new Character(DEFAULT_CUSTOMIZATION);
+  character.container.position.set(400, 300);
+  layer = new PIXI.Container();
+  objects = new ObjectManager(layer, physics, character, 800, 600);
+});
+
+/** Report `obj` landing on the dancer at `speed`, as Matter would mid-step */
+function hit(obj: DroppableObject, speed = 0): void {
+  const hitbox = physics.world.bodies.find(b => b.label === 'character')!;
+  Matter.Body.setVelocity(obj.body, { x: 0, y: speed });
+  Matter.Events.trigger(physics, 'collisionStart', { pairs: [{ bodyA: hitbox, bodyB: obj.body }] });
+}
+
+describe('Object Manager', () => {
+  it('recycles the oldest object once the screen is full', () => {
+    const first = objects.spawn('beachBall', 100)!;
+    for (let i = 1; i < MAX_OBJECTS; i++) objects.spawn('beachBall', 100 + i * 10);
+    expect(objects.activeCount).toBe(MAX_OBJECTS);
+
+    const next = objects.spawn('beachBall', 700)!;
+    expect(objects.activeCount).toBe(MAX_OBJECTS);
+    // The pool was empty, so the new drop reuses the object it just released
+    expect(next).toBe(first);
+    expect(next.body.position.x).toBe(700);
+    expect(layer.children.filter(c => c === next.sprite)).toHaveLength(1);
+  });
+
+  it('fades objects out and despawns them after DESPAWN_SEC', () => {
+    const obj = objects.spawn('rubberDuck', 400)!;
+    const baseline = physics.world.bodies.length;
+
+    objects.update(DESPAWN_SEC - 0.25);
+    expect(obj.sprite.alpha).toBeCloseTo(0.5);
+    expect(objects.activeCount).toBe(1);
+
+    objects.update(0.25);
+    expect(objects.activeCount).toBe(0);
+    expect(obj.sprite.parent).toBeNull();
+    expect(physics.world.bodies).toHaveLength(baseline - 1);
+  });
+
+  it('wobbles the dancer once per hit cooldown', () => {
+    const wobble = vi.spyOn(character, 'wobble');
+    const obj = objects.spawn('pillow', 400)!;
+
+    hit(obj);
+    hit(obj);
+    expect(wobble).toHaveBeenCalledTimes(1);
+
+    objects.update(HIT_COOLDOWN);
+    hit(obj);
+    expect(wobble).toHaveBeenCalledTimes(2);
+  });
+
+  it('knocks the dancer down only for heavy objects landing hard', () => {
+    character.enableRagdoll(physics, 500);
+    const collapse = vi.spyOn(character, 'collapse');
+
+    hit(objects.spawn('bowlingBall', 400)!, 0);     // heavy, but resting
+    hit(objects.spawn('beachBall', 400)!, 20);      // fast, but light
+    expect(collapse).not.toHaveBeenCalled();
+    expect(character.isCollapsed).toBe(false);
+
+    hit(objects.spawn('anvil', 400)!, 2);
+    expect(collapse).toHaveBeenCalledTimes(1);
+    expect(character.isCollapsed).toBe(true);
+  });
+
+  it('destroys every pooled and active sprite and leaves the world as it found it', () => {
+    const baseline = physics.world.bodies.length - 1;   // less the dancer hitbox
+    const dropped = [objects.spawn('anvil', 300)!, objects.spawn('donut', 500)!];
+    objects.update(DESPAWN_SEC);                         // back into the pool
+    const live = objects.spawn('watermelon', 400)!;
+
+    objects.destroy();
+    for (const obj of [...dropped, live]) expect(obj.sprite.destroyed).toBe(true);
+    expect(layer.children).toHaveLength(0);
+    expect(physics.world.bodies).toHaveLength(baseline);
+  });
+});
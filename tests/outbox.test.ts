@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  OutboxItem,
+  createOutboxItem,
+  enqueueItem,
+  markAttempt,
+  claimItems,
+  nextAttemptAt,
+  backoffMs,
+  mergeChallengeResults,
+  loadOutbox,
+  saveOutbox,
+  LOCAL_REPLAYS_KEY,
+  OUTBOX_BASE_DELAY_MS,
+  OUTBOX_MAX_DELAY_MS,
+} from '../src/services/supabase/outbox';
+import { eventBus } from '../src/game/events';
+import { ChallengeResult, ReplayData } from '../src/types';
+
+function challenge(overrides: Partial<ChallengeResult> = {}): ChallengeResult {
+  return { date: '2026-10-19', completed: false, bestStreak: 3, rewardPoints: 800, ...overrides };
+}
+
+function scoreItem(userId: string, key: string): OutboxItem {
+  return createOutboxItem(userId, { kind: 'score', score: { score: 1200, mode: 'rhythm' } }, key);
+}
+
+describe('Outbox Queue', () => {
+  it('ignores a write queued twice under the same key', () => {
+    const once = enqueueItem([], scoreItem('u1', 'k1'));
+    expect(enqueueItem(once, scoreItem('u1', 'k1'))).toHaveLength(1);
+    expect(enqueueItem(once, scoreItem('u1', 'k2'))).toHaveLength(2);
+  });
+
+  it('merges challenge results for the same day instead of queueing both', () => {
+    const first = createOutboxItem('u1', { kind: 'challenge', result: challenge({ bestStreak: 5 }) }, 'a');
+    const second = createOutboxItem('u1', { kind: 'challenge', result: challenge({ completed: true, bestStreak: 2 }) }, 'b');
+    const items = enqueueItem(enqueueItem([], first), second);
+    expect(items).toHaveLength(1);
+    expect(items[0].key).toBe('b');
+    expect(items[0]).toMatchObject({ result: { completed: true, bestStreak: 5 } });
+  });
+
+  it('hands guest writes to the account that signs in, leaving other accounts alone', () => {
+    const items = claimItems([scoreItem('guest_123', 'a'), scoreItem('other-user', 'b')], 'u1');
+    expect(items.map(i => i.userId)).toEqual(['u1', 'other-user']);
+  });
+});
+
+describe('Outbox Retry', () => {
+  it('backs off exponentially up to a cap', () => {
+    expect(backoffMs(1)).toBe(OUTBOX_BASE_DELAY_MS);
+    expect(backoffMs(3)).toBe(OUTBOX_BASE_DELAY_MS * 4);
+    expect(backoffMs(50)).toBe(OUTBOX_MAX_DELAY_MS);
+  });
+
+  it('keeps a failed write, scheduled for later, with the reason', () => {
+    const failed = markAttempt(scoreItem('u1', 'a'), new Error('Failed to fetch'), 10_000);
+    expect(failed).toMatchObject({ attempts: 1, nextAttemptAt: 10_000 + OUTBOX_BASE_DELAY_MS, lastError: 'Failed to fetch' });
+    expect(nextAttemptAt([failed, scoreItem('u2', 'b')], 'u1')).toBe(10_000 + OUTBOX_BASE_DELAY_MS);
+    expect(nextAttemptAt([failed], 'u2')).toBeNull();
+  });
+});
+
+describe('Challenge Conflict Policy', () => {
+  it('never downgrades a completion and keeps the best streak', () => {
+    const server = challenge({ completed: true, bestStreak: 4, rewardPoints: 900 });
+    const offline = challenge({ bestStreak: 7, rewardPoints: 1000 });
+    expect(mergeChallengeResults(server, offline)).toEqual(challenge({ completed: true, bestStreak: 7, rewardPoints: 900 }));
+    expect(mergeChallengeResults(offline, server)).toEqual(challenge({ completed: true, bestStreak: 7, rewardPoints: 900 }));
+  });
+});
+
+/** localStorage that throws once everything stored would pass `limit` characters */
+function fullStorage(limit: number): Storage {
+  const data = new Map<string, string>();
+  const used = (): number => [...data.values()].reduce((n, v) => n + v.length, 0);
+  return {
+    get length() { return data.size; },
+    key: i => [...data.keys()][i] ?? null,
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => {
+      if (used() - (data.get(key)?.length ?? 0) + value.length > limit) throw new DOMException('full', 'QuotaExceededError');
+      data.set(key, value);
+    },
+    removeItem: key => { data.delete(key); },
+    clear: () => data.clear(),
+  };
+}
+
+function bulkyReplay(): ReplayData {
+  return {
+    v: 1, songId: 's', seed: 1, latency: [0, 0], challenge: null, player: 'x'.repeat(2_000),
+    createdAt: '2026-10-19T12:00:00Z', score: 1200, inputs: [], hits: [],
+  };
+}
+
+describe('Outbox Storage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const xp = createOutboxItem('u1', { kind: 'xp', award: { id: 'x1', source: 'session', xp: 120 } }, 'xp');
+  const day = createOutboxItem('u1', { kind: 'challenge', result: challenge() }, 'day');
+  const withReplay = (key: string): OutboxItem =>
+    createOutboxItem('u1', { kind: 'score', score: { score: 1200, mode: 'rhythm', replay: bulkyReplay() } }, key);
+
+  it('gives up replays, never queued writes, when storage is full', () => {
+    const storage = fullStorage(3_000);
+    vi.stubGlobal('localStorage', storage);
+    storage.setItem(LOCAL_REPLAYS_KEY, JSON.stringify([bulkyReplay()]));
+
+    saveOutbox([withReplay('old'), xp, day, withReplay('new')]);
+    expect(storage.getItem(LOCAL_REPLAYS_KEY)).toBeNull();
+    const saved = loadOutbox();
+    expect(saved.map(i => i.key)).toEqual(['old', 'xp', 'day', 'new']);
+    // Only the oldest score had to give up its replay
+    expect(saved.map(i => (i.kind === 'score' ? Boolean(i.score.replay) : null))).toEqual([false, null, null, true]);
+  });
+
+  it("tells the player when the queue still doesn't fit, keeping what was saved", () => {
+    const storage = fullStorage(400);
+    vi.stubGlobal('localStorage', storage);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const full = vi.fn();
+    const unsubscribe = eventBus.on('storage_full', full);
+
+    saveOutbox([xp, day]);
+    saveOutbox([xp, day, withReplay('s1'), createOutboxItem('u1', { kind: 'xp', award: { id: 'x2', source: 'daily', xp: 110 } }, 'xp2')]);
+    unsubscribe();
+    expect(loadOutbox().map(i => i.key)).toEqual(['xp', 'day']);
+    expect(full).toHaveBeenCalledTimes(1);
+    expect(full.mock.calls[0][0].data).toEqual({ queued: 4 });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  practiceSong,
+  clampPracticeSettings,
+  defaultPracticeSettings,
+  practiceLoopAt,
+  describePractice,
+} from '../src/game/practice';
+import { getSongNotes, getSongLengthBeats, bpmAtBeat, LEAD_IN_BEATS } from '../src/game/chart';
+import { SongDefinition, PracticeSettings } from '../src/types';
+
+// Four bars of four beats; one note per beat, zones cycling per bar
+const SONG: SongDefinition = {
+  id: 'practice-test',
+  name: 'Practice Test',
+  emoji: '🧪',
+  bpm: 120,
+  style: 'pop',
+  difficulty: 'medium',
+  barCount: 4,
+  durationSec: 8,
+  beatPattern: [['upper-left'], ['upper-center'], ['upper-right'], ['lower-center']],
+  notes: [
+    { beat: 0, zone: 'upper-left' },
+    { beat: 5, zone: 'upper-right' },
+    { beat: 6, zone: 'lower-left', holdBeats: 4 },
+    { beat: 9, zone: 'lower-right' },
+    { beat: 13, zone: 'upper-center' },
+  ],
+  tempoChanges: [{ beat: 6, bpm: 160 }],
+  moves: [{ beat: 0, move: 'wiggle' }, { beat: 6, move: 'robot' }, { beat: 12, move: 'spin' }],
+};
+
+function settings(overrides: Partial<PracticeSettings> = {}): PracticeSettings {
+  return { fromBar: 1, toBar: 1, speed: 1, loops: 2, showZones: false, ...overrides };
+}
+
+describe('Practice Song', () => {
+  it('loops the chosen bars from beat 0, cutting sustains at the section end', () => {
+    const song = practiceSong(SONG, settings());
+    expect(getSongNotes(song)).toEqual([
+      { beat: 1, zone: 'upper-right' },
+      { beat: 2, zone: 'lower-left', holdBeats: 2 },
+      { beat: 5, zone: 'upper-right' },
+      { beat: 6, zone: 'lower-left', holdBeats: 2 },
+    ]);
+    expect(song.barCount).toBe(2);
+    expect(getSongLengthBeats(song)).toBe(8);
+  });
+
+  it('scales the whole tempo map, restarting it every loop', () => {
+    const song = practiceSong(SONG, settings({ speed: 0.5 }));
+    expect(song.bpm).toBe(60);
+    expect(bpmAtBeat(1, song.bpm, song.tempoChanges)).toBe(60);
+    expect(bpmAtBeat(2, song.bpm, song.tempoChanges)).toBe(80);
+    expect(bpmAtBeat(4, song.bpm, song.tempoChanges)).toBe(60);
+    expect(bpmAtBeat(7, song.bpm, song.tempoChanges)).toBe(80);
+  });
+
+  it('repeats the section choreography, opening on the move already in effect', () => {
+    const song = practiceSong(SONG, settings());
+    expect(song.moves).toEqual([
+      { beat: 0, move: 'wiggle' },
+      { beat: 2, move: 'robot' },
+      { beat: 4, move: 'wiggle' },
+      { beat: 6, move: 'robot' },
+    ]);
+  });
+
+  it('starts at the tempo in effect where the section begins', () => {
+    const song = practiceSong(SONG, settings({ fromBar: 2, toBar: 3, speed: 0.5 }));
+    expect(song.bpm).toBe(80);
+    expect(song.tempoChanges).toBeUndefined();
+  });
+
+  it('keeps settings inside the song', () => {
+    expect(clampPracticeSettings(SONG, settings({ fromBar: 3, toBar: 1, speed: 0.1, loops: 0 })))
+      .toEqual({ fromBar: 3, toBar: 3, speed: 0.5, loops: 1, showZones: false });
+    expect(clampPracticeSettings(SONG, settings({ fromBar: -2, toBar: 9 }))).toMatchObject({ fromBar: 0, toBar: 3 });
+    expect(defaultPracticeSettings({ ...SONG, barCount: 2 }).toBar).toBe(1);
+  });
+
+  it('counts loops from the first song beat', () => {
+    const s = settings({ loops: 3 });
+    expect(practiceLoopAt(SONG, s, 0)).toBe(1);
+    expect(practiceLoopAt(SONG, s, LEAD_IN_BEATS + 3)).toBe(1);
+    expect(practiceLoopAt(SONG, s, LEAD_IN_BEATS + 4)).toBe(2);
+    expect(practiceLoopAt(SONG, s, LEAD_IN_BEATS + 40)).toBe(3);
+    expect(describePractice(settings({ toBar: 3, speed: 0.6, loops: 4 }))).toBe('Bars 2–4 · 60% · ×4');
+  });
+});
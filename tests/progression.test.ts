@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_LEVEL,
+  xpForLevel,
+  xpToNextLevel,
+  levelForXp,
+  sessionXpAward,
+  challengeXpAward,
+  summarizeProgression,
+  isOptionUnlocked,
+  lockedOptions,
+  describeRequirement,
+  countNewUnlocks,
+} from '../src/game/progression';
+import { createScoreState } from '../src/game/scoring';
+import { XpAward, DEFAULT_CUSTOMIZATION, CustomizationData } from '../src/types';
+
+function session(xp: number, grade?: XpAward['grade']): XpAward {
+  return grade ? { source: 'session', xp, grade } : { source: 'session', xp };
+}
+
+describe('XP & Levels', () => {
+  it('makes each level cost more than the last', () => {
+    expect(xpForLevel(1)).toBe(0);
+    expect(xpForLevel(2)).toBe(200);
+    expect(xpForLevel(3)).toBe(500);
+    for (let level = 1; level < MAX_LEVEL; level++) {
+      expect(xpForLevel(level + 1) - xpForLevel(level)).toBe(xpToNextLevel(level));
+    }
+  });
+
+  it('finds the level for a total, capped at the maximum', () => {
+    expect(levelForXp(0)).toBe(1);
+    expect(levelForXp(199)).toBe(1);
+    expect(levelForXp(200)).toBe(2);
+    expect(levelForXp(xpForLevel(MAX_LEVEL) * 2)).toBe(MAX_LEVEL);
+  });
+
+  it('sums awards into a level with progress towards the next', () => {
+    expect(summarizeProgression([session(150), session(200)])).toMatchObject({
+      xp: 350, level: 2, levelXp: 150, nextLevelXp: 300,
+    });
+    expect(summarizeProgression([session(xpForLevel(MAX_LEVEL))]).nextLevelXp).toBe(0);
+  });
+});
+
+describe('XP Awards', () => {
+  it('pays for Hype, plus a grade bonus only when the song was finished', () => {
+    const score = createScoreState();
+    score.perfectHits = 20;
+    score.totalHitAttempts = 20;
+    score.totalScore = 25_000;
+    expect(sessionXpAward(score, true)).toEqual({ source: 'session', xp: 150, grade: 'S' });
+    expect(sessionXpAward(score, false)).toEqual({ source: 'session', xp: 50 });
+    expect(sessionXpAward(createScoreState(), false)).toBeNull();
+  });
+
+  it('turns challenge reward points into XP, tagged with the challenge', () => {
+    expect(challengeXpAward('daily:2026-10-19', 1200)).toEqual({ source: 'daily', xp: 120, challengeId: 'daily:2026-10-19' });
+    expect(challengeXpAward('weekly:2026-W43', 3000).source).toBe('weekly');
+    expect(challengeXpAward('seasonal:2026-autumn', 16000).xp).toBe(1600);
+  });
+
+  it('carries the unlocked achievements alongside the level', () => {
+    expect(summarizeProgression([session(10)]).achievements).toEqual([]);
+    expect(summarizeProgression([session(10)], ['flawless']).achievements).toEqual(['flawless']);
+  });
+});
+
+describe('Cosmetic Unlocks', () => {
+  const beginner = summarizeProgression([]);
+
+  it('has the default look available from the start', () => {
+    expect(lockedOptions(DEFAULT_CUSTOMIZATION, beginner)).toEqual([]);
+  });
+
+  it('gates options behind levels and achievements', () => {
+    expect(isOptionUnlocked('hat', 'cap', beginner)).toBe(false);
+    expect(isOptionUnlocked('hat', 'cap', summarizeProgression([session(200)]))).toBe(true);
+    expect(isOptionUnlocked('hat', 'cowboy', summarizeProgression([session(100_000)]))).toBe(false);
+    expect(isOptionUnlocked('hat', 'cowboy', summarizeProgression([], ['weekly_winner']))).toBe(true);
+    // Colours are never locked
+    expect(isOptionUnlocked('hatColor', '#FF0000', beginner)).toBe(true);
+  });
+
+  it('lists what a look still needs', () => {
+    const look: Partial<CustomizationData> = { hat: 'cowboy', shoes: 'boots', skinTone: 'dark' };
+    expect(lockedOptions(look, beginner).map(describeRequirement)).toEqual(['📆 Weekly Winner', 'Level 3']);
+  });
+
+  it('counts what a level-up unlocked', () => {
+    expect(countNewUnlocks(beginner, summarizeProgression([session(200)]))).toBe(2);  // hoodie, cap
+    expect(countNewUnlocks(beginner, beginner)).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import './headless';
+import { describe, it, expect, beforeEach } from 'vitest';
+import Matter from 'matter-js';
+import { Ragdoll, RagdollPart, RagdollPose } from '../src/game/ragdoll';
+import { Character } from '../src/game/character';
+import { DEFAULT_CUSTOMIZATION } from '../src/types';
+
+const DIMS = { headR: 30, torsoW: 50, torsoH: 70, armLen: 40, forearmLen: 35, legLen: 45, shinLen: 40, limbW: 12 };
+const PARTS: RagdollPart[] = [
+  'torso', 'head',
+  'leftUpperArm', 'leftLowerArm', 'rightUpperArm', 'rightLowerArm',
+  'leftUpperLeg', 'leftLowerLeg', 'rightUpperLeg', 'rightLowerLeg',
+];
+
+const STANDING: RagdollPose = {
+  x: 400,
+  y: 300,
+  rotation: 0,
+  angles: Object.fromEntries(PARTS.map(p => [p, 0])) as Record<RagdollPart, number>,
+};
+
+let physics: Matter.Engine;
+
+beforeEach(() => {
+  physics = Matter.Engine.create();
+});
+
+function worldSize(): { bodies: number; constraints: number } {
+  return { bodies: physics.world.bodies.length, constraints: physics.world.constraints.length };
+}
+
+/** Step physics and the dancer at 60 fps until they're back on their feet */
+function stepUntilRecovered(character: Character, maxSec = 10): void {
+  for (let t = 0; t < maxSec && character.isCollapsed; t += 1 / 60) {
+    Matter.Engine.update(physics, 1000 / 60);
+    character.update(1 / 60);
+  }
+}
+
+describe('Ragdoll', () => {
+  it('adds a body per part, the joints and a floor, and removes them all', () => {
+    const baseline = worldSize();
+    const ragdoll = new Ragdoll(physics, DIMS, 500);
+
+    ragdoll.spawn(STANDING, { x: 2, y: 1 });
+    expect(ragdoll.active).toBe(true);
+    expect(worldSize()).toEqual({ bodies: baseline.bodies + PARTS.length + 1, constraints: baseline.constraints + PARTS.length - 1 });
+    expect(Object.keys(ragdoll.readPose()!.angles).sort()).toEqual([...PARTS].sort());
+
+    ragdoll.remove();
+    expect(ragdoll.active).toBe(false);
+    expect(ragdoll.readPose()).toBeNull();
+    expect(worldSize()).toEqual(baseline);
+  });
+
+  it('replaces the old bodies when spawned again', () => {
+    const ragdoll = new Ragdoll(physics, DIMS, 500);
+    ragdoll.spawn(STANDING, { x: 0, y: 0 });
+    const once = worldSize();
+    ragdoll.spawn(STANDING, { x: 0, y: 0 });
+    expect(worldSize()).toEqual(once);
+  });
+});
+
+describe('Character Ragdoll', () => {
+  let character: Character;
+
+  beforeEach(() => {
+    character = new Character(DEFAULT_CUSTOMIZATION);
+    character.placeAt(400, 300);
+  });
+
+  it('collapses, gets back up where it stood and leaves the world as it found it', () => {
+    const baseline = worldSize();
+    character.enableRagdoll(physics, 420);
+    expect(worldSize()).toEqual(baseline);   // no bodies until the first collapse
+
+    character.collapse({ x: 3, y: 1 });
+    expect(character.isCollapsed).toBe(true);
+    expect(physics.world.bodies.length).toBeGreaterThan(baseline.bodies);
+    expect(physics.world.constraints.length).toBeGreaterThan(baseline.constraints);
+
+    stepUntilRecovered(character);
+    expect(character.isCollapsed).toBe(false);
+    expect(worldSize()).toEqual(baseline);
+    expect(character.container.x).toBe(400);
+    expect(character.container.y).toBe(300);
+  });
+
+  it('removes its bodies when destroyed mid-collapse', () => {
+    const baseline = worldSize();
+    character.enableRagdoll(physics, 420);
+    character.faint();
+    Matter.Engine.update(physics, 1000 / 60);
+    character.update(1 / 60);
+
+    character.destroy();
+    expect(character.isCollapsed).toBe(false);
+    expect(worldSize()).toEqual(baseline);
+  });
+
+  it('ignores collapses until the ragdoll is enabled', () => {
+    character.collapse({ x: 3, y: 1 });
+    expect(character.isCollapsed).toBe(false);
+    expect(worldSize()).toEqual({ bodies: 0, constraints: 0 });
+  });
+
+  it('gets up at the new spot when moved while collapsed', () => {
+    character.enableRagdoll(physics, 420);
+    character.collapse({ x: 3, y: 1 });
+    character.placeAt(600, 450);
+    // The fallen body isn't dragged across the stage
+    expect(character.container.x).not.toBe(600);
+
+    stepUntilRecovered(character);
+    expect(character.container.x).toBe(600);
+    expect(character.container.y).toBe(450);
+  });
+});
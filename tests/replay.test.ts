@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ReplayRecorder,
+  ReplayPlayer,
+  parseReplay,
+  encodeHit,
+  decodeHit,
+  firstHitMismatch,
+  createRng,
+  replayMs,
+  toPermille,
+  inputZone,
+  INPUT_DOWN,
+  INPUT_UP,
+} from '../src/game/replay';
+import { ReplayData } from '../src/types';
+
+function makeReplay(): ReplayData {
+  const rec = new ReplayRecorder('funky-beat', 1234, [40, -10], 'Wobbler');
+  rec.setChallenge('2026-10-19');
+  rec.recordInput(2400, INPUT_DOWN, 180, 500, 1, 'upper-left');
+  rec.recordInput(2650, INPUT_UP, 180, 505, 1, 'upper-left');
+  rec.recordInput(3000, INPUT_DOWN, 820, 800, 2, 'lower-right');
+  rec.recordHit(2400, { rating: 'perfect', zone: 'upper-left', targetId: 0 });
+  rec.recordHit(3250, { rating: 'miss', zone: 'lower-center', targetId: -1 });
+  return rec.finish(300);
+}
+
+describe('Replay Encoding', () => {
+  it('round-trips hit results, including sustain releases', () => {
+    const tap = { rating: 'good' as const, zone: 'lower-center' as const, targetId: 7 };
+    const release = { rating: 'perfect' as const, zone: 'upper-right' as const, targetId: 3, sustain: 0.75 };
+    expect(encodeHit(1000, tap)).toEqual([1000, 1, 4, 7, -1]);
+    expect(decodeHit(encodeHit(1000, tap))).toEqual(tap);
+    expect(decodeHit(encodeHit(2000, release))).toEqual(release);
+  });
+
+  it('rounds times to milliseconds and positions to per-mille', () => {
+    expect(replayMs(10, 12.3456)).toBe(2346);
+    expect(toPermille(200, 600)).toBe(333);
+    expect(toPermille(-5, 600)).toBe(0);
+    expect(toPermille(700, 600)).toBe(1000);
+  });
+
+  it('finishes with everything needed to play the run back', () => {
+    const replay = makeReplay();
+    expect(replay).toMatchObject({ v: 1, songId: 'funky-beat', seed: 1234, latency: [40, -10], challenge: '2026-10-19', score: 300 });
+    expect(replay.inputs.length).toBe(3);
+    expect(inputZone(replay.inputs[2])).toBe('lower-right');
+  });
+});
+
+describe('Replay Parsing', () => {
+  it('accepts a recorded replay after a JSON round trip', () => {
+    const { replay, errors } = parseReplay(JSON.parse(JSON.stringify(makeReplay())));
+    expect(errors).toEqual([]);
+    expect(replay!.hits.length).toBe(2);
+  });
+
+  it('rejects unsupported versions', () => {
+    const { replay, errors } = parseReplay({ ...makeReplay(), v: 2 });
+    expect(replay).toBeNull();
+    expect(errors[0]).toMatch(/^v:/);
+  });
+
+  it('reports every invalid field with its path', () => {
+    const bad = makeReplay() as unknown as Record<string, unknown>;
+    bad.seed = -1;
+    bad.inputs = [[100, 0, 500, 500, 1, 9], [50, 1, 500, 500, 1, 0]];
+    bad.hits = [[0, 5, 0, 0, -1]];
+    const { replay, errors } = parseReplay(bad);
+    expect(replay).toBeNull();
+    expect(errors).toEqual([
+      'seed: expected a 32-bit unsigned integer',
+      'inputs[0][5]: expected a zone index',
+      'inputs[1][0]: expected a time in order',
+      'hits[0][1]: expected a rating index',
+    ]);
+  });
+});
+
+describe('Replay Playback', () => {
+  it('releases inputs once each, in order, as their time comes up', () => {
+    const player = new ReplayPlayer(makeReplay());
+    expect(player.due(2000)).toEqual([]);
+    expect(player.due(2650).map(i => i[0])).toEqual([2400, 2650]);
+    expect(player.due(2650)).toEqual([]);
+    expect(player.finished).toBe(false);
+    expect(player.due(5000).length).toBe(1);
+    expect(player.finished).toBe(true);
+  });
+
+  it('finds the first judgement that differs, ignoring when it was recorded', () => {
+    const hits = makeReplay().hits;
+    const sameButLater = hits.map(h => [h[0] + 5, h[1], h[2], h[3], h[4]] as typeof h);
+    expect(firstHitMismatch(hits, sameButLater)).toBe(-1);
+    expect(firstHitMismatch(hits, [hits[0], [3250, 2, 3, -1, -1]])).toBe(1);
+    expect(firstHitMismatch(hits, hits.slice(0, 1))).toBe(1);
+  });
+
+  it('replays the same random sequence from a seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const seqA = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(seqA);
+    expect(seqA.every(n => n >= 0 && n < 1)).toBe(true);
+    expect(createRng(43)()).not.toBe(seqA[0]);
+  });
+});
@@ -5,6 +5,7 @@ import {
   registerRhythmHit,
   calculateSessionBonus,
   registerDanceMove,
+  leaderboardWindowStart,
 } from '../src/game/scoring';
 import type { ScoreState } from '../src/types';
 
@@ -134,6 +135,29 @@ describe('Rhythm Hit Registration', () => {
     registerRhythmHit(score, { rating: 'good', zone: 'lower-left', targetId: 3 });
     expect(score.consecutivePerfects).toBe(0);
   });
+
+  it('awards full sustain points for a completed hold', () => {
+    const points = registerRhythmHit(score, { rating: 'perfect', zone: 'lower-center', targetId: 1, sustain: 1 });
+    expect(points).toBe(200);
+    expect(score.combo).toBe(1);
+  });
+
+  it('gives partial credit for an early release and breaks the combo', () => {
+    registerRhythmHit(score, { rating: 'perfect', zone: 'lower-center', targetId: 1 });
+    const hypeBefore = score.crowdHype;
+    const points = registerRhythmHit(score, { rating: 'miss', zone: 'lower-center', targetId: 1, sustain: 0.25 });
+    expect(points).toBe(Math.round(200 * 0.25 * 1.25));
+    expect(score.crowdHype).toBe(hypeBefore + points);
+    expect(score.combo).toBe(0);
+  });
+
+  it('does not count sustain releases as hit attempts', () => {
+    registerRhythmHit(score, { rating: 'perfect', zone: 'upper-left', targetId: 1 });
+    registerRhythmHit(score, { rating: 'good', zone: 'upper-left', targetId: 1, sustain: 1 });
+    expect(score.totalHitAttempts).toBe(1);
+    expect(score.perfectHits).toBe(1);
+    expect(score.goodHits).toBe(0);
+  });
 });
 
 describe('Session Bonus', () => {
@@ -193,3 +217,22 @@ describe('Dance Move Registration', () => {
     expect(score.lastMoveId).toBeNull();
   });
 });
+
+describe('Leaderboard Windows', () => {
+  // A Thursday afternoon, UTC
+  const now = new Date('2026-10-22T15:30:00Z');
+
+  it('has no start for all-time', () => {
+    expect(leaderboardWindowStart('all-time', now)).toBeNull();
+  });
+
+  it('starts the daily board at UTC midnight', () => {
+    expect(leaderboardWindowStart('daily', now)).toBe('2026-10-22T00:00:00.000Z');
+  });
+
+  it('starts the weekly board on Monday, including on Sundays', () => {
+    expect(leaderboardWindowStart('weekly', now)).toBe('2026-10-19T00:00:00.000Z');
+    expect(leaderboardWindowStart('weekly', new Date('2026-10-25T23:59:00Z'))).toBe('2026-10-19T00:00:00.000Z');
+    expect(leaderboardWindowStart('weekly', new Date('2026-10-19T00:00:00Z'))).toBe('2026-10-19T00:00:00.000Z');
+  });
+});
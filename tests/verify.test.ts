@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { RhythmJudge } from '../src/game/judge';
+import { ReplayRecorder, INPUT_DOWN, INPUT_UP } from '../src/game/replay';
+import { simulateReplay, verifySubmission } from '../src/game/verify';
+import { ReplayData, SongDefinition } from '../src/types';
+import { makeSong } from './fixtures';
+
+// Two bars: a tap, a two-beat hold and another tap
+const SONG = makeSong({
+  id: 'verify-test',
+  barCount: 2,
+  durationSec: 4,
+  notes: [
+    { beat: 0, zone: 'upper-left' },
+    { beat: 1, zone: 'lower-center', holdBeats: 2 },
+    { beat: 4, zone: 'lower-right' },
+  ],
+});
+
+/** A run that presses every target right on time, with the replay it records */
+function perfectReplay(song: SongDefinition, skip = -1): ReplayData {
+  const judge = new RhythmJudge(song);
+  judge.start();
+  for (let beat = 0; beat < 8; beat++) judge.onBeatFired(beat);
+
+  const rec = new ReplayRecorder(song.id, 1, [0, 0], 'Tester');
+  const presses = judge.getTargets().map((t, i) => ({ t, pointerId: i + 1 })).filter((_, i) => i !== skip);
+  const events = presses.flatMap(({ t, pointerId }) => [
+    { ms: Math.round(t.hitTime * 1000), kind: INPUT_DOWN, pointerId, zone: t.zone },
+    { ms: Math.round(t.endTime * 1000) + 40, kind: INPUT_UP, pointerId, zone: t.zone },
+  ]).sort((a, b) => a.ms - b.ms);
+  for (const e of events) rec.recordInput(e.ms, e.kind, 500, 500, e.pointerId, e.zone);
+
+  const provisional = rec.finish(0);
+  const sim = simulateReplay(song, provisional);
+  return { ...provisional, score: sim.score, hits: sim.hits };
+}
+
+describe('Replay Simulation', () => {
+  it('rates on-time presses perfect, holds included', () => {
+    const song = SONG;
+    const sim = simulateReplay(song, perfectReplay(song));
+    expect(sim.perfectHits).toBe(3);
+    expect(sim.score).toBeGreaterThan(0);
+  });
+
+  it('misses targets that were never pressed', () => {
+    const song = SONG;
+    const sim = simulateReplay(song, perfectReplay(song, 0));
+    expect(sim.hits[0][1]).toBe(2); // miss
+    expect(sim.perfectHits).toBe(2);
+  });
+
+  it('gives the same result every time', () => {
+    const song = SONG;
+    const replay = perfectReplay(song);
+    expect(simulateReplay(song, replay)).toEqual(simulateReplay(song, replay));
+  });
+});
+
+describe('Score Verification', () => {
+  it('verifies a score its replay reproduces', () => {
+    const song = SONG;
+    const replay = JSON.parse(JSON.stringify(perfectReplay(song)));
+    const result = verifySubmission([song], replay, { score: replay.score });
+    expect(result.status).toBe('verified');
+  });
+
+  it('flags a score that differs from the replay', () => {
+    const song = SONG;
+    const replay = perfectReplay(song);
+    expect(verifySubmission([song], replay, { score: replay.score + 500 }).status).toBe('flagged');
+    expect(verifySubmission([song], { ...replay, score: replay.score + 500 }, { score: replay.score + 500 }).reason)
+      .toMatch(/^inputs score/);
+  });
+
+  it('flags recorded judgements the inputs do not reproduce', () => {
+    const song = SONG;
+    const honest = perfectReplay(song, 0);
+    const forged = { ...honest, hits: perfectReplay(song).hits };
+    expect(verifySubmission([song], forged, { score: forged.score }).reason).toBe('judgement #1 differs from the recorded one');
+  });
+
+  it('flags runs without a replay, on unknown songs or with stale challenges', () => {
+    const song = SONG;
+    const replay = perfectReplay(song);
+    expect(verifySubmission([song], null, { score: 100 }).reason).toBe('no replay');
+    expect(verifySubmission([], replay, { score: replay.score }).reason).toBe('unknown song "verify-test"');
+    const stale = { ...replay, challenge: '2026-01-01' };
+    expect(verifySubmission([song], stale, { score: stale.score, submittedAt: '2026-10-19T10:00:00Z' }).status).toBe('flagged');
+  });
+
+  it('flags scores filed under a different song or difficulty than the replay', () => {
+    const song = SONG;
+    const replay = perfectReplay(song);
+    expect(verifySubmission([song], replay, { score: replay.score, songId: 'verify-test', difficulty: 'easy' }).status)
+      .toBe('verified');
+    expect(verifySubmission([song], replay, { score: replay.score, songId: 'electric-surge' }).status).toBe('flagged');
+    expect(verifySubmission([song], replay, { score: replay.score, difficulty: 'hard' }).status).toBe('flagged');
+  });
+});